@@ -1,4 +1,5 @@
 import { config } from "dotenv";
+import { LOG_LEVEL_RANK, LogLevel } from "../utils/logSinks";
 
 // Load environment variables from .env file
 config();
@@ -11,9 +12,28 @@ interface EnvironmentConfig {
   polymarketApiKey?: string;
   polymarketApiSecret?: string;
   polymarketPassphrase?: string;
+  polymarketClobUrl?: string;         // default production CLOB; a local mock for tests
+  polymarketSignatureType?: number;   // 0 EOA (default), 1 proxy, 2 Gnosis Safe
+  polymarketFunderAddress?: string;   // proxy/Safe holding the funds when signatureType > 0
+  polygonRpcUrl?: string;             // on-chain redemption of winning tokens
+  polymarketAutoRedeem: boolean;      // redeem resolved winners (EOA signature type only)
   // Solana config (legacy)
   solanaPrivateKey?: string;
   solanaRpcUrl?: string;
+  tokenDiscoverySources?: string; // "dexscreener,new_pools,helius" (default: all available)
+  tokenDiscoveryRules?: string;   // per-source filter overrides, see TokenDiscoveryPipeline.parseRules
+  swapRoutes?: string;            // "jupiter,raydium,direct_pool" (default: all)
+  swapMaxSlippageBps: number;
+  swapMaxPriceImpactPct: number;
+  jupiterApiKey?: string;         // keyless lite API when unset
+  riskSimulation: boolean;        // honeypot round-trip simulation in RiskGate
+  riskSimProbeUsdc: number;       // simulated buy size; the wallet must hold it
+  riskSimMaxUnverifiedUsdc: number; // largest buy allowed when the simulation is inconclusive
+  txCommitment?: string;          // processed | confirmed (default) | finalized
+  txMaxAttempts: number;          // fresh blockhash and escalated fee each
+  txPriorityFeeBase: number;      // micro-lamports per CU on the first attempt
+  txPriorityFeeMax: number;
+  exitPricePollMs: number;        // price refresh for trailing stops and take-profits
   // Optional: External API keys
   heliusApiKey?: string;
   twitterBearerToken?: string;
@@ -26,10 +46,36 @@ interface EnvironmentConfig {
   kalshiPrivateKeyPath?: string;
   // Hyperliquid config
   hyperliquidPrivateKey?: string;
+  hyperliquidApiUrl?: string;       // default mainnet; testnet or a local mock
+  hyperliquidAccountAddress?: string; // master account when signing with an API wallet
+  // Binance futures (read by BinanceFuturesClient; the reconciler checks the account when set)
+  binanceApiKey?: string;
   // Demo wallet
   demoStartingBalance: number;
+  // Execution venues ("name:live,name:paper"; unlisted trades on paper)
+  executionExchanges?: string;
+  executionStrategies?: string;  // overrides the exchange's mode per strategy
+  // Perp/prediction divergence: delta-hedge Polymarket binaries on Hyperliquid
+  divergenceDeltaHedge: boolean;
+  // Exchange reconciliation
+  reconcileIntervalMs: number;
+  reconcileAutoHalt: boolean;    // kill switch on persistent HIGH mismatches
   // Dashboard
   dashboardPort: number;
+  controlApiTokens?: string;  // "actor:token,..." — control API disabled when unset
+  // Market-data recorder (disabled when unset)
+  recorderDir?: string;
+  // Paper sessions (demo wallet not persisted when unset)
+  paperSession?: string;
+  paperSessionDir?: string;   // local files instead of MongoDB
+  paperSessionFrom?: string;  // "name" or "name@time" to fork a new session from
+  // Logging
+  logLevel: LogLevel;
+  logFormat: "pretty" | "json"; // console output
+  logFile?: string;             // rotating JSON-lines file (disabled when unset)
+  logFileMaxBytes: number;
+  logFileMaxFiles: number;
+  logBufferSize: number;        // records kept in memory for /api/logs
 }
 
 function validateEnvironment(): EnvironmentConfig {
@@ -40,6 +86,13 @@ function validateEnvironment(): EnvironmentConfig {
     throw new Error("MONGODB_URI is not set in environment variables");
   }
 
+  const logLevel = process.env.LOG_LEVEL || "info";
+  if (!(logLevel in LOG_LEVEL_RANK)) {
+    throw new Error(`LOG_LEVEL must be one of ${Object.keys(LOG_LEVEL_RANK).join(", ")}`);
+  }
+  // A zero, negative or non-numeric size would break the ring buffer's modulo
+  const logBufferSize = Number(process.env.LOG_BUFFER_SIZE || "1000");
+
   // Validate mode-specific requirements
   if (botMode === "solana") {
     if (!process.env.SOLANA_PRIVATE_KEY) {
@@ -58,9 +111,30 @@ function validateEnvironment(): EnvironmentConfig {
     polymarketApiKey: process.env.POLYMARKET_API_KEY,
     polymarketApiSecret: process.env.POLYMARKET_API_SECRET,
     polymarketPassphrase: process.env.POLYMARKET_PASSPHRASE,
+    polymarketClobUrl: process.env.POLYMARKET_CLOB_URL,
+    polymarketSignatureType: process.env.POLYMARKET_SIGNATURE_TYPE
+      ? parseInt(process.env.POLYMARKET_SIGNATURE_TYPE, 10)
+      : undefined,
+    polymarketFunderAddress: process.env.POLYMARKET_FUNDER_ADDRESS,
+    polygonRpcUrl: process.env.POLYGON_RPC_URL,
+    polymarketAutoRedeem: process.env.POLYMARKET_AUTO_REDEEM === "true",
     // Solana (legacy)
     solanaPrivateKey: process.env.SOLANA_PRIVATE_KEY,
     solanaRpcUrl: process.env.SOLANA_RPC_URL,
+    tokenDiscoverySources: process.env.TOKEN_DISCOVERY_SOURCES,
+    tokenDiscoveryRules: process.env.TOKEN_DISCOVERY_RULES,
+    swapRoutes: process.env.SWAP_ROUTES,
+    swapMaxSlippageBps: parseInt(process.env.SWAP_MAX_SLIPPAGE_BPS || "100", 10),
+    swapMaxPriceImpactPct: parseFloat(process.env.SWAP_MAX_PRICE_IMPACT_PCT || "5"),
+    jupiterApiKey: process.env.JUPITER_API_KEY,
+    riskSimulation: process.env.RISK_SIMULATION !== "false",
+    riskSimProbeUsdc: parseFloat(process.env.RISK_SIM_PROBE_USDC || "5"),
+    riskSimMaxUnverifiedUsdc: parseFloat(process.env.RISK_SIM_MAX_UNVERIFIED_USDC || "10"),
+    txCommitment: process.env.TX_COMMITMENT,
+    txMaxAttempts: parseInt(process.env.TX_MAX_ATTEMPTS || "3", 10),
+    txPriorityFeeBase: parseInt(process.env.TX_PRIORITY_FEE_BASE || "50000", 10),
+    txPriorityFeeMax: parseInt(process.env.TX_PRIORITY_FEE_MAX || "2000000", 10),
+    exitPricePollMs: parseInt(process.env.EXIT_PRICE_POLL_MS || "3000", 10),
     // Optional keys
     heliusApiKey: process.env.HELIUS_API_KEY,
     twitterBearerToken: process.env.TWITTER_BEARER_TOKEN,
@@ -73,10 +147,36 @@ function validateEnvironment(): EnvironmentConfig {
     kalshiPrivateKeyPath: process.env.KALSHI_PRIVATE_KEY_PATH,
     // Hyperliquid
     hyperliquidPrivateKey: process.env.HYPERLIQUID_PRIVATE_KEY,
+    hyperliquidApiUrl: process.env.HYPERLIQUID_API_URL,
+    hyperliquidAccountAddress: process.env.HYPERLIQUID_ACCOUNT_ADDRESS,
+    // Binance futures
+    binanceApiKey: process.env.BINANCE_API_KEY,
     // Demo wallet
     demoStartingBalance: parseFloat(process.env.DEMO_STARTING_BALANCE || "100"),
+    // Execution venues
+    executionExchanges: process.env.EXECUTION_EXCHANGES,
+    executionStrategies: process.env.EXECUTION_STRATEGIES,
+    // Perp/prediction divergence
+    divergenceDeltaHedge: process.env.DIVERGENCE_DELTA_HEDGE === "true",
+    // Exchange reconciliation
+    reconcileIntervalMs: parseInt(process.env.RECONCILE_INTERVAL_MS || "60000", 10),
+    reconcileAutoHalt: process.env.RECONCILE_AUTO_HALT === "true",
     // Dashboard
     dashboardPort: parseInt(process.env.DASHBOARD_PORT || "3847", 10),
+    controlApiTokens: process.env.CONTROL_API_TOKENS,
+    // Recorder
+    recorderDir: process.env.RECORDER_DIR,
+    // Paper sessions
+    paperSession: process.env.PAPER_SESSION,
+    paperSessionDir: process.env.PAPER_SESSION_DIR,
+    paperSessionFrom: process.env.PAPER_SESSION_FROM,
+    // Logging
+    logLevel: logLevel as LogLevel,
+    logFormat: process.env.LOG_FORMAT === "json" ? "json" : "pretty",
+    logFile: process.env.LOG_FILE,
+    logFileMaxBytes: parseFloat(process.env.LOG_FILE_MAX_MB || "10") * 1024 * 1024,
+    logFileMaxFiles: parseInt(process.env.LOG_FILE_MAX_FILES || "5", 10),
+    logBufferSize: Number.isInteger(logBufferSize) && logBufferSize > 0 ? logBufferSize : 1000,
   };
 }
 
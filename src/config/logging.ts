@@ -0,0 +1,32 @@
+import { env } from "./environment";
+import { configureLogger } from "../utils/logger";
+import {
+  ConsoleSink,
+  ILogSink,
+  JsonStdoutSink,
+  RingBufferSink,
+  RotatingFileSink,
+} from "../utils/logSinks";
+
+/** Recent log records, served by the dashboard at /api/logs */
+export const logBuffer = new RingBufferSink(env.logBufferSize);
+
+/**
+ * Point the global logger at the sinks selected by LOG_* env vars:
+ * pretty or JSON console, an optional rotating file, and the ring buffer.
+ */
+export function setupLogging(): void {
+  const sinks: ILogSink[] = [
+    env.logFormat === "json" ? new JsonStdoutSink() : new ConsoleSink(),
+    logBuffer,
+  ];
+  if (env.logFile) {
+    sinks.push(
+      new RotatingFileSink(env.logFile, {
+        maxBytes: env.logFileMaxBytes,
+        maxFiles: env.logFileMaxFiles,
+      })
+    );
+  }
+  configureLogger({ level: env.logLevel, sinks });
+}
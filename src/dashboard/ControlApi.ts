@@ -0,0 +1,278 @@
+import http from "http";
+import crypto from "crypto";
+import { IBotControl, IControlAuditEntry } from "../types/control.types";
+import { ControlAuditModel } from "../models/ControlAudit";
+import { logger } from "../utils/logger";
+import { ILogRecord, LOG_LEVEL_RANK, LogLevel, RingBufferSink } from "../utils/logSinks";
+
+const log = logger.child("ControlAPI");
+
+const MAX_BODY_BYTES = 64 * 1024;
+const AUDIT_BUFFER_SIZE = 500;
+
+class HttpError extends Error {
+  constructor(readonly status: number, message: string) {
+    super(message);
+  }
+}
+
+type Handler = (params: Record<string, string>, body: any) => Promise<unknown> | unknown;
+
+interface Route {
+  method: string;
+  pattern: RegExp;
+  keys: string[];
+  action: string | null; // audit action name; null = read-only
+  handler: Handler;
+}
+
+/**
+ * Authenticated REST control API, mounted by DashboardServer under /api.
+ *
+ *   GET   /api/status                      paused, kill switch, equity, strategies
+ *   POST  /api/pause | /api/resume
+ *   GET   /api/strategies
+ *   POST  /api/strategies/:id/enable | /disable
+ *   POST  /api/flatten                     { reason? }
+ *   POST  /api/kill-switch                 { reason }
+ *   POST  /api/kill-switch/reset
+ *   GET   /api/risk-limits
+ *   PATCH /api/risk-limits                 { hft?: {...}, polymarket?: {...} }
+ *   GET   /api/orders
+ *   GET   /api/audit?limit=100
+ *   GET   /api/logs?limit=&level=&module=&correlationId=&since=
+ *
+ * Requests carry `Authorization: Bearer <token>`; each token maps to an
+ * actor name (CONTROL_API_TOKENS="alice:<token>,bob:<token>"). Every
+ * mutating call — accepted or failed — is written to the audit log.
+ */
+export class ControlApi {
+  private control: IBotControl;
+  private tokens: Map<string, string>; // sha256(token) → actor
+  private routes: Route[] = [];
+  private recentAudit: IControlAuditEntry[] = [];
+  private logs?: RingBufferSink;
+
+  constructor(control: IBotControl, tokens: Map<string, string>, logs?: RingBufferSink) {
+    this.control = control;
+    this.logs = logs;
+    this.tokens = new Map([...tokens].map(([token, actor]) => [digest(token), actor]));
+
+    this.route("GET", "/api/status", null, () => this.control.getStatus());
+    this.route("POST", "/api/pause", "pause", () => {
+      this.control.pause();
+      return this.control.getStatus();
+    });
+    this.route("POST", "/api/resume", "resume", () => {
+      this.control.resume();
+      return this.control.getStatus();
+    });
+    this.route("GET", "/api/strategies", null, () => this.control.getStatus().strategies);
+    this.route("POST", "/api/strategies/:id/enable", "strategy.enable", (p) =>
+      this.control.setStrategyEnabled(p.id, true)
+    );
+    this.route("POST", "/api/strategies/:id/disable", "strategy.disable", (p) =>
+      this.control.setStrategyEnabled(p.id, false)
+    );
+    this.route("POST", "/api/flatten", "flatten", (_p, body) =>
+      this.control.flatten(typeof body.reason === "string" ? body.reason : "operator_flatten")
+    );
+    this.route("POST", "/api/kill-switch", "kill_switch.trigger", (_p, body) => {
+      if (typeof body.reason !== "string" || !body.reason.trim()) {
+        throw new HttpError(400, "A reason is required to trigger the kill switch");
+      }
+      return this.control.triggerKillSwitch(body.reason.trim());
+    });
+    this.route("POST", "/api/kill-switch/reset", "kill_switch.reset", () => {
+      this.control.resetKillSwitch();
+      return this.control.getStatus();
+    });
+    this.route("GET", "/api/risk-limits", null, () => this.control.getRiskLimits());
+    this.route("PATCH", "/api/risk-limits", "risk_limits.update", (_p, body) =>
+      this.control.updateRiskLimits({ hft: body.hft, polymarket: body.polymarket })
+    );
+    this.route("GET", "/api/orders", null, () => this.control.getOpenOrders());
+    this.route("GET", "/api/audit", null, (p) => this.getAudit(parseInt(p.limit || "100", 10)));
+    this.route("GET", "/api/logs", null, (p) => this.getLogs(p));
+  }
+
+  /**
+   * Parse "actor:token,actor:token" (CONTROL_API_TOKENS).
+   */
+  static parseTokens(spec?: string): Map<string, string> {
+    const tokens = new Map<string, string>();
+    if (!spec) return tokens;
+    for (const entry of spec.split(",").map((e) => e.trim()).filter(Boolean)) {
+      const sep = entry.indexOf(":");
+      if (sep <= 0 || sep === entry.length - 1) {
+        throw new Error(`Invalid control API token entry (expected actor:token): ${entry.slice(0, 12)}...`);
+      }
+      tokens.set(entry.slice(sep + 1), entry.slice(0, sep));
+    }
+    return tokens;
+  }
+
+  isEnabled(): boolean {
+    return this.tokens.size > 0;
+  }
+
+  /** Handle an /api request end to end */
+  async handle(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    const url = new URL(req.url || "/", "http://localhost");
+    const ip = req.socket.remoteAddress;
+    let actor = "anonymous";
+    let route: Route | undefined;
+    let params: Record<string, string> = {};
+    let body: any = {};
+
+    try {
+      if (!this.isEnabled()) throw new HttpError(503, "Control API disabled (CONTROL_API_TOKENS not set)");
+
+      const authed = this.authenticate(req.headers.authorization);
+      if (!authed) throw new HttpError(401, "Unauthorized");
+      actor = authed;
+
+      for (const candidate of this.routes) {
+        const match = candidate.pattern.exec(url.pathname);
+        if (!match || candidate.method !== req.method) continue;
+        route = candidate;
+        params = Object.fromEntries(url.searchParams);
+        candidate.keys.forEach((key, i) => (params[key] = decodeURIComponent(match[i + 1])));
+        break;
+      }
+      if (!route) {
+        const known = this.routes.some((r) => r.pattern.test(url.pathname));
+        throw new HttpError(known ? 405 : 404, known ? "Method not allowed" : "Not found");
+      }
+
+      if (req.method !== "GET") body = await readJsonBody(req);
+      const result = await route.handler(params, body);
+
+      if (route.action) this.audit({ actor, action: route.action, params: auditParams(params, body), ok: true, ip });
+      sendJson(res, 200, { ok: true, result });
+    } catch (err: any) {
+      const status = err instanceof HttpError ? err.status : 400;
+      if (route?.action) {
+        this.audit({ actor, action: route.action, params: auditParams(params, body), ok: false, detail: err.message, ip });
+      } else if (status === 401 && req.method !== "GET") {
+        this.audit({ actor, action: `${req.method} ${url.pathname}`, ok: false, detail: "unauthorized", ip });
+      }
+      sendJson(res, status, { ok: false, error: err.message });
+    }
+  }
+
+  private route(method: string, path: string, action: string | null, handler: Handler): void {
+    const keys: string[] = [];
+    const pattern = new RegExp(
+      "^" + path.replace(/:(\w+)/g, (_m, key) => {
+        keys.push(key);
+        return "([^/]+)";
+      }) + "$"
+    );
+    this.routes.push({ method, pattern, keys, action, handler });
+  }
+
+  private authenticate(header?: string): string | null {
+    const match = header?.match(/^Bearer\s+(.+)$/i);
+    if (!match) return null;
+    const presented = Buffer.from(digest(match[1].trim()), "hex");
+    for (const [hash, actor] of this.tokens) {
+      if (crypto.timingSafeEqual(presented, Buffer.from(hash, "hex"))) return actor;
+    }
+    return null;
+  }
+
+  private audit(entry: Omit<IControlAuditEntry, "timestamp">): void {
+    const record: IControlAuditEntry = { timestamp: Date.now(), ...entry };
+    this.recentAudit.push(record);
+    if (this.recentAudit.length > AUDIT_BUFFER_SIZE) this.recentAudit.shift();
+
+    log.warning(
+      `${record.actor} ${record.action} ${record.ok ? "OK" : `FAILED: ${record.detail}`}` +
+      (record.params ? ` ${JSON.stringify(record.params)}` : "")
+    );
+    ControlAuditModel.create({ ...record, timestamp: new Date(record.timestamp) }).catch((err) =>
+      log.error("Failed to persist audit entry:", err)
+    );
+  }
+
+  /** Recent log records from the in-memory buffer (level = minimum level) */
+  private getLogs(p: Record<string, string>): ILogRecord[] {
+    if (!this.logs) throw new HttpError(503, "Log buffer not configured");
+    if (p.level && !(p.level in LOG_LEVEL_RANK)) {
+      throw new HttpError(400, `level must be one of ${Object.keys(LOG_LEVEL_RANK).join(", ")}`);
+    }
+    const limit = parseInt(p.limit || "200", 10);
+    const since = p.since ? (/^\d+$/.test(p.since) ? parseInt(p.since, 10) : Date.parse(p.since)) : undefined;
+    return this.logs.query({
+      level: p.level as LogLevel | undefined,
+      module: p.module,
+      correlationId: p.correlationId,
+      since: since !== undefined && !isNaN(since) ? since : undefined,
+      limit: Math.min(Math.max(isNaN(limit) ? 200 : limit, 1), 1000),
+    });
+  }
+
+  /** Persisted log when MongoDB is reachable, this process's entries otherwise */
+  private async getAudit(limit: number): Promise<IControlAuditEntry[]> {
+    const n = Math.min(Math.max(isNaN(limit) ? 100 : limit, 1), 1000);
+    try {
+      const docs = await ControlAuditModel.find({}).sort({ timestamp: -1 }).limit(n).lean().exec();
+      return docs.map((d) => ({
+        timestamp: d.timestamp.getTime(),
+        actor: d.actor,
+        action: d.action,
+        params: d.params,
+        ok: d.ok,
+        detail: d.detail,
+        ip: d.ip,
+      }));
+    } catch {
+      return this.recentAudit.slice(-n).reverse();
+    }
+  }
+}
+
+function digest(token: string): string {
+  return crypto.createHash("sha256").update(token).digest("hex");
+}
+
+function auditParams(params: Record<string, string>, body: any): unknown {
+  const merged = { ...params, ...(body && typeof body === "object" ? body : {}) };
+  return Object.keys(merged).length > 0 ? merged : undefined;
+}
+
+function readJsonBody(req: http.IncomingMessage): Promise<any> {
+  return new Promise((resolve, reject) => {
+    let size = 0;
+    const chunks: Buffer[] = [];
+    req.on("data", (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        reject(new HttpError(413, "Request body too large"));
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on("end", () => {
+      const raw = Buffer.concat(chunks).toString("utf8").trim();
+      if (!raw) return resolve({});
+      try {
+        const parsed = JSON.parse(raw);
+        if (typeof parsed !== "object" || parsed === null || Array.isArray(parsed)) {
+          return reject(new HttpError(400, "Body must be a JSON object"));
+        }
+        resolve(parsed);
+      } catch {
+        reject(new HttpError(400, "Invalid JSON body"));
+      }
+    });
+    req.on("error", reject);
+  });
+}
+
+function sendJson(res: http.ServerResponse, status: number, data: unknown): void {
+  res.writeHead(status, { "Content-Type": "application/json", "Cache-Control": "no-store" });
+  res.end(JSON.stringify(data));
+}
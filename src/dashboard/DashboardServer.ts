@@ -7,7 +7,9 @@ import { PerformanceTracker } from "../polymarket/PerformanceTracker";
 import { MultiExchangeTickEngine } from "../exchange/MultiExchangeTickEngine";
 import { HFTTickEngine } from "../polymarket/HFTTickEngine";
 import { DashboardPayloadBuilder } from "./DashboardPayloadBuilder";
+import { ControlApi } from "./ControlApi";
 import { logger } from "../utils/logger";
+import { metrics } from "../utils/metrics";
 
 export class DashboardServer {
   private httpServer: http.Server | null = null;
@@ -16,13 +18,15 @@ export class DashboardServer {
   private payloadBuilder: DashboardPayloadBuilder;
   private port: number;
   private startTime: number = 0;
+  private controlApi: ControlApi | null;
 
   constructor(
     demoWallet: DemoWallet,
     perfTracker: PerformanceTracker,
     multiExchangeEngine: MultiExchangeTickEngine,
     hftEngine: HFTTickEngine,
-    port = 3847
+    port = 3847,
+    controlApi?: ControlApi
   ) {
     this.payloadBuilder = new DashboardPayloadBuilder(
       demoWallet,
@@ -31,6 +35,7 @@ export class DashboardServer {
       hftEngine
     );
     this.port = port;
+    this.controlApi = controlApi || null;
   }
 
   async start(): Promise<void> {
@@ -52,6 +57,19 @@ export class DashboardServer {
       } else if (req.url === "/health") {
         res.writeHead(200, { "Content-Type": "application/json" });
         res.end(JSON.stringify({ status: "ok", uptime: Date.now() - this.startTime }));
+      } else if (req.url === "/metrics") {
+        metrics
+          .render()
+          .then((text) => {
+            res.writeHead(200, { "Content-Type": "text/plain; version=0.0.4; charset=utf-8" });
+            res.end(text);
+          })
+          .catch((err) => {
+            res.writeHead(500);
+            res.end(`Error rendering metrics: ${err.message}`);
+          });
+      } else if (this.controlApi && req.url?.startsWith("/api/")) {
+        this.controlApi.handle(req, res);
       } else {
         res.writeHead(404);
         res.end("Not found");
@@ -1,41 +1,60 @@
-import { VersionedTransaction } from "@solana/web3.js";
-import { SwapService } from "../services/SwapService";
+import { IPosition } from "../models/Position";
 import { WalletService } from "../services/WalletService";
 import { JitoClient } from "../external/JitoClient";
-import { IAggregatedSignal, IRiskAssessment } from "../types/strategy.types";
-import { UltraSwapRequest, UltraSwapResponse } from "../types/types";
+import { IAggregatedSignal, IExitOrder, IRiskAssessment } from "../types/strategy.types";
+import { SwapQuoteRouter } from "../services/routing/SwapQuoteRouter";
+import { ISwapRouteDecision, ISwapRouteRecord } from "../types/routing.types";
+import { ITxOutcome, TxOutcomeStatus } from "../types/transaction.types";
 import { USDC_MINT_ADDRESS } from "../utils/constants";
 import { logger } from "../utils/logger";
+import { orderLatency, recordOrderResult } from "../utils/metrics";
 import { PositionManager } from "./PositionManager";
+import {
+  TransactionLifecycleManager,
+  TransactionLifecycleOptions,
+} from "./TransactionLifecycleManager";
+
+const log = logger.child("Execution");
+
+const TIP_LAMPORTS = { low: 10000, medium: 25000, high: 50000 };
 
 export class ExecutionEngine {
   private walletService: WalletService;
   private jitoClient: JitoClient | null = null;
   private positionManager: PositionManager;
-  private mevProtectionEnabled: boolean = true;
+  private router: SwapQuoteRouter;
+  private lifecycle: TransactionLifecycleManager;
 
   constructor(
     walletService: WalletService,
     positionManager: PositionManager,
-    jitoBlockEngineUrl?: string
+    router: SwapQuoteRouter,
+    jitoBlockEngineUrl?: string,
+    lifecycleOptions?: TransactionLifecycleOptions
   ) {
     this.walletService = walletService;
     this.positionManager = positionManager;
+    this.router = router;
     if (jitoBlockEngineUrl) {
       this.jitoClient = new JitoClient(
         jitoBlockEngineUrl,
         process.env.SOLANA_RPC_URL || ""
       );
     }
+    this.lifecycle = new TransactionLifecycleManager(
+      walletService.getConnection(),
+      walletService.getWallet(),
+      this.jitoClient,
+      lifecycleOptions
+    );
   }
 
   async initialize(): Promise<void> {
-    logger.info("ExecutionEngine initialized");
+    log.info("ExecutionEngine initialized");
     if (this.jitoClient) {
-      logger.info("MEV protection via Jito enabled");
+      log.info("MEV protection via Jito enabled");
     } else {
-      logger.warning("Jito not configured - MEV protection disabled");
-      this.mevProtectionEnabled = false;
+      log.warning("Jito not configured - MEV protection disabled");
     }
   }
 
@@ -49,52 +68,61 @@ export class ExecutionEngine {
   ): Promise<string | null> {
     const owner = this.walletService.getPublicKey().toString();
     const tokenAmount = Math.floor(positionSizeUsdc * 10 ** 6);
+    const decimals = await this.getDecimals(signal.tokenAddress);
+    if (decimals === null) return null;
 
-    const request: UltraSwapRequest = {
+    const decision = await this.router.route({
       inputMint: USDC_MINT_ADDRESS,
       outputMint: signal.tokenAddress,
       amount: tokenAmount.toString(),
       taker: owner,
-      swapMode: "ExactIn",
-    };
-
-    const swapResponse = await SwapService.getUltraSwap(request);
-    if (swapResponse?.errorMessage || !swapResponse?.transaction) {
-      logger.error(
-        `Buy execution failed for ${signal.tokenAddress}:`,
-        swapResponse?.errorMessage || "No transaction"
-      );
+    });
+    if (!decision) {
+      log.error(`Buy execution failed for ${signal.tokenAddress}: no route within slippage policy`);
       return null;
     }
 
     // Execute through MEV protection or direct
-    const signature = await this.executeTransaction(
-      swapResponse.transaction,
+    const outcome = await this.executeTransaction(
+      decision.transaction,
+      "buy",
       "medium"
     );
+    const signature = outcome?.status === "landed" ? outcome.signature! : null;
+    if (!outcome) {
+      log.error(`Buy for ${signal.tokenAddress} not sent: submission error`);
+      return null;
+    }
+
+    // Every sent buy is kept: an unknown one as pending until its signature
+    // settles (it may hold tokens), one that did not land as failed
+    const status = signature ? "open" : outcome.status === "unknown" ? "pending" : "failed";
+    // Entry at the quoted fill, in USDC per whole token
+    const amount = Number(decision.quote.outAmount) / 10 ** decimals;
+    const avgBuyPrice = Number(decision.quote.inAmount) / 10 ** 6 / amount;
+
+    await this.positionManager.openSignalPosition(
+      signal,
+      riskAssessment,
+      {
+        tokenAddress: signal.tokenAddress,
+        decimals,
+        amount,
+        avgBuyPrice,
+        signature: signature ?? undefined,
+        route: outcome.signature ? toRouteRecord("buy", decision, outcome.signature) : undefined,
+        txOutcome: outcome,
+        status,
+      }
+    );
 
     if (signature) {
-      // Open position with strategy attribution
-      const priceData = await new SwapService().getTokenPrice([
-        signal.tokenAddress,
-      ]);
-      const currentPrice = priceData?.prices?.[signal.tokenAddress] || 0;
-
-      await this.positionManager.openSignalPosition(
-        signal,
-        riskAssessment,
-        {
-          tokenAddress: signal.tokenAddress,
-          amount:
-            Number(swapResponse.outAmount) /
-            10 ** 6, // Will need actual decimals
-          avgBuyPrice: currentPrice,
-          signature,
-        }
+      log.success(
+        `BUY executed: ${signal.tokenAddress} via ${decision.quote.route} | score: ${signal.compositeScore.toFixed(2)} | strategies: ${signal.contributingSignals.map((s) => s.strategyId).join(", ")}`
       );
-
-      logger.success(
-        `BUY executed: ${signal.tokenAddress} | score: ${signal.compositeScore.toFixed(2)} | strategies: ${signal.contributingSignals.map((s) => s.strategyId).join(", ")}`
+    } else {
+      log.error(
+        `Buy for ${signal.tokenAddress} ${outcome.status}${outcome.signature ? ` (${outcome.signature})` : ""}: ${outcome.error ?? "no error reported"}${status === "pending" ? " | held as pending" : ""}`
       );
     }
 
@@ -102,116 +130,179 @@ export class ExecutionEngine {
   }
 
   /**
-   * Execute a sell for a position.
+   * Settle buys whose outcome was unknown once their signature is final:
+   * a landed one becomes an open position, anything else is marked failed.
+   */
+  async resolvePendingBuys(): Promise<void> {
+    try {
+      for (const position of await this.positionManager.getPendingBuys()) {
+        const outcomes = position.toObject<IPosition>().txOutcomes || [];
+        const pending = outcomes[outcomes.length - 1];
+        if (!pending) continue;
+        const outcome = await this.lifecycle.resolve(pending);
+        if (outcome.status === "unknown") continue;
+
+        await this.positionManager.settlePendingBuy(String(position._id), outcome);
+        if (outcome.status === "landed") {
+          log.success(`Pending BUY landed: ${position.tokenAddress} (${outcome.signature}) | position opened`);
+        } else {
+          log.warning(`Pending BUY ${outcome.status}: ${position.tokenAddress} (${outcome.signature}) | marked failed`);
+        }
+      }
+    } catch (err) {
+      log.error("Pending buy resolution failed:", err);
+    }
+  }
+
+  /**
+   * Execute a sell for a position: the whole of it, or one partial leg.
+   * Returns the transaction outcome (null when nothing was sent). A sell
+   * whose outcome is unknown may still land: its leg is kept pending on
+   * the position for resolvePendingSell, and must not be sold again.
    */
   async executeSell(
     tokenAddress: string,
     amount: number,
     positionId: string,
-    avgBuyPrice: number
-  ): Promise<string | null> {
+    avgBuyPrice: number,
+    order: IExitOrder
+  ): Promise<ITxOutcome | null> {
     const owner = this.walletService.getPublicKey().toString();
+    const decimals = await this.getDecimals(tokenAddress);
+    if (decimals === null) return null;
 
-    const request: UltraSwapRequest = {
+    // Positions hold whole tokens; the swap takes raw units
+    const decision = await this.router.route({
       inputMint: tokenAddress,
       outputMint: USDC_MINT_ADDRESS,
-      amount: amount.toString(),
+      amount: Math.floor(amount * 10 ** decimals).toString(),
       taker: owner,
-      swapMode: "ExactIn",
-    };
-
-    const swapResponse = await SwapService.getUltraSwap(request);
-    if (swapResponse?.errorMessage || !swapResponse?.transaction) {
-      logger.error(
-        `Sell execution failed for ${tokenAddress}:`,
-        swapResponse?.errorMessage || "No transaction"
-      );
+    });
+    if (!decision) {
+      log.error(`Sell execution failed for ${tokenAddress}: no route within slippage policy`);
       return null;
     }
 
-    const signature = await this.executeTransaction(
-      swapResponse.transaction,
+    const outcome = await this.executeTransaction(
+      decision.transaction,
+      "sell",
       "high" // Higher priority for sells
     );
+    if (!outcome) {
+      log.error(`Sell for ${tokenAddress} not sent: submission error`);
+      return null;
+    }
 
-    if (signature) {
-      const sellPrice =
-        swapResponse.outUsdValue /
-        Number(swapResponse.inAmount) /
-        10 ** 6;
-      const pnl =
-        ((sellPrice - avgBuyPrice) / avgBuyPrice) * 100;
-
-      await this.positionManager.closePosition(
-        positionId,
-        pnl,
-        sellPrice,
-        signature
-      );
+    if (outcome.status === "failed" || outcome.status === "expired") {
+      // The position stays open; keep the failed attempt on it
+      log.error(`Sell for ${tokenAddress} ${outcome.status}: ${outcome.error ?? "no error reported"}`);
+      await this.positionManager.recordTxOutcome(positionId, outcome);
+      return outcome;
+    }
 
-      logger.success(
-        `SELL executed: ${tokenAddress} | PnL: ${pnl.toFixed(2)}%`
-      );
+    // USDC out per whole token in, comparable with the entry price
+    const sold = Number(decision.quote.inAmount) / 10 ** decimals;
+    const sellPrice = Number(decision.quote.outAmount) / 10 ** 6 / sold;
+    const pnl =
+      ((sellPrice - avgBuyPrice) / avgBuyPrice) * 100;
+    const signature = outcome.signature!;
+    const leg = {
+      reason: order.reason,
+      level: order.level,
+      amount: sold,
+      price: sellPrice,
+      pnlPct: pnl,
+      signature,
+      timestamp: new Date(),
+    };
+    const route = toRouteRecord("sell", decision, signature);
+
+    if (outcome.status === "unknown") {
+      log.error(`Sell for ${tokenAddress} unknown (${signature}): ${outcome.error ?? "no error reported"} | held as pending`);
+      await this.positionManager.recordPendingExit(positionId, { leg, final: order.final }, route, outcome);
+      return outcome;
     }
 
-    return signature;
+    await this.positionManager.recordExitLeg(positionId, leg, order.final, route, outcome);
+    log.success(
+      `SELL${order.final ? "" : " (partial)"} executed: ${tokenAddress} via ${decision.quote.route} | ${order.reason} | PnL: ${pnl.toFixed(2)}%`
+    );
+    return outcome;
   }
 
   /**
-   * Execute a transaction with optional MEV protection.
+   * Settle a position's pending sell from its signature's final status:
+   * landed books the leg, failed or expired drops it. Returns the status,
+   * "unknown" while it cannot be told yet, or null with nothing pending.
    */
-  private async executeTransaction(
-    txBase64: string,
-    priority: "low" | "medium" | "high"
-  ): Promise<string | null> {
+  async resolvePendingSell(positionId: string): Promise<TxOutcomeStatus | null> {
+    const position = await this.positionManager.getPosition(positionId);
+    const { pendingExit, txOutcomes = [] } = position?.toObject<IPosition>() ?? {};
+    if (!pendingExit) return null;
+    const pending = txOutcomes.find((o) => o.signature === pendingExit.leg.signature);
+    if (!pending) return null;
+
+    const outcome = await this.lifecycle.resolve(pending);
+    if (outcome.status === "unknown") return "unknown";
+
+    await this.positionManager.settlePendingExit(positionId, outcome);
+    if (outcome.status === "landed") {
+      log.success(`Pending SELL landed: ${position!.tokenAddress} (${outcome.signature}) | ${pendingExit.leg.reason} booked`);
+    } else {
+      log.warning(`Pending SELL ${outcome.status}: ${position!.tokenAddress} (${outcome.signature}) | position unchanged`);
+    }
+    return outcome.status;
+  }
+
+  /** The mint's decimals, or null (logged) when the mint cannot be read */
+  private async getDecimals(tokenAddress: string): Promise<number | null> {
     try {
-      if (this.mevProtectionEnabled && this.jitoClient) {
-        return await this.executeViaJito(txBase64, priority);
-      }
-      return await this.executeDirect(txBase64);
+      return await this.walletService.getTokenDecimals(tokenAddress);
     } catch (err) {
-      logger.error("Transaction execution error:", err);
+      log.error(`Cannot read decimals for ${tokenAddress}:`, err);
       return null;
     }
   }
 
-  private async executeViaJito(
+  /**
+   * Land a transaction, via Jito first when configured. Null only when
+   * it could not be prepared or sent at all.
+   */
+  private async executeTransaction(
     txBase64: string,
+    side: "buy" | "sell",
     priority: "low" | "medium" | "high"
-  ): Promise<string | null> {
-    const tipLamports =
-      priority === "high"
-        ? 50000
-        : priority === "medium"
-        ? 25000
-        : 10000;
-
-    const txBuf = Buffer.from(txBase64, "base64");
-    const tx = VersionedTransaction.deserialize(txBuf);
-    tx.sign([this.walletService.getWallet()]);
-
-    // Add tip instruction would require modifying the transaction
-    // For now, submit the signed tx as a Jito bundle
-    const result = await this.jitoClient!.sendAndConfirm(
-      [tx],
-      tipLamports
-    );
-
-    if (result.status === "accepted" && result.signature) {
-      return result.signature;
-    }
-
-    // Fallback to direct execution
-    logger.warning("Jito bundle failed, falling back to direct execution");
-    return await this.executeDirect(txBase64);
-  }
-
-  private async executeDirect(txBase64: string): Promise<string | null> {
+  ): Promise<ITxOutcome | null> {
     try {
-      return await this.walletService.executeSwap(txBase64);
+      const outcome = await this.lifecycle.submit(txBase64, side, TIP_LAMPORTS[priority]);
+      orderLatency.observe(outcome.latencyMs / 1000, { venue: "solana" });
+      recordOrderResult("solana", outcome.status === "landed", outcome.error);
+      return outcome;
     } catch (err) {
-      logger.error("Direct execution error:", err);
+      log.error("Transaction execution error:", err);
+      recordOrderResult("solana", false, (err as Error)?.message);
       return null;
     }
   }
 }
+
+function toRouteRecord(
+  side: "buy" | "sell",
+  decision: ISwapRouteDecision,
+  signature: string
+): ISwapRouteRecord {
+  const { quote } = decision;
+  return {
+    side,
+    route: quote.route,
+    label: quote.label,
+    inAmount: quote.inAmount,
+    outAmount: quote.outAmount,
+    minOutAmount: quote.minOutAmount,
+    slippageBps: quote.slippageBps,
+    priceImpactPct: quote.priceImpactPct,
+    signature,
+    candidates: decision.candidates,
+    timestamp: new Date(),
+  };
+}
@@ -0,0 +1,341 @@
+import { IPosition } from "../models/Position";
+import { PositionService } from "../services/PositionService";
+import { TokenPriceStream } from "../services/TokenPriceStream";
+import {
+  ExitReason,
+  IAggregatedSignal,
+  IExitOrder,
+  IExitState,
+  IExitStrategy,
+} from "../types/strategy.types";
+import { ITxOutcome, TxOutcomeStatus } from "../types/transaction.types";
+import { logger, withCorrelationId } from "../utils/logger";
+import { exitLegs } from "../utils/metrics";
+
+const log = logger.child("ExitEngine");
+
+export interface ExitEngineOptions {
+  syncIntervalMs?: number;   // default 15s — picks up new positions, fires time exits without a price
+  retryCooldownMs?: number;  // default 30s — after a sell that did not land
+}
+
+/** Positions opened before exit strategies were stored keep the old fixed rules */
+const LEGACY_EXIT_STRATEGY: IExitStrategy = { takeProfitPct: 30, stopLossPct: 25, timeoutMinutes: 120 };
+
+/** A remainder below this share of the opening amount goes with the partial leg */
+const DUST_FRACTION = 0.001;
+
+interface TrackedPosition {
+  id: string;
+  tokenAddress: string;
+  correlationId?: string;
+  avgBuyPrice: number;
+  amount: number;           // still held
+  openingAmount: number;
+  openedAt: number;
+  plan: IExitStrategy;
+  state: IExitState;
+  filledLevels: Set<number>;
+  lastPrice?: number;
+  persistedHighWater: number;
+  busy: boolean;            // a sell is in flight
+  retryAfter: number;
+  pendingSell?: { order: IExitOrder; amount: number }; // sent, outcome unknown: nothing else sells until it settles
+}
+
+interface ExitDecision {
+  order: IExitOrder;
+  amount: number;
+  detail: string;
+}
+
+/**
+ * Evaluates every open Solana position on each price tick: stop-loss,
+ * break-even and trailing stops (the highest binds), scaled partial
+ * take-profits, a full take-profit when nothing trails, and time exits.
+ * One sell per position is in flight at a time; the engine's view of
+ * the held amount is updated as legs land, and the trail and break-even
+ * progress is persisted so a restart resumes it. A sell whose outcome is
+ * unknown is never retried: the position waits until its signature
+ * settles, then books the leg or goes back to normal.
+ */
+export class ExitEngine {
+  private stream: TokenPriceStream;
+  private executeSell: (
+    tokenAddress: string,
+    amount: number,
+    positionId: string,
+    avgBuyPrice: number,
+    order: IExitOrder
+  ) => Promise<ITxOutcome | null>;
+  private resolveSell: (positionId: string) => Promise<TxOutcomeStatus | null>;
+  private positions: Map<string, TrackedPosition> = new Map();
+  private unpriced: Set<string> = new Set(); // positions without an entry price, warned about once
+  private syncIntervalMs: number;
+  private retryCooldownMs: number;
+  private handle: NodeJS.Timeout | null = null;
+  private syncing = false;
+
+  constructor(
+    stream: TokenPriceStream,
+    executeSell: ExitEngine["executeSell"],
+    resolveSell: ExitEngine["resolveSell"],
+    options: ExitEngineOptions = {}
+  ) {
+    this.stream = stream;
+    this.executeSell = executeSell;
+    this.resolveSell = resolveSell;
+    this.syncIntervalMs = options.syncIntervalMs ?? 15_000;
+    this.retryCooldownMs = options.retryCooldownMs ?? 30_000;
+    this.stream.onPrice((token, price) => this.onPrice(token, price));
+  }
+
+  async start(): Promise<void> {
+    await this.sync();
+    this.stream.start();
+    this.handle = setInterval(() => this.sync(), this.syncIntervalMs);
+    log.info(`Watching ${this.positions.size} open positions`);
+  }
+
+  stop(): void {
+    if (this.handle) clearInterval(this.handle);
+    this.handle = null;
+    this.stream.stop();
+  }
+
+  /**
+   * Sell the whole position on an aggregated exit signal.
+   */
+  async exitOnSignal(signal: IAggregatedSignal): Promise<void> {
+    const find = () => [...this.positions.values()].find((p) => p.tokenAddress === signal.tokenAddress);
+    if (!find()) await this.sync();
+    const tracked = find();
+    if (!tracked) return;
+
+    await this.execute(tracked, {
+      order: { reason: "signal", final: true },
+      amount: tracked.amount,
+      detail: `score ${signal.compositeScore.toFixed(2)} | strategies: ${signal.contributingSignals.map((s) => s.strategyId).join(", ")}`,
+    });
+  }
+
+  /** Track newly opened positions, drop ones closed elsewhere, settle pending sells and check time exits */
+  private async sync(): Promise<void> {
+    if (this.syncing) return;
+    this.syncing = true;
+    try {
+      const open = await PositionService.getOpenPositions();
+      const ids = new Set(open.map((p) => String(p._id)));
+      for (const tracked of this.positions.values()) {
+        if (!ids.has(tracked.id) && !tracked.busy) this.untrack(tracked);
+      }
+      for (const pos of open) {
+        if (!this.positions.has(String(pos._id))) this.track(pos);
+      }
+      for (const id of this.unpriced) {
+        if (!ids.has(id)) this.unpriced.delete(id);
+      }
+      for (const tracked of this.positions.values()) {
+        if (tracked.pendingSell) void this.settle(tracked);
+        else this.evaluate(tracked);
+      }
+    } catch (err) {
+      log.error("Position sync failed:", err);
+    } finally {
+      this.syncing = false;
+    }
+  }
+
+  private track(pos: IPosition): void {
+    // PnL against a zero entry is infinite: every target fires and the stop never does
+    if (!(pos.avgBuyPrice > 0) || !isFinite(pos.avgBuyPrice)) {
+      const id = String(pos._id);
+      if (!this.unpriced.has(id)) {
+        this.unpriced.add(id);
+        log.warning(`${pos.tokenAddress} has no entry price; not managing its exits`);
+      }
+      return;
+    }
+    const { exitStrategy, exitState, exitLegs: legs = [], pendingExit } = pos.toObject<IPosition>();
+    const state: IExitState = exitState ?? {
+      highWaterPrice: pos.avgBuyPrice,
+      breakEvenArmed: false,
+      trailingActive: false,
+    };
+    this.positions.set(String(pos._id), {
+      id: String(pos._id),
+      tokenAddress: pos.tokenAddress,
+      correlationId: pos.correlationId,
+      avgBuyPrice: pos.avgBuyPrice,
+      amount: pos.amount,
+      openingAmount: pos.amount + legs.reduce((sum, l) => sum + l.amount, 0),
+      openedAt: new Date(pos.openTimestamp).getTime(),
+      plan: exitStrategy ?? LEGACY_EXIT_STRATEGY,
+      state,
+      filledLevels: new Set(
+        legs.filter((l) => l.reason === "take_profit" && l.level !== undefined).map((l) => l.level!)
+      ),
+      persistedHighWater: state.highWaterPrice,
+      busy: false,
+      retryAfter: 0,
+      pendingSell: pendingExit && {
+        order: { reason: pendingExit.leg.reason, level: pendingExit.leg.level, final: pendingExit.final },
+        amount: pendingExit.leg.amount,
+      },
+    });
+    this.stream.watch(pos.tokenAddress);
+  }
+
+  private untrack(tracked: TrackedPosition): void {
+    if (this.positions.delete(tracked.id)) this.stream.unwatch(tracked.tokenAddress);
+  }
+
+  private onPrice(tokenAddress: string, price: number): void {
+    for (const tracked of this.positions.values()) {
+      if (tracked.tokenAddress !== tokenAddress) continue;
+      tracked.lastPrice = price;
+      this.observe(tracked, price);
+      this.evaluate(tracked);
+    }
+  }
+
+  /** Advance the high-water mark and arm break-even and the trail */
+  private observe(tracked: TrackedPosition, price: number): void {
+    const { plan, state } = tracked;
+    const pnl = PositionService.calculatePnL(tracked.avgBuyPrice, price);
+    let armed = false;
+
+    if (price > state.highWaterPrice) state.highWaterPrice = price;
+    if (plan.breakEvenAtPct !== undefined && !state.breakEvenArmed && pnl >= plan.breakEvenAtPct) {
+      state.breakEvenArmed = true;
+      armed = true;
+      log.info(`${tracked.tokenAddress} at ${pnl.toFixed(2)}%: stop moved to break-even`);
+    }
+    const activation = plan.trailingStopActivatedAt ?? plan.partialTakeProfits?.[0]?.pnlPct ?? 0;
+    if (plan.trailingStopPct && !state.trailingActive && pnl >= activation) {
+      state.trailingActive = true;
+      armed = true;
+      log.info(`${tracked.tokenAddress} at ${pnl.toFixed(2)}%: ${plan.trailingStopPct}% trailing stop armed`);
+    }
+
+    // While trailing, the high-water mark is the stop; save it every 1% it climbs
+    if (armed || (state.trailingActive && state.highWaterPrice >= tracked.persistedHighWater * 1.01)) {
+      tracked.persistedHighWater = state.highWaterPrice;
+      PositionService.updatePosition(tracked.id, { exitState: { ...state } }).catch((err) =>
+        log.warning(`Could not save exit state for ${tracked.tokenAddress}: ${err?.message || err}`)
+      );
+    }
+  }
+
+  private evaluate(tracked: TrackedPosition): void {
+    if (tracked.busy || tracked.pendingSell || Date.now() < tracked.retryAfter) return;
+    const decision = this.decide(tracked);
+    if (decision) void this.execute(tracked, decision);
+  }
+
+  private decide(tracked: TrackedPosition): ExitDecision | null {
+    const { plan, state, avgBuyPrice } = tracked;
+    const exitAll = (reason: ExitReason, detail: string): ExitDecision => ({
+      order: { reason, final: true },
+      amount: tracked.amount,
+      detail,
+    });
+
+    const heldMinutes = (Date.now() - tracked.openedAt) / 60_000;
+    if (plan.timeoutMinutes !== undefined && heldMinutes >= plan.timeoutMinutes) {
+      return exitAll("timeout", `held for ${Math.round(heldMinutes)}min`);
+    }
+
+    const price = tracked.lastPrice;
+    if (price === undefined) return null;
+    const pnl = PositionService.calculatePnL(avgBuyPrice, price);
+
+    const stops: [ExitReason, number][] = [["stop_loss", avgBuyPrice * (1 - plan.stopLossPct / 100)]];
+    if (state.breakEvenArmed) stops.push(["break_even", avgBuyPrice]);
+    if (state.trailingActive && plan.trailingStopPct) {
+      stops.push(["trailing_stop", state.highWaterPrice * (1 - plan.trailingStopPct / 100)]);
+    }
+    const [reason, stop] = stops.reduce((a, b) => (b[1] > a[1] ? b : a));
+    if (price <= stop) {
+      return exitAll(reason, `${pnl.toFixed(2)}%, price ${price.toPrecision(6)} at or below stop ${stop.toPrecision(6)}`);
+    }
+
+    const levels = plan.partialTakeProfits || [];
+    for (let i = 0; i < levels.length; i++) {
+      if (tracked.filledLevels.has(i) || pnl < levels[i].pnlPct) continue;
+      const amount = Math.min(levels[i].fraction * tracked.openingAmount, tracked.amount);
+      const last = tracked.amount - amount <= tracked.openingAmount * DUST_FRACTION;
+      return {
+        order: { reason: "take_profit", level: i, final: last },
+        amount: last ? tracked.amount : amount,
+        detail: `${pnl.toFixed(2)}%, level ${i + 1} (${levels[i].fraction * 100}% at +${levels[i].pnlPct.toFixed(1)}%)`,
+      };
+    }
+
+    // Without a trail to carry it, the take-profit closes what the partials left
+    if (!plan.trailingStopPct && pnl >= plan.takeProfitPct) {
+      return exitAll("take_profit", `${pnl.toFixed(2)}%`);
+    }
+    return null;
+  }
+
+  private async execute(tracked: TrackedPosition, decision: ExitDecision): Promise<void> {
+    if (tracked.busy || tracked.pendingSell) return;
+    tracked.busy = true;
+    const { order, amount } = decision;
+
+    await withCorrelationId(tracked.correlationId, async () => {
+      try {
+        log.info(
+          `${order.reason} for ${tracked.tokenAddress}: ${decision.detail} | selling ${amount}${order.final ? "" : ` of ${tracked.amount}`}`
+        );
+        const outcome = await this.executeSell(tracked.tokenAddress, amount, tracked.id, tracked.avgBuyPrice, order);
+        if (outcome?.status === "unknown") {
+          tracked.pendingSell = { order, amount };
+          log.warning(`${order.reason} sell for ${tracked.tokenAddress} unknown; waiting on ${outcome.signature} before selling again`);
+          return;
+        }
+        if (outcome?.status !== "landed") {
+          tracked.retryAfter = Date.now() + this.retryCooldownMs;
+          return;
+        }
+        this.bookLeg(tracked, order, amount);
+      } catch (err) {
+        log.error(`${order.reason} sell failed for ${tracked.tokenAddress}:`, err);
+        tracked.retryAfter = Date.now() + this.retryCooldownMs;
+      } finally {
+        tracked.busy = false;
+      }
+    });
+  }
+
+  /** Resolve a pending sell; until it settles the position makes no new decisions */
+  private async settle(tracked: TrackedPosition): Promise<void> {
+    if (tracked.busy || !tracked.pendingSell) return;
+    tracked.busy = true;
+    const { order, amount } = tracked.pendingSell;
+
+    await withCorrelationId(tracked.correlationId, async () => {
+      try {
+        const status = await this.resolveSell(tracked.id);
+        if (status === "unknown") return;
+        tracked.pendingSell = undefined;
+        if (status === "landed") this.bookLeg(tracked, order, amount);
+      } catch (err) {
+        log.error(`Pending ${order.reason} sell check failed for ${tracked.tokenAddress}:`, err);
+      } finally {
+        tracked.busy = false;
+      }
+    });
+  }
+
+  private bookLeg(tracked: TrackedPosition, order: IExitOrder, amount: number): void {
+    exitLegs.inc({ reason: order.reason });
+    if (order.final) {
+      this.untrack(tracked);
+    } else {
+      tracked.amount -= amount;
+      if (order.level !== undefined) tracked.filledLevels.add(order.level);
+    }
+  }
+}
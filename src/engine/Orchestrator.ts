@@ -1,40 +1,62 @@
 import cron from "node-cron";
 import { connectToDatabase } from "../config/mongoose";
 import { WalletService } from "../services/WalletService";
-import { DexScreenerClient } from "../services/DexScreenerClient";
 import { MarketDataService } from "../services/MarketDataService";
 import { WebSocketService } from "../services/WebSocketService";
+import { TokenDiscoveryPipeline } from "../services/discovery/TokenDiscoveryPipeline";
+import { TokenDiscoverySource } from "../services/discovery/TokenDiscoverySource";
+import { DexScreenerSource } from "../services/discovery/DexScreenerSource";
+import { NewPoolSource } from "../services/discovery/NewPoolSource";
+import { HeliusSource } from "../services/discovery/HeliusSource";
+import { SwapQuoteRouter } from "../services/routing/SwapQuoteRouter";
+import { SwapRoute } from "../services/routing/SwapRoute";
+import { JupiterRoute } from "../services/routing/JupiterRoute";
+import { RaydiumRoute } from "../services/routing/RaydiumRoute";
+import { DirectPoolRoute } from "../services/routing/DirectPoolRoute";
+import { RoundTripSimulator } from "../services/RoundTripSimulator";
+import { TokenPriceStream } from "../services/TokenPriceStream";
+import { DexScreenerApi } from "../external/DexScreenerApi";
+import { HeliusClient } from "../external/HeliusClient";
+import { env } from "../config/environment";
 import { Token } from "../models/Token";
-import {
-  StrategyConfigModel,
-  DEFAULT_STRATEGY_CONFIGS,
-} from "../models/StrategyConfig";
+import { DEFAULT_STRATEGY_CONFIGS } from "../models/StrategyConfig";
 import { IStrategy, IAutonomousStrategy } from "../strategies/IStrategy";
 import { StrategyRegistry } from "../strategies/StrategyRegistry";
 import { SignalAggregator } from "./SignalAggregator";
+import {
+  StrategyConfigWatcher,
+  seedStrategyConfigs,
+} from "./StrategyConfigWatcher";
 import { RiskGate } from "./RiskGate";
 import { ExecutionEngine } from "./ExecutionEngine";
+import { ExitEngine } from "./ExitEngine";
 import { PositionManager } from "./PositionManager";
+import { TransactionLifecycleManager } from "./TransactionLifecycleManager";
 import {
+  IAggregatedSignal,
   IStrategyConfig,
+  IStrategyConfigChange,
   StrategyCategory,
   StrategyTier,
 } from "../types/strategy.types";
 import { USDC_MINT_ADDRESS } from "../utils/constants";
-import { logger } from "../utils/logger";
+import { logger, withCorrelationId } from "../utils/logger";
 
 export class Orchestrator {
   private walletService: WalletService;
-  private dexScreener: DexScreenerClient | null = null;
+  private tokenDiscovery: TokenDiscoveryPipeline | null = null;
   private marketData: MarketDataService;
   private webSocket: WebSocketService;
   private signalAggregator: SignalAggregator;
   private riskGate: RiskGate;
   private executionEngine: ExecutionEngine;
   private positionManager: PositionManager;
+  private exitEngine: ExitEngine;
+  private configWatcher: StrategyConfigWatcher;
 
   private signalStrategies: Map<string, IStrategy> = new Map();
   private autonomousStrategies: Map<string, IAutonomousStrategy> = new Map();
+  private strategyConfigs: Map<string, IStrategyConfig> = new Map();
   private cronJobs: ReturnType<typeof cron.schedule>[] = [];
 
   constructor() {
@@ -42,13 +64,38 @@ export class Orchestrator {
     this.marketData = new MarketDataService();
     this.webSocket = new WebSocketService();
     this.signalAggregator = new SignalAggregator();
-    this.riskGate = new RiskGate();
+    this.riskGate = new RiskGate(
+      undefined,
+      env.riskSimulation
+        ? new RoundTripSimulator(
+            this.walletService.getConnection(),
+            this.walletService.getPublicKey(),
+            new JupiterRoute({ apiKey: env.jupiterApiKey, maxAccounts: 24 }),
+            { probeUsdc: env.riskSimProbeUsdc }
+          )
+        : undefined,
+      env.riskSimMaxUnverifiedUsdc
+    );
     this.positionManager = new PositionManager();
     this.executionEngine = new ExecutionEngine(
       this.walletService,
       this.positionManager,
-      process.env.JITO_BLOCK_ENGINE_URL
+      this.createSwapRouter(),
+      process.env.JITO_BLOCK_ENGINE_URL,
+      {
+        commitment: TransactionLifecycleManager.parseCommitment(env.txCommitment),
+        maxAttempts: env.txMaxAttempts,
+        priorityFeeBase: env.txPriorityFeeBase,
+        priorityFeeMax: env.txPriorityFeeMax,
+      }
     );
+    this.exitEngine = new ExitEngine(
+      new TokenPriceStream(env.exitPricePollMs),
+      this.executionEngine.executeSell.bind(this.executionEngine),
+      this.executionEngine.resolvePendingSell.bind(this.executionEngine)
+    );
+    this.configWatcher = new StrategyConfigWatcher(StrategyRegistry.getAll());
+    this.configWatcher.onChange((change) => this.applyStrategyConfig(change));
   }
 
   async start(): Promise<void> {
@@ -59,7 +106,7 @@ export class Orchestrator {
     logger.success("MongoDB connected");
 
     // 2. Seed default strategy configs if needed
-    await this.seedStrategyConfigs();
+    await seedStrategyConfigs(DEFAULT_STRATEGY_CONFIGS);
 
     // 3. Log wallet info
     logger.success(`Wallet loaded: ${owner}`);
@@ -74,9 +121,9 @@ export class Orchestrator {
     await this.riskGate.initialize();
     await this.executionEngine.initialize();
 
-    // 5. Start DexScreener (existing token discovery)
-    this.dexScreener = new DexScreenerClient();
-    await this.dexScreener.connect();
+    // 5. Start token discovery
+    this.tokenDiscovery = this.createTokenDiscovery();
+    await this.tokenDiscovery.start();
 
     // 6. Load and initialize strategies
     await this.initializeStrategies();
@@ -84,68 +131,151 @@ export class Orchestrator {
     // 7. Start autonomous strategies
     await this.startAutonomousStrategies();
 
-    // 8. Schedule cron jobs
+    // 8. Watch open positions for exits
+    await this.exitEngine.start();
+
+    // 9. Schedule cron jobs and pick up config edits from here on
     this.scheduleCronJobs();
+    this.configWatcher.start();
 
     logger.success(
       `Orchestrator started | ${this.signalStrategies.size} signal strategies | ${this.autonomousStrategies.size} autonomous strategies`
     );
   }
 
-  private async seedStrategyConfigs(): Promise<void> {
-    for (const config of DEFAULT_STRATEGY_CONFIGS) {
-      await StrategyConfigModel.findOneAndUpdate(
-        { strategyId: config.strategyId },
-        { $setOnInsert: config },
-        { upsert: true }
-      );
+  /**
+   * Discovery sources selected by TOKEN_DISCOVERY_SOURCES (all by
+   * default; Helius only with an API key).
+   */
+  private createTokenDiscovery(): TokenDiscoveryPipeline {
+    const enabled = env.tokenDiscoverySources
+      ? new Set(env.tokenDiscoverySources.split(",").map((s) => s.trim()).filter(Boolean))
+      : null;
+    const wants = (id: string) => !enabled || enabled.has(id);
+    for (const id of enabled || []) {
+      if (!["dexscreener", "new_pools", "helius"].includes(id)) {
+        logger.warning(`Token discovery: unknown source "${id}" ignored`);
+      }
+    }
+
+    const dexScreener = new DexScreenerApi();
+    const sources: TokenDiscoverySource[] = [];
+    if (wants("dexscreener")) sources.push(new DexScreenerSource(dexScreener));
+    if (wants("new_pools")) sources.push(new NewPoolSource(this.webSocket));
+    if (wants("helius")) {
+      if (env.heliusApiKey) {
+        sources.push(new HeliusSource(new HeliusClient(env.heliusApiKey)));
+      } else if (enabled) {
+        logger.warning("Token discovery: helius requested but HELIUS_API_KEY is not set");
+      }
     }
+
+    return new TokenDiscoveryPipeline(sources, dexScreener, {
+      rules: TokenDiscoveryPipeline.parseRules(env.tokenDiscoveryRules),
+    });
+  }
+
+  /** Swap routes selected by SWAP_ROUTES (all by default) */
+  private createSwapRouter(): SwapQuoteRouter {
+    const routes: SwapRoute[] = SwapQuoteRouter.parseRoutes(env.swapRoutes).map((id) => {
+      switch (id) {
+        case "jupiter":
+          return new JupiterRoute({ apiKey: env.jupiterApiKey });
+        case "raydium":
+          return new RaydiumRoute();
+        case "direct_pool":
+          return new DirectPoolRoute(this.walletService.getConnection(), this.walletService.getPublicKey());
+      }
+    });
+    return new SwapQuoteRouter(routes, {
+      maxSlippageBps: env.swapMaxSlippageBps,
+      maxPriceImpactPct: env.swapMaxPriceImpactPct,
+    });
   }
 
   private async initializeStrategies(): Promise<void> {
-    const configs = await StrategyConfigModel.find({
-      enabled: true,
-    }).exec();
+    const configs = await this.configWatcher.load();
+    for (const config of configs) {
+      if (config.enabled) await this.loadStrategy(config, false);
+    }
+  }
+
+  /**
+   * Apply a persisted config edit to the running strategy set. Weight and
+   * tier edits take effect in place; anything else swaps in a freshly
+   * initialized instance.
+   */
+  private async applyStrategyConfig(change: IStrategyConfigChange): Promise<void> {
+    const { config } = change;
+    const running =
+      this.signalStrategies.has(config.id) || this.autonomousStrategies.has(config.id);
+
+    if (!config.enabled) {
+      if (running) {
+        await this.unloadStrategy(config.id);
+        logger.info(`Strategy disabled: ${config.id}`);
+      }
+      return;
+    }
 
-    for (const configDoc of configs) {
-      const strategyId = configDoc.strategyId;
-      if (!StrategyRegistry.has(strategyId)) continue;
+    if (!running || change.needsReinit) {
+      await this.loadStrategy(config, true);
+      return;
+    }
 
-      try {
-        const strategy = StrategyRegistry.create(strategyId);
-        const config: IStrategyConfig = {
-          id: configDoc.strategyId,
-          name: configDoc.name,
-          category: configDoc.category as StrategyCategory,
-          tier: configDoc.tier as StrategyTier,
-          enabled: configDoc.enabled,
-          weight: configDoc.weight,
-          intervalMs: configDoc.intervalMs,
-          params: configDoc.params || {},
-          circuitBreakerThreshold: configDoc.circuitBreakerThreshold,
-        };
-
-        await strategy.initialize(config);
-
-        // Update aggregator weights
-        if (config.category === StrategyCategory.SIGNAL) {
-          this.signalAggregator.setWeight(config.id, config.weight);
-        }
+    // Tier is read from the live config on every run
+    this.strategyConfigs.set(config.id, config);
+    if (change.weightChanged && config.category === StrategyCategory.SIGNAL) {
+      this.signalAggregator.setWeight(config.id, config.weight);
+    }
+  }
 
-        if (config.category === StrategyCategory.AUTONOMOUS) {
-          this.autonomousStrategies.set(
-            strategyId,
-            strategy as IAutonomousStrategy
-          );
-        } else if (
-          config.category === StrategyCategory.SIGNAL
-        ) {
-          this.signalStrategies.set(strategyId, strategy);
+  /**
+   * Initialize a strategy from its config, replacing any running instance.
+   */
+  private async loadStrategy(config: IStrategyConfig, startAutonomous: boolean): Promise<void> {
+    // Risk and execution strategies are handled by RiskGate and ExecutionEngine
+    if (
+      config.category !== StrategyCategory.SIGNAL &&
+      config.category !== StrategyCategory.AUTONOMOUS
+    ) {
+      return;
+    }
+
+    try {
+      const strategy = StrategyRegistry.create(config.id);
+      await strategy.initialize(config);
+      await this.unloadStrategy(config.id);
+      this.strategyConfigs.set(config.id, config);
+
+      if (config.category === StrategyCategory.SIGNAL) {
+        this.signalAggregator.setWeight(config.id, config.weight);
+        this.signalStrategies.set(config.id, strategy);
+      } else {
+        const autonomous = strategy as IAutonomousStrategy;
+        this.autonomousStrategies.set(config.id, autonomous);
+        if (startAutonomous) {
+          await autonomous.start();
+          logger.success(`Autonomous strategy started: ${config.id}`);
         }
-        // Risk and execution strategies are handled by RiskGate and ExecutionEngine
-      } catch (err) {
-        logger.error(`Failed to initialize strategy ${strategyId}:`, err);
       }
+    } catch (err) {
+      logger.error(`Failed to initialize strategy ${config.id}:`, err);
+    }
+  }
+
+  private async unloadStrategy(strategyId: string): Promise<void> {
+    const autonomous = this.autonomousStrategies.get(strategyId);
+    const signal = this.signalStrategies.get(strategyId);
+    this.autonomousStrategies.delete(strategyId);
+    this.signalStrategies.delete(strategyId);
+    this.strategyConfigs.delete(strategyId);
+
+    try {
+      if (autonomous) await autonomous.stop();
+      if (signal) await signal.shutdown();
+    } catch (err) {
+      logger.error(`Error stopping ${strategyId}:`, err);
     }
   }
 
@@ -187,13 +317,9 @@ export class Orchestrator {
       cron.schedule("*/30 * * * * *", () => this.processSignals())
     );
 
-    // Position PnL monitoring: every 2 minutes
+    // Buys with an unknown outcome: every 30 seconds
     this.cronJobs.push(
-      cron.schedule("*/2 * * * *", () =>
-        this.positionManager.checkAllPositions(
-          this.executionEngine.executeSell.bind(this.executionEngine)
-        )
-      )
+      cron.schedule("*/30 * * * * *", () => this.executionEngine.resolvePendingBuys())
     );
 
     // Signal cleanup: every 10 minutes
@@ -211,7 +337,7 @@ export class Orchestrator {
    */
   private async runTier(tier: StrategyTier): Promise<void> {
     const strategies = [...this.signalStrategies.values()].filter(
-      (s) => s.tier === tier && s.isHealthy()
+      (s) => (this.strategyConfigs.get(s.id)?.tier ?? s.tier) === tier && s.isHealthy()
     );
 
     if (strategies.length === 0) return;
@@ -241,41 +367,16 @@ export class Orchestrator {
       const buySignals = this.signalAggregator.getBuyableTokens(0.65);
 
       for (const signal of buySignals) {
-        // Risk gate
-        const riskAssessment = await this.riskGate.assess(
-          signal.tokenAddress
-        );
-        if (riskAssessment.overallScore < 85) {
-          continue;
-        }
-        signal.passedRiskGate = true;
-        signal.riskScore = riskAssessment.overallScore;
-
-        // Check if we can open
-        if (!(await this.positionManager.canOpenPosition(signal))) continue;
-
-        // Calculate position size
-        const positionSize =
-          this.positionManager.calculatePositionSize(signal);
-
-        // Check USDC balance
-        const usdcBalance = await this.walletService.getUsdcBalance();
-        if (usdcBalance < positionSize) continue;
-
-        // Execute
-        await this.executionEngine.executeBuy(
-          signal,
-          riskAssessment,
-          positionSize
+        await withCorrelationId(signal.correlationId, () =>
+          this.processBuySignal(signal)
         );
       }
 
       // Process sell signals
       const sellSignals = this.signalAggregator.getSellableTokens(0.6);
       for (const signal of sellSignals) {
-        await this.positionManager.processExitSignal(
-          signal,
-          this.executionEngine.executeSell.bind(this.executionEngine)
+        await withCorrelationId(signal.correlationId, () =>
+          this.exitEngine.exitOnSignal(signal)
         );
       }
 
@@ -291,6 +392,32 @@ export class Orchestrator {
     }
   }
 
+  /**
+   * Risk-gate, size and execute one buy candidate. Runs under the
+   * signal's correlation ID so its log lines can be traced together.
+   */
+  private async processBuySignal(signal: IAggregatedSignal): Promise<void> {
+    // Risk gate
+    const riskAssessment = await this.riskGate.assess(signal.tokenAddress);
+    if (riskAssessment.overallScore < 85) return;
+    signal.passedRiskGate = true;
+    signal.riskScore = riskAssessment.overallScore;
+
+    // Check if we can open
+    if (!(await this.positionManager.canOpenPosition(signal))) return;
+
+    // Calculate position size
+    const positionSize = this.positionManager.calculatePositionSize(signal);
+    if (!this.riskGate.allowsSize(riskAssessment, positionSize)) return;
+
+    // Check USDC balance
+    const usdcBalance = await this.walletService.getUsdcBalance();
+    if (usdcBalance < positionSize) return;
+
+    // Execute
+    await this.executionEngine.executeBuy(signal, riskAssessment, positionSize);
+  }
+
   private async getTokenAddresses(): Promise<string[]> {
     const tokens = await Token.find({})
       .sort({ timestamp: -1 })
@@ -304,10 +431,12 @@ export class Orchestrator {
   async shutdown(): Promise<void> {
     logger.info("Orchestrator shutting down...");
 
-    // Stop cron jobs
+    // Stop cron jobs, exit engine and config watcher
+    this.configWatcher.stop();
     for (const job of this.cronJobs) {
       job.stop();
     }
+    this.exitEngine.stop();
 
     // Stop autonomous strategies
     for (const [id, strategy] of this.autonomousStrategies) {
@@ -330,8 +459,8 @@ export class Orchestrator {
     // Shutdown infrastructure
     await this.marketData.shutdown();
     await this.webSocket.shutdown();
-    if (this.dexScreener) {
-      await this.dexScreener.disconnect();
+    if (this.tokenDiscovery) {
+      await this.tokenDiscovery.stop();
     }
 
     logger.info("Orchestrator shut down complete");
@@ -1,13 +1,16 @@
+import { IPosition } from "../models/Position";
 import { PositionService } from "../services/PositionService";
-import { SwapService } from "../services/SwapService";
 import {
   IAggregatedSignal,
   IRiskAssessment,
+  IExitLeg,
   IExitStrategy,
+  IPendingExit,
   SignalDirection,
 } from "../types/strategy.types";
+import { ISwapRouteRecord } from "../types/routing.types";
+import { ITxOutcome } from "../types/transaction.types";
 import { USDC_MINT_ADDRESS } from "../utils/constants";
-import { logger } from "../utils/logger";
 
 export class PositionManager {
   private maxSignalPositions: number;
@@ -38,12 +41,18 @@ export class PositionManager {
   ): IExitStrategy {
     const baseTP = 30;
     const baseSL = 25;
+    const takeProfitPct = baseTP + (signal.compositeScore - 0.65) * 50;
 
+    // Bank half at the target, let the rest run on the trail, and stop
+    // risking the entry once halfway there
     return {
-      takeProfitPct: baseTP + (signal.compositeScore - 0.65) * 50,
+      takeProfitPct,
       stopLossPct: baseSL * (riskScore / 100),
+      partialTakeProfits: [{ pnlPct: takeProfitPct, fraction: 0.5 }],
       trailingStopPct:
-        signal.compositeScore > 0.85 ? 10 : undefined,
+        signal.compositeScore > 0.85 ? 10 : 15,
+      trailingStopActivatedAt: takeProfitPct,
+      breakEvenAtPct: takeProfitPct / 2,
       timeoutMinutes: 120,
     };
   }
@@ -52,7 +61,11 @@ export class PositionManager {
    * Check if we can open a new signal-based position.
    */
   async canOpenPosition(signal: IAggregatedSignal): Promise<boolean> {
-    const openPositions = await PositionService.getOpenPositions();
+    // A pending buy may hold tokens already, so it counts as open here
+    const openPositions = [
+      ...(await PositionService.getOpenPositions()),
+      ...(await PositionService.getPendingPositions()),
+    ];
 
     // Check max positions
     const signalPositions = openPositions.filter(
@@ -70,16 +83,21 @@ export class PositionManager {
   }
 
   /**
-   * Open a position with signal attribution.
+   * Open a position with signal attribution. A buy whose outcome is
+   * unknown is recorded as pending, one that did not land as failed.
    */
   async openSignalPosition(
     signal: IAggregatedSignal,
     riskAssessment: IRiskAssessment,
     tradeData: {
       tokenAddress: string;
-      amount: number;
-      avgBuyPrice: number;
-      signature: string;
+      decimals: number;
+      amount: number;       // whole tokens
+      avgBuyPrice: number;  // USDC per whole token
+      signature?: string;
+      route?: ISwapRouteRecord;
+      txOutcome?: ITxOutcome;
+      status?: "open" | "pending" | "failed";
     }
   ): Promise<void> {
     const exitStrategy = this.calculateExitStrategy(
@@ -92,136 +110,76 @@ export class PositionManager {
       tokenInfo: {
         name: "",
         symbol: "",
-        decimals: 6,
+        decimals: tradeData.decimals,
         logoURI: "",
         mcap: 0,
       },
       amount: tradeData.amount,
       avgBuyPrice: tradeData.avgBuyPrice,
-      status: "open",
+      status: tradeData.status ?? "open",
       openTimestamp: new Date(),
-      signature: [tradeData.signature],
-      // Extended fields stored in metadata
-      // These would be stored if Position model is extended
+      signature: tradeData.signature ? [tradeData.signature] : [],
+      correlationId: signal.correlationId,
+      routes: tradeData.route ? [tradeData.route] : undefined,
+      txOutcomes: tradeData.txOutcome ? [tradeData.txOutcome] : undefined,
+      exitStrategy,
     } as any);
   }
 
   /**
-   * Close a position.
+   * Record a landed sell; the final leg closes the position.
    */
-  async closePosition(
+  async recordExitLeg(
     positionId: string,
-    pnl: number,
-    exitPrice: number,
-    signature: string
+    leg: IExitLeg,
+    close: boolean,
+    route?: ISwapRouteRecord,
+    txOutcome?: ITxOutcome
   ): Promise<void> {
-    await PositionService.closePosition(positionId, pnl, exitPrice, signature);
+    await PositionService.recordExitLeg(positionId, leg, close, route, txOutcome);
   }
 
   /**
-   * Check all positions for exit conditions.
-   * Called on a 2-minute cron.
+   * Record a sell whose outcome is unknown; its leg waits on the position.
    */
-  async checkAllPositions(
-    executeSell: (
-      tokenAddress: string,
-      amount: number,
-      positionId: string,
-      avgBuyPrice: number
-    ) => Promise<string | null>
+  async recordPendingExit(
+    positionId: string,
+    pendingExit: IPendingExit,
+    route: ISwapRouteRecord,
+    txOutcome: ITxOutcome
   ): Promise<void> {
-    const positions = await PositionService.getOpenPositions();
-    if (positions.length === 0) return;
-
-    for (const pos of positions) {
-      try {
-        const priceData = await new SwapService().getTokenPrice([
-          pos.tokenAddress,
-        ]);
-        const currentPrice = priceData?.prices?.[pos.tokenAddress];
-        if (!currentPrice) continue;
-
-        const pnl = PositionService.calculatePnL(
-          pos.avgBuyPrice,
-          currentPrice
-        );
-
-        // Dynamic exit thresholds
-        // Default to 30% TP / -25% SL if no strategy data
-        const takeProfitPct = 30;
-        const stopLossPct = -25;
-
-        if (pnl > takeProfitPct) {
-          logger.info(
-            `Take profit triggered for ${pos.tokenAddress}: ${pnl.toFixed(2)}%`
-          );
-          await executeSell(
-            pos.tokenAddress,
-            pos.amount,
-            String(pos._id),
-            pos.avgBuyPrice
-          );
-        } else if (pnl < stopLossPct) {
-          logger.info(
-            `Stop loss triggered for ${pos.tokenAddress}: ${pnl.toFixed(2)}%`
-          );
-          await executeSell(
-            pos.tokenAddress,
-            pos.amount,
-            String(pos._id),
-            pos.avgBuyPrice
-          );
-        }
-
-        // Timeout check (2 hours default)
-        const holdTimeMs =
-          Date.now() - new Date(pos.openTimestamp).getTime();
-        if (holdTimeMs > 120 * 60 * 1000) {
-          logger.info(
-            `Timeout exit for ${pos.tokenAddress}: held for ${Math.round(holdTimeMs / 60000)}min`
-          );
-          await executeSell(
-            pos.tokenAddress,
-            pos.amount,
-            String(pos._id),
-            pos.avgBuyPrice
-          );
-        }
-      } catch (err) {
-        logger.error(
-          `Position check error for ${pos.tokenAddress}:`,
-          err
-        );
-      }
-    }
+    await PositionService.recordPendingExit(positionId, pendingExit, route, txOutcome);
   }
 
   /**
-   * Process exit signals from the aggregator.
+   * Book or drop the pending sell once its outcome is final.
    */
-  async processExitSignal(
-    signal: IAggregatedSignal,
-    executeSell: (
-      tokenAddress: string,
-      amount: number,
-      positionId: string,
-      avgBuyPrice: number
-    ) => Promise<string | null>
-  ): Promise<void> {
-    const positions = await PositionService.getOpenPositions();
-    const pos = positions.find(
-      (p) => p.tokenAddress === signal.tokenAddress
-    );
-    if (!pos) return;
+  async settlePendingExit(positionId: string, txOutcome: ITxOutcome): Promise<void> {
+    await PositionService.settlePendingExit(positionId, txOutcome);
+  }
 
-    logger.info(
-      `Sell signal for ${signal.tokenAddress}: score ${signal.compositeScore.toFixed(2)} | strategies: ${signal.contributingSignals.map((s) => s.strategyId).join(", ")}`
-    );
-    await executeSell(
-      pos.tokenAddress,
-      pos.amount,
-      String(pos._id),
-      pos.avgBuyPrice
-    );
+  async getPosition(positionId: string): Promise<IPosition | null> {
+    return PositionService.getPosition(positionId);
+  }
+
+  /**
+   * Record a sell transaction that did not land.
+   */
+  async recordTxOutcome(positionId: string, txOutcome: ITxOutcome): Promise<void> {
+    await PositionService.recordTxOutcome(positionId, txOutcome);
+  }
+
+  /**
+   * Buys still waiting on their transaction outcome.
+   */
+  async getPendingBuys(): Promise<IPosition[]> {
+    return PositionService.getPendingPositions();
+  }
+
+  /**
+   * Open or fail a pending buy once its outcome is final.
+   */
+  async settlePendingBuy(positionId: string, txOutcome: ITxOutcome): Promise<void> {
+    await PositionService.settlePendingBuy(positionId, txOutcome);
   }
 }
@@ -1,18 +1,28 @@
 import { IRiskAssessment } from "../types/strategy.types";
+import { IRoundTripSimulation } from "../types/risk.types";
 import { OnChainAnalyzer } from "../services/OnChainAnalyzer";
+import { RoundTripSimulator } from "../services/RoundTripSimulator";
 import { logger } from "../utils/logger";
 
+const log = logger.child("RiskGate");
+
 export class RiskGate {
   private analyzer: OnChainAnalyzer;
+  private simulator: RoundTripSimulator | null;
   private minSafetyScore: number;
+  private maxUnverifiedSizeUsdc: number;
 
-  constructor(minSafetyScore: number = 85) {
+  constructor(minSafetyScore: number = 85, simulator?: RoundTripSimulator, maxUnverifiedSizeUsdc: number = 10) {
     this.analyzer = new OnChainAnalyzer();
+    this.simulator = simulator ?? null;
     this.minSafetyScore = minSafetyScore;
+    this.maxUnverifiedSizeUsdc = maxUnverifiedSizeUsdc;
   }
 
   async initialize(): Promise<void> {
-    logger.info(`RiskGate initialized with min safety score: ${this.minSafetyScore}`);
+    log.info(
+      `RiskGate initialized with min safety score: ${this.minSafetyScore} | round-trip simulation ${this.simulator ? `on, unverified entries up to $${this.maxUnverifiedSizeUsdc}` : "off"}`
+    );
   }
 
   /**
@@ -20,7 +30,10 @@ export class RiskGate {
    * All trades must pass through this gate.
    */
   async assess(tokenAddress: string): Promise<IRiskAssessment> {
-    const analysis = await this.analyzer.analyzeToken(tokenAddress);
+    const [analysis, simulation] = await Promise.all([
+      this.analyzer.analyzeToken(tokenAddress),
+      this.simulate(tokenAddress),
+    ]);
 
     // Calculate overall score (100 = safe, 0 = dangerous)
     let score = 100;
@@ -39,27 +52,89 @@ export class RiskGate {
       score -= 15;
     }
 
-    if (!analysis.canSell) {
+    // A conclusive simulation outranks the sell-quote heuristic
+    const canSell = simulation?.conclusive
+      ? simulation.sellSucceeded && !simulation.frozenAfterBuy
+      : analysis.canSell;
+    if (!canSell) {
       score -= 50; // Honeypot = massive penalty
       flags.push("CANNOT_SELL");
     }
+    if (simulation) {
+      flags.push(...simulation.flags);
+      score -= this.simulationPenalty(simulation, flags);
+    }
+    // The heuristics stand in for a simulation that could not decide, at a cost
+    if (this.isUnverified(simulation)) {
+      score -= 15;
+      if (!simulation) flags.push("SIM_INCONCLUSIVE");
+    }
 
     score = Math.max(0, score);
 
     return {
       tokenAddress,
       overallScore: score,
-      isHoneypot: !analysis.canSell,
+      isHoneypot: !canSell,
       isRugPull: analysis.topHolderConcentration > 0.8 && analysis.hasMintAuthority,
       hasLiquidityLock: analysis.isLpLocked || analysis.isLpBurned,
       ownerConcentration: analysis.topHolderConcentration,
       mintAuthority: analysis.hasMintAuthority,
       freezeAuthority: analysis.hasFreezeAuthority,
+      simulation,
       flags,
       timestamp: new Date(),
     };
   }
 
+  /**
+   * Score deductions for what the round trip measured, beyond the
+   * honeypot verdict itself. Adds the matching flags.
+   */
+  private simulationPenalty(sim: IRoundTripSimulation, flags: string[]): number {
+    let penalty = 0;
+
+    const tax = Math.max(sim.buyTaxPct ?? 0, sim.sellTaxPct ?? 0, sim.transferFeeBps / 100);
+    if (tax > 10) {
+      penalty += 30;
+      flags.push("HIGH_TAX");
+    } else if (tax > 3) {
+      penalty += 10;
+      flags.push("TAX_DETECTED");
+    }
+
+    if ((sim.roundTripLossPct ?? 0) > 15) {
+      penalty += 15;
+      flags.push("HIGH_ROUND_TRIP_LOSS");
+    }
+
+    // Owner-controlled code on every transfer, or an owner who can move anyone's tokens
+    if (sim.transferHookProgram) penalty += 15;
+    if (sim.permanentDelegate) penalty += 30;
+
+    return penalty;
+  }
+
+  /** The simulator is on but gave no verdict (inconclusive or threw) */
+  private isUnverified(simulation: IRoundTripSimulation | undefined): boolean {
+    return this.simulator !== null && !simulation?.conclusive;
+  }
+
+  /** Failures here are logged and leave the assessment to the heuristics */
+  private async simulate(tokenAddress: string): Promise<IRoundTripSimulation | undefined> {
+    if (!this.simulator) return undefined;
+    try {
+      const sim = await this.simulator.simulate(tokenAddress);
+      if (sim.error) {
+        log.info(`Round trip ${tokenAddress}: ${sim.conclusive ? "" : "inconclusive, "}${sim.error}`);
+      }
+      return sim;
+    } catch (err) {
+      log.error(`Round-trip simulation failed for ${tokenAddress}:`, err);
+      return undefined;
+    }
+  }
+
   /**
    * Quick risk assessment (less thorough, faster).
    * Used by pool sniper where speed matters.
@@ -79,7 +154,7 @@ export class RiskGate {
   async passes(tokenAddress: string): Promise<boolean> {
     const assessment = await this.assess(tokenAddress);
     if (assessment.overallScore < this.minSafetyScore) {
-      logger.warning(
+      log.warning(
         `Risk gate BLOCKED ${tokenAddress}: score ${assessment.overallScore} < ${this.minSafetyScore} | flags: ${assessment.flags.join(", ")}`
       );
       return false;
@@ -87,6 +162,18 @@ export class RiskGate {
     return true;
   }
 
+  /**
+   * Check if a buy of `sizeUsdc` may go ahead on this assessment. Without
+   * a simulation verdict only small entries are allowed.
+   */
+  allowsSize(assessment: IRiskAssessment, sizeUsdc: number): boolean {
+    if (!this.isUnverified(assessment.simulation) || sizeUsdc <= this.maxUnverifiedSizeUsdc) return true;
+    log.warning(
+      `Risk gate BLOCKED ${assessment.tokenAddress}: $${sizeUsdc.toFixed(2)} > $${this.maxUnverifiedSizeUsdc} without a round-trip verdict`
+    );
+    return false;
+  }
+
   setMinSafetyScore(score: number): void {
     this.minSafetyScore = score;
   }
@@ -4,7 +4,13 @@ import {
   SignalDirection,
 } from "../types/strategy.types";
 import { SignalModel } from "../models/Signal";
-import { logger } from "../utils/logger";
+import { logger, newCorrelationId } from "../utils/logger";
+import { IClock, systemClock } from "../utils/clock";
+
+export interface SignalAggregatorOptions {
+  clock?: IClock;
+  persist?: boolean; // write ingested signals to MongoDB (default true)
+}
 
 export class SignalAggregator {
   // In-memory signal buffer, keyed by tokenAddress
@@ -24,7 +30,12 @@ export class SignalAggregator {
     "whale-copy-trading": 0.17,
   };
 
-  constructor(weights?: Map<string, number>) {
+  private clock: IClock;
+  private persist: boolean;
+
+  constructor(weights?: Map<string, number>, options: SignalAggregatorOptions = {}) {
+    this.clock = options.clock ?? systemClock;
+    this.persist = options.persist ?? true;
     if (weights) {
       this.weights = weights;
     } else {
@@ -51,6 +62,7 @@ export class SignalAggregator {
     );
     filtered.push(signal);
     this.signalBuffer.set(signal.tokenAddress, filtered);
+    if (!this.persist) return;
 
     // Persist to MongoDB for audit trail (fire and forget)
     SignalModel.create({
@@ -71,7 +83,7 @@ export class SignalAggregator {
     const signals = this.signalBuffer.get(tokenAddress);
     if (!signals || signals.length === 0) return null;
 
-    const now = new Date();
+    const now = new Date(this.clock.now());
     const activeSignals = signals.filter((s) => s.expiresAt > now);
     if (activeSignals.length === 0) return null;
 
@@ -100,6 +112,7 @@ export class SignalAggregator {
       requiredConfidence: 0.65,
       passedRiskGate: false,
       timestamp: now,
+      correlationId: newCorrelationId(),
     };
   }
 
@@ -172,7 +185,7 @@ export class SignalAggregator {
    * Remove expired signals.
    */
   pruneExpired(): void {
-    const now = new Date();
+    const now = new Date(this.clock.now());
     let pruned = 0;
     for (const [tokenAddress, signals] of this.signalBuffer) {
       const active = signals.filter((s) => s.expiresAt > now);
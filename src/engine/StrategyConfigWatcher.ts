@@ -0,0 +1,230 @@
+import { Document } from "mongoose";
+import {
+  StrategyConfigModel,
+  IStrategyConfigDoc,
+} from "../models/StrategyConfig";
+import {
+  IStrategyConfig,
+  IStrategyConfigChange,
+  StrategyCategory,
+  StrategyTier,
+} from "../types/strategy.types";
+import { logger } from "../utils/logger";
+
+const log = logger.child("StrategyConfig");
+
+type StrategyConfigFields = Omit<IStrategyConfigDoc, keyof Document>;
+type ChangeListener = (change: IStrategyConfigChange) => Promise<void> | void;
+
+export interface StrategyConfigWatcherOptions {
+  /** Poll interval; polling also backs up the change stream (default 15s) */
+  pollIntervalMs?: number;
+  /** Try a MongoDB change stream first (needs a replica set, default true) */
+  useChangeStream?: boolean;
+}
+
+/**
+ * Seed default configs without touching documents that already exist.
+ */
+export async function seedStrategyConfigs(defaults: StrategyConfigFields[]): Promise<void> {
+  for (const config of defaults) {
+    await StrategyConfigModel.findOneAndUpdate(
+      { strategyId: config.strategyId },
+      { $setOnInsert: config },
+      { upsert: true }
+    );
+  }
+}
+
+export function toStrategyConfig(doc: StrategyConfigFields): IStrategyConfig {
+  return {
+    id: doc.strategyId,
+    name: doc.name,
+    category: doc.category as StrategyCategory,
+    tier: doc.tier as StrategyTier,
+    enabled: doc.enabled,
+    weight: doc.weight,
+    intervalMs: doc.intervalMs,
+    params: doc.params || {},
+    circuitBreakerThreshold: doc.circuitBreakerThreshold,
+  };
+}
+
+/**
+ * What changed between two versions of a config; null if nothing did.
+ */
+export function diffStrategyConfig(
+  previous: IStrategyConfig | null,
+  config: IStrategyConfig
+): IStrategyConfigChange | null {
+  if (!previous) {
+    return {
+      config,
+      previous,
+      enabledChanged: true,
+      weightChanged: true,
+      tierChanged: true,
+      needsReinit: true,
+    };
+  }
+
+  const change: IStrategyConfigChange = {
+    config,
+    previous,
+    enabledChanged: previous.enabled !== config.enabled,
+    weightChanged: previous.weight !== config.weight,
+    tierChanged: previous.tier !== config.tier,
+    needsReinit:
+      previous.name !== config.name ||
+      previous.category !== config.category ||
+      previous.intervalMs !== config.intervalMs ||
+      previous.circuitBreakerThreshold !== config.circuitBreakerThreshold ||
+      JSON.stringify(previous.params) !== JSON.stringify(config.params),
+  };
+  const changed =
+    change.enabledChanged || change.weightChanged || change.tierChanged || change.needsReinit;
+  return changed ? change : null;
+}
+
+/**
+ * Watches StrategyConfig documents and reports edits as they land.
+ *
+ * A change stream gives near-instant updates on replica sets; polling runs
+ * regardless so standalone servers and dropped streams still converge.
+ * Only the strategy ids passed in are tracked, and run bookkeeping fields
+ * (consecutiveFailures, lastRunAt, lastError) never count as a change. A
+ * deleted document is reported as disabled.
+ */
+export class StrategyConfigWatcher {
+  private strategyIds: string[];
+  private options: Required<StrategyConfigWatcherOptions>;
+  private known: Map<string, IStrategyConfig> = new Map();
+  private listeners: ChangeListener[] = [];
+  private pollTimer: ReturnType<typeof setInterval> | null = null;
+  private changeStream: ReturnType<typeof StrategyConfigModel.watch> | null = null;
+  private refreshing: Promise<void> = Promise.resolve();
+
+  constructor(strategyIds: string[], options: StrategyConfigWatcherOptions = {}) {
+    this.strategyIds = strategyIds;
+    this.options = {
+      pollIntervalMs: options.pollIntervalMs ?? 15000,
+      useChangeStream: options.useChangeStream ?? true,
+    };
+  }
+
+  onChange(listener: ChangeListener): void {
+    this.listeners.push(listener);
+  }
+
+  /**
+   * Read the current configs (enabled or not) as the baseline later
+   * changes are measured against.
+   */
+  async load(): Promise<IStrategyConfig[]> {
+    const configs = await this.fetch();
+    this.known = new Map(configs.map((c) => [c.id, c]));
+    return configs;
+  }
+
+  start(): void {
+    if (this.pollTimer) return;
+    this.pollTimer = setInterval(() => this.refresh(), this.options.pollIntervalMs);
+    if (this.options.useChangeStream) this.openChangeStream();
+    log.info(
+      `Watching ${this.strategyIds.length} strategies (poll ${this.options.pollIntervalMs / 1000}s)`
+    );
+  }
+
+  stop(): void {
+    if (this.pollTimer) {
+      clearInterval(this.pollTimer);
+      this.pollTimer = null;
+    }
+    this.closeChangeStream();
+  }
+
+  /**
+   * Re-read the configs and notify listeners of any differences.
+   * Calls are serialized so listeners see changes in order.
+   */
+  refresh(): Promise<void> {
+    this.refreshing = this.refreshing.then(() => this.applyLatest());
+    return this.refreshing;
+  }
+
+  private async applyLatest(): Promise<void> {
+    let latest: IStrategyConfig[];
+    try {
+      latest = await this.fetch();
+    } catch (err) {
+      log.error("Failed to read configs:", err);
+      return;
+    }
+
+    const seen = new Set<string>();
+    for (const config of latest) {
+      seen.add(config.id);
+      await this.apply(config);
+    }
+    for (const [id, previous] of this.known) {
+      if (!seen.has(id) && previous.enabled) {
+        await this.apply({ ...previous, enabled: false });
+      }
+    }
+  }
+
+  private async apply(config: IStrategyConfig): Promise<void> {
+    const change = diffStrategyConfig(this.known.get(config.id) || null, config);
+    if (!change) return;
+    this.known.set(config.id, config);
+
+    log.info(`${config.id} changed: ${describeChange(change)}`);
+    for (const listener of this.listeners) {
+      try {
+        await listener(change);
+      } catch (err) {
+        log.error(`Failed to apply change to ${config.id}:`, err);
+      }
+    }
+  }
+
+  private async fetch(): Promise<IStrategyConfig[]> {
+    const docs = await StrategyConfigModel.find({
+      strategyId: { $in: this.strategyIds },
+    }).exec();
+    return docs.map(toStrategyConfig);
+  }
+
+  private openChangeStream(): void {
+    try {
+      const stream = StrategyConfigModel.watch([], { fullDocument: "updateLookup" });
+      stream.on("change", () => this.refresh());
+      stream.on("error", (err: Error) => {
+        log.info(`Change stream unavailable (${err.message}), polling only`);
+        this.closeChangeStream();
+      });
+      this.changeStream = stream;
+    } catch (err: any) {
+      log.info(`Change stream unavailable (${err.message}), polling only`);
+    }
+  }
+
+  private closeChangeStream(): void {
+    if (!this.changeStream) return;
+    const stream = this.changeStream;
+    this.changeStream = null;
+    stream.close().catch(() => {});
+  }
+}
+
+function describeChange(change: IStrategyConfigChange): string {
+  const { config, previous } = change;
+  if (!previous) return config.enabled ? "added" : "added (disabled)";
+
+  const parts: string[] = [];
+  if (change.enabledChanged) parts.push(config.enabled ? "enabled" : "disabled");
+  if (change.weightChanged) parts.push(`weight ${previous.weight} → ${config.weight}`);
+  if (change.tierChanged) parts.push(`tier ${previous.tier} → ${config.tier}`);
+  if (change.needsReinit) parts.push("settings updated");
+  return parts.join(", ");
+}
@@ -0,0 +1,326 @@
+import {
+  AddressLookupTableAccount,
+  ComputeBudgetProgram,
+  Connection,
+  Keypair,
+  TransactionInstruction,
+  TransactionMessage,
+  VersionedTransaction,
+} from "@solana/web3.js";
+import bs58 from "bs58";
+import { JitoClient } from "../external/JitoClient";
+import { ITxAttempt, ITxOutcome, TxCommitment } from "../types/transaction.types";
+import { logger } from "../utils/logger";
+
+const log = logger.child("TxLifecycle");
+
+const COMMITMENT_RANK: Record<TxCommitment, number> = { processed: 0, confirmed: 1, finalized: 2 };
+const SET_COMPUTE_UNIT_PRICE = 3; // ComputeBudget instruction discriminator
+
+export interface TransactionLifecycleOptions {
+  commitment?: TxCommitment;        // default "confirmed"
+  maxAttempts?: number;             // default 3 — each with a fresh blockhash
+  jitoAttempts?: number;            // default 1 — leading attempts sent as Jito bundles, then RPC
+  priorityFeeBase?: number;         // default 50_000 micro-lamports/CU — floor for the first attempt
+  priorityFeeMax?: number;          // default 2_000_000
+  feeMultiplier?: number;           // default 2 — per attempt, for both fee and tip
+  pollIntervalMs?: number;          // default 2s
+  rebroadcastIntervalMs?: number;   // default 2s — RPC resends while waiting
+  attemptTimeoutMs?: number;        // default 120s — past any blockhash expiry; then the outcome is unknown
+}
+
+type AttemptResult = Pick<ITxAttempt, "result" | "error" | "bundleId"> & { slot?: number };
+
+/**
+ * Gets a signed swap on chain. Each attempt re-signs the transaction with
+ * a fresh blockhash and an escalated priority fee (and Jito tip), then
+ * waits for the configured commitment. A new attempt only starts once
+ * the previous one can no longer land — its blockhash expired with no
+ * status, or Jito reports the bundle failed — so two versions of the
+ * same swap can never both execute.
+ */
+export class TransactionLifecycleManager {
+  private connection: Connection;
+  private signer: Keypair;
+  private jito: JitoClient | null;
+  private commitment: TxCommitment;
+  private maxAttempts: number;
+  private jitoAttempts: number;
+  private priorityFeeBase: number;
+  private priorityFeeMax: number;
+  private feeMultiplier: number;
+  private pollIntervalMs: number;
+  private rebroadcastIntervalMs: number;
+  private attemptTimeoutMs: number;
+  private lookupTables: Map<string, AddressLookupTableAccount> = new Map();
+
+  constructor(
+    connection: Connection,
+    signer: Keypair,
+    jito: JitoClient | null,
+    options: TransactionLifecycleOptions = {}
+  ) {
+    this.connection = connection;
+    this.signer = signer;
+    this.jito = jito;
+    this.commitment = options.commitment ?? "confirmed";
+    this.maxAttempts = options.maxAttempts ?? 3;
+    this.jitoAttempts = options.jitoAttempts ?? 1;
+    this.priorityFeeBase = options.priorityFeeBase ?? 50_000;
+    this.priorityFeeMax = options.priorityFeeMax ?? 2_000_000;
+    this.feeMultiplier = options.feeMultiplier ?? 2;
+    this.pollIntervalMs = options.pollIntervalMs ?? 2000;
+    this.rebroadcastIntervalMs = options.rebroadcastIntervalMs ?? 2000;
+    this.attemptTimeoutMs = options.attemptTimeoutMs ?? 120_000;
+  }
+
+  /** Parse TX_COMMITMENT; throws on anything but the three levels */
+  static parseCommitment(value?: string): TxCommitment {
+    if (!value) return "confirmed";
+    if (!(value in COMMITMENT_RANK)) {
+      throw new Error(`TX_COMMITMENT must be one of ${Object.keys(COMMITMENT_RANK).join(", ")}`);
+    }
+    return value as TxCommitment;
+  }
+
+  /**
+   * Land an unsigned (or aggregator-signed) base64 transaction.
+   * tipLamports is the first Jito tip; it escalates with the fee. Throws
+   * only before the first send; an error after that is an unknown outcome.
+   */
+  async submit(txBase64: string, side: "buy" | "sell", tipLamports: number = 10_000): Promise<ITxOutcome> {
+    const started = Date.now();
+    const original = VersionedTransaction.deserialize(Buffer.from(txBase64, "base64"));
+    const tables = await this.getLookupTables(original);
+    const message = TransactionMessage.decompile(original.message, { addressLookupTableAccounts: tables });
+
+    let fee = Math.min(Math.max(readPriorityFee(message.instructions) ?? 0, this.priorityFeeBase), this.priorityFeeMax);
+    let tip = tipLamports;
+    const attempts: ITxAttempt[] = [];
+    const outcome = (status: ITxOutcome["status"], extra: Partial<ITxOutcome> = {}): ITxOutcome => ({
+      side,
+      status,
+      commitment: this.commitment,
+      attempts,
+      latencyMs: Date.now() - started,
+      timestamp: new Date(),
+      ...extra,
+    });
+
+    let inFlight: ITxAttempt | null = null;
+    try {
+      for (let i = 0; i < this.maxAttempts; i++) {
+        const viaJito = !!this.jito && i < this.jitoAttempts;
+        const { blockhash, lastValidBlockHeight } = await this.connection.getLatestBlockhash("confirmed");
+
+        const instructions = withPriorityFee(message.instructions, fee);
+        if (viaJito) instructions.push(this.jito!.createTipInstruction(this.signer.publicKey, tip));
+        const rebuilt = new TransactionMessage({ payerKey: message.payerKey, recentBlockhash: blockhash, instructions });
+        const tx = new VersionedTransaction(
+          original.version === "legacy" ? rebuilt.compileToLegacyMessage() : rebuilt.compileToV0Message(tables)
+        );
+        tx.sign([this.signer]);
+        const signature = bs58.encode(tx.signatures[0]);
+
+        inFlight = {
+          via: viaJito ? "jito" : "rpc",
+          signature,
+          lastValidBlockHeight,
+          priorityFeeMicroLamports: fee,
+          tipLamports: viaJito ? tip : undefined,
+          result: "unknown",
+        };
+        const result = viaJito
+          ? await this.landViaJito(tx, signature, lastValidBlockHeight)
+          : await this.landViaRpc(tx, signature, lastValidBlockHeight);
+        attempts.push({ ...inFlight, bundleId: result.bundleId, result: result.result, error: result.error });
+        inFlight = null;
+
+        if (result.result === "landed") {
+          log.success(`${side} landed via ${viaJito ? "Jito" : "RPC"} (attempt ${i + 1}) ${signature}`);
+          return outcome("landed", { signature, slot: result.slot });
+        }
+        if (result.result === "failed") {
+          // A program error (slippage, balance) repeats on resend; the caller needs a fresh quote
+          log.error(`${side} failed on chain: ${result.error}`);
+          return outcome("failed", { signature, slot: result.slot, error: result.error });
+        }
+        if (result.result === "unknown") {
+          log.error(`${side} status unknown after ${this.attemptTimeoutMs}ms; not resending ${signature}`);
+          return outcome("unknown", { signature, error: result.error });
+        }
+
+        log.warning(
+          `${side} attempt ${i + 1}/${this.maxAttempts} ${result.result} via ${viaJito ? "Jito" : "RPC"}${result.error ? `: ${result.error}` : ""}`
+        );
+        fee = Math.min(Math.round(fee * this.feeMultiplier), this.priorityFeeMax);
+        tip = Math.round(tip * this.feeMultiplier);
+      }
+    } catch (err) {
+      // Once an attempt went out it may still land, so it is unknown, never unsent
+      if (inFlight) attempts.push(inFlight);
+      const last = attempts[attempts.length - 1];
+      if (!last) throw err;
+      const error = (err as Error)?.message || String(err);
+      log.error(`${side} errored after sending ${last.signature}; status unknown: ${error}`);
+      return outcome("unknown", { signature: last.signature, error });
+    }
+
+    return outcome("expired", { error: `not landed after ${this.maxAttempts} attempts` });
+  }
+
+  /**
+   * Settle an "unknown" outcome after the fact from its signature's status,
+   * searched in history; expired once the block height has passed the
+   * attempt's blockhash with no status. Returned unchanged while neither
+   * can be told yet.
+   */
+  async resolve(outcome: ITxOutcome): Promise<ITxOutcome> {
+    if (outcome.status !== "unknown" || !outcome.signature) return outcome;
+    const attempt = outcome.attempts.find((a) => a.signature === outcome.signature);
+    // Outcomes recorded before the height was kept can only settle as landed or failed
+    const settled = await this.checkSignature(outcome.signature, attempt?.lastValidBlockHeight ?? Infinity, true);
+    if (!settled) return outcome;
+
+    const status = settled.result as ITxOutcome["status"];
+    log.info(`${outcome.side} ${outcome.signature} resolved from unknown to ${status}`);
+    return {
+      ...outcome,
+      status,
+      slot: settled.slot,
+      error: settled.error,
+      attempts: outcome.attempts.map((a) => (a === attempt ? { ...a, result: status, error: settled.error } : a)),
+      timestamp: new Date(),
+    };
+  }
+
+  /** Send and resend over RPC until the commitment is reached or the blockhash expires */
+  private async landViaRpc(tx: VersionedTransaction, signature: string, lastValidBlockHeight: number): Promise<AttemptResult> {
+    const raw = tx.serialize();
+    const deadline = Date.now() + this.attemptTimeoutMs;
+    let lastSend = 0;
+    let sendError: string | undefined;
+
+    while (Date.now() < deadline) {
+      if (Date.now() - lastSend >= this.rebroadcastIntervalMs) {
+        lastSend = Date.now();
+        try {
+          await this.connection.sendRawTransaction(raw, { skipPreflight: true, maxRetries: 0 });
+        } catch (err: any) {
+          sendError = err?.message || String(err); // often transient (node behind); keep polling
+        }
+      }
+
+      const settled = await this.checkSignature(signature, lastValidBlockHeight);
+      if (settled) return { ...settled, error: settled.error ?? (settled.result === "expired" ? sendError : undefined) };
+      await sleep(this.pollIntervalMs);
+    }
+    return { result: "unknown", error: sendError || "status checks failed until the deadline" };
+  }
+
+  /**
+   * Submit as a single-transaction bundle and follow it with
+   * getInflightBundleStatus until it lands or fails, then
+   * getBundleStatus for its commitment. The signature is watched on RPC
+   * too, which often sees the landing first.
+   */
+  private async landViaJito(tx: VersionedTransaction, signature: string, lastValidBlockHeight: number): Promise<AttemptResult> {
+    const bundle = await this.jito!.sendBundle([tx]);
+    if (bundle.status !== "accepted") {
+      return { result: "dropped", error: bundle.error || "bundle not accepted" };
+    }
+    const bundleId = bundle.bundleId;
+    const deadline = Date.now() + this.attemptTimeoutMs;
+
+    while (Date.now() < deadline) {
+      const settled = await this.checkSignature(signature, lastValidBlockHeight);
+      if (settled) return { ...settled, bundleId };
+
+      // "Invalid" also means not indexed yet, so only "Failed" ends the
+      // attempt early; otherwise the blockhash expiry above decides
+      const inflight = await this.jito!.getInflightBundleStatus(bundleId);
+      if (inflight === "Failed") {
+        return { result: "dropped", bundleId, error: "bundle failed" };
+      }
+      if (inflight === "Landed") {
+        // Bundles land atomically and only if every transaction succeeds
+        const status = await this.jito!.getBundleStatus(bundleId);
+        const rank = COMMITMENT_RANK[status.status as TxCommitment];
+        if (rank !== undefined && rank >= COMMITMENT_RANK[this.commitment]) {
+          return { result: "landed", bundleId, slot: status.slot };
+        }
+      }
+      await sleep(this.pollIntervalMs);
+    }
+    return { result: "unknown", bundleId, error: "bundle status checks failed until the deadline" };
+  }
+
+  /**
+   * Settled result for the signature, or null while it may still land.
+   * Expiry is only declared with no status at all once the block height
+   * passes the blockhash's last valid height. RPC errors count as "not
+   * yet": the caller's deadline bounds them.
+   */
+  private async checkSignature(
+    signature: string,
+    lastValidBlockHeight: number,
+    searchTransactionHistory = false
+  ): Promise<AttemptResult | null> {
+    try {
+      const { value } = await this.connection.getSignatureStatuses([signature], { searchTransactionHistory });
+      const status = value[0];
+      if (status?.err) {
+        return { result: "failed", slot: status.slot, error: JSON.stringify(status.err) };
+      }
+      if (status?.confirmationStatus && COMMITMENT_RANK[status.confirmationStatus] >= COMMITMENT_RANK[this.commitment]) {
+        return { result: "landed", slot: status.slot };
+      }
+      if (status) return null; // in a block, not yet at the commitment
+
+      const height = await this.connection.getBlockHeight("confirmed");
+      return height > lastValidBlockHeight ? { result: "expired" } : null;
+    } catch (err) {
+      log.warning(`Status check failed for ${signature}: ${(err as Error)?.message || err}`);
+      return null;
+    }
+  }
+
+  private async getLookupTables(tx: VersionedTransaction): Promise<AddressLookupTableAccount[]> {
+    if (tx.version === "legacy") return [];
+    const keys = tx.message.addressTableLookups.map((l) => l.accountKey);
+    const missing = keys.filter((k) => !this.lookupTables.has(k.toBase58()));
+    const fetched = await Promise.all(missing.map((k) => this.connection.getAddressLookupTable(k)));
+    for (const { value } of fetched) {
+      if (value) this.lookupTables.set(value.key.toBase58(), value);
+    }
+    return keys.map((k) => {
+      const table = this.lookupTables.get(k.toBase58());
+      if (!table) throw new Error(`Address lookup table ${k.toBase58()} not found`);
+      return table;
+    });
+  }
+}
+
+/** The transaction's own SetComputeUnitPrice, if it has one */
+function readPriorityFee(instructions: TransactionInstruction[]): number | undefined {
+  const ix = instructions.find(
+    (i) => i.programId.equals(ComputeBudgetProgram.programId) && i.data[0] === SET_COMPUTE_UNIT_PRICE
+  );
+  return ix ? Number(ix.data.readBigUInt64LE(1)) : undefined;
+}
+
+/** Copy of the instructions with the compute unit price replaced (or prepended) */
+function withPriorityFee(instructions: TransactionInstruction[], microLamports: number): TransactionInstruction[] {
+  const price = ComputeBudgetProgram.setComputeUnitPrice({ microLamports });
+  const index = instructions.findIndex(
+    (i) => i.programId.equals(ComputeBudgetProgram.programId) && i.data[0] === SET_COMPUTE_UNIT_PRICE
+  );
+  const copy = [...instructions];
+  if (index >= 0) copy[index] = price;
+  else copy.unshift(price);
+  return copy;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((r) => setTimeout(r, ms));
+}
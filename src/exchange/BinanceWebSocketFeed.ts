@@ -1,5 +1,7 @@
 import WebSocket from "ws";
+import { IPriceTickFeed, PriceTickCallback } from "../types/exchange.types";
 import { logger } from "../utils/logger";
+import { wsConnected, wsReconnects } from "../utils/metrics";
 
 const BINANCE_WS_URL = "wss://stream.binance.com:9443/ws";
 
@@ -35,20 +37,13 @@ const ASSETS = [
 
 const MAX_PRICE_HISTORY = 200;
 
-type PriceCallback = (
-  asset: string,
-  price: number,
-  change10s: number,
-  change30s: number
-) => void;
-
-export class BinanceWebSocketFeed {
+export class BinanceWebSocketFeed implements IPriceTickFeed {
   private ws: WebSocket | null = null;
   private prices: Map<string, { price: number; timestamp: number }[]> =
     new Map();
   private latestPrices: Map<string, number> = new Map();
-  private priceCallbacks: PriceCallback[] = [];
-  private connected = false;
+  private priceCallbacks: PriceTickCallback[] = [];
+  protected connected = false;
   private reconnectTimer: NodeJS.Timeout | null = null;
 
   constructor() {
@@ -67,6 +62,7 @@ export class BinanceWebSocketFeed {
 
     this.ws.on("open", () => {
       this.connected = true;
+      wsConnected.set(1, { feed: "binance" });
       logger.success("[BinanceWS] Connected to Binance WebSocket");
 
       const subscribeMsg = JSON.stringify({
@@ -107,37 +103,7 @@ export class BinanceWebSocketFeed {
           return;
         }
 
-        const now = Date.now();
-
-        // Update ring buffer
-        let history = this.prices.get(asset);
-        if (!history) {
-          history = [];
-          this.prices.set(asset, history);
-        }
-
-        history.push({ price, timestamp: now });
-
-        // Trim to max size
-        if (history.length > MAX_PRICE_HISTORY) {
-          history.splice(0, history.length - MAX_PRICE_HISTORY);
-        }
-
-        // Update latest price
-        this.latestPrices.set(asset, price);
-
-        // Compute changes
-        const change10s = this.computeChange(asset, 10_000);
-        const change30s = this.computeChange(asset, 30_000);
-
-        // Fire callbacks
-        for (const cb of this.priceCallbacks) {
-          try {
-            cb(asset, price, change10s, change30s);
-          } catch (err) {
-            logger.error("[BinanceWS] Error in price callback", err);
-          }
-        }
+        this.ingestPrice(asset, price, Date.now());
       } catch (err) {
         logger.error("[BinanceWS] Failed to parse message", err);
       }
@@ -145,6 +111,7 @@ export class BinanceWebSocketFeed {
 
     this.ws.on("close", (code: number, reason: Buffer) => {
       this.connected = false;
+      wsConnected.set(0, { feed: "binance" });
       logger.warning(
         `[BinanceWS] Connection closed (code=${code}, reason=${reason.toString()})`
       );
@@ -153,6 +120,7 @@ export class BinanceWebSocketFeed {
 
     this.ws.on("error", (err: Error) => {
       this.connected = false;
+      wsConnected.set(0, { feed: "binance" });
       logger.error("[BinanceWS] WebSocket error", err);
       this.reconnect();
     });
@@ -176,17 +144,11 @@ export class BinanceWebSocketFeed {
     }
 
     this.connected = false;
+    wsConnected.set(0, { feed: "binance" });
     logger.info("[BinanceWS] Disconnected");
   }
 
-  onPrice(
-    callback: (
-      asset: string,
-      price: number,
-      change10s: number,
-      change30s: number
-    ) => void
-  ): void {
+  onPrice(callback: PriceTickCallback): void {
     this.priceCallbacks.push(callback);
   }
 
@@ -210,6 +172,42 @@ export class BinanceWebSocketFeed {
     return this.connected;
   }
 
+  /**
+   * Record a price tick and fire callbacks. The timestamp is passed in so
+   * replayed ticks keep their recorded spacing for the 10s/30s changes.
+   */
+  protected ingestPrice(asset: string, price: number, timestamp: number): void {
+    // Update ring buffer
+    let history = this.prices.get(asset);
+    if (!history) {
+      history = [];
+      this.prices.set(asset, history);
+    }
+
+    history.push({ price, timestamp });
+
+    // Trim to max size
+    if (history.length > MAX_PRICE_HISTORY) {
+      history.splice(0, history.length - MAX_PRICE_HISTORY);
+    }
+
+    // Update latest price
+    this.latestPrices.set(asset, price);
+
+    // Compute changes
+    const change10s = this.computeChange(asset, 10_000);
+    const change30s = this.computeChange(asset, 30_000);
+
+    // Fire callbacks
+    for (const cb of this.priceCallbacks) {
+      try {
+        cb(asset, price, change10s, change30s);
+      } catch (err) {
+        logger.error("[BinanceWS] Error in price callback", err);
+      }
+    }
+  }
+
   private reconnect(): void {
     if (this.reconnectTimer) {
       return;
@@ -218,6 +216,7 @@ export class BinanceWebSocketFeed {
     logger.info("[BinanceWS] Scheduling reconnect in 3 seconds...");
     this.reconnectTimer = setTimeout(() => {
       this.reconnectTimer = null;
+      wsReconnects.inc({ feed: "binance" });
       this.connect();
     }, 3_000);
   }
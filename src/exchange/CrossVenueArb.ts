@@ -0,0 +1,181 @@
+/**
+ * Polymarket ↔ Kalshi cross-venue arbitrage: matching equivalent markets
+ * and pricing the locked-in profit of holding opposite sides on each.
+ *
+ * A Polymarket Up/Down window resolves Up when the asset closes at or
+ * above its start price. A Kalshi "above K" contract closing at the same
+ * time with K at that start price settles YES on exactly the same event,
+ * so Up + Kalshi NO (or Down + Kalshi YES) pays $1 whichever way it goes.
+ * The venues settle on different price sources (Chainlink vs CF
+ * Benchmarks), so strikes are only matched within a tight tolerance and
+ * a close inside that gap can still pay both or neither leg.
+ */
+
+import { ActiveKalshiMarket } from "./KalshiMarketDiscovery";
+import { kalshiFee, parseKalshiContract } from "./KalshiPricing";
+import {
+  ICrossExchangeOpportunity,
+  ICrossVenueMatch,
+  IUnifiedOrderbook,
+} from "../types/exchange.types";
+
+// Polymarket taker fee on crypto Up/Down markets:
+// fee = shares × price × rate × (price × (1 − price))^exponent
+const POLYMARKET_UPDOWN_FEE_RATE = 0.25;
+const POLYMARKET_UPDOWN_FEE_EXPONENT = 2;
+
+/** Taker fee in USDC for buying `shares` of an Up/Down token at `price` */
+export function polymarketTakerFee(shares: number, price: number): number {
+  if (shares <= 0 || price <= 0 || price >= 1) return 0;
+  const fee =
+    shares * price * POLYMARKET_UPDOWN_FEE_RATE * Math.pow(price * (1 - price), POLYMARKET_UPDOWN_FEE_EXPONENT);
+  return Math.round(fee * 1e4) / 1e4; // charged to 4 decimals
+}
+
+// ==================== MATCHING ====================
+
+/** The parts of a Polymarket Up/Down market the matcher needs */
+export interface UpDownWindow {
+  slug: string;
+  asset: string;
+  endTs: number;
+  startPrice: number;
+  upTokenId: string;
+  downTokenId: string;
+}
+
+export interface CrossVenueMatchOptions {
+  maxCloseGapMs?: number;   // default 60s
+  maxStrikeGapPct?: number; // default 0.0005 (0.05%)
+}
+
+/**
+ * Pair each Polymarket window with the Kalshi above/below contracts on
+ * the same asset that close with it and strike at its start price.
+ */
+export function matchUpDownToKalshi(
+  windows: UpDownWindow[],
+  kalshiMarkets: ActiveKalshiMarket[],
+  options: CrossVenueMatchOptions = {}
+): ICrossVenueMatch[] {
+  const maxCloseGapMs = options.maxCloseGapMs ?? 60_000;
+  const maxStrikeGapPct = options.maxStrikeGapPct ?? 0.0005;
+  const matches: ICrossVenueMatch[] = [];
+
+  for (const window of windows) {
+    if (!(window.startPrice > 0)) continue;
+
+    for (const market of kalshiMarkets) {
+      if (market.asset !== window.asset) continue;
+      const closeTs = Date.parse(market.closeTime);
+      if (!(Math.abs(closeTs - window.endTs) <= maxCloseGapMs)) continue;
+
+      const spec = parseKalshiContract(market);
+      if (!spec || spec.type === "range") continue;
+      const strike = spec.type === "above" ? spec.floor : spec.cap;
+      const strikeGapPct = Math.abs(strike - window.startPrice) / window.startPrice;
+      if (strikeGapPct > maxStrikeGapPct) continue;
+
+      matches.push({
+        asset: window.asset,
+        polymarketSlug: window.slug,
+        upTokenId: window.upTokenId,
+        downTokenId: window.downTokenId,
+        kalshiTicker: market.ticker,
+        kalshiYesIsUp: spec.type === "above",
+        strike,
+        startPrice: window.startPrice,
+        strikeGapPct,
+        closeTs,
+      });
+    }
+  }
+
+  return matches.sort((a, b) => a.strikeGapPct - b.strikeGapPct);
+}
+
+// ==================== PRICING ====================
+
+/** One executable arb: buy `units` on both legs at the quoted prices */
+export interface CrossVenueArbQuote {
+  opportunity: ICrossExchangeOpportunity;
+  units: number;
+  polymarket: { tokenId: string; outcome: "Up" | "Down"; price: number; fee: number };
+  kalshi: { side: "yes" | "no"; price: number; fee: number };
+  lockedProfit: number;     // units × (1 − cost) − both fees
+}
+
+/**
+ * Best of the two directions (Up + the Kalshi side paying on Down, or
+ * Down + the side paying on Up) at top-of-book, for at most `maxUnits`
+ * sets and `budget` dollars. Null when neither locks in a profit after
+ * fees.
+ */
+export function priceCrossVenueArb(
+  match: ICrossVenueMatch,
+  books: { up: IUnifiedOrderbook; down: IUnifiedOrderbook; kalshi: IUnifiedOrderbook },
+  budget: number
+): CrossVenueArbQuote | null {
+  const kalshiYes = books.kalshi.asks[0];
+  const kalshiNo = books.kalshi.bids[0]
+    ? { price: 1 - books.kalshi.bids[0].price, size: books.kalshi.bids[0].size }
+    : undefined;
+
+  // Direction A buys Polymarket Up; its hedge is the Kalshi side that pays on Down
+  const directions = [
+    {
+      outcome: "Up" as const,
+      pm: books.up.asks[0],
+      tokenId: match.upTokenId,
+      kalshiSide: match.kalshiYesIsUp ? ("no" as const) : ("yes" as const),
+      direction: "BUY_A_SELL_B" as const,
+    },
+    {
+      outcome: "Down" as const,
+      pm: books.down.asks[0],
+      tokenId: match.downTokenId,
+      kalshiSide: match.kalshiYesIsUp ? ("yes" as const) : ("no" as const),
+      direction: "BUY_B_SELL_A" as const,
+    },
+  ];
+
+  let best: CrossVenueArbQuote | null = null;
+  for (const d of directions) {
+    const k = d.kalshiSide === "yes" ? kalshiYes : kalshiNo;
+    if (!d.pm || !k || d.pm.price <= 0 || k.price <= 0) continue;
+
+    const cost = d.pm.price + k.price;
+    if (cost >= 1) continue;
+
+    // Kalshi trades whole contracts; size both legs identically
+    const units = Math.floor(Math.min(d.pm.size, k.size, budget / cost));
+    if (units < 1) continue;
+
+    const pmFee = polymarketTakerFee(units, d.pm.price);
+    const kFee = kalshiFee(units, k.price);
+    const lockedProfit = units * (1 - cost) - pmFee - kFee;
+    if (lockedProfit <= 0 || (best && lockedProfit <= best.lockedProfit)) continue;
+
+    best = {
+      opportunity: {
+        type: "cross_exchange_arb",
+        exchangeA: "polymarket",
+        exchangeB: "kalshi",
+        symbol: match.polymarketSlug,
+        priceA: d.pm.price,
+        priceB: k.price,
+        spread: 1 - cost,
+        expectedProfit: lockedProfit,
+        // Wider strike gaps leave more room for the venues to disagree
+        confidence: Math.max(0, 1 - match.strikeGapPct / 0.001),
+        direction: d.direction,
+      },
+      units,
+      polymarket: { tokenId: d.tokenId, outcome: d.outcome, price: d.pm.price, fee: pmFee },
+      kalshi: { side: d.kalshiSide, price: k.price, fee: kFee },
+      lockedProfit,
+    };
+  }
+
+  return best;
+}
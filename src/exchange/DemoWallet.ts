@@ -1,5 +1,11 @@
-import { IDemoPosition, IDemoWalletState, IEquityPoint } from "../types/exchange.types";
+import {
+  IDemoPosition,
+  IDemoWalletState,
+  IDemoWalletSnapshot,
+  IEquityPoint,
+} from "../types/exchange.types";
 import { logger } from "../utils/logger";
+import { IClock, systemClock } from "../utils/clock";
 import { v4 as uuidv4 } from "uuid";
 
 const MAX_EQUITY_POINTS = 10000;
@@ -13,11 +19,17 @@ export class DemoWallet {
   private perExchangePnl: Map<string, number> = new Map();
   private totalRealizedPnl = 0;
   private positionTimeoutMs: number;
+  private clock: IClock;
 
-  constructor(startingBalance = 100, positionTimeoutMs = DEFAULT_POSITION_TIMEOUT_MS) {
+  constructor(
+    startingBalance = 100,
+    positionTimeoutMs = DEFAULT_POSITION_TIMEOUT_MS,
+    clock: IClock = systemClock
+  ) {
     this.balance = startingBalance;
     this.startingBalance = startingBalance;
     this.positionTimeoutMs = positionTimeoutMs;
+    this.clock = clock;
     this.recordEquity();
     logger.info(`[DemoWallet] Initialized with $${startingBalance.toFixed(2)}`);
   }
@@ -56,7 +68,7 @@ export class DemoWallet {
       currentPrice: entryPrice,
       unrealizedPnl: 0,
       strategy,
-      openedAt: Date.now(),
+      openedAt: this.clock.now(),
     };
 
     this.balance -= size;
@@ -95,6 +107,30 @@ export class DemoWallet {
     return pnl;
   }
 
+  /**
+   * Remove a position as if it never opened: margin is refunded and no
+   * P&L is realized. Used when a live order backing it is rejected.
+   */
+  cancelPosition(positionId: string): boolean {
+    const pos = this.positions.get(positionId);
+    if (!pos) return false;
+
+    this.balance += pos.size;
+    this.positions.delete(positionId);
+    return true;
+  }
+
+  /**
+   * Deduct an exchange trading fee from cash. Fees count as realized loss
+   * for the exchange, so P&L totals stay net of costs.
+   */
+  chargeFee(exchange: string, amount: number): void {
+    if (amount <= 0) return;
+    this.balance -= amount;
+    this.totalRealizedPnl -= amount;
+    this.perExchangePnl.set(exchange, (this.perExchangePnl.get(exchange) || 0) - amount);
+  }
+
   updatePositionPrice(positionId: string, currentPrice: number): void {
     const pos = this.positions.get(positionId);
     if (!pos) return;
@@ -112,7 +148,7 @@ export class DemoWallet {
   }
 
   checkAndCloseExpiredPositions(getCurrentPrice: (exchange: string, symbol: string) => number): number {
-    const now = Date.now();
+    const now = this.clock.now();
     let totalClosed = 0;
 
     const entries = Array.from(this.positions.entries());
@@ -152,7 +188,7 @@ export class DemoWallet {
 
   recordEquity(): void {
     const equity = this.getEquity();
-    this.equityCurve.push({ timestamp: Date.now(), equity });
+    this.equityCurve.push({ timestamp: this.clock.now(), equity });
 
     if (this.equityCurve.length > MAX_EQUITY_POINTS) {
       this.equityCurve = this.equityCurve.slice(-MAX_EQUITY_POINTS);
@@ -200,6 +236,36 @@ export class DemoWallet {
     };
   }
 
+  /**
+   * Full state for persistence (paper sessions).
+   */
+  toSnapshot(): IDemoWalletSnapshot {
+    return {
+      ...this.getState(),
+      positions: this.getPositions().map((p) => ({ ...p })),
+      equityCurve: this.equityCurve.map((p) => ({ ...p })),
+      takenAt: this.clock.now(),
+      startingBalance: this.startingBalance,
+    };
+  }
+
+  /**
+   * Replace all in-memory state with a snapshot. Restores in place, so
+   * components already holding this wallet see the resumed session.
+   */
+  restoreSnapshot(snapshot: IDemoWalletSnapshot): void {
+    this.balance = snapshot.totalBalance;
+    this.startingBalance = snapshot.startingBalance;
+    this.positions = new Map(snapshot.positions.map((p) => [p.id, { ...p }]));
+    this.equityCurve = snapshot.equityCurve.slice(-MAX_EQUITY_POINTS);
+    this.perExchangePnl = new Map(Object.entries(snapshot.perExchangePnl));
+    this.totalRealizedPnl = snapshot.totalRealizedPnl;
+    logger.info(
+      `[DemoWallet] Restored snapshot from ${new Date(snapshot.takenAt).toISOString()} | ` +
+        `Equity: $${snapshot.totalEquity.toFixed(2)} | Positions: ${snapshot.positions.length}`
+    );
+  }
+
   getBalance(): number {
     return this.balance;
   }
@@ -0,0 +1,443 @@
+import { DemoWallet } from "./DemoWallet";
+import { HyperliquidClient } from "./HyperliquidClient";
+import { KalshiClient } from "./KalshiClient";
+import { PolymarketClient } from "../polymarket/PolymarketClient";
+import {
+  IExchangeClient,
+  IExecutionVenue,
+  IExecutionConfig,
+  ExecutionMode,
+  IDemoPosition,
+  IUnifiedOrderbook,
+} from "../types/exchange.types";
+import { logger, Logger } from "../utils/logger";
+
+const log = logger.child("ExecutionRouter");
+
+type OrderResult = { success: boolean; orderId?: string; error?: string };
+
+// ==================== PAPER ====================
+
+/** Simulated fills straight against the DemoWallet */
+export class PaperVenue implements IExecutionVenue {
+  readonly id = "paper";
+  readonly mode: ExecutionMode = "paper";
+  private wallet: DemoWallet;
+
+  constructor(wallet: DemoWallet) {
+    this.wallet = wallet;
+  }
+
+  openPosition(
+    exchange: string,
+    symbol: string,
+    side: "LONG" | "SHORT",
+    size: number,
+    entryPrice: number,
+    strategy: string,
+    leverage = 1
+  ): IDemoPosition | null {
+    return this.wallet.openPosition(exchange, symbol, side, size, entryPrice, strategy, leverage);
+  }
+
+  closePosition(positionId: string, exitPrice: number): number {
+    return this.wallet.closePosition(positionId, exitPrice);
+  }
+
+  settlePosition(positionId: string, settlementPrice: number): number {
+    return this.wallet.closePosition(positionId, settlementPrice);
+  }
+
+  checkLiquidation(positionId: string, currentPrice: number): boolean {
+    return this.wallet.checkLiquidation(positionId, currentPrice);
+  }
+
+  whenOpened(positionId: string): Promise<boolean> {
+    return Promise.resolve(this.wallet.getPositions().some((p) => p.id === positionId));
+  }
+}
+
+// ==================== LIVE ====================
+
+interface LiveOrder {
+  position: IDemoPosition;
+  units: number;            // exchange order size (coins, shares, contracts)
+  opened: Promise<boolean>; // resolves once the entry order is accepted or rejected
+}
+
+/**
+ * Real orders through an IExchangeClient, with the DemoWallet as ledger.
+ *
+ * The engine's tick loop is synchronous, so the position is booked at the
+ * engine's reference price immediately and the market order is sent in
+ * the background. A rejected entry order cancels the booking (margin
+ * refunded, no P&L); an exit waits for the entry to settle first, so a
+ * position whose entry was rejected never sends an exit.
+ */
+export class LiveVenue implements IExecutionVenue {
+  readonly id: string;
+  readonly mode: ExecutionMode = "live";
+  protected client: IExchangeClient;
+  protected ledger: DemoWallet;
+  protected log: Logger;
+  private orders: Map<string, LiveOrder> = new Map();
+
+  constructor(client: IExchangeClient, ledger: DemoWallet) {
+    this.id = client.id;
+    this.client = client;
+    this.ledger = ledger;
+    this.log = logger.child(`${client.name}Venue`);
+  }
+
+  openPosition(
+    exchange: string,
+    symbol: string,
+    side: "LONG" | "SHORT",
+    size: number,
+    entryPrice: number,
+    strategy: string,
+    leverage = 1
+  ): IDemoPosition | null {
+    const pos = this.ledger.openPosition(exchange, symbol, side, size, entryPrice, strategy, leverage);
+    if (!pos) return null;
+
+    const units = this.orderUnits(pos);
+    if (units <= 0) {
+      this.ledger.cancelPosition(pos.id);
+      this.log.warning(`${strategy} ${symbol} size $${size.toFixed(2)} is below one order unit`);
+      return null;
+    }
+
+    const opened = this.sendOpen(pos, units)
+      .then((result) => {
+        if (result.success) {
+          this.log.success(
+            `${pos.strategy} ${pos.side} ${units} ${pos.symbol} | order ${result.orderId}`
+          );
+          return true;
+        }
+        this.reverse(pos, result.error);
+        return false;
+      })
+      .catch((err) => {
+        this.reverse(pos, err.message);
+        return false;
+      });
+
+    this.orders.set(pos.id, { position: pos, units, opened });
+    return pos;
+  }
+
+  closePosition(positionId: string, exitPrice: number): number {
+    const pnl = this.ledger.closePosition(positionId, exitPrice);
+    const order = this.orders.get(positionId);
+    if (!order) return pnl;
+    this.orders.delete(positionId);
+
+    order.opened
+      .then((ok) => (ok ? this.sendClose(order.position, order.units, exitPrice) : null))
+      .then((result) => {
+        if (!result) return;
+        if (result.success) {
+          this.log.success(`Closed ${order.units} ${order.position.symbol} | order ${result.orderId}`);
+        } else {
+          this.log.error(
+            `Exit for ${order.position.symbol} rejected — exchange position still open: ${result.error}`
+          );
+        }
+      })
+      .catch((err) => this.log.error(`Exit for ${order.position.symbol} failed:`, err));
+
+    return pnl;
+  }
+
+  /** Resolved binary positions are redeemed, not sold: only the ledger is closed */
+  settlePosition(positionId: string, settlementPrice: number): number {
+    this.orders.delete(positionId);
+    return this.ledger.closePosition(positionId, settlementPrice);
+  }
+
+  /**
+   * The ledger's liquidation threshold is tighter than the exchange's, so
+   * a ledger liquidation still flattens whatever remains on the exchange.
+   */
+  checkLiquidation(positionId: string, currentPrice: number): boolean {
+    const order = this.orders.get(positionId);
+    if (!this.ledger.checkLiquidation(positionId, currentPrice)) return false;
+    if (order) {
+      this.orders.delete(positionId);
+      order.opened
+        .then((ok) => (ok ? this.sendClose(order.position, order.units, currentPrice) : null))
+        .catch((err) => this.log.error("Liquidation exit failed:", err));
+    }
+    return true;
+  }
+
+  whenOpened(positionId: string): Promise<boolean> {
+    const order = this.orders.get(positionId);
+    if (order) return order.opened;
+    return Promise.resolve(this.ledger.getPositions().some((p) => p.id === positionId));
+  }
+
+  /** Exchange order size for a booked position; default is notional / price */
+  protected orderUnits(pos: IDemoPosition): number {
+    return pos.notional / pos.entryPrice;
+  }
+
+  protected sendOpen(pos: IDemoPosition, units: number): Promise<OrderResult> {
+    return this.client.placeMarketOrder(pos.symbol, pos.side === "LONG" ? "BUY" : "SELL", units);
+  }
+
+  protected sendClose(pos: IDemoPosition, units: number, _exitPrice: number): Promise<OrderResult> {
+    return this.client.placeMarketOrder(pos.symbol, pos.side === "LONG" ? "SELL" : "BUY", units);
+  }
+
+  private reverse(pos: IDemoPosition, error?: string): void {
+    this.orders.delete(pos.id);
+    const reversed = this.ledger.cancelPosition(pos.id);
+    this.log.error(
+      `${pos.strategy} ${pos.side} ${pos.symbol} rejected` +
+      `${reversed ? " — position reversed" : " after the ledger closed it (P&L stands)"}: ${error}`
+    );
+  }
+}
+
+/** Perps: size in coins, exits are reduce-only so they can never flip the position */
+export class HyperliquidVenue extends LiveVenue {
+  private hyperliquid: HyperliquidClient;
+
+  constructor(client: HyperliquidClient, ledger: DemoWallet) {
+    super(client, ledger);
+    this.hyperliquid = client;
+  }
+
+  protected sendClose(pos: IDemoPosition, units: number): Promise<OrderResult> {
+    return this.hyperliquid.closePosition(pos.symbol, pos.side === "LONG", units);
+  }
+}
+
+/**
+ * Whole contracts only. Ledger symbols are YES tickers or NO contracts
+ * (see KalshiClient.noSymbol), both held LONG at their own price. Orders
+ * are limits at the booked price so a moved book can't fill worse than
+ * the engine assumed.
+ */
+export class KalshiVenue extends LiveVenue {
+  private kalshi: KalshiClient;
+
+  constructor(client: KalshiClient, ledger: DemoWallet) {
+    super(client, ledger);
+    this.kalshi = client;
+  }
+
+  protected orderUnits(pos: IDemoPosition): number {
+    // Tolerate float error: 7 × $0.43 / $0.43 must stay 7 contracts
+    return Math.floor(pos.notional / pos.entryPrice + 1e-9);
+  }
+
+  protected sendOpen(pos: IDemoPosition, units: number): Promise<OrderResult> {
+    const { ticker, contractSide } = KalshiClient.parseSymbol(pos.symbol);
+    return this.kalshi.placeLimitOrder(ticker, pos.side === "LONG" ? "BUY" : "SELL", pos.entryPrice, units, contractSide);
+  }
+
+  protected sendClose(pos: IDemoPosition, units: number, exitPrice: number): Promise<OrderResult> {
+    const { ticker, contractSide } = KalshiClient.parseSymbol(pos.symbol);
+    return this.kalshi.placeLimitOrder(ticker, pos.side === "LONG" ? "SELL" : "BUY", exitPrice, units, contractSide);
+  }
+}
+
+/** Outcome tokens: size in shares, rounded down to 2 decimals */
+export class PolymarketVenue extends LiveVenue {
+  constructor(client: PolymarketClient, ledger: DemoWallet) {
+    super(new PolymarketOrderClient(client), ledger);
+  }
+
+  protected orderUnits(pos: IDemoPosition): number {
+    return Math.floor((pos.notional / pos.entryPrice) * 100) / 100;
+  }
+}
+
+/** IExchangeClient view of the CLOB client, whose order responses use their own shape */
+class PolymarketOrderClient implements IExchangeClient {
+  readonly id = "polymarket";
+  readonly name = "Polymarket";
+  private client: PolymarketClient;
+
+  constructor(client: PolymarketClient) {
+    this.client = client;
+  }
+
+  async getOrderbook(tokenId: string): Promise<IUnifiedOrderbook | null> {
+    const book = await this.client.getOrderbook(tokenId);
+    if (!book) return null;
+
+    const bids = book.bids.map((l) => ({ price: parseFloat(l.price), size: parseFloat(l.size) }))
+      .sort((a, b) => b.price - a.price);
+    const asks = book.asks.map((l) => ({ price: parseFloat(l.price), size: parseFloat(l.size) }))
+      .sort((a, b) => a.price - b.price);
+    const bestBid = bids[0]?.price ?? 0;
+    const bestAsk = asks[0]?.price ?? 1;
+
+    return {
+      exchange: this.id,
+      symbol: tokenId,
+      bids,
+      asks,
+      midPrice: (bestBid + bestAsk) / 2,
+      spread: bestAsk - bestBid,
+      timestamp: book.timestamp,
+    };
+  }
+
+  async placeLimitOrder(tokenId: string, side: "BUY" | "SELL", price: number, size: number): Promise<OrderResult> {
+    const resp = await this.client.placeLimitOrder(tokenId, side, price, size);
+    return { success: resp.success, orderId: resp.orderID, error: resp.errorMsg };
+  }
+
+  async placeMarketOrder(tokenId: string, side: "BUY" | "SELL", size: number): Promise<OrderResult> {
+    const resp = await this.client.placeMarketOrder(tokenId, side, size);
+    return { success: resp.success, orderId: resp.orderID, error: resp.errorMsg };
+  }
+
+  cancelOrder(orderId: string): Promise<boolean> {
+    return this.client.cancelOrder(orderId);
+  }
+
+  isConnected(): boolean {
+    return this.client.isAuthenticated();
+  }
+}
+
+// ==================== ROUTER ====================
+
+/**
+ * Picks the venue for each new position from IExecutionConfig and sends
+ * its exit to the same venue. Strategy names are matched exactly, then by
+ * dropping trailing "_segments" ("pm_arb_up" → "pm_arb"), so both legs of
+ * a paired strategy route together. A strategy set live on an exchange
+ * without a live venue falls back to paper.
+ */
+export class ExecutionRouter implements IExecutionVenue {
+  readonly id = "router";
+  private wallet: DemoWallet;
+  private paper: PaperVenue;
+  private live: Map<string, IExecutionVenue> = new Map();
+  private config: IExecutionConfig;
+  private positionVenues: Map<string, IExecutionVenue> = new Map();
+  private warnedMissing: Set<string> = new Set();
+
+  constructor(wallet: DemoWallet, liveVenues: IExecutionVenue[] = [], config?: IExecutionConfig) {
+    this.wallet = wallet;
+    this.paper = new PaperVenue(wallet);
+    for (const venue of liveVenues) this.live.set(venue.id, venue);
+    this.config = config || { exchanges: {}, strategies: {} };
+
+    for (const [key, mode] of [
+      ...Object.entries(this.config.exchanges),
+      ...Object.entries(this.config.strategies),
+    ]) {
+      if (mode === "live") log.warning(`LIVE: ${key}`);
+    }
+  }
+
+  get mode(): ExecutionMode {
+    return this.live.size > 0 && Object.values({ ...this.config.exchanges, ...this.config.strategies }).includes("live")
+      ? "live"
+      : "paper";
+  }
+
+  /**
+   * Parse "a:live,b:paper" (EXECUTION_EXCHANGES / EXECUTION_STRATEGIES).
+   */
+  static parseModes(spec?: string): Record<string, ExecutionMode> {
+    const modes: Record<string, ExecutionMode> = {};
+    if (!spec) return modes;
+    for (const entry of spec.split(",").map((e) => e.trim()).filter(Boolean)) {
+      const [key, mode] = entry.split(":").map((p) => p.trim());
+      if (mode !== "live" && mode !== "paper") {
+        throw new Error(`Invalid execution mode in "${entry}" (expected <name>:live or <name>:paper)`);
+      }
+      modes[key] = mode;
+    }
+    return modes;
+  }
+
+  venueFor(exchange: string, strategy: string): IExecutionVenue {
+    const mode = this.strategyMode(strategy) ?? this.config.exchanges[exchange] ?? "paper";
+    if (mode === "paper") return this.paper;
+
+    const venue = this.live.get(exchange);
+    if (venue) return venue;
+
+    if (!this.warnedMissing.has(exchange)) {
+      this.warnedMissing.add(exchange);
+      log.warning(`No live venue for ${exchange} — ${strategy} stays on paper`);
+    }
+    return this.paper;
+  }
+
+  openPosition(
+    exchange: string,
+    symbol: string,
+    side: "LONG" | "SHORT",
+    size: number,
+    entryPrice: number,
+    strategy: string,
+    leverage = 1
+  ): IDemoPosition | null {
+    this.prune();
+    const venue = this.venueFor(exchange, strategy);
+    const pos = venue.openPosition(exchange, symbol, side, size, entryPrice, strategy, leverage);
+    if (pos) this.positionVenues.set(pos.id, venue);
+    return pos;
+  }
+
+  closePosition(positionId: string, exitPrice: number): number {
+    const venue = this.positionVenues.get(positionId) || this.paper;
+    this.positionVenues.delete(positionId);
+    return venue.closePosition(positionId, exitPrice);
+  }
+
+  settlePosition(positionId: string, settlementPrice: number): number {
+    const venue = this.positionVenues.get(positionId) || this.paper;
+    this.positionVenues.delete(positionId);
+    return venue.settlePosition(positionId, settlementPrice);
+  }
+
+  checkLiquidation(positionId: string, currentPrice: number): boolean {
+    const venue = this.positionVenues.get(positionId) || this.paper;
+    const liquidated = venue.checkLiquidation(positionId, currentPrice);
+    if (liquidated) this.positionVenues.delete(positionId);
+    return liquidated;
+  }
+
+  whenOpened(positionId: string): Promise<boolean> {
+    const venue = this.positionVenues.get(positionId) || this.paper;
+    return venue.whenOpened ? venue.whenOpened(positionId) : Promise.resolve(true);
+  }
+
+  /** Venue mode of an open position (restored or unknown positions are paper) */
+  getPositionMode(positionId: string): ExecutionMode {
+    return (this.positionVenues.get(positionId) || this.paper).mode;
+  }
+
+  private strategyMode(strategy: string): ExecutionMode | undefined {
+    let key = strategy;
+    while (key) {
+      const mode = this.config.strategies[key];
+      if (mode) return mode;
+      const cut = key.lastIndexOf("_");
+      key = cut > 0 ? key.slice(0, cut) : "";
+    }
+    return undefined;
+  }
+
+  /** Forget positions the ledger closed on its own (timeouts, rejected entries) */
+  private prune(): void {
+    if (this.positionVenues.size === 0) return;
+    const open = new Set(this.wallet.getPositions().map((p) => p.id));
+    for (const id of this.positionVenues.keys()) {
+      if (!open.has(id)) this.positionVenues.delete(id);
+    }
+  }
+}
@@ -1,15 +1,52 @@
 import axios, { AxiosInstance } from "axios";
+import crypto from "crypto";
+import { Wallet, Signature, keccak256, concat, getBytes } from "ethers";
 import { IExchangeClient, IUnifiedOrderbook, IUnifiedBookLevel } from "../types/exchange.types";
 import {
   IHyperliquidL2Book,
   IHyperliquidMeta,
   IHyperliquidRawLevel,
   IHyperliquidUserState,
+  IHyperliquidOrderParams,
+  IHyperliquidOrderWire,
+  IHyperliquidOrderResponse,
+  IHyperliquidCancelResponse,
+  IHyperliquidOrderResult,
+  IHyperliquidSignature,
+  IHyperliquidOpenOrder,
+  IHyperliquidFill,
 } from "../types/hyperliquid.types";
+import { msgpackEncode } from "../utils/msgpack";
 import { logger } from "../utils/logger";
+import { orderLatency, recordOrderResult } from "../utils/metrics";
 
-const HYPERLIQUID_INFO_URL = "https://api.hyperliquid.xyz/info";
-const HYPERLIQUID_EXCHANGE_URL = "https://api.hyperliquid.xyz/exchange";
+const HYPERLIQUID_MAINNET_URL = "https://api.hyperliquid.xyz";
+
+const MARKET_ORDER_SLIPPAGE = 0.05; // IOC limit 5% through the mid
+const PRICE_SIG_FIGS = 5;
+const PERP_MAX_DECIMALS = 6;
+
+// L1 actions are signed as an EIP-712 "Agent" over the action hash
+const EXCHANGE_DOMAIN = {
+  name: "Exchange",
+  version: "1",
+  chainId: 1337,
+  verifyingContract: "0x0000000000000000000000000000000000000000",
+};
+const AGENT_TYPES = {
+  Agent: [
+    { name: "source", type: "string" },
+    { name: "connectionId", type: "bytes32" },
+  ],
+};
+
+export interface HyperliquidClientOptions {
+  privateKey?: string;      // signer; order methods fail without it
+  baseUrl?: string;         // e.g. testnet or a local mock server
+  isMainnet?: boolean;      // default: baseUrl is the mainnet API
+  accountAddress?: string;  // queried account when signing with an API wallet
+  vaultAddress?: string;    // trade on behalf of a vault / subaccount
+}
 
 export class HyperliquidClient implements IExchangeClient {
   readonly id = "hyperliquid";
@@ -19,16 +56,36 @@ export class HyperliquidClient implements IExchangeClient {
   private meta: IHyperliquidMeta | null = null;
   private connected = false;
 
-  constructor() {
+  private infoUrl: string;
+  private exchangeUrl: string;
+  private isMainnet: boolean;
+  private wallet: Wallet | null = null;
+  private accountAddress: string | null;
+  private vaultAddress: string | null;
+  private lastNonce = 0;
+  private orderCoins: Map<string, string> = new Map(); // oid → coin, for cancelOrder(orderId)
+
+  constructor(options: HyperliquidClientOptions = {}) {
     this.http = axios.create({ timeout: 10000 });
     this.connected = true;
+
+    const baseUrl = (options.baseUrl || HYPERLIQUID_MAINNET_URL).replace(/\/$/, "");
+    this.infoUrl = `${baseUrl}/info`;
+    this.exchangeUrl = `${baseUrl}/exchange`;
+    this.isMainnet = options.isMainnet ?? baseUrl === HYPERLIQUID_MAINNET_URL;
+
+    if (options.privateKey) {
+      this.wallet = new Wallet(options.privateKey);
+    }
+    this.accountAddress = options.accountAddress || this.wallet?.address || null;
+    this.vaultAddress = options.vaultAddress || null;
   }
 
   // ==================== INFO ENDPOINTS ====================
 
   async getMeta(): Promise<IHyperliquidMeta | null> {
     try {
-      const resp = await this.http.post(HYPERLIQUID_INFO_URL, { type: "meta" });
+      const resp = await this.http.post(this.infoUrl, { type: "meta" });
       this.meta = resp.data;
       return this.meta;
     } catch (error: any) {
@@ -39,7 +96,7 @@ export class HyperliquidClient implements IExchangeClient {
 
   async getL2Book(coin: string, nSigFigs = 5): Promise<IHyperliquidL2Book | null> {
     try {
-      const resp = await this.http.post(HYPERLIQUID_INFO_URL, {
+      const resp = await this.http.post(this.infoUrl, {
         type: "l2Book",
         coin,
         nSigFigs,
@@ -53,7 +110,7 @@ export class HyperliquidClient implements IExchangeClient {
 
   async getAllMids(): Promise<Record<string, string> | null> {
     try {
-      const resp = await this.http.post(HYPERLIQUID_INFO_URL, { type: "allMids" });
+      const resp = await this.http.post(this.infoUrl, { type: "allMids" });
       return resp.data;
     } catch (error: any) {
       logger.error(`[Hyperliquid] Failed to get all mids: ${error.message}`);
@@ -63,7 +120,7 @@ export class HyperliquidClient implements IExchangeClient {
 
   async getUserState(address: string): Promise<IHyperliquidUserState | null> {
     try {
-      const resp = await this.http.post(HYPERLIQUID_INFO_URL, {
+      const resp = await this.http.post(this.infoUrl, {
         type: "clearinghouseState",
         user: address,
       });
@@ -112,21 +169,206 @@ export class HyperliquidClient implements IExchangeClient {
     price: number,
     size: number
   ): Promise<{ success: boolean; orderId?: string; error?: string }> {
-    // Hyperliquid requires EVM wallet signing for orders
-    // For demo/read-only mode, return simulated success
-    return { success: false, error: "Hyperliquid order signing not configured (demo mode)" };
+    const result = await this.placeOrder({ coin: symbol, isBuy: side === "BUY", price, size, tif: "Gtc" });
+    return { success: result.success, orderId: result.orderId, error: result.error };
   }
 
+  /**
+   * Hyperliquid has no true market order: send an IOC limit priced
+   * MARKET_ORDER_SLIPPAGE through the current mid.
+   */
   async placeMarketOrder(
     symbol: string,
     side: "BUY" | "SELL",
     size: number
   ): Promise<{ success: boolean; orderId?: string; error?: string }> {
-    return { success: false, error: "Hyperliquid order signing not configured (demo mode)" };
+    const result = await this.placeIocOrder(symbol, side === "BUY", size);
+    return { success: result.success, orderId: result.orderId, error: result.error };
   }
 
   async cancelOrder(orderId: string): Promise<boolean> {
-    return false;
+    if (orderId.startsWith("0x")) {
+      const coin = this.orderCoins.get(orderId) || (await this.findOpenOrderCoin(orderId));
+      return coin ? this.cancelByCloid(coin, orderId) : false;
+    }
+
+    const oid = parseInt(orderId, 10);
+    if (isNaN(oid)) return false;
+    const coin = this.orderCoins.get(orderId) || (await this.findOpenOrderCoin(orderId));
+    return coin ? this.cancel(coin, oid) : false;
+  }
+
+  // ==================== ORDER ACTIONS ====================
+
+  /**
+   * Place one order. Price is rounded to 5 significant figures and the
+   * asset's decimal limit, size to its szDecimals.
+   */
+  async placeOrder(params: IHyperliquidOrderParams): Promise<IHyperliquidOrderResult> {
+    const results = await this.placeOrders([params]);
+    return results[0];
+  }
+
+  /** Place several orders in one signed action (statuses come back in order) */
+  async placeOrders(orders: IHyperliquidOrderParams[]): Promise<IHyperliquidOrderResult[]> {
+    const fail = (error: string) => orders.map(() => ({ success: false, error }));
+    if (!this.wallet) return fail("Hyperliquid private key not configured");
+    if (!(await this.ensureMeta())) return fail("Hyperliquid meta unavailable");
+
+    const wires: IHyperliquidOrderWire[] = [];
+    for (const order of orders) {
+      const asset = this.getAssetIndex(order.coin);
+      if (asset < 0) return fail(`Unknown Hyperliquid coin: ${order.coin}`);
+      const szDecimals = this.meta!.universe[asset].szDecimals;
+
+      const wire: IHyperliquidOrderWire = {
+        a: asset,
+        b: order.isBuy,
+        p: floatToWire(roundPrice(order.price, szDecimals)),
+        s: floatToWire(roundTo(order.size, szDecimals)),
+        r: order.reduceOnly ?? false,
+        t: { limit: { tif: order.tif ?? "Gtc" } },
+      };
+      if (order.cloid) wire.c = order.cloid;
+      wires.push(wire);
+    }
+
+    const endTimer = orderLatency.startTimer({ venue: "hyperliquid" });
+    const results = await this.submitOrders(orders, wires);
+    endTimer();
+    for (const result of results) recordOrderResult("hyperliquid", result.success, result.error);
+    return results;
+  }
+
+  /** Post built order wires; one result per order, in order */
+  private async submitOrders(
+    orders: IHyperliquidOrderParams[],
+    wires: IHyperliquidOrderWire[]
+  ): Promise<IHyperliquidOrderResult[]> {
+    const fail = (error: string) => orders.map(() => ({ success: false, error }));
+    try {
+      const resp = await this.postAction({ type: "order", orders: wires, grouping: "na" });
+      const data = resp as IHyperliquidOrderResponse;
+      if (data.status !== "ok" || typeof data.response !== "object") {
+        return fail(typeof data.response === "string" ? data.response : "Order rejected");
+      }
+
+      return data.response.data.statuses.map((status, i) => {
+        const coin = orders[i].coin;
+        if ("resting" in status) {
+          this.trackOrder(coin, status.resting.oid, orders[i].cloid);
+          return { success: true, orderId: String(status.resting.oid), cloid: orders[i].cloid, resting: true };
+        }
+        if ("filled" in status) {
+          this.trackOrder(coin, status.filled.oid, orders[i].cloid);
+          return {
+            success: true,
+            orderId: String(status.filled.oid),
+            cloid: orders[i].cloid,
+            resting: false,
+            filledSize: parseFloat(status.filled.totalSz),
+            avgPrice: parseFloat(status.filled.avgPx),
+          };
+        }
+        return { success: false, error: status.error };
+      });
+    } catch (error: any) {
+      logger.error(`[Hyperliquid] Order failed: ${error.message}`);
+      return fail(error.message);
+    }
+  }
+
+  /** Immediate-or-cancel at the mid ± slippage; unfilled size is cancelled */
+  async placeIocOrder(
+    coin: string,
+    isBuy: boolean,
+    size: number,
+    options: { reduceOnly?: boolean; cloid?: string; slippage?: number } = {}
+  ): Promise<IHyperliquidOrderResult> {
+    const mids = await this.getAllMids();
+    const mid = mids ? parseFloat(mids[coin]) : NaN;
+    if (!mid || isNaN(mid)) return { success: false, error: `No mid price for ${coin}` };
+
+    const slippage = options.slippage ?? MARKET_ORDER_SLIPPAGE;
+    return this.placeOrder({
+      coin,
+      isBuy,
+      size,
+      price: mid * (isBuy ? 1 + slippage : 1 - slippage),
+      tif: "Ioc",
+      reduceOnly: options.reduceOnly,
+      cloid: options.cloid,
+    });
+  }
+
+  /** Reduce-only IOC that flattens up to `size` of an open position */
+  async closePosition(coin: string, isLong: boolean, size: number): Promise<IHyperliquidOrderResult> {
+    return this.placeIocOrder(coin, !isLong, size, { reduceOnly: true });
+  }
+
+  async cancel(coin: string, oid: number): Promise<boolean> {
+    if (!this.wallet || !(await this.ensureMeta())) return false;
+    const asset = this.getAssetIndex(coin);
+    if (asset < 0) return false;
+
+    try {
+      const resp = await this.postAction({ type: "cancel", cancels: [{ a: asset, o: oid }] });
+      return this.cancelSucceeded(resp as IHyperliquidCancelResponse, `oid ${oid}`);
+    } catch (error: any) {
+      logger.error(`[Hyperliquid] Cancel ${oid} failed: ${error.message}`);
+      return false;
+    }
+  }
+
+  async cancelByCloid(coin: string, cloid: string): Promise<boolean> {
+    if (!this.wallet || !(await this.ensureMeta())) return false;
+    const asset = this.getAssetIndex(coin);
+    if (asset < 0) return false;
+
+    try {
+      const resp = await this.postAction({ type: "cancelByCloid", cancels: [{ asset, cloid }] });
+      return this.cancelSucceeded(resp as IHyperliquidCancelResponse, `cloid ${cloid}`);
+    } catch (error: any) {
+      logger.error(`[Hyperliquid] Cancel ${cloid} failed: ${error.message}`);
+      return false;
+    }
+  }
+
+  // ==================== ACCOUNT QUERIES ====================
+
+  async getOpenOrders(address = this.accountAddress): Promise<IHyperliquidOpenOrder[]> {
+    if (!address) return [];
+    try {
+      const resp = await this.http.post(this.infoUrl, { type: "openOrders", user: address });
+      return resp.data || [];
+    } catch (error: any) {
+      logger.error(`[Hyperliquid] Failed to get open orders: ${error.message}`);
+      return [];
+    }
+  }
+
+  async getUserFills(address = this.accountAddress): Promise<IHyperliquidFill[]> {
+    if (!address) return [];
+    try {
+      const resp = await this.http.post(this.infoUrl, { type: "userFills", user: address });
+      return resp.data || [];
+    } catch (error: any) {
+      logger.error(`[Hyperliquid] Failed to get user fills: ${error.message}`);
+      return [];
+    }
+  }
+
+  canTrade(): boolean {
+    return this.wallet !== null;
+  }
+
+  getAccountAddress(): string | null {
+    return this.accountAddress;
+  }
+
+  /** Random client order id in Hyperliquid's 16-byte hex format */
+  static newCloid(): string {
+    return "0x" + crypto.randomBytes(16).toString("hex");
   }
 
   isConnected(): boolean {
@@ -139,4 +381,98 @@ export class HyperliquidClient implements IExchangeClient {
     if (!this.meta) return -1;
     return this.meta.universe.findIndex((a) => a.name === coin);
   }
+
+  private async ensureMeta(): Promise<boolean> {
+    return this.meta !== null || (await this.getMeta()) !== null;
+  }
+
+  private trackOrder(coin: string, oid: number, cloid?: string): void {
+    this.orderCoins.set(String(oid), coin);
+    if (cloid) this.orderCoins.set(cloid, coin);
+  }
+
+  private async findOpenOrderCoin(orderId: string): Promise<string | null> {
+    const open = await this.getOpenOrders();
+    const match = open.find((o) => String(o.oid) === orderId || o.cloid === orderId);
+    return match ? match.coin : null;
+  }
+
+  private cancelSucceeded(resp: IHyperliquidCancelResponse, label: string): boolean {
+    if (resp.status !== "ok" || typeof resp.response !== "object") {
+      logger.warning(`[Hyperliquid] Cancel ${label} rejected: ${JSON.stringify(resp.response)}`);
+      return false;
+    }
+    const status = resp.response.data.statuses[0];
+    if (status !== "success") {
+      logger.warning(`[Hyperliquid] Cancel ${label} failed: ${status?.error}`);
+      return false;
+    }
+    return true;
+  }
+
+  // ==================== SIGNING ====================
+
+  /** Sign and POST an L1 action to /exchange */
+  private async postAction(action: Record<string, unknown>): Promise<unknown> {
+    const nonce = this.nextNonce();
+    const signature = await this.signL1Action(action, nonce);
+    const resp = await this.http.post(this.exchangeUrl, {
+      action,
+      nonce,
+      signature,
+      vaultAddress: this.vaultAddress,
+    });
+    return resp.data;
+  }
+
+  /**
+   * connectionId = keccak256(msgpack(action) ‖ nonce (u64 BE) ‖ vault flag [‖ vault]),
+   * signed as EIP-712 Agent { source: "a" mainnet | "b" testnet, connectionId }.
+   */
+  private async signL1Action(action: Record<string, unknown>, nonce: number): Promise<IHyperliquidSignature> {
+    const nonceBytes = Buffer.alloc(8);
+    nonceBytes.writeBigUInt64BE(BigInt(nonce));
+    const vaultBytes = this.vaultAddress
+      ? concat([new Uint8Array([1]), getBytes(this.vaultAddress)])
+      : new Uint8Array([0]);
+
+    const connectionId = keccak256(concat([msgpackEncode(action), nonceBytes, vaultBytes]));
+    const sig = await this.wallet!.signTypedData(EXCHANGE_DOMAIN, AGENT_TYPES, {
+      source: this.isMainnet ? "a" : "b",
+      connectionId,
+    });
+
+    const { r, s, v } = Signature.from(sig);
+    return { r, s, v };
+  }
+
+  /** Millisecond timestamps, strictly increasing across calls */
+  private nextNonce(): number {
+    this.lastNonce = Math.max(Date.now(), this.lastNonce + 1);
+    return this.lastNonce;
+  }
+}
+
+// ==================== WIRE FORMAT ====================
+
+function roundTo(value: number, decimals: number): number {
+  const factor = Math.pow(10, decimals);
+  return Math.round(value * factor) / factor;
+}
+
+/**
+ * Perp prices: at most 5 significant figures and at most
+ * (6 − szDecimals) decimals. Integer prices are always valid.
+ */
+function roundPrice(price: number, szDecimals: number): number {
+  if (Number.isInteger(price)) return price;
+  const sig = parseFloat(price.toPrecision(PRICE_SIG_FIGS));
+  return roundTo(sig, Math.max(0, PERP_MAX_DECIMALS - szDecimals));
+}
+
+/** Decimal string with no trailing zeros, as the exchange hashes it */
+function floatToWire(value: number): string {
+  let str = value.toFixed(8);
+  if (str.includes(".")) str = str.replace(/0+$/, "").replace(/\.$/, "");
+  return str === "-0" ? "0" : str;
 }
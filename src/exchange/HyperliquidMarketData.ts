@@ -14,6 +14,7 @@ export class HyperliquidMarketData {
   private mids: Map<string, number> = new Map();
   private metaRefreshInterval: ReturnType<typeof setInterval> | null = null;
   private initialized = false;
+  private bookCallbacks: ((coin: string, book: IUnifiedOrderbook) => void)[] = [];
 
   constructor(client: HyperliquidClient) {
     this.client = client;
@@ -56,9 +57,24 @@ export class HyperliquidMarketData {
     if (!book) return null;
 
     this.books.set(coin, { orderbook: book, fetchedAt: Date.now() });
+
+    for (const cb of this.bookCallbacks) {
+      try {
+        cb(coin, book);
+      } catch (err) {
+        logger.error("[HyperliquidData] Book callback error", err);
+      }
+    }
     return book;
   }
 
+  /**
+   * Register a callback that fires for every freshly fetched orderbook.
+   */
+  onBook(callback: (coin: string, book: IUnifiedOrderbook) => void): void {
+    this.bookCallbacks.push(callback);
+  }
+
   async fetchAllOrderbooks(): Promise<Map<string, IUnifiedOrderbook>> {
     const results = new Map<string, IUnifiedOrderbook>();
 
@@ -1,11 +1,21 @@
 import axios, { AxiosInstance } from "axios";
 import crypto from "crypto";
 import { IExchangeClient, IUnifiedOrderbook, IUnifiedBookLevel } from "../types/exchange.types";
-import { IKalshiMarket, IKalshiOrderbook, IKalshiEvent } from "../types/kalshi.types";
+import {
+  IKalshiMarket,
+  IKalshiOrderbook,
+  IKalshiEvent,
+  IKalshiOrder,
+  IKalshiPosition,
+} from "../types/kalshi.types";
 import { logger } from "../utils/logger";
+import { orderLatency, recordOrderResult } from "../utils/metrics";
 
 const KALSHI_BASE_URL = "https://trading-api.kalshi.com/trade-api/v2";
 
+/** Ledger symbols for NO contracts carry this suffix; plain tickers are YES */
+const NO_SYMBOL_SUFFIX = ":NO";
+
 export class KalshiClient implements IExchangeClient {
   readonly id = "kalshi";
   readonly name = "Kalshi";
@@ -14,6 +24,7 @@ export class KalshiClient implements IExchangeClient {
   private privateKey: string | null;
   private http: AxiosInstance;
   private connected = false;
+  private orderbookCallbacks: ((ticker: string, book: IUnifiedOrderbook) => void)[] = [];
 
   constructor(apiKey?: string, privateKeyPem?: string) {
     this.apiKey = apiKey || "";
@@ -63,7 +74,7 @@ export class KalshiClient implements IExchangeClient {
 
   async getEvents(seriesTicker?: string, status?: string): Promise<IKalshiEvent[]> {
     try {
-      const params: Record<string, string> = {};
+      const params: Record<string, string> = { with_nested_markets: "true" };
       if (seriesTicker) params.series_ticker = seriesTicker;
       if (status) params.status = status;
 
@@ -150,7 +161,7 @@ export class KalshiClient implements IExchangeClient {
     const bestBid = unifiedBids[0]?.price || 0;
     const bestAsk = unifiedAsks[0]?.price || 1;
 
-    return {
+    const unified: IUnifiedOrderbook = {
       exchange: this.id,
       symbol,
       bids: unifiedBids,
@@ -159,35 +170,48 @@ export class KalshiClient implements IExchangeClient {
       spread: bestAsk - bestBid,
       timestamp: book.timestamp,
     };
+
+    for (const cb of this.orderbookCallbacks) {
+      try {
+        cb(symbol, unified);
+      } catch (err) {
+        logger.error("[Kalshi] Orderbook callback error", err);
+      }
+    }
+    return unified;
+  }
+
+  /**
+   * Register a callback that fires for every unified orderbook fetched.
+   */
+  onOrderbook(callback: (ticker: string, book: IUnifiedOrderbook) => void): void {
+    this.orderbookCallbacks.push(callback);
   }
 
+  /**
+   * Limit order on the YES side by default. With contractSide "no",
+   * `price` is the NO price and the order buys or sells NO contracts.
+   */
   async placeLimitOrder(
     symbol: string,
     side: "BUY" | "SELL",
     price: number,
-    size: number
+    size: number,
+    contractSide: "yes" | "no" = "yes"
   ): Promise<{ success: boolean; orderId?: string; error?: string }> {
     if (!this.apiKey || !this.privateKey) {
       return { success: false, error: "No Kalshi credentials configured" };
     }
 
-    try {
-      const path = "/portfolio/orders";
-      const headers = this.getAuthHeaders("POST", path);
-      const body = {
-        ticker: symbol,
-        action: side.toLowerCase(),
-        side: "yes",
-        type: "limit",
-        yes_price: Math.round(price * 100), // convert to cents
-        count: Math.round(size),
-      };
-
-      const resp = await this.http.post(path, body, { headers });
-      return { success: true, orderId: resp.data.order?.order_id };
-    } catch (error: any) {
-      return { success: false, error: error.message };
-    }
+    const cents = Math.min(99, Math.max(1, Math.round(price * 100)));
+    return this.postOrder({
+      ticker: symbol,
+      action: side.toLowerCase(),
+      side: contractSide,
+      type: "limit",
+      [contractSide === "yes" ? "yes_price" : "no_price"]: cents,
+      count: Math.round(size),
+    });
   }
 
   async placeMarketOrder(
@@ -199,22 +223,29 @@ export class KalshiClient implements IExchangeClient {
       return { success: false, error: "No Kalshi credentials configured" };
     }
 
+    return this.postOrder({
+      ticker: symbol,
+      action: side.toLowerCase(),
+      side: "yes",
+      type: "market",
+      count: Math.round(size),
+    });
+  }
+
+  private async postOrder(body: object): Promise<{ success: boolean; orderId?: string; error?: string }> {
+    const endTimer = orderLatency.startTimer({ venue: "kalshi" });
+    let result: { success: boolean; orderId?: string; error?: string };
     try {
       const path = "/portfolio/orders";
       const headers = this.getAuthHeaders("POST", path);
-      const body = {
-        ticker: symbol,
-        action: side.toLowerCase(),
-        side: "yes",
-        type: "market",
-        count: Math.round(size),
-      };
-
       const resp = await this.http.post(path, body, { headers });
-      return { success: true, orderId: resp.data.order?.order_id };
+      result = { success: true, orderId: resp.data.order?.order_id };
     } catch (error: any) {
-      return { success: false, error: error.message };
+      result = { success: false, error: error.message };
     }
+    endTimer();
+    recordOrderResult("kalshi", result.success, result.error);
+    return result;
   }
 
   async cancelOrder(orderId: string): Promise<boolean> {
@@ -230,7 +261,80 @@ export class KalshiClient implements IExchangeClient {
     }
   }
 
+  // ==================== PORTFOLIO ====================
+
+  /**
+   * Non-zero market positions (positive = YES contracts, negative = NO).
+   * Returns null when the request fails so callers can tell "flat" from
+   * "unknown".
+   */
+  async getPositions(): Promise<IKalshiPosition[] | null> {
+    if (!this.canTrade()) return null;
+
+    try {
+      const path = "/portfolio/positions";
+      const headers = this.getAuthHeaders("GET", path);
+      const resp = await this.http.get(path, {
+        headers,
+        params: { count_filter: "position", limit: 1000 },
+      });
+      const positions: IKalshiPosition[] = resp.data.market_positions || [];
+      return positions.filter((p) => p.position !== 0);
+    } catch (error: any) {
+      logger.error(`[Kalshi] Failed to fetch positions: ${error.message}`);
+      return null;
+    }
+  }
+
+  /** Resting orders; null on failure */
+  async getOpenOrders(): Promise<IKalshiOrder[] | null> {
+    if (!this.canTrade()) return null;
+
+    try {
+      const path = "/portfolio/orders";
+      const headers = this.getAuthHeaders("GET", path);
+      const resp = await this.http.get(path, { headers, params: { status: "resting" } });
+      return resp.data.orders || [];
+    } catch (error: any) {
+      logger.error(`[Kalshi] Failed to fetch open orders: ${error.message}`);
+      return null;
+    }
+  }
+
+  /** Available cash in USD; null on failure */
+  async getBalance(): Promise<number | null> {
+    if (!this.canTrade()) return null;
+
+    try {
+      const path = "/portfolio/balance";
+      const headers = this.getAuthHeaders("GET", path);
+      const resp = await this.http.get(path, { headers });
+      return (resp.data.balance ?? 0) / 100; // cents → USD
+    } catch (error: any) {
+      logger.error(`[Kalshi] Failed to fetch balance: ${error.message}`);
+      return null;
+    }
+  }
+
   isConnected(): boolean {
     return this.connected;
   }
+
+  canTrade(): boolean {
+    return !!this.apiKey && !!this.privateKey;
+  }
+
+  // ==================== SYMBOLS ====================
+
+  /** Ledger symbol for the NO contract of a market */
+  static noSymbol(ticker: string): string {
+    return `${ticker}${NO_SYMBOL_SUFFIX}`;
+  }
+
+  /** Market ticker and contract side of a ledger symbol */
+  static parseSymbol(symbol: string): { ticker: string; contractSide: "yes" | "no" } {
+    return symbol.endsWith(NO_SYMBOL_SUFFIX)
+      ? { ticker: symbol.slice(0, -NO_SYMBOL_SUFFIX.length), contractSide: "no" }
+      : { ticker: symbol, contractSide: "yes" };
+  }
 }
@@ -1,8 +1,14 @@
 import { KalshiClient } from "./KalshiClient";
-import { IKalshiMarket, IKalshiEvent, KALSHI_CRYPTO_SERIES } from "../types/kalshi.types";
+import {
+  IKalshiMarket,
+  IKalshiEvent,
+  KALSHI_CRYPTO_SERIES,
+  KALSHI_CRYPTO_THRESHOLD_SERIES,
+  KALSHI_CRYPTO_UPDOWN_SERIES,
+} from "../types/kalshi.types";
 import { logger } from "../utils/logger";
 
-interface ActiveKalshiMarket {
+export interface ActiveKalshiMarket {
   ticker: string;
   eventTicker: string;
   asset: string;
@@ -11,6 +17,10 @@ interface ActiveKalshiMarket {
   yesAsk: number;
   volume: number;
   closeTime: string;
+  strikeType?: string;
+  floorStrike?: number;
+  capStrike?: number;
+  mutuallyExclusive: boolean; // exactly one market in the event settles YES
 }
 
 export class KalshiMarketDiscovery {
@@ -40,7 +50,12 @@ export class KalshiMarketDiscovery {
   async discoverActiveMarkets(): Promise<void> {
     for (const [asset, seriesTicker] of Object.entries(KALSHI_CRYPTO_SERIES)) {
       try {
-        const events = await this.client.getEvents(seriesTicker, "open");
+        const series = [
+          seriesTicker,
+          KALSHI_CRYPTO_THRESHOLD_SERIES[asset],
+          KALSHI_CRYPTO_UPDOWN_SERIES[asset],
+        ].filter(Boolean);
+        const events = (await Promise.all(series.map((s) => this.client.getEvents(s, "open")))).flat();
 
         const markets: ActiveKalshiMarket[] = [];
         for (const event of events) {
@@ -57,6 +72,10 @@ export class KalshiMarketDiscovery {
                 yesAsk: market.yes_ask,
                 volume: market.volume,
                 closeTime: market.close_time,
+                strikeType: market.strike_type,
+                floorStrike: market.floor_strike,
+                capStrike: market.cap_strike,
+                mutuallyExclusive: event.mutually_exclusive,
               });
             }
           }
@@ -81,6 +100,14 @@ export class KalshiMarketDiscovery {
     return this.activeMarkets.get(asset) || [];
   }
 
+  getMarket(ticker: string): ActiveKalshiMarket | null {
+    for (const markets of this.activeMarkets.values()) {
+      const market = markets.find((m) => m.ticker === ticker);
+      if (market) return market;
+    }
+    return null;
+  }
+
   getAllActiveTickers(): string[] {
     const tickers: string[] = [];
     for (const markets of this.activeMarkets.values()) {
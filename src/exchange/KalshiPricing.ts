@@ -0,0 +1,96 @@
+/**
+ * Kalshi contract pricing: fee schedule, contract terms and a lognormal
+ * fair value for crypto price contracts.
+ *
+ * Fair values use the shared binary option model (driftless GBM, see
+ * BinaryOptionPricer) with volatility estimated from recent spot ticks
+ * (Binance). Kalshi settles on an index averaged over the last minute, so
+ * the estimate is a close approximation, not an exact price.
+ */
+
+import { probabilityAbove } from "../quant/pricing/BinaryOptionPricer";
+
+// ==================== FEES ====================
+
+// Fee = round_up(rate × contracts × P × (1 − P)) to the next cent
+const KALSHI_TAKER_FEE_RATE = 0.07;
+const KALSHI_MAKER_FEE_RATE = 0.0175;
+
+/** Trading fee in USD for `contracts` filled at `price` (0-1). Settlement is free. */
+export function kalshiFee(contracts: number, price: number, maker = false): number {
+  if (contracts <= 0 || price <= 0 || price >= 1) return 0;
+  const rate = maker ? KALSHI_MAKER_FEE_RATE : KALSHI_TAKER_FEE_RATE;
+  const raw = rate * contracts * price * (1 - price);
+  // Strip float noise before rounding up (0.07 × 100 × 0.25 must stay 1.75)
+  return Math.ceil(Math.round(raw * 1e6) / 1e4) / 100;
+}
+
+// ==================== CONTRACT TERMS ====================
+
+/**
+ * above: pays if the index settles above `floor`
+ * below: pays if it settles below `cap`
+ * range: pays if it settles between `floor` and `cap`
+ */
+export type KalshiContractSpec =
+  | { type: "above"; floor: number }
+  | { type: "below"; cap: number }
+  | { type: "range"; floor: number; cap: number };
+
+/**
+ * Contract terms from a market's strike fields. Markets without a
+ * recognisable strike (e.g. structured payouts) return null.
+ */
+export function parseKalshiContract(market: {
+  strikeType?: string;
+  floorStrike?: number;
+  capStrike?: number;
+}): KalshiContractSpec | null {
+  const { strikeType, floorStrike, capStrike } = market;
+  const hasFloor = typeof floorStrike === "number" && floorStrike > 0;
+  const hasCap = typeof capStrike === "number" && capStrike > 0;
+
+  switch (strikeType) {
+    case "greater":
+    case "greater_or_equal":
+      return hasFloor ? { type: "above", floor: floorStrike! } : null;
+    case "less":
+    case "less_or_equal":
+      return hasCap ? { type: "below", cap: capStrike! } : null;
+    case "between":
+      return hasFloor && hasCap ? { type: "range", floor: floorStrike!, cap: capStrike! } : null;
+    case undefined:
+    case "":
+      if (hasFloor && hasCap) return { type: "range", floor: floorStrike!, cap: capStrike! };
+      if (hasFloor) return { type: "above", floor: floorStrike! };
+      if (hasCap) return { type: "below", cap: capStrike! };
+      return null;
+    default:
+      return null;
+  }
+}
+
+// ==================== FAIR VALUE ====================
+
+/**
+ * Probability that the contract pays YES, given spot, the volatility of
+ * log returns per √ms and the time to close in ms.
+ */
+export function kalshiFairValue(
+  spec: KalshiContractSpec,
+  spot: number,
+  volPerSqrtMs: number,
+  timeToCloseMs: number
+): number {
+  const sd = volPerSqrtMs * Math.sqrt(Math.max(0, timeToCloseMs));
+  const above = (strike: number) => probabilityAbove(spot, strike, sd);
+
+  switch (spec.type) {
+    case "above":
+      return above(spec.floor);
+    case "below":
+      return 1 - above(spec.cap);
+    case "range":
+      return Math.max(0, above(spec.floor) - above(spec.cap));
+  }
+}
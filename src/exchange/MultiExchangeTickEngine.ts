@@ -19,6 +19,23 @@
  *   - Momentum signal from Binance WS drives direction
  *   - Size: 12% of equity per bet
  *
+ * STRATEGY 3: KALSHI CRYPTO CONTRACTS (no leverage, fee-aware)
+ *   - BTC/ETH/SOL range buckets and above/below strike ladders
+ *   - Fair value: lognormal P(settle in the money) from Binance spot + realized vol
+ *   - Buy YES or NO when fair − price − taker fee ≥ 5¢; hold to settlement
+ *   - YES/NO arb: complete range sets and inverted strike ladders below $1
+ *
+ * STRATEGY 4: POLYMARKET ↔ KALSHI CROSS-VENUE ARB
+ *   - Up/Down window matched to the Kalshi contract on the same asset, close and strike
+ *   - Buy Up on one venue + Down-equivalent on the other when both asks + fees < $1
+ *   - Kalshi leg first; Polymarket leg only once it is accepted; unwind on failure
+ *
+ * STRATEGY 5: PERP/PREDICTION DIVERGENCE (Polymarket vs Hyperliquid)
+ *   - Model P(Up) from the HL mid, the window's start price and HL realized vol
+ *   - Buy Up/Down when the model beats the ask by 6¢+ after fees
+ *   - Optional delta hedge on the HL perp, rebalanced as delta drifts;
+ *     P&L tracked per binary + hedge pair
+ *
  * MATH:
  *   Momentum trade: $45 margin × 20x = $900 notional
  *   BTC moves 0.11% = $1.00 profit ✓
@@ -27,10 +44,20 @@
  */
 
 import { KalshiClient } from "./KalshiClient";
-import { KalshiMarketDiscovery } from "./KalshiMarketDiscovery";
+import { KalshiMarketDiscovery, ActiveKalshiMarket } from "./KalshiMarketDiscovery";
+import { matchUpDownToKalshi, polymarketTakerFee, priceCrossVenueArb } from "./CrossVenueArb";
+import {
+  KalshiContractSpec,
+  kalshiFairValue,
+  kalshiFee,
+  parseKalshiContract,
+} from "./KalshiPricing";
+import { RealizedVolatility, binaryEdge, priceBinaryOption } from "../quant/pricing/BinaryOptionPricer";
+import { IBinaryFairValue } from "../types/pricing.types";
 import { HyperliquidClient } from "./HyperliquidClient";
 import { HyperliquidMarketData } from "./HyperliquidMarketData";
 import { DemoWallet } from "./DemoWallet";
+import { PaperVenue } from "./ExecutionVenue";
 import { BinanceWebSocketFeed } from "./BinanceWebSocketFeed";
 import { PolymarketWebSocketFeed } from "./PolymarketWebSocketFeed";
 import { HFTTickEngine } from "../polymarket/HFTTickEngine";
@@ -38,9 +65,15 @@ import { PerformanceTracker } from "../polymarket/PerformanceTracker";
 import {
   IUnifiedOrderbook,
   IDemoPosition,
+  IPriceTickFeed,
+  IOrderbookFeed,
+  IExecutionVenue,
+  ICrossExchangeOpportunity,
+  ICrossVenueMatch,
 } from "../types/exchange.types";
 import { IHFTTrade, HFTStrategyType } from "../types/hft.types";
 import { HYPERLIQUID_COINS } from "../types/hyperliquid.types";
+import { KALSHI_CRYPTO_SERIES } from "../types/kalshi.types";
 
 import {
   QuantStrategyEngine,
@@ -53,6 +86,8 @@ import { PreTradeRiskControls } from "../quant/compliance/ComplianceFramework";
 import { MarketDataPipeline } from "../quant/data/DataPipeline";
 
 import { logger } from "../utils/logger";
+import { IClock, TimerHandle, systemClock } from "../utils/clock";
+import { crossExchangeOpportunities, tickDuration } from "../utils/metrics";
 import { v4 as uuidv4 } from "uuid";
 import axios from "axios";
 
@@ -84,6 +119,7 @@ const MOM_HARD_SL_PCT = 0.0007;
 const MOM_TRAIL_ACTIVATE = 0.0005;
 const MOM_TRAIL_GIVEBACK = 0.30;
 const MOM_MAX_HOLD = 300_000;
+const UNMANAGED_MAX_HOLD = 120_000;  // positions without strategy meta (e.g. restored from a paper session)
 
 // === POLYMARKET UP/DOWN BINARY BETS ===
 // Rolling 5m/15m markets: buy Up/Down shares, hold until resolution or early exit
@@ -96,6 +132,44 @@ const PM_COMPLETE_SET_THRESHOLD = 0.96; // Buy both if UP_ask + DOWN_ask < 96¢
 const PM_FLASH_CRASH_DROP = 0.15;      // 15%+ drop from recent price → flash crash signal
 const PM_FLASH_CRASH_WINDOW = 10_000;  // Look at last 10 seconds of price history
 
+// === KALSHI CRYPTO CONTRACTS ===
+// Prices are per contract in dollars (0-1); fees from kalshiFee() (taker)
+const KALSHI_BOOK_BATCH = 6;                     // Books fetched per tick (held tickers first)
+const KALSHI_BOOK_MAX_AGE_MS = 10_000;           // Older books are not traded on
+const KALSHI_MIN_TIME_LEFT_MS = 5 * 60_000;      // No entries in the last 5 minutes
+const KALSHI_MAX_TIME_LEFT_MS = 24 * 60 * 60_000; // Only contracts closing within a day
+const KALSHI_MIN_PRICE = 0.05;
+const KALSHI_MAX_PRICE = 0.95;
+const KALSHI_MIN_EDGE = 0.05;                    // Fair value − price − fee per contract
+const KALSHI_STOP_EDGE = -0.10;                  // Exit once fair value is 10¢ under entry
+const KALSHI_BET_SIZE_PCT = 0.05;                // 5% of equity per fair-value bet
+const KALSHI_ENTRY_COOLDOWN_MS = 30_000;         // Per ticker
+const KALSHI_ARB_MIN_EDGE = 0.02;                // Locked profit per set after fees
+const KALSHI_ARB_SIZE_PCT = 0.10;                // 10% of equity per arb
+const KALSHI_RESULT_POLL_MS = 15_000;            // Settlement lookups per ticker
+const KALSHI_SETTLE_FALLBACK_MS = 10 * 60_000;   // Then settle on Binance spot instead
+
+// === POLYMARKET ↔ KALSHI CROSS-VENUE ARB ===
+const CROSS_ARB_MIN_TIME_LEFT_MS = 60_000;       // Both legs need time to fill before close
+const CROSS_ARB_MIN_UNITS = 5;                   // Polymarket minimum order size
+const CROSS_ARB_MIN_EDGE = 0.02;                 // Locked profit per set after both fees
+const CROSS_ARB_SIZE_PCT = 0.15;                 // 15% of equity per arb
+const CROSS_ARB_MAX_STRIKE_GAP = 0.0005;         // Kalshi strike vs Polymarket start price
+
+// === PERP/PREDICTION DIVERGENCE ===
+// Polymarket Up/Down priced off the Hyperliquid mid; optional delta hedge on the perp
+const PPD_MIN_EDGE = 0.06;                       // Model probability − ask − fee per share
+const PPD_MIN_PRICE = 0.10;
+const PPD_MAX_PRICE = 0.90;
+const PPD_MIN_TIME_LEFT_MS = 90_000;
+const PPD_SIZE_PCT = 0.08;                       // 8% of equity per binary
+const PPD_HEDGE_LEVERAGE = 3;
+const PPD_HEDGE_MAX_NOTIONAL_X = 3;              // Hedge notional ≤ 3× the binary's cost
+const PPD_HEDGE_MIN_NOTIONAL = 10;               // Hyperliquid minimum order value
+const PPD_REHEDGE_DRIFT = 0.25;                  // Rebalance when delta moved 25%+
+const PPD_REHEDGE_MIN_MS = 10_000;
+const PPD_HEDGE_CUTOFF_MS = 60_000;              // Unhedged for the last minute: gamma blows up
+
 // ============================================================================
 // TYPES
 // ============================================================================
@@ -109,7 +183,16 @@ interface MomentumSignal {
 }
 
 interface PositionMeta {
-  strategy: "momentum" | "pm_updown" | "pm_arb" | "pm_flash_crash" | "quant";
+  strategy:
+    | "momentum"
+    | "pm_updown"
+    | "pm_arb"
+    | "pm_flash_crash"
+    | "kalshi_fair_value"
+    | "kalshi_yes_no_arb"
+    | "cross_venue_arb"
+    | "perp_prediction_divergence"
+    | "quant";
   exchange: string;
   maxPrice: number;
   minPrice: number;
@@ -132,6 +215,58 @@ interface UpDownMarket {
   startPrice: number;      // Binance price at window start (for resolution)
 }
 
+/** Token IDs and quoted prices for one Up/Down slug (Gamma API or recording) */
+export interface UpDownMarketListing {
+  upTokenId: string;
+  downTokenId: string;
+  upPrice: number;
+  downPrice: number;
+}
+
+/** Entry strategies that can be paused individually (see setStrategyEnabled) */
+export const ENGINE_STRATEGIES = [
+  "momentum",
+  "pm_updown",
+  "pm_arb",
+  "pm_flash_crash",
+  "kalshi_fair_value",
+  "kalshi_yes_no_arb",
+  "cross_venue_arb",
+  "perp_prediction_divergence",
+] as const;
+
+/**
+ * Optional overrides for the engine's data sources, time and execution.
+ * Live trading uses the defaults; the replay harness injects recorded
+ * feeds, a recorded market lookup and a virtual clock. Positions are
+ * opened and closed through `execution` (default: paper fills on the
+ * DemoWallet), which must share the engine's DemoWallet as its ledger.
+ */
+export interface MultiExchangeEngineOptions {
+  clock?: IClock;
+  execution?: IExecutionVenue;
+  binanceFeed?: IPriceTickFeed;
+  polymarketFeed?: IOrderbookFeed;
+  upDownMarketLookup?: (slug: string) => Promise<UpDownMarketListing | null>;
+  /** Delta-hedge perp_prediction_divergence binaries on Hyperliquid (default false) */
+  divergenceDeltaHedge?: boolean;
+}
+
+/** A closed perp/prediction divergence pair: the binary and its perp hedge */
+export interface HedgePairSummary {
+  asset: string;
+  marketSlug: string;
+  outcome: "Up" | "Down";
+  shares: number;
+  entryPrice: number;
+  binaryPnl: number;
+  hedgePnl: number;
+  fees: number;
+  combinedPnl: number;     // binary + hedge − fees
+  openedAt: number;
+  closedAt: number;
+}
+
 /** Tracks an active Up/Down bet */
 interface UpDownBet {
   positionId: string;      // DemoWallet position ID
@@ -142,6 +277,39 @@ interface UpDownBet {
   entrySharePrice: number; // ~$0.50
   costBasis: number;       // Total $ spent
   resolutionTs: number;    // When to settle
+  unresolvedWarned?: boolean; // Overdue with no start price, already logged
+}
+
+/** An open divergence bet and its (optional) Hyperliquid delta hedge */
+interface HedgePair {
+  binaryPositionId: string;
+  asset: string;
+  marketSlug: string;
+  outcome: "Up" | "Down";
+  tokenId: string;
+  shares: number;
+  entryPrice: number;
+  fees: number;
+  hedgePositionId: string | null;
+  hedgeUnits: number;       // Signed coins: + long, − short
+  hedgePnl: number;         // Realized on hedge slices closed so far
+  lastHedgeAt: number;
+  binaryPnl: number | null; // Set once the binary closes
+  openedAt: number;
+}
+
+/** A Kalshi contract held to settlement (or an early fair-value exit) */
+interface KalshiBet {
+  positionId: string;      // DemoWallet position ID
+  ticker: string;
+  eventTicker: string;
+  asset: string;
+  contractSide: "yes" | "no";
+  spec: KalshiContractSpec;
+  contracts: number;
+  entryPrice: number;      // Per contract, excluding fees
+  fees: number;            // Fees charged so far (entry, plus exit if sold)
+  closeTs: number;
 }
 
 // ============================================================================
@@ -155,12 +323,18 @@ export class MultiExchangeTickEngine {
   private hyperliquidClient: HyperliquidClient;
   private hyperliquidData: HyperliquidMarketData;
   private demoWallet: DemoWallet;
+  private execution: IExecutionVenue;
   private perfTracker: PerformanceTracker;
   private hftEngine: HFTTickEngine | null;
+  private clock: IClock;
+  private upDownMarketLookup: (slug: string) => Promise<UpDownMarketListing | null>;
+  private divergenceDeltaHedge: boolean;
 
   // Engine state
-  private tickHandle: NodeJS.Timeout | null = null;
+  private tickHandle: TimerHandle | null = null;
   private running = false;
+  private paused = false;                          // blocks new entries; exits keep running
+  private disabledStrategies: Set<string> = new Set();
   private tickCount = 0;
   private startTime = 0;
 
@@ -170,8 +344,8 @@ export class MultiExchangeTickEngine {
   private polymarketBooks: Map<string, IUnifiedOrderbook> = new Map();
 
   // WebSocket feeds
-  private binanceFeed = new BinanceWebSocketFeed();
-  private polymarketFeed = new PolymarketWebSocketFeed();
+  private binanceFeed: IPriceTickFeed;
+  private polymarketFeed: IOrderbookFeed;
 
   // Quant subsystems
   private strategyEngine = new QuantStrategyEngine();
@@ -190,7 +364,9 @@ export class MultiExchangeTickEngine {
   private upDownMarkets: Map<string, UpDownMarket> = new Map(); // key = slug
   private upDownBets: Map<string, UpDownBet> = new Map();       // key = positionId
   private bettedSlugs: Set<string> = new Set();
-  private polyRefreshTimer: NodeJS.Timeout | null = null;
+  private polyRefreshTimer: TimerHandle | null = null;
+
+  private listingCallbacks: ((slug: string, listing: UpDownMarketListing) => void)[] = [];
 
   // Legacy PM token tracking (for WS subscription)
   private polymarketTokens: { id: string; label: string }[] = [];
@@ -208,6 +384,25 @@ export class MultiExchangeTickEngine {
   // Complete-set arb tracking (avoid double-arbing same market)
   private completedSetArbs: Set<string> = new Set();
 
+  // Kalshi contracts
+  private kalshiBets: Map<string, KalshiBet> = new Map();        // key = positionId
+  private kalshiVols: Map<string, RealizedVolatility> = new Map(); // key = asset
+  private kalshiBookFetchedAt: Map<string, number> = new Map();
+  private kalshiBookCursor = 0;
+  private lastKalshiEntry: Map<string, number> = new Map();      // key = ticker
+  private kalshiResults: Map<string, "yes" | "no"> = new Map();
+  private kalshiResultCheckedAt: Map<string, number> = new Map();
+  private arbedKalshiEvents: Map<string, number> = new Map();    // eventTicker → close ts
+
+  // Cross-venue arb
+  private crossArbInFlight = false;
+  private recentCrossOpps: ICrossExchangeOpportunity[] = [];
+
+  // Perp/prediction divergence
+  private perpVols: Map<string, RealizedVolatility> = new Map();  // key = HL coin
+  private hedgePairs: Map<string, HedgePair> = new Map();        // key = binary positionId
+  private closedHedgePairs: HedgePairSummary[] = [];
+
   // Tracking
   private recentPnlWindow: { ts: number; pnl: number }[] = [];
   private recentOrderTimestamps: number[] = [];
@@ -232,6 +427,10 @@ export class MultiExchangeTickEngine {
   private pmBetTrades = 0;
   private pmBetWins = 0;
   private pmBetPnl = 0;
+  private kalshiTrades = 0;
+  private kalshiWins = 0;
+  private kalshiPnl = 0;
+  private kalshiFees = 0;
 
   constructor(
     kalshiClient: KalshiClient,
@@ -240,15 +439,23 @@ export class MultiExchangeTickEngine {
     hyperliquidData: HyperliquidMarketData,
     demoWallet: DemoWallet,
     perfTracker: PerformanceTracker,
-    hftEngine?: HFTTickEngine
+    hftEngine?: HFTTickEngine,
+    options: MultiExchangeEngineOptions = {}
   ) {
     this.kalshiClient = kalshiClient;
     this.kalshiDiscovery = kalshiDiscovery;
     this.hyperliquidClient = hyperliquidClient;
     this.hyperliquidData = hyperliquidData;
     this.demoWallet = demoWallet;
+    this.execution = options.execution || new PaperVenue(demoWallet);
     this.perfTracker = perfTracker;
     this.hftEngine = hftEngine || null;
+    this.clock = options.clock || systemClock;
+    this.binanceFeed = options.binanceFeed || new BinanceWebSocketFeed();
+    this.polymarketFeed = options.polymarketFeed || new PolymarketWebSocketFeed();
+    this.upDownMarketLookup =
+      options.upDownMarketLookup || ((slug) => this.fetchUpDownMarketListing(slug));
+    this.divergenceDeltaHedge = options.divergenceDeltaHedge ?? false;
 
     this.riskManager = new InstitutionalRiskManager(demoWallet.getBalance());
 
@@ -257,6 +464,12 @@ export class MultiExchangeTickEngine {
       this.perpHistories.set(coin, new PriceHistory(2000));
       this.tickBuffers.set(coin, []);
     }
+    for (const asset of Object.keys(KALSHI_CRYPTO_SERIES)) {
+      this.kalshiVols.set(asset, new RealizedVolatility());
+    }
+    for (const coin of ["BTC", "ETH", "SOL", "XRP"]) {
+      this.perpVols.set(coin, new RealizedVolatility());
+    }
 
     this.marketMaker.start();
   }
@@ -268,6 +481,12 @@ export class MultiExchangeTickEngine {
     logger.info("=== HIGH CONVICTION ENGINE STARTING ===");
     logger.info(`Strategy 1: Leveraged momentum (HL ${HL_LEVERAGE}x, ${(MOM_SIZE_PCT*100)}% equity/trade)`);
     logger.info(`Strategy 2: PM Up/Down binary bets (${(PM_BET_SIZE_PCT*100)}% equity/bet, 5m/15m)`);
+    logger.info(`Strategy 3: Kalshi fair value (${(KALSHI_MIN_EDGE*100).toFixed(0)}¢ min edge after fees) + YES/NO arb`);
+    logger.info(`Strategy 4: Polymarket ↔ Kalshi cross-venue arb (${(CROSS_ARB_MIN_EDGE*100).toFixed(0)}¢/set after fees)`);
+    logger.info(
+      `Strategy 5: Perp/prediction divergence (${(PPD_MIN_EDGE*100).toFixed(0)}¢ min edge, ` +
+      `delta hedge ${this.divergenceDeltaHedge ? "ON" : "OFF"})`
+    );
     logger.info(`Target: $1/min from $100`);
 
     // 1. Discover Polymarket Up/Down markets
@@ -296,15 +515,15 @@ export class MultiExchangeTickEngine {
     await this.hyperliquidData.start();
 
     // 5. Market refresh — every 30s (markets rotate every 5 min)
-    this.polyRefreshTimer = setInterval(
+    this.polyRefreshTimer = this.clock.setInterval(
       () => this.discoverUpDownMarkets(),
       PM_UPDOWN_REFRESH_MS
     );
 
     // 6. 500ms tick
     this.running = true;
-    this.startTime = Date.now();
-    this.tickHandle = setInterval(() => this.onTick(), TICK_INTERVAL_MS);
+    this.startTime = this.clock.now();
+    this.tickHandle = this.clock.setInterval(() => this.onTick(), TICK_INTERVAL_MS);
 
     logger.success(
       `ENGINE LIVE | BIN WS: ${this.binanceFeed.isConnected() ? "OK" : "..."} | ` +
@@ -317,8 +536,8 @@ export class MultiExchangeTickEngine {
     if (!this.running) return;
     this.running = false;
 
-    if (this.tickHandle) { clearInterval(this.tickHandle); this.tickHandle = null; }
-    if (this.polyRefreshTimer) { clearInterval(this.polyRefreshTimer); this.polyRefreshTimer = null; }
+    if (this.tickHandle) { this.clock.clearInterval(this.tickHandle); this.tickHandle = null; }
+    if (this.polyRefreshTimer) { this.clock.clearInterval(this.polyRefreshTimer); this.polyRefreshTimer = null; }
 
     this.binanceFeed.disconnect();
     this.polymarketFeed.disconnect();
@@ -330,10 +549,75 @@ export class MultiExchangeTickEngine {
     logger.info(
       `ENGINE STOPPED | Mom: ${this.momentumTrades}T ${this.momentumWins}W $${this.momentumPnl.toFixed(2)} | ` +
       `PM: ${this.pmBetTrades}T ${this.pmBetWins}W $${this.pmBetPnl.toFixed(2)} | ` +
+      `Kalshi: ${this.kalshiTrades}T ${this.kalshiWins}W $${this.kalshiPnl.toFixed(2)} | ` +
       `Equity: $${eq.toFixed(2)}`
     );
   }
 
+  // ==================== OPERATOR CONTROL ====================
+
+  /** Paused: no new entries on any strategy; stops, exits and settlement continue */
+  setPaused(paused: boolean): void {
+    this.paused = paused;
+    logger.warning(`[MultiExchange] ${paused ? "PAUSED — no new entries" : "Resumed"}`);
+  }
+
+  isPaused(): boolean {
+    return this.paused;
+  }
+
+  /** Returns false for an unknown strategy id */
+  setStrategyEnabled(strategy: string, enabled: boolean): boolean {
+    if (!(ENGINE_STRATEGIES as readonly string[]).includes(strategy)) return false;
+    if (enabled) this.disabledStrategies.delete(strategy);
+    else this.disabledStrategies.add(strategy);
+    logger.warning(`[MultiExchange] Strategy ${strategy} ${enabled ? "enabled" : "disabled"}`);
+    return true;
+  }
+
+  getStrategyStates(): { id: string; enabled: boolean }[] {
+    return ENGINE_STRATEGIES.map((id) => ({ id, enabled: !this.disabledStrategies.has(id) }));
+  }
+
+  /**
+   * Close every open position at the current mid through the execution
+   * venue. Returns the number closed and their realized P&L.
+   */
+  flattenAll(reason = "flatten"): { closed: number; pnl: number } {
+    let closed = 0;
+    let total = 0;
+
+    for (const pos of Array.from(this.demoWallet.getPositions())) {
+      const price = this.getCurrentMidPrice(pos.exchange, pos.symbol);
+      if (price <= 0) {
+        logger.warning(`[MultiExchange] Flatten: no price for ${pos.symbol}@${pos.exchange} — left open`);
+        continue;
+      }
+      const pnl = this.execution.closePosition(pos.id, price);
+      this.riskManager.removeStopLoss(pos.id);
+      this.upDownBets.delete(pos.id);
+      this.kalshiBets.delete(pos.id);
+      this.recordClosedTrade(pos, pnl, price, reason);
+      closed++;
+      total += pnl;
+    }
+
+    logger.warning(`[MultiExchange] Flattened ${closed} positions | PnL: $${total.toFixed(2)} | ${reason}`);
+    return { closed, pnl: total };
+  }
+
+  private entriesAllowed(strategy: string): boolean {
+    return !this.paused && !this.disabledStrategies.has(strategy);
+  }
+
+  /**
+   * Register a callback for every Up/Down market listing fetched during
+   * discovery (used by the market-data recorder so replays can rediscover).
+   */
+  onUpDownMarketListing(callback: (slug: string, listing: UpDownMarketListing) => void): void {
+    this.listingCallbacks.push(callback);
+  }
+
   // ==================== STRATEGY 1: LEVERAGED MOMENTUM ====================
 
   private onBinancePrice(
@@ -345,6 +629,7 @@ export class MultiExchangeTickEngine {
     // Always update perp history
     const perpHist = this.perpHistories.get(asset);
     if (perpHist) perpHist.push(price, 0);
+    this.kalshiVols.get(asset)?.push(price, this.clock.now());
 
     // Buffer ticks for momentum detection
     let buffer = this.tickBuffers.get(asset);
@@ -352,7 +637,7 @@ export class MultiExchangeTickEngine {
       buffer = [];
       this.tickBuffers.set(asset, buffer);
     }
-    buffer.push({ price, ts: Date.now() });
+    buffer.push({ price, ts: this.clock.now() });
     if (buffer.length > MOM_TICK_WINDOW * 2) {
       buffer.splice(0, buffer.length - MOM_TICK_WINDOW * 2);
     }
@@ -370,6 +655,7 @@ export class MultiExchangeTickEngine {
     // Require stronger move (0.3%+ in 10s) to avoid noise-triggered PM bets
     if (Math.abs(change10s) > 0.003) {
       this.crossExchangeOpps++;
+      crossExchangeOpportunities.inc({ type: "binance_move" });
       const direction: "LONG" | "SHORT" = change10s > 0 ? "LONG" : "SHORT";
       this.tryUpDownBet({
         asset,
@@ -435,8 +721,9 @@ export class MultiExchangeTickEngine {
   }
 
   private executeMomentumTrade(signal: MomentumSignal): void {
+    if (!this.entriesAllowed("momentum")) return;
     const lastTrade = this.lastMomentumTrade.get(signal.asset) || 0;
-    if (Date.now() - lastTrade < MOM_COOLDOWN_MS) return;
+    if (this.clock.now() - lastTrade < MOM_COOLDOWN_MS) return;
 
     const hlBook = this.hyperliquidBooks.get(signal.asset);
     if (!hlBook || hlBook.midPrice <= 0) return;
@@ -463,7 +750,7 @@ export class MultiExchangeTickEngine {
       ? entryPrice * (1 - MOM_HARD_SL_PCT)
       : entryPrice * (1 + MOM_HARD_SL_PCT);
 
-    const pos = this.demoWallet.openPosition(
+    const pos = this.execution.openPosition(
       "hyperliquid",
       signal.asset,
       signal.direction,
@@ -486,8 +773,8 @@ export class MultiExchangeTickEngine {
     });
 
     this.riskManager.registerStopLoss(pos, 0.02, MOM_MAX_HOLD);
-    this.lastMomentumTrade.set(signal.asset, Date.now());
-    this.recentOrderTimestamps.push(Date.now());
+    this.lastMomentumTrade.set(signal.asset, this.clock.now());
+    this.recentOrderTimestamps.push(this.clock.now());
     this.momentumTrades++;
     this.quantTrades++;
 
@@ -517,14 +804,15 @@ export class MultiExchangeTickEngine {
    * - Our momentum signals have 80%+ WR → highly profitable
    */
   private tryUpDownBet(signal: MomentumSignal): void {
+    if (!this.entriesAllowed("pm_updown")) return;
     // Strength filter
     if (signal.strength < PM_MIN_MOMENTUM_STRENGTH) return;
 
     // Cooldown per asset
     const lastBet = this.lastPmUpdownBet.get(signal.asset) || 0;
-    if (Date.now() - lastBet < PM_UPDOWN_COOLDOWN_MS) return;
+    if (this.clock.now() - lastBet < PM_UPDOWN_COOLDOWN_MS) return;
 
-    const now = Date.now();
+    const now = this.clock.now();
     const positions = this.demoWallet.getPositions();
     if (positions.length >= MAX_POSITIONS) return;
 
@@ -676,7 +964,7 @@ export class MultiExchangeTickEngine {
     if (betSize < MIN_TRADE_SIZE) return;
 
     // Open position in demo wallet
-    const pos = this.demoWallet.openPosition(
+    const pos = this.execution.openPosition(
       "polymarket", best.tokenId, "LONG", betSize, best.sharePrice, "pm_updown", PM_LEVERAGE
     );
     if (!pos) return;
@@ -703,8 +991,8 @@ export class MultiExchangeTickEngine {
     });
 
     this.bettedSlugs.add(best.slug);
-    this.lastPmUpdownBet.set(signal.asset, Date.now());
-    this.recentOrderTimestamps.push(Date.now());
+    this.lastPmUpdownBet.set(signal.asset, this.clock.now());
+    this.recentOrderTimestamps.push(this.clock.now());
     this.pmBetTrades++;
     this.quantTrades++;
 
@@ -733,7 +1021,8 @@ export class MultiExchangeTickEngine {
    * Called every tick from the main loop.
    */
   private tryCompleteSetArb(): void {
-    const now = Date.now();
+    if (!this.entriesAllowed("pm_arb")) return;
+    const now = this.clock.now();
     const positions = this.demoWallet.getPositions();
     if (positions.length >= MAX_POSITIONS - 1) return; // Need room for 2 positions
 
@@ -779,17 +1068,17 @@ export class MultiExchangeTickEngine {
       if (totalCost < MIN_TRADE_SIZE || lockedProfit < 0.50) continue; // Need $0.50+ profit
 
       // Open UP position
-      const upPos = this.demoWallet.openPosition(
+      const upPos = this.execution.openPosition(
         "polymarket", market.upTokenId, "LONG", upCost, upAsk, "pm_arb_up", PM_LEVERAGE
       );
       if (!upPos) continue;
 
       // Open DOWN position
-      const downPos = this.demoWallet.openPosition(
+      const downPos = this.execution.openPosition(
         "polymarket", market.downTokenId, "LONG", downCost, downAsk, "pm_arb_down", PM_LEVERAGE
       );
       if (!downPos) {
-        this.demoWallet.closePosition(upPos.id, upAsk); // Rollback
+        this.execution.closePosition(upPos.id, upAsk); // Rollback
         continue;
       }
 
@@ -842,7 +1131,7 @@ export class MultiExchangeTickEngine {
    * Called from PM WS book update callbacks.
    */
   private checkFlashCrash(tokenId: string, book: IUnifiedOrderbook): void {
-    const now = Date.now();
+    const now = this.clock.now();
     const positions = this.demoWallet.getPositions();
     if (positions.length >= MAX_POSITIONS) return;
 
@@ -907,8 +1196,9 @@ export class MultiExchangeTickEngine {
     // Flash crash = high conviction → bigger size (20% equity)
     const betSize = Math.max(MIN_TRADE_SIZE, Math.min(equity * 0.20, cashAvailable - 1));
     if (betSize < MIN_TRADE_SIZE) return;
+    if (!this.entriesAllowed("pm_flash_crash")) return;
 
-    const pos = this.demoWallet.openPosition(
+    const pos = this.execution.openPosition(
       "polymarket", tokenId, "LONG", betSize, bestAsk, "pm_flash_crash", PM_LEVERAGE
     );
     if (!pos) return;
@@ -957,12 +1247,13 @@ export class MultiExchangeTickEngine {
     const toRemove: string[] = [];
 
     for (const [posId, bet] of this.upDownBets) {
-      const now = Date.now();
+      const now = this.clock.now();
       if (now >= bet.resolutionTs) continue;
 
       const meta = this.positionMeta.get(posId);
       if (!meta) continue;
-      if (meta.strategy === "pm_arb") continue;
+      if (meta.strategy === "pm_arb" || meta.strategy === "cross_venue_arb") continue;
+      if (meta.strategy === "perp_prediction_divergence") continue; // model-managed
 
       const wsBook = this.polymarketBooks.get(bet.tokenId);
       if (!wsBook || wsBook.bids.length === 0) continue;
@@ -983,7 +1274,7 @@ export class MultiExchangeTickEngine {
         // TAKE PROFIT at +80%: buy at 30¢ → sell at 54¢
         if (gain >= 0.80) {
           const pos = this.findPosition(posId);
-          const pnl = this.demoWallet.closePosition(posId, bestBid);
+          const pnl = this.execution.closePosition(posId, bestBid);
           if (pos) this.recordClosedTrade(pos, pnl, bestBid, "pm_take_profit");
           logger.info(
             `[PM TP] ${bet.side} ${bet.asset} | Entry=$${entry.toFixed(2)} Exit=$${bestBid.toFixed(2)} (+${(gain*100).toFixed(0)}%) | ` +
@@ -999,7 +1290,7 @@ export class MultiExchangeTickEngine {
           const trailPrice = entry + (meta.maxPrice - entry) * 0.65; // Give back 35%
           if (bestBid <= trailPrice) {
             const pos = this.findPosition(posId);
-            const pnl = this.demoWallet.closePosition(posId, bestBid);
+            const pnl = this.execution.closePosition(posId, bestBid);
             if (pos) this.recordClosedTrade(pos, pnl, bestBid, "pm_trail");
             logger.info(
               `[PM TRAIL] ${bet.side} ${bet.asset} | Entry=$${entry.toFixed(2)} Peak=$${meta.maxPrice.toFixed(2)} Exit=$${bestBid.toFixed(2)} | ` +
@@ -1013,7 +1304,7 @@ export class MultiExchangeTickEngine {
         // STOP LOSS at -30%: cheap tokens are volatile
         if (gain <= -0.30) {
           const pos = this.findPosition(posId);
-          const pnl = this.demoWallet.closePosition(posId, bestBid);
+          const pnl = this.execution.closePosition(posId, bestBid);
           if (pos) this.recordClosedTrade(pos, pnl, bestBid, "pm_stop_loss");
           logger.info(
             `[PM SL] ${bet.side} ${bet.asset} | Entry=$${entry.toFixed(2)} Exit=$${bestBid.toFixed(2)} (${(gain*100).toFixed(0)}%) | ` +
@@ -1028,7 +1319,7 @@ export class MultiExchangeTickEngine {
         // STOP LOSS at -18%: caps downside, rest rides to $1.00
         if (gain <= -0.18 && timeToEnd > 60_000) {
           const pos = this.findPosition(posId);
-          const pnl = this.demoWallet.closePosition(posId, bestBid);
+          const pnl = this.execution.closePosition(posId, bestBid);
           if (pos) this.recordClosedTrade(pos, pnl, bestBid, "pm_stop_loss");
           logger.info(
             `[PM SL] ${bet.side} ${bet.asset} | Entry=$${entry.toFixed(2)} Exit=$${bestBid.toFixed(2)} (${(gain*100).toFixed(0)}%) | ` +
@@ -1041,7 +1332,7 @@ export class MultiExchangeTickEngine {
         // NEAR-EXPIRY: deeply losing in last 30s → cut
         if (timeToEnd < 30_000 && gain < -0.25) {
           const pos = this.findPosition(posId);
-          const pnl = this.demoWallet.closePosition(posId, bestBid);
+          const pnl = this.execution.closePosition(posId, bestBid);
           if (pos) this.recordClosedTrade(pos, pnl, bestBid, "pm_expiry_cut");
           logger.info(
             `[PM CUT] ${bet.side} ${bet.asset} | Entry=$${entry.toFixed(2)} Exit=$${bestBid.toFixed(2)} (${(gain*100).toFixed(0)}%) | ` +
@@ -1072,18 +1363,19 @@ export class MultiExchangeTickEngine {
     for (const [posId, bet] of this.upDownBets) {
       if (bet.tokenId !== tokenId) continue;
       const meta = this.positionMeta.get(posId);
-      if (!meta || meta.strategy === "pm_arb") continue;
+      if (!meta || meta.strategy === "pm_arb" || meta.strategy === "cross_venue_arb") continue;
+      if (meta.strategy === "perp_prediction_divergence") continue;
 
       const gain = (bestBid - bet.entrySharePrice) / bet.entrySharePrice;
       const isCheap = bet.entrySharePrice <= 0.45;
-      const timeToEnd = bet.resolutionTs - Date.now();
+      const timeToEnd = bet.resolutionTs - this.clock.now();
       // Cheap entries: wider SL (-30%). Moderate: tighter (-18%).
       // Near expiry: widen to avoid panic exits.
       const slThreshold = isCheap ? -0.30 : (timeToEnd > 60_000 ? -0.18 : -0.35);
 
       if (gain <= slThreshold) {
         const pos = this.findPosition(posId);
-        const pnl = this.demoWallet.closePosition(posId, bestBid);
+        const pnl = this.execution.closePosition(posId, bestBid);
         if (pos) {
           this.recordClosedTrade(pos, pnl, bestBid, "pm_stop_loss_rt");
         }
@@ -1106,7 +1398,7 @@ export class MultiExchangeTickEngine {
    * - If price went down → "Down" wins ($1.00), "Up" loses ($0)
    */
   private settleUpDownBets(): void {
-    const now = Date.now();
+    const now = this.clock.now();
     const toRemove: string[] = [];
 
     for (const [posId, bet] of this.upDownBets) {
@@ -1121,14 +1413,13 @@ export class MultiExchangeTickEngine {
       const market = this.upDownMarkets.get(bet.marketSlug);
       const startPrice = market?.startPrice || 0;
       if (startPrice <= 0) {
-        // Can't resolve without reference — wait a bit more or use entry price
-        if (now - bet.resolutionTs > 30_000) {
-          // Force close as loss after 30s timeout
-          const pnl = this.demoWallet.closePosition(posId, 0.001);
-          this.recordClosedTrade(
-            this.findPosition(posId), pnl, 0.001, "resolution_timeout"
+        // Can't resolve without a reference price: leave the bet open rather
+        // than book a guessed loss, and say so once it is overdue
+        if (now - bet.resolutionTs > 30_000 && !bet.unresolvedWarned) {
+          bet.unresolvedWarned = true;
+          logger.warning(
+            `[PM] ${bet.side} ${bet.asset} | ${bet.marketSlug} has no start price; left unresolved`
           );
-          toRemove.push(posId);
         }
         continue;
       }
@@ -1141,7 +1432,7 @@ export class MultiExchangeTickEngine {
       // Settle: winning shares → $1.00, losing → $0.001
       const settlementPrice = betWon ? 1.0 : 0.001;
       const pos = this.findPosition(posId);
-      const pnl = this.demoWallet.closePosition(posId, settlementPrice);
+      const pnl = this.execution.settlePosition(posId, settlementPrice);
 
       if (pos) {
         this.recordClosedTrade(pos, pnl, settlementPrice,
@@ -1170,6 +1461,873 @@ export class MultiExchangeTickEngine {
     return this.demoWallet.getPositions().find((p) => p.id === posId) || null;
   }
 
+  // ==================== STRATEGY 5: KALSHI CRYPTO CONTRACTS ====================
+
+  /**
+   * KALSHI FAIR VALUE
+   *
+   * Each range bucket / strike contract is priced as the lognormal
+   * probability of settling in the money, from Binance spot and realized
+   * volatility over the time to close. Buy YES at the ask, or NO at
+   * 1 − YES bid, when fair value beats the price by KALSHI_MIN_EDGE after
+   * the taker fee. One position per ticker, best edge first.
+   */
+  private tryKalshiFairValue(): void {
+    if (!this.entriesAllowed("kalshi_fair_value")) return;
+    if (this.demoWallet.getPositions().length >= MAX_POSITIONS) return;
+
+    const now = this.clock.now();
+    const held = new Set([...this.kalshiBets.values()].map((b) => b.ticker));
+
+    interface Candidate {
+      market: ActiveKalshiMarket;
+      spec: KalshiContractSpec;
+      side: "yes" | "no";
+      price: number;
+      liquidity: number; // contracts at the quoted price
+      fair: number;      // probability our side pays
+      edge: number;
+    }
+    let best: Candidate | null = null;
+
+    for (const market of this.kalshiTradableMarkets()) {
+      if (held.has(market.ticker)) continue;
+      if (now - (this.lastKalshiEntry.get(market.ticker) || 0) < KALSHI_ENTRY_COOLDOWN_MS) continue;
+
+      const spec = parseKalshiContract(market);
+      if (!spec) continue;
+      const book = this.freshKalshiBook(market.ticker);
+      if (!book || book.bids.length === 0 || book.asks.length === 0) continue;
+      const fairYes = this.kalshiFair(market.asset, spec, Date.parse(market.closeTime));
+      if (fairYes === null) continue;
+
+      const quotes: Omit<Candidate, "market" | "spec" | "edge">[] = [
+        { side: "yes", price: book.asks[0].price, liquidity: book.asks[0].size, fair: fairYes },
+        { side: "no", price: 1 - book.bids[0].price, liquidity: book.bids[0].size, fair: 1 - fairYes },
+      ];
+      for (const q of quotes) {
+        if (q.price < KALSHI_MIN_PRICE || q.price > KALSHI_MAX_PRICE) continue;
+        const edge = q.fair - q.price - kalshiFee(100, q.price) / 100;
+        if (edge < KALSHI_MIN_EDGE) continue;
+        if (!best || edge > best.edge) best = { ...q, market, spec, edge };
+      }
+    }
+    if (!best) return;
+
+    const budget = Math.min(this.demoWallet.getEquity() * KALSHI_BET_SIZE_PCT, this.demoWallet.getBalance() - 1);
+    if (budget < MIN_TRADE_SIZE) return;
+    const contracts = Math.floor(Math.min(best.liquidity, budget / best.price));
+    if (contracts * best.price < MIN_TRADE_SIZE) return;
+
+    const bet = this.openKalshiContract(best.market, best.spec, best.side, best.price, contracts, "kalshi_fair_value");
+    if (!bet) return;
+
+    const vol = this.kalshiVols.get(best.market.asset)?.annualized() ?? 0;
+    const timeLeftMin = ((bet.closeTs - now) / 60_000).toFixed(0);
+    logger.info(
+      `[KALSHI FV] ${best.side.toUpperCase()} ${best.market.ticker} | ${contracts} @ $${best.price.toFixed(2)} | ` +
+      `Fair=$${best.fair.toFixed(3)} Edge=${(best.edge * 100).toFixed(1)}¢ Fee=$${bet.fees.toFixed(2)} | ` +
+      `Vol=${(vol * 100).toFixed(0)}% | Closes in ${timeLeftMin}m`
+    );
+  }
+
+  /**
+   * KALSHI YES/NO ARB
+   *
+   * Contracts in one event are priced against each other, so quotes that
+   * break the event's structure lock in a profit whatever the settlement:
+   *   - Range buckets cover every outcome exactly once: buying YES on all
+   *     of them pays $1, buying NO on all pays n − 1.
+   *   - Strike ladders are monotonic (P(>K1) ≥ P(>K2) for K1 < K2): when
+   *     the higher strike bids above the lower strike's ask, YES on the
+   *     likelier contract + NO on the other pays at least $1.
+   * Legs are taken one by one at the quoted prices, fees included in the
+   * edge; one arb per event.
+   */
+  private tryKalshiYesNoArb(): void {
+    if (!this.entriesAllowed("kalshi_yes_no_arb")) return;
+
+    const now = this.clock.now();
+    for (const [event, closeTs] of this.arbedKalshiEvents) {
+      if (closeTs < now) this.arbedKalshiEvents.delete(event);
+    }
+
+    const events = new Map<string, ActiveKalshiMarket[]>();
+    for (const market of this.kalshiTradableMarkets()) {
+      if (this.arbedKalshiEvents.has(market.eventTicker)) continue;
+      const group = events.get(market.eventTicker) || [];
+      group.push(market);
+      events.set(market.eventTicker, group);
+    }
+
+    for (const [eventTicker, markets] of events) {
+      const opened = markets[0].mutuallyExclusive
+        ? this.tryKalshiRangeSet(eventTicker, markets)
+        : this.tryKalshiLadder(eventTicker, markets);
+      if (opened) return; // one arb per tick
+    }
+  }
+
+  private tryKalshiRangeSet(eventTicker: string, markets: ActiveKalshiMarket[]): boolean {
+    if (this.demoWallet.getPositions().length + markets.length > MAX_POSITIONS) return false;
+
+    const legs: { market: ActiveKalshiMarket; spec: KalshiContractSpec; book: IUnifiedOrderbook }[] = [];
+    for (const market of markets) {
+      const spec = parseKalshiContract(market);
+      const book = this.freshKalshiBook(market.ticker);
+      if (!spec || !book || book.bids.length === 0 || book.asks.length === 0) return false;
+      legs.push({ market, spec, book });
+    }
+    if (!coversPriceLine(legs.map((l) => l.spec))) return false;
+
+    // YES on every bucket pays exactly $1; NO on every bucket pays n − 1
+    const sides: { side: "yes" | "no"; payout: number; quotes: { price: number; size: number }[] }[] = [
+      { side: "yes", payout: 1, quotes: legs.map((l) => l.book.asks[0]) },
+      {
+        side: "no",
+        payout: legs.length - 1,
+        quotes: legs.map((l) => ({ price: 1 - l.book.bids[0].price, size: l.book.bids[0].size })),
+      },
+    ];
+
+    for (const { side, payout, quotes } of sides) {
+      const setCost = quotes.reduce((sum, q) => sum + q.price, 0);
+      if (setCost >= payout) continue;
+
+      const budget = Math.min(this.demoWallet.getEquity() * KALSHI_ARB_SIZE_PCT, this.demoWallet.getBalance() * 0.4);
+      const sets = Math.floor(Math.min(...quotes.map((q) => q.size), budget / setCost));
+      if (sets < 1) continue;
+      const fees = quotes.reduce((sum, q) => sum + kalshiFee(sets, q.price), 0);
+      const lockedProfit = sets * (payout - setCost) - fees;
+      if (lockedProfit < sets * KALSHI_ARB_MIN_EDGE || lockedProfit < 0.5) continue;
+
+      const bets = this.openKalshiLegs(
+        legs.map((l, i) => ({ market: l.market, spec: l.spec, side, price: quotes[i].price })),
+        sets
+      );
+      if (!bets) return false;
+
+      this.arbedKalshiEvents.set(eventTicker, bets[0].closeTs);
+      logger.info(
+        `[KALSHI ARB] ${side.toUpperCase()} × ${legs.length} buckets ${eventTicker} | ` +
+        `Cost=$${setCost.toFixed(2)} Payout=$${payout} | ${sets} sets | Fees=$${fees.toFixed(2)} | ` +
+        `Locked=$${lockedProfit.toFixed(2)}`
+      );
+      return true;
+    }
+    return false;
+  }
+
+  private tryKalshiLadder(eventTicker: string, markets: ActiveKalshiMarket[]): boolean {
+    if (this.demoWallet.getPositions().length + 2 > MAX_POSITIONS) return false;
+
+    // Each rung's strike and whether a higher strike makes YES likelier
+    const rungs: { market: ActiveKalshiMarket; spec: KalshiContractSpec; strike: number; rising: boolean; book: IUnifiedOrderbook }[] = [];
+    for (const market of markets) {
+      const spec = parseKalshiContract(market);
+      const book = this.freshKalshiBook(market.ticker);
+      if (!spec || spec.type === "range" || !book || book.bids.length === 0 || book.asks.length === 0) continue;
+      rungs.push({
+        market,
+        spec,
+        strike: spec.type === "above" ? spec.floor : spec.cap,
+        rising: spec.type === "below",
+        book,
+      });
+    }
+
+    let best: { likely: (typeof rungs)[number]; unlikely: (typeof rungs)[number]; sets: number; profit: number } | null = null;
+    for (const a of rungs) {
+      for (const b of rungs) {
+        if (a === b || a.rising !== b.rising) continue;
+        // `a` must be the likelier contract: lower strike for "above", higher for "below"
+        if (a.rising ? a.strike <= b.strike : a.strike >= b.strike) continue;
+
+        const yesAsk = a.book.asks[0];
+        const noAsk = { price: 1 - b.book.bids[0].price, size: b.book.bids[0].size };
+        const setCost = yesAsk.price + noAsk.price;
+        if (setCost >= 1) continue;
+
+        const budget = Math.min(this.demoWallet.getEquity() * KALSHI_ARB_SIZE_PCT, this.demoWallet.getBalance() * 0.4);
+        const sets = Math.floor(Math.min(yesAsk.size, noAsk.size, budget / setCost));
+        if (sets < 1) continue;
+        const profit = sets * (1 - setCost) - kalshiFee(sets, yesAsk.price) - kalshiFee(sets, noAsk.price);
+        if (profit < sets * KALSHI_ARB_MIN_EDGE || profit < 0.5) continue;
+        if (!best || profit > best.profit) best = { likely: a, unlikely: b, sets, profit };
+      }
+    }
+    if (!best) return false;
+
+    const { likely, unlikely, sets, profit } = best;
+    const bets = this.openKalshiLegs(
+      [
+        { market: likely.market, spec: likely.spec, side: "yes", price: likely.book.asks[0].price },
+        { market: unlikely.market, spec: unlikely.spec, side: "no", price: 1 - unlikely.book.bids[0].price },
+      ],
+      sets
+    );
+    if (!bets) return false;
+
+    this.arbedKalshiEvents.set(eventTicker, bets[0].closeTs);
+    logger.info(
+      `[KALSHI ARB] Ladder ${eventTicker} | YES ${likely.market.ticker} @ $${likely.book.asks[0].price.toFixed(2)} + ` +
+      `NO ${unlikely.market.ticker} @ $${(1 - unlikely.book.bids[0].price).toFixed(2)} | ${sets} sets | ` +
+      `Locked=$${profit.toFixed(2)}`
+    );
+    return true;
+  }
+
+  /** Open every leg or none: a failed leg closes the ones already opened */
+  private openKalshiLegs(
+    legs: { market: ActiveKalshiMarket; spec: KalshiContractSpec; side: "yes" | "no"; price: number }[],
+    contracts: number
+  ): KalshiBet[] | null {
+    const totalCost = legs.reduce((sum, l) => sum + l.price * contracts + kalshiFee(contracts, l.price), 0);
+    if (!this.demoWallet.canAfford(totalCost)) return null;
+
+    const bets: KalshiBet[] = [];
+    for (const leg of legs) {
+      const bet = this.openKalshiContract(leg.market, leg.spec, leg.side, leg.price, contracts, "kalshi_yes_no_arb");
+      if (!bet) {
+        for (const opened of bets) {
+          this.closeKalshiBet(opened, opened.entryPrice, "kalshi_arb_rollback");
+        }
+        return null;
+      }
+      bets.push(bet);
+    }
+    return bets;
+  }
+
+  private openKalshiContract(
+    market: ActiveKalshiMarket,
+    spec: KalshiContractSpec,
+    side: "yes" | "no",
+    price: number,
+    contracts: number,
+    strategy: "kalshi_fair_value" | "kalshi_yes_no_arb" | "cross_venue_arb"
+  ): KalshiBet | null {
+    const cost = contracts * price;
+    const fee = kalshiFee(contracts, price);
+    if (contracts < 1 || !this.demoWallet.canAfford(cost + fee)) return null;
+
+    const symbol = side === "yes" ? market.ticker : KalshiClient.noSymbol(market.ticker);
+    const pos = this.execution.openPosition("kalshi", symbol, "LONG", cost, price, strategy, 1);
+    if (!pos) return null;
+    this.demoWallet.chargeFee("kalshi", fee);
+
+    this.positionMeta.set(pos.id, {
+      strategy,
+      exchange: "kalshi",
+      maxPrice: price,
+      minPrice: price,
+      trailActive: false,
+      tpPrice: 1.0,
+      slPrice: 0.001,
+    });
+
+    const bet: KalshiBet = {
+      positionId: pos.id,
+      ticker: market.ticker,
+      eventTicker: market.eventTicker,
+      asset: market.asset,
+      contractSide: side,
+      spec,
+      contracts,
+      entryPrice: price,
+      fees: fee,
+      closeTs: Date.parse(market.closeTime),
+    };
+    this.kalshiBets.set(pos.id, bet);
+
+    const now = this.clock.now();
+    this.lastKalshiEntry.set(market.ticker, now);
+    this.recentOrderTimestamps.push(now);
+    this.kalshiFees += fee;
+    this.kalshiTrades++;
+    this.quantTrades++;
+    return bet;
+  }
+
+  /**
+   * Early exits for fair-value bets: sell once the bid (net of the exit
+   * fee) reaches fair value, or cut when fair value has fallen
+   * KALSHI_STOP_EDGE under the entry. Arb legs always hold to settlement.
+   */
+  private manageKalshiBets(): void {
+    const now = this.clock.now();
+
+    for (const bet of Array.from(this.kalshiBets.values())) {
+      if (now >= bet.closeTs) continue;
+      if (this.positionMeta.get(bet.positionId)?.strategy !== "kalshi_fair_value") continue;
+
+      const book = this.freshKalshiBook(bet.ticker);
+      if (!book) continue;
+      const bid = bet.contractSide === "yes"
+        ? book.bids[0]?.price
+        : book.asks[0] ? 1 - book.asks[0].price : undefined;
+      if (bid === undefined || bid <= 0) continue;
+
+      const fairYes = this.kalshiFair(bet.asset, bet.spec, bet.closeTs);
+      if (fairYes === null) continue;
+      const fair = bet.contractSide === "yes" ? fairYes : 1 - fairYes;
+      const netBid = bid - kalshiFee(bet.contracts, bid) / bet.contracts;
+
+      if (netBid >= fair) {
+        this.closeKalshiBet(bet, bid, "kalshi_fair_reached");
+      } else if (fair - bet.entryPrice <= KALSHI_STOP_EDGE) {
+        this.closeKalshiBet(bet, bid, "kalshi_model_stop");
+      }
+    }
+  }
+
+  /** Sell a Kalshi position back to the book, paying the exit fee */
+  private closeKalshiBet(bet: KalshiBet, price: number, reason: string): void {
+    const pos = this.findPosition(bet.positionId);
+    const pnl = this.execution.closePosition(bet.positionId, price);
+    const fee = kalshiFee(bet.contracts, price);
+    this.demoWallet.chargeFee("kalshi", fee);
+    this.kalshiFees += fee;
+    bet.fees += fee;
+    this.kalshiBets.delete(bet.positionId);
+
+    const netPnl = pnl - bet.fees;
+    this.recordClosedTrade(pos, netPnl, price, reason);
+    logger.info(
+      `[KALSHI EXIT] ${bet.contractSide.toUpperCase()} ${bet.ticker} | Entry=$${bet.entryPrice.toFixed(2)} ` +
+      `Exit=$${price.toFixed(2)} | PnL: $${netPnl.toFixed(2)} (fees $${bet.fees.toFixed(2)}) | ${reason}`
+    );
+  }
+
+  /**
+   * SETTLE KALSHI CONTRACTS
+   *
+   * After close, the market's own result decides the payout ($1 or $0 per
+   * contract, no fee). Results are polled from the API every
+   * KALSHI_RESULT_POLL_MS; if none arrives within KALSHI_SETTLE_FALLBACK_MS
+   * the Binance spot price at that point stands in for the settlement index.
+   */
+  private settleKalshiBets(): void {
+    const now = this.clock.now();
+
+    for (const bet of Array.from(this.kalshiBets.values())) {
+      if (now < bet.closeTs) continue;
+
+      let result = this.kalshiResults.get(bet.ticker);
+      let source = "kalshi";
+      if (!result) {
+        this.requestKalshiResult(bet.ticker);
+        if (now - bet.closeTs < KALSHI_SETTLE_FALLBACK_MS) continue;
+
+        const spot = this.latestSpot(bet.asset);
+        if (spot <= 0) continue;
+        result = kalshiFairValue(bet.spec, spot, 0, 0) >= 1 ? "yes" : "no";
+        source = `binance ${spot.toFixed(2)}`;
+      }
+
+      const won = result === bet.contractSide;
+      const settlementPrice = won ? 1.0 : 0.001;
+      const pos = this.findPosition(bet.positionId);
+      const pnl = this.execution.settlePosition(bet.positionId, settlementPrice);
+      this.kalshiBets.delete(bet.positionId);
+
+      const netPnl = pnl - bet.fees;
+      this.recordClosedTrade(pos, netPnl, settlementPrice, won ? "resolution_win" : "resolution_loss");
+      logger.info(
+        `[KALSHI ${won ? "WIN" : "LOSS"}] ${bet.contractSide.toUpperCase()} ${bet.ticker} | ` +
+        `Settled ${result.toUpperCase()} (${source}) | PnL: $${netPnl.toFixed(2)} (fees $${bet.fees.toFixed(2)})`
+      );
+    }
+
+    // Forget results once nothing on the ticker is left to settle
+    const held = new Set([...this.kalshiBets.values()].map((b) => b.ticker));
+    for (const ticker of this.kalshiResults.keys()) {
+      if (!held.has(ticker)) {
+        this.kalshiResults.delete(ticker);
+        this.kalshiResultCheckedAt.delete(ticker);
+      }
+    }
+  }
+
+  private requestKalshiResult(ticker: string): void {
+    const now = this.clock.now();
+    if (now - (this.kalshiResultCheckedAt.get(ticker) || 0) < KALSHI_RESULT_POLL_MS) return;
+    this.kalshiResultCheckedAt.set(ticker, now);
+
+    this.kalshiClient
+      .getMarket(ticker)
+      .then((market) => {
+        const result = market?.result?.toLowerCase();
+        if (result === "yes" || result === "no") this.kalshiResults.set(ticker, result);
+      })
+      .catch(() => {
+        // Retried on the next poll
+      });
+  }
+
+  /** Discovered markets on assets we can price, closing inside the entry window */
+  private kalshiTradableMarkets(): ActiveKalshiMarket[] {
+    const now = this.clock.now();
+    const markets: ActiveKalshiMarket[] = [];
+    for (const asset of this.kalshiVols.keys()) {
+      for (const market of this.kalshiDiscovery.getMarketsForAsset(asset)) {
+        const timeLeft = Date.parse(market.closeTime) - now;
+        if (timeLeft >= KALSHI_MIN_TIME_LEFT_MS && timeLeft <= KALSHI_MAX_TIME_LEFT_MS) {
+          markets.push(market);
+        }
+      }
+    }
+    return markets;
+  }
+
+  private freshKalshiBook(ticker: string): IUnifiedOrderbook | null {
+    const fetchedAt = this.kalshiBookFetchedAt.get(ticker) || 0;
+    if (this.clock.now() - fetchedAt > KALSHI_BOOK_MAX_AGE_MS) return null;
+    return this.kalshiBooks.get(ticker) || null;
+  }
+
+  /** Probability the contract settles YES, or null without spot/vol data */
+  private kalshiFair(asset: string, spec: KalshiContractSpec, closeTs: number): number | null {
+    const vol = this.kalshiVols.get(asset)?.perSqrtMs() ?? null;
+    const spot = this.latestSpot(asset);
+    if (vol === null || spot <= 0) return null;
+    return kalshiFairValue(spec, spot, vol, closeTs - this.clock.now());
+  }
+
+  private latestSpot(asset: string): number {
+    const buffer = this.tickBuffers.get(asset);
+    return buffer && buffer.length > 0 ? buffer[buffer.length - 1].price : 0;
+  }
+
+  // ==================== STRATEGY 6: POLYMARKET ↔ KALSHI CROSS-VENUE ARB ====================
+
+  /**
+   * CROSS-VENUE ARB
+   *
+   * Pairs each Up/Down window with Kalshi contracts on the same event
+   * (see matchUpDownToKalshi) and buys opposite outcomes on the two venues
+   * when their combined asks plus both venues' fees leave at least
+   * CROSS_ARB_MIN_EDGE per set. One arb executes at a time.
+   */
+  private tryCrossVenueArb(): void {
+    if (!this.entriesAllowed("cross_venue_arb") || this.crossArbInFlight) return;
+    if (this.demoWallet.getPositions().length + 2 > MAX_POSITIONS) return;
+
+    const now = this.clock.now();
+    const windows = [...this.upDownMarkets.values()].filter(
+      (m) => !this.bettedSlugs.has(m.slug) && m.endTs - now >= CROSS_ARB_MIN_TIME_LEFT_MS
+    );
+    if (windows.length === 0) return;
+
+    const matches = matchUpDownToKalshi(windows, this.kalshiTradableMarkets(), {
+      maxStrikeGapPct: CROSS_ARB_MAX_STRIKE_GAP,
+    });
+
+    for (const match of matches) {
+      const up = this.polymarketBooks.get(match.upTokenId);
+      const down = this.polymarketBooks.get(match.downTokenId);
+      const kalshi = this.freshKalshiBook(match.kalshiTicker);
+      if (!up || !down || !kalshi) continue;
+
+      const budget = Math.min(this.demoWallet.getEquity() * CROSS_ARB_SIZE_PCT, this.demoWallet.getBalance() * 0.4);
+      const quote = priceCrossVenueArb(match, { up, down, kalshi }, budget);
+      if (!quote || quote.units < CROSS_ARB_MIN_UNITS) continue;
+      if (quote.lockedProfit < quote.units * CROSS_ARB_MIN_EDGE || quote.lockedProfit < 0.5) continue;
+
+      this.crossExchangeOpps++;
+      this.recordCrossOpportunity(quote.opportunity);
+
+      this.crossArbInFlight = true;
+      this.executeCrossVenueArb(match, quote)
+        .catch((err) => logger.error("[CROSS ARB] Execution failed", err))
+        .finally(() => {
+          this.crossArbInFlight = false;
+        });
+      return;
+    }
+  }
+
+  /**
+   * Kalshi first — its book is polled, so it's the leg most likely to have
+   * moved — then Polymarket once the Kalshi order is accepted. If the
+   * Polymarket leg is rejected, the Kalshi leg is sold straight back so
+   * no naked position is left behind.
+   */
+  private async executeCrossVenueArb(
+    match: ICrossVenueMatch,
+    quote: NonNullable<ReturnType<typeof priceCrossVenueArb>>
+  ): Promise<void> {
+    const market = this.kalshiDiscovery.getMarket(match.kalshiTicker);
+    const spec = market ? parseKalshiContract(market) : null;
+    if (!market || !spec) return;
+
+    const tag = `${match.asset} ${match.polymarketSlug} × ${match.kalshiTicker}`;
+    this.bettedSlugs.add(match.polymarketSlug);
+
+    // Leg 1: Kalshi
+    const kalshiBet = this.openKalshiContract(
+      market, spec, quote.kalshi.side, quote.kalshi.price, quote.units, "cross_venue_arb"
+    );
+    if (!kalshiBet) {
+      this.bettedSlugs.delete(match.polymarketSlug);
+      return;
+    }
+    if (!(await this.confirmOpened(kalshiBet.positionId))) {
+      this.kalshiBets.delete(kalshiBet.positionId);
+      this.positionMeta.delete(kalshiBet.positionId);
+      this.bettedSlugs.delete(match.polymarketSlug);
+      logger.warning(`[CROSS ARB] Kalshi leg rejected — no position taken | ${tag}`);
+      return;
+    }
+
+    // Leg 2: Polymarket (completes the hedge even if entries were paused meanwhile)
+    const pm = quote.polymarket;
+    const pmPos = this.execution.openPosition(
+      "polymarket", pm.tokenId, "LONG", quote.units * pm.price, pm.price, "cross_venue_arb", PM_LEVERAGE
+    );
+    if (pmPos) {
+      this.demoWallet.chargeFee("polymarket", pm.fee);
+      this.positionMeta.set(pmPos.id, {
+        strategy: "cross_venue_arb", exchange: "polymarket",
+        maxPrice: pm.price, minPrice: pm.price, trailActive: false,
+        tpPrice: 1.0, slPrice: 0.001,
+      });
+      this.upDownBets.set(pmPos.id, {
+        positionId: pmPos.id, marketSlug: match.polymarketSlug, asset: match.asset,
+        side: pm.outcome, tokenId: pm.tokenId,
+        entrySharePrice: pm.price, costBasis: quote.units * pm.price, resolutionTs: match.closeTs,
+      });
+    }
+
+    if (!pmPos || !(await this.confirmOpened(pmPos.id))) {
+      if (pmPos) {
+        this.upDownBets.delete(pmPos.id);
+        this.positionMeta.delete(pmPos.id);
+      }
+      this.unwindKalshiLeg(kalshiBet);
+      logger.warning(`[CROSS ARB] Polymarket leg failed — Kalshi leg unwound | ${tag}`);
+      return;
+    }
+
+    this.pmBetTrades++;
+    this.quantTrades++;
+    this.crossExchangeTrades++;
+    logger.info(
+      `[CROSS ARB] ${pm.outcome} PM @ $${pm.price.toFixed(2)} + ${quote.kalshi.side.toUpperCase()} Kalshi @ ` +
+      `$${quote.kalshi.price.toFixed(2)} | ${quote.units} sets | Fees=$${(pm.fee + quote.kalshi.fee).toFixed(2)} | ` +
+      `Locked=$${quote.lockedProfit.toFixed(2)} | Strike gap ${(match.strikeGapPct * 100).toFixed(3)}% | ${tag}`
+    );
+  }
+
+  /** Sell a stranded Kalshi leg at the current bid (entry price if no fresh book) */
+  private unwindKalshiLeg(bet: KalshiBet): void {
+    if (!this.kalshiBets.has(bet.positionId)) return;
+    const book = this.freshKalshiBook(bet.ticker);
+    const bid = bet.contractSide === "yes"
+      ? book?.bids[0]?.price
+      : book?.asks[0] ? 1 - book.asks[0].price : undefined;
+    this.closeKalshiBet(bet, bid && bid > 0 ? bid : bet.entryPrice, "cross_arb_unwind");
+  }
+
+  private confirmOpened(positionId: string): Promise<boolean> {
+    return this.execution.whenOpened
+      ? this.execution.whenOpened(positionId)
+      : Promise.resolve(true);
+  }
+
+  private recordCrossOpportunity(opportunity: ICrossExchangeOpportunity): void {
+    crossExchangeOpportunities.inc({ type: opportunity.type });
+    this.recentCrossOpps.push(opportunity);
+    if (this.recentCrossOpps.length > 50) this.recentCrossOpps.shift();
+  }
+
+  // ==================== STRATEGY 7: PERP/PREDICTION DIVERGENCE ====================
+
+  /**
+   * PERP/PREDICTION DIVERGENCE
+   *
+   * An Up/Down window is a binary option struck at the window's start
+   * price. The Hyperliquid mid and realized vol give a model P(Up)
+   * (see priceBinaryOption); when the Polymarket ask for Up or
+   * Down sits PPD_MIN_EDGE under the model after the taker fee, buy it.
+   * With divergenceDeltaHedge the binary's spot exposure is offset on the
+   * perp (see rehedgePair).
+   */
+  private tryDivergenceTrade(): void {
+    if (!this.entriesAllowed("perp_prediction_divergence")) return;
+    if (this.demoWallet.getPositions().length + 2 > MAX_POSITIONS) return;
+
+    const now = this.clock.now();
+    let best: {
+      market: UpDownMarket;
+      outcome: "Up" | "Down";
+      tokenId: string;
+      price: number;
+      liquidity: number;
+      prob: number;
+      edge: number;
+    } | null = null;
+
+    for (const market of this.upDownMarkets.values()) {
+      if (this.bettedSlugs.has(market.slug) || market.startPrice <= 0) continue;
+      if (now < market.startTs || market.endTs - now < PPD_MIN_TIME_LEFT_MS) continue;
+
+      const fair = this.perpFairValue(market);
+      if (!fair) continue;
+
+      for (const side of [
+        { outcome: "Up" as const, tokenId: market.upTokenId, prob: fair.yes },
+        { outcome: "Down" as const, tokenId: market.downTokenId, prob: fair.no },
+      ]) {
+        const ask = this.polymarketBooks.get(side.tokenId)?.asks[0];
+        if (!ask || ask.price < PPD_MIN_PRICE || ask.price > PPD_MAX_PRICE) continue;
+        const { edge } = binaryEdge(
+          fair, side.outcome === "Up" ? "YES" : "NO", ask.price, polymarketTakerFee(100, ask.price) / 100
+        );
+        if (edge < PPD_MIN_EDGE) continue;
+        if (!best || edge > best.edge) {
+          best = { market, ...side, price: ask.price, liquidity: ask.size, edge };
+        }
+      }
+    }
+    if (!best) return;
+
+    const hlMid = this.hyperliquidBooks.get(best.market.asset)?.midPrice || 0;
+    const budget = Math.min(this.demoWallet.getEquity() * PPD_SIZE_PCT, this.demoWallet.getBalance() - 1);
+    const shares = Math.floor(Math.min(best.liquidity, budget / best.price) * 100) / 100;
+    const cost = shares * best.price;
+    if (cost < MIN_TRADE_SIZE) return;
+
+    this.crossExchangeOpps++;
+    this.recordCrossOpportunity({
+      type: "perp_prediction_divergence",
+      exchangeA: "polymarket",
+      exchangeB: "hyperliquid",
+      symbol: best.market.slug,
+      priceA: best.price,
+      priceB: best.prob,   // Hyperliquid-implied probability of the same outcome
+      spread: best.prob - best.price,
+      expectedProfit: shares * best.edge,
+      confidence: Math.min(1, best.edge / 0.2),
+      // Up is long the underlying, hedged short on the perp; Down the reverse
+      direction: best.outcome === "Up" ? "BUY_A_SELL_B" : "BUY_B_SELL_A",
+    });
+
+    const pos = this.execution.openPosition(
+      "polymarket", best.tokenId, "LONG", cost, best.price, "perp_prediction_divergence", PM_LEVERAGE
+    );
+    if (!pos) return;
+    const fee = polymarketTakerFee(shares, best.price);
+    this.demoWallet.chargeFee("polymarket", fee);
+
+    this.positionMeta.set(pos.id, {
+      strategy: "perp_prediction_divergence", exchange: "polymarket",
+      maxPrice: best.price, minPrice: best.price, trailActive: false,
+      tpPrice: 1.0, slPrice: 0.001,
+    });
+    this.upDownBets.set(pos.id, {
+      positionId: pos.id, marketSlug: best.market.slug, asset: best.market.asset,
+      side: best.outcome, tokenId: best.tokenId,
+      entrySharePrice: best.price, costBasis: cost, resolutionTs: best.market.endTs,
+    });
+    this.bettedSlugs.add(best.market.slug);
+    this.pmBetTrades++;
+    this.quantTrades++;
+
+    const pair: HedgePair = {
+      binaryPositionId: pos.id,
+      asset: best.market.asset,
+      marketSlug: best.market.slug,
+      outcome: best.outcome,
+      tokenId: best.tokenId,
+      shares,
+      entryPrice: best.price,
+      fees: fee,
+      hedgePositionId: null,
+      hedgeUnits: 0,
+      hedgePnl: 0,
+      lastHedgeAt: 0,
+      binaryPnl: null,
+      openedAt: now,
+    };
+    this.hedgePairs.set(pos.id, pair);
+    if (this.divergenceDeltaHedge) this.rehedgePair(pair, best.market);
+
+    logger.info(
+      `[PPD] ${best.outcome.toUpperCase()} ${best.market.asset} ${best.market.timeframe} | ` +
+      `${shares} shares @ $${best.price.toFixed(2)} | Model=${(best.prob * 100).toFixed(1)}% ` +
+      `Edge=${(best.edge * 100).toFixed(1)}¢ | HL=${hlMid.toFixed(2)} vs start ${best.market.startPrice.toFixed(2)} | ` +
+      `Hedge=${pair.hedgeUnits.toFixed(4)} ${best.market.asset} | ${best.market.slug}`
+    );
+  }
+
+  /**
+   * Each tick: book pairs whose binary has closed (settlement, exit or
+   * flatten) after unwinding the hedge; take profit when the Polymarket
+   * bid catches up with the model; otherwise keep the hedge on target.
+   */
+  private manageHedgePairs(): void {
+    const now = this.clock.now();
+
+    for (const pair of Array.from(this.hedgePairs.values())) {
+      const hlMid = this.hyperliquidBooks.get(pair.asset)?.midPrice || 0;
+
+      if (pair.binaryPnl !== null || !this.findPosition(pair.binaryPositionId)) {
+        if (pair.hedgePositionId && hlMid <= 0) continue; // unwind once the perp has a price
+        this.closePairHedge(pair, hlMid, "ppd_unhedge");
+        this.finishHedgePair(pair);
+        continue;
+      }
+
+      if (pair.hedgePositionId && hlMid > 0) {
+        const hedge = this.findPosition(pair.hedgePositionId);
+        if (hedge && this.execution.checkLiquidation(hedge.id, hlMid)) {
+          this.recordClosedTrade(hedge, -hedge.size, hlMid, "liquidation");
+        }
+      }
+
+      const market = this.upDownMarkets.get(pair.marketSlug);
+      if (!market || now >= market.endTs) continue;
+
+      // Convergence: the market now pays at least the model value — sell
+      const fair = this.perpFairValue(market);
+      const bid = this.polymarketBooks.get(pair.tokenId)?.bids[0]?.price;
+      if (fair && bid) {
+        const prob = pair.outcome === "Up" ? fair.yes : fair.no;
+        const exitFee = polymarketTakerFee(pair.shares, bid);
+        if (bid - exitFee / pair.shares >= prob) {
+          const pos = this.findPosition(pair.binaryPositionId);
+          const pnl = this.execution.closePosition(pair.binaryPositionId, bid);
+          this.demoWallet.chargeFee("polymarket", exitFee);
+          pair.fees += exitFee;
+          this.upDownBets.delete(pair.binaryPositionId);
+          this.recordClosedTrade(pos, pnl, bid, "ppd_converged");
+          continue; // hedge unwound and pair booked on the next pass
+        }
+      }
+
+      if (this.divergenceDeltaHedge) this.rehedgePair(pair, market);
+    }
+  }
+
+  /**
+   * Hold −(shares × dP/dS) coins on the perp, so small spot moves leave
+   * the pair flat. Rebalanced when the target drifts PPD_REHEDGE_DRIFT
+   * from the current hedge (at most every PPD_REHEDGE_MIN_MS), capped at
+   * PPD_HEDGE_MAX_NOTIONAL_X × the binary's cost, and dropped for the last
+   * PPD_HEDGE_CUTOFF_MS when delta becomes unstable.
+   */
+  private rehedgePair(pair: HedgePair, market: UpDownMarket): void {
+    const now = this.clock.now();
+    const fair = this.perpFairValue(market);
+    if (!fair) return;
+    const hlMid = fair.spot;
+
+    const timeLeft = market.endTs - now;
+    let target = 0;
+    if (timeLeft > PPD_HEDGE_CUTOFF_MS) {
+      const exposure = pair.shares * fair.delta * (pair.outcome === "Up" ? 1 : -1);
+      const maxUnits = (PPD_HEDGE_MAX_NOTIONAL_X * pair.shares * pair.entryPrice) / hlMid;
+      target = Math.max(-maxUnits, Math.min(maxUnits, -exposure));
+      if (Math.abs(target) * hlMid < PPD_HEDGE_MIN_NOTIONAL) target = 0;
+    }
+
+    if (target === 0 && !pair.hedgePositionId) return;
+    if (target !== 0 && pair.hedgePositionId) {
+      const drift = Math.abs(target - pair.hedgeUnits);
+      if (drift < Math.abs(pair.hedgeUnits) * PPD_REHEDGE_DRIFT) return;
+      if (now - pair.lastHedgeAt < PPD_REHEDGE_MIN_MS) return;
+    }
+
+    this.closePairHedge(pair, hlMid, target === 0 ? "ppd_unhedge" : "ppd_rehedge");
+    if (target === 0) return;
+
+    const margin = (Math.abs(target) * hlMid) / PPD_HEDGE_LEVERAGE;
+    const hedge = this.execution.openPosition(
+      "hyperliquid", pair.asset, target > 0 ? "LONG" : "SHORT", margin, hlMid,
+      "perp_prediction_divergence_hedge", PPD_HEDGE_LEVERAGE
+    );
+    if (!hedge) return;
+
+    this.positionMeta.set(hedge.id, {
+      strategy: "perp_prediction_divergence", exchange: "hyperliquid",
+      maxPrice: hlMid, minPrice: hlMid, trailActive: false,
+      tpPrice: 0, slPrice: 0,
+    });
+    pair.hedgePositionId = hedge.id;
+    pair.hedgeUnits = target;
+    pair.lastHedgeAt = now;
+  }
+
+  private closePairHedge(pair: HedgePair, price: number, reason: string): void {
+    if (!pair.hedgePositionId) return;
+    const hedge = this.findPosition(pair.hedgePositionId);
+    if (!hedge) {
+      // Closed elsewhere (flatten, liquidation) — its P&L was booked there
+      pair.hedgePositionId = null;
+      pair.hedgeUnits = 0;
+      return;
+    }
+    const pnl = this.execution.closePosition(hedge.id, price);
+    this.recordClosedTrade(hedge, pnl, price, reason);
+  }
+
+  /** Called from recordClosedTrade for either leg of a pair */
+  private noteHedgePairLegClosed(positionId: string, pnl: number): void {
+    const binary = this.hedgePairs.get(positionId);
+    if (binary) {
+      binary.binaryPnl = pnl;
+      return;
+    }
+    for (const pair of this.hedgePairs.values()) {
+      if (pair.hedgePositionId === positionId) {
+        pair.hedgePnl += pnl;
+        pair.hedgePositionId = null;
+        pair.hedgeUnits = 0;
+        return;
+      }
+    }
+  }
+
+  private finishHedgePair(pair: HedgePair): void {
+    this.hedgePairs.delete(pair.binaryPositionId);
+    const binaryPnl = pair.binaryPnl ?? 0;
+    const summary: HedgePairSummary = {
+      asset: pair.asset,
+      marketSlug: pair.marketSlug,
+      outcome: pair.outcome,
+      shares: pair.shares,
+      entryPrice: pair.entryPrice,
+      binaryPnl,
+      hedgePnl: pair.hedgePnl,
+      fees: pair.fees,
+      combinedPnl: binaryPnl + pair.hedgePnl - pair.fees,
+      openedAt: pair.openedAt,
+      closedAt: this.clock.now(),
+    };
+    this.closedHedgePairs.push(summary);
+    if (this.closedHedgePairs.length > 50) this.closedHedgePairs.shift();
+
+    logger.info(
+      `[PPD PAIR] ${pair.outcome} ${pair.asset} | Binary $${binaryPnl.toFixed(2)} + ` +
+      `Hedge $${pair.hedgePnl.toFixed(2)} − Fees $${pair.fees.toFixed(2)} = $${summary.combinedPnl.toFixed(2)} | ` +
+      `${pair.marketSlug}`
+    );
+  }
+
+  /** Fair value of a window from the Hyperliquid mid; null without mid/vol data */
+  private perpFairValue(market: UpDownMarket): IBinaryFairValue | null {
+    const hlMid = this.hyperliquidBooks.get(market.asset)?.midPrice || 0;
+    const volatility = this.perpVols.get(market.asset)?.estimate() ?? null;
+    if (hlMid <= 0 || !volatility) return null;
+    return priceBinaryOption({
+      openPrice: market.startPrice,
+      spot: hlMid,
+      timeRemainingMs: market.endTs - this.clock.now(),
+      volatility,
+    });
+  }
+
   // ==================== UP/DOWN MARKET DISCOVERY ====================
 
   /**
@@ -1184,8 +2342,8 @@ export class MultiExchangeTickEngine {
    */
   private async discoverUpDownMarkets(): Promise<void> {
     try {
-      const nowSec = Math.floor(Date.now() / 1000);
-      const now = Date.now();
+      const nowSec = Math.floor(this.clock.now() / 1000);
+      const now = this.clock.now();
 
       // Generate candidate slugs for current + next window
       const assets = ["btc", "eth", "sol", "xrp"];
@@ -1223,20 +2381,15 @@ export class MultiExchangeTickEngine {
         }
 
         try {
-          const resp = await axios.get(
-            `https://gamma-api.polymarket.com/markets?slug=${slug}`,
-            { timeout: 5000 }
-          );
-
-          const data = Array.isArray(resp.data) ? resp.data[0] : resp.data;
-          if (!data) return;
-
-          const outcomes = JSON.parse(data.outcomes || "[]");
-          const tokens = JSON.parse(data.clobTokenIds || "[]");
-          const prices = JSON.parse(data.outcomePrices || "[]");
-
-          if (outcomes.length !== 2 || tokens.length !== 2) return;
-          if (outcomes[0] !== "Up" || outcomes[1] !== "Down") return;
+          const listing = await this.upDownMarketLookup(slug);
+          if (!listing) return;
+          for (const cb of this.listingCallbacks) {
+            try {
+              cb(slug, listing);
+            } catch (err) {
+              logger.error("[PM] Listing callback error", err);
+            }
+          }
 
           const windowMs = tf === "5m" ? 300_000 : 900_000;
           const startTs = startSec * 1000;
@@ -1245,9 +2398,6 @@ export class MultiExchangeTickEngine {
           // Skip expired
           if (endTs < now) return;
 
-          const upPrice = parseFloat(prices[0]) || 0.50;
-          const downPrice = parseFloat(prices[1]) || 0.50;
-
           // Get Binance reference price
           let startPrice = 0;
           const buffer = this.tickBuffers.get(asset);
@@ -1261,10 +2411,10 @@ export class MultiExchangeTickEngine {
             slug,
             startTs,
             endTs,
-            upTokenId: tokens[0],
-            downTokenId: tokens[1],
-            upPrice,
-            downPrice,
+            upTokenId: listing.upTokenId,
+            downTokenId: listing.downTokenId,
+            upPrice: listing.upPrice,
+            downPrice: listing.downPrice,
             startPrice,
           };
 
@@ -1272,8 +2422,8 @@ export class MultiExchangeTickEngine {
           this.upDownMarkets.set(slug, market);
 
           tokenEntries.push(
-            { id: tokens[0], label: `${asset} Up ${tf}` },
-            { id: tokens[1], label: `${asset} Down ${tf}` }
+            { id: listing.upTokenId, label: `${asset} Up ${tf}` },
+            { id: listing.downTokenId, label: `${asset} Down ${tf}` }
           );
         } catch (_) {
           // Slug may not exist yet — normal for next window
@@ -1300,9 +2450,9 @@ export class MultiExchangeTickEngine {
 
       if (newCount > 0 || this.upDownMarkets.size > 0) {
         const assetSet = new Set([...this.upDownMarkets.values()].map((m) => m.asset));
-        const nowDebug = Math.floor(Date.now() / 1000);
+        const nowDebug = Math.floor(this.clock.now() / 1000);
         const activeList = [...this.upDownMarkets.values()].map(m => {
-          const tte = ((m.endTs - Date.now()) / 1000).toFixed(0);
+          const tte = ((m.endTs - this.clock.now()) / 1000).toFixed(0);
           return `${m.slug}(${tte}s left)`;
         });
         logger.info(
@@ -1314,10 +2464,39 @@ export class MultiExchangeTickEngine {
     }
   }
 
+  /**
+   * Look up the Up/Down token pair for a slug on the Gamma API.
+   * Returns null when the slug does not exist (yet) or is not an Up/Down market.
+   */
+  private async fetchUpDownMarketListing(slug: string): Promise<UpDownMarketListing | null> {
+    const resp = await axios.get(
+      `https://gamma-api.polymarket.com/markets?slug=${slug}`,
+      { timeout: 5000 }
+    );
+
+    const data = Array.isArray(resp.data) ? resp.data[0] : resp.data;
+    if (!data) return null;
+
+    const outcomes = JSON.parse(data.outcomes || "[]");
+    const tokens = JSON.parse(data.clobTokenIds || "[]");
+    const prices = JSON.parse(data.outcomePrices || "[]");
+
+    if (outcomes.length !== 2 || tokens.length !== 2) return null;
+    if (outcomes[0] !== "Up" || outcomes[1] !== "Down") return null;
+
+    return {
+      upTokenId: tokens[0],
+      downTokenId: tokens[1],
+      upPrice: parseFloat(prices[0]) || 0.50,
+      downPrice: parseFloat(prices[1]) || 0.50,
+    };
+  }
+
   // ==================== 500ms TICK ====================
 
   private async onTick(): Promise<void> {
     if (!this.running) return;
+    const endTimer = tickDuration.startTimer({ engine: "multi_exchange" });
     try {
       this.tickCount++;
 
@@ -1337,6 +2516,7 @@ export class MultiExchangeTickEngine {
         if (perpHist && book.midPrice > 0) {
           perpHist.push(book.midPrice, book.bids.reduce((s, l) => s + l.size, 0));
         }
+        if (book.midPrice > 0) this.perpVols.get(coin)?.push(book.midPrice, this.clock.now());
       }
 
       // 4. Mark-to-market + manage momentum positions
@@ -1352,11 +2532,26 @@ export class MultiExchangeTickEngine {
       // 7. Settle Up/Down bets that have reached resolution time
       this.settleUpDownBets();
 
+      // 8. Kalshi: exits and settlement first, then new entries
+      this.manageKalshiBets();
+      this.settleKalshiBets();
+      this.tryKalshiYesNoArb();
+      this.tryKalshiFairValue();
+
+      // 9. Polymarket ↔ Kalshi arb (executes asynchronously, one at a time)
+      this.tryCrossVenueArb();
+
+      // 10. Perp/prediction divergence: pair management (exits, re-hedges), then entries
+      this.manageHedgePairs();
+      this.tryDivergenceTrade();
+
       // 6. Cleanup stale timestamps
-      const cutoff = Date.now() - 60_000;
+      const cutoff = this.clock.now() - 60_000;
       this.recentOrderTimestamps = this.recentOrderTimestamps.filter((t) => t > cutoff);
     } catch (_err) {
       // Never crash
+    } finally {
+      endTimer();
     }
   }
 
@@ -1379,14 +2574,29 @@ export class MultiExchangeTickEngine {
    */
   private managePositions(): void {
     const positions = Array.from(this.demoWallet.getPositions());
-    const now = Date.now();
+    const now = this.clock.now();
 
     for (const pos of positions) {
       const meta = this.positionMeta.get(pos.id);
-      if (!meta) continue;
+      if (!meta) {
+        // Restored wallet positions carry no exit plan: time them out, at
+        // entry when their market no longer has a price
+        if (now - pos.openedAt > UNMANAGED_MAX_HOLD) {
+          const mid = this.getCurrentMidPrice(pos.exchange, pos.symbol);
+          const price = mid > 0 ? mid : pos.entryPrice;
+          const pnl = this.execution.closePosition(pos.id, price);
+          this.riskManager.removeStopLoss(pos.id);
+          this.recordClosedTrade(pos, pnl, price, "time_exit");
+        }
+        continue;
+      }
 
       // Skip PM up/down bets — managed by settleUpDownBets()
       if (meta.strategy === "pm_updown") continue;
+      // Kalshi contracts — managed by manageKalshiBets()/settleKalshiBets()
+      if (this.kalshiBets.has(pos.id)) continue;
+      // Divergence binaries and their hedges — managed by manageHedgePairs()
+      if (meta.strategy === "perp_prediction_divergence") continue;
 
       const price = this.getCurrentMidPrice(pos.exchange, pos.symbol);
       if (price <= 0) continue;
@@ -1395,7 +2605,7 @@ export class MultiExchangeTickEngine {
       const priceDelta = isLong ? price - pos.entryPrice : pos.entryPrice - price;
 
       // Check liquidation for leveraged positions
-      if (pos.leverage > 1 && this.demoWallet.checkLiquidation(pos.id, price)) {
+      if (pos.leverage > 1 && this.execution.checkLiquidation(pos.id, price)) {
         this.recordClosedTrade(pos, -pos.size, price, "liquidation");
         continue;
       }
@@ -1408,13 +2618,13 @@ export class MultiExchangeTickEngine {
 
         // Hard SL
         if (isLong && price <= meta.slPrice) {
-          const pnl = this.demoWallet.closePosition(pos.id, price);
+          const pnl = this.execution.closePosition(pos.id, price);
           this.riskManager.removeStopLoss(pos.id);
           this.recordClosedTrade(pos, pnl, price, "hard_sl");
           continue;
         }
         if (!isLong && price >= meta.slPrice) {
-          const pnl = this.demoWallet.closePosition(pos.id, price);
+          const pnl = this.execution.closePosition(pos.id, price);
           this.riskManager.removeStopLoss(pos.id);
           this.recordClosedTrade(pos, pnl, price, "hard_sl");
           continue;
@@ -1435,7 +2645,7 @@ export class MultiExchangeTickEngine {
           const gaveBack = maxProfit - currentProfit;
 
           if (maxProfit > 0 && gaveBack > maxProfit * MOM_TRAIL_GIVEBACK) {
-            const pnl = this.demoWallet.closePosition(pos.id, price);
+            const pnl = this.execution.closePosition(pos.id, price);
             this.riskManager.removeStopLoss(pos.id);
             this.recordClosedTrade(pos, pnl, price, "trailing_stop");
             continue;
@@ -1444,7 +2654,7 @@ export class MultiExchangeTickEngine {
 
         // Time exit
         if (now - pos.openedAt > MOM_MAX_HOLD) {
-          const pnl = this.demoWallet.closePosition(pos.id, price);
+          const pnl = this.execution.closePosition(pos.id, price);
           this.riskManager.removeStopLoss(pos.id);
           this.recordClosedTrade(pos, pnl, price, "time_exit");
           continue;
@@ -1453,8 +2663,8 @@ export class MultiExchangeTickEngine {
       }
 
       // === FALLBACK: unknown positions ===
-      if (now - pos.openedAt > 120_000) {
-        const pnl = this.demoWallet.closePosition(pos.id, price);
+      if (now - pos.openedAt > UNMANAGED_MAX_HOLD) {
+        const pnl = this.execution.closePosition(pos.id, price);
         this.riskManager.removeStopLoss(pos.id);
         this.recordClosedTrade(pos, pnl, price, "time_exit");
       }
@@ -1463,12 +2673,27 @@ export class MultiExchangeTickEngine {
 
   // ==================== DATA FETCHING ====================
 
+  /** Held contracts every tick, then a rotating slice of the tradable markets */
   private async fetchKalshiBooks(): Promise<void> {
-    const tickers = this.kalshiDiscovery.getAllActiveTickers();
+    const held = [...new Set([...this.kalshiBets.values()].map((b) => b.ticker))];
+    const batch = held.slice(0, KALSHI_BOOK_BATCH);
+
+    const universe = this.kalshiTradableMarkets()
+      .map((m) => m.ticker)
+      .filter((t) => !held.includes(t));
+    const take = Math.min(universe.length, KALSHI_BOOK_BATCH - batch.length);
+    for (let i = 0; i < take; i++) {
+      batch.push(universe[(this.kalshiBookCursor + i) % universe.length]);
+    }
+    this.kalshiBookCursor = universe.length > 0 ? (this.kalshiBookCursor + take) % universe.length : 0;
+
     await Promise.allSettled(
-      tickers.slice(0, 6).map(async (ticker) => {
+      batch.map(async (ticker) => {
         const book = await this.kalshiClient.getOrderbook(ticker);
-        if (book) this.kalshiBooks.set(ticker, book);
+        if (book) {
+          this.kalshiBooks.set(ticker, book);
+          this.kalshiBookFetchedAt.set(ticker, this.clock.now());
+        }
       })
     );
   }
@@ -1501,6 +2726,7 @@ export class MultiExchangeTickEngine {
 
     const meta = this.positionMeta.get(pos.id);
     const strategyName = meta?.strategy || "quant";
+    if (strategyName === "perp_prediction_divergence") this.noteHedgePairLegClosed(pos.id, pnl);
 
     const stratMap: Record<string, HFTStrategyType> = {
       momentum: "latency_arb",
@@ -1522,15 +2748,15 @@ export class MultiExchangeTickEngine {
       size: pos.notional,
       shares: pos.entryPrice > 0 ? pos.notional / pos.entryPrice : 0,
       pnl,
-      holdTimeMs: Date.now() - pos.openedAt,
+      holdTimeMs: this.clock.now() - pos.openedAt,
       openedAt: pos.openedAt,
-      closedAt: Date.now(),
+      closedAt: this.clock.now(),
       exchange: pos.exchange,
     };
 
     this.perfTracker.recordTrade(trade);
     this.strategyEngine.recordCompletedTrade(pnl, strategyName as StrategyType);
-    this.recentPnlWindow.push({ ts: Date.now(), pnl });
+    this.recentPnlWindow.push({ ts: this.clock.now(), pnl });
     this.positionMeta.delete(pos.id);
 
     // Strategy-specific tracking
@@ -1540,6 +2766,9 @@ export class MultiExchangeTickEngine {
     } else if (strategyName === "pm_updown") {
       this.pmBetPnl += pnl;
       if (pnl > 0) this.pmBetWins++;
+    } else if (strategyName.startsWith("kalshi_")) {
+      this.kalshiPnl += pnl;
+      if (pnl > 0) this.kalshiWins++;
     } else {
       this.scalpPnl += pnl;
       if (pnl > 0) this.scalpWins++;
@@ -1547,7 +2776,7 @@ export class MultiExchangeTickEngine {
 
     const leverageTag = pos.leverage > 1 ? ` ${pos.leverage}x` : "";
     const tag = pnl > 0 ? "WIN" : "LOSS";
-    const holdSec = ((Date.now() - pos.openedAt) / 1000).toFixed(1);
+    const holdSec = ((this.clock.now() - pos.openedAt) / 1000).toFixed(1);
 
     logger.info(
       `[${tag}] ${strategyName}${leverageTag} ${pos.symbol.slice(0, 30)}@${pos.exchange} | ` +
@@ -1567,8 +2796,9 @@ export class MultiExchangeTickEngine {
       return book?.midPrice || 0;
     }
     if (exchange === "kalshi") {
-      const book = this.kalshiBooks.get(symbol);
-      return book?.midPrice || 0.5;
+      const { ticker, contractSide } = KalshiClient.parseSymbol(symbol);
+      const mid = this.kalshiBooks.get(ticker)?.midPrice || 0.5;
+      return contractSide === "yes" ? mid : 1 - mid;
     }
     return 0.5;
   }
@@ -1601,13 +2831,17 @@ export class MultiExchangeTickEngine {
     pmBetTrades: number;
     pmBetWins: number;
     pmBetPnl: number;
+    kalshiTrades: number;
+    kalshiWins: number;
+    kalshiPnl: number;
+    kalshiFees: number;
     binanceConnected: boolean;
     polymarketWsConnected: boolean;
   } {
     return {
       running: this.running,
       tickCount: this.tickCount,
-      uptimeMs: this.running ? Date.now() - this.startTime : 0,
+      uptimeMs: this.running ? this.clock.now() - this.startTime : 0,
       crossExchangeOpps: this.crossExchangeOpps,
       crossExchangeTrades: this.crossExchangeTrades,
       kalshiMarkets: this.kalshiDiscovery.getTotalActiveCount(),
@@ -1630,11 +2864,25 @@ export class MultiExchangeTickEngine {
       pmBetTrades: this.pmBetTrades,
       pmBetWins: this.pmBetWins,
       pmBetPnl: this.pmBetPnl,
+      kalshiTrades: this.kalshiTrades,
+      kalshiWins: this.kalshiWins,
+      kalshiPnl: this.kalshiPnl,
+      kalshiFees: this.kalshiFees,
       binanceConnected: this.binanceFeed.isConnected(),
       polymarketWsConnected: this.polymarketFeed.isConnected(),
     };
   }
 
+  /** Most recent cross-exchange opportunities (cross-venue arb, perp/prediction divergence), oldest first */
+  getCrossExchangeOpportunities(): ICrossExchangeOpportunity[] {
+    return [...this.recentCrossOpps];
+  }
+
+  /** Open divergence pairs and the most recent closed ones with combined P&L */
+  getHedgePairs(): { open: number; closed: HedgePairSummary[] } {
+    return { open: this.hedgePairs.size, closed: [...this.closedHedgePairs] };
+  }
+
   getAllOrderbooks(): IUnifiedOrderbook[] {
     const books: IUnifiedOrderbook[] = [];
     for (const book of this.polymarketBooks.values()) books.push(book);
@@ -1655,7 +2903,27 @@ export class MultiExchangeTickEngine {
 
   getTicksPerSecond(): number {
     if (!this.running || this.tickCount === 0) return 0;
-    const elapsedSec = (Date.now() - this.startTime) / 1000;
+    const elapsedSec = (this.clock.now() - this.startTime) / 1000;
     return elapsedSec > 0 ? this.tickCount / elapsedSec : 0;
   }
 }
+
+/**
+ * True when range buckets tile the whole price line: open-ended tails on
+ * both sides and no gaps between neighbouring buckets.
+ */
+function coversPriceLine(specs: KalshiContractSpec[]): boolean {
+  const bounds = specs
+    .map((s) => ({
+      lo: s.type === "below" ? 0 : s.floor,
+      hi: s.type === "above" ? Infinity : s.cap,
+    }))
+    .sort((a, b) => a.lo - b.lo);
+  if (bounds.length < 2 || bounds[0].lo !== 0 || bounds[bounds.length - 1].hi !== Infinity) return false;
+
+  for (let i = 1; i < bounds.length; i++) {
+    const gap = bounds[i].lo - bounds[i - 1].hi;
+    if (Math.abs(gap) > bounds[i].lo * 1e-4) return false;
+  }
+  return true;
+}
@@ -0,0 +1,159 @@
+import { DemoWallet } from "./DemoWallet";
+import { IPaperSession, IPaperSessionStore } from "../types/exchange.types";
+import { IClock, TimerHandle, systemClock } from "../utils/clock";
+import { logger } from "../utils/logger";
+
+const log = logger.child("PaperSession");
+
+const DEFAULT_AUTOSAVE_MS = 60_000;
+const CHECKPOINT_INTERVAL_MS = 3_600_000;
+
+export interface PaperSessionSource {
+  session: string;
+  at?: number; // Unix ms; latest snapshot at or before this time (default: latest)
+}
+
+export type PaperSessionOpenResult = "resumed" | "forked" | "created";
+
+/**
+ * Named paper-trading session around a DemoWallet.
+ *
+ * open() resumes the session if it exists, otherwise creates it — empty,
+ * or forked from another session's snapshot (optionally a historical
+ * checkpoint). While running, the wallet is saved every minute as the
+ * rolling latest snapshot, with one checkpoint kept per hour.
+ *
+ * Only wallet state is restored: strategy exit bookkeeping in the tick
+ * engine starts fresh, so resumed positions have no stops or targets and
+ * the tick engine closes them on its unmanaged-position time exit.
+ */
+export class PaperSessionManager {
+  private wallet: DemoWallet;
+  private store: IPaperSessionStore;
+  private name: string;
+  private clock: IClock;
+  private autosaveHandle: TimerHandle | null = null;
+  private lastCheckpointSlot = -1;
+  private saving: Promise<void> = Promise.resolve();
+
+  constructor(
+    wallet: DemoWallet,
+    store: IPaperSessionStore,
+    name: string,
+    clock: IClock = systemClock
+  ) {
+    this.wallet = wallet;
+    this.store = store;
+    this.name = name;
+    this.clock = clock;
+  }
+
+  async open(forkFrom?: PaperSessionSource): Promise<PaperSessionOpenResult> {
+    const existing = await this.store.getSession(this.name);
+    if (existing) {
+      const snapshot = await this.store.getSnapshot(this.name);
+      if (snapshot) this.wallet.restoreSnapshot(snapshot);
+      log.info(`Resumed "${this.name}"`);
+      return "resumed";
+    }
+
+    if (forkFrom) {
+      await PaperSessionManager.fork(this.store, forkFrom, this.name, this.clock);
+      const snapshot = await this.store.getSnapshot(this.name);
+      if (snapshot) this.wallet.restoreSnapshot(snapshot);
+      return "forked";
+    }
+
+    const now = this.clock.now();
+    await this.store.createSession({
+      name: this.name,
+      createdAt: now,
+      updatedAt: now,
+      startingBalance: this.wallet.getStartingBalance(),
+    });
+    await this.save();
+    log.info(`Created "${this.name}" with $${this.wallet.getStartingBalance().toFixed(2)}`);
+    return "created";
+  }
+
+  /**
+   * Copy a snapshot of `source` into a new session `target`, which then
+   * continues independently of the source.
+   */
+  static async fork(
+    store: IPaperSessionStore,
+    source: PaperSessionSource,
+    target: string,
+    clock: IClock = systemClock
+  ): Promise<IPaperSession> {
+    if (await store.getSession(target)) {
+      throw new Error(`Paper session "${target}" already exists`);
+    }
+    const snapshot = await store.getSnapshot(source.session, source.at);
+    if (!snapshot) {
+      const when = source.at !== undefined ? ` at ${new Date(source.at).toISOString()}` : "";
+      throw new Error(`No snapshot of paper session "${source.session}"${when}`);
+    }
+
+    const now = clock.now();
+    const session: IPaperSession = {
+      name: target,
+      createdAt: now,
+      updatedAt: now,
+      startingBalance: snapshot.startingBalance,
+      forkedFrom: { session: source.session, snapshotAt: snapshot.takenAt },
+    };
+    await store.createSession(session);
+    await store.saveSnapshot(target, snapshot, true);
+
+    log.info(
+      `Forked "${target}" from "${source.session}" @ ${new Date(snapshot.takenAt).toISOString()}`
+    );
+    return session;
+  }
+
+  /**
+   * Parse "name" or "name@<ISO time | Unix ms>" (PAPER_SESSION_FROM).
+   */
+  static parseSource(spec: string): PaperSessionSource {
+    const [session, when] = spec.split("@");
+    if (!when) return { session };
+    const at = /^\d+$/.test(when) ? parseInt(when, 10) : Date.parse(when);
+    if (isNaN(at)) throw new Error(`Invalid snapshot time in "${spec}"`);
+    return { session, at };
+  }
+
+  /** Save the wallet now. Saves are serialized so they never interleave. */
+  save(): Promise<void> {
+    this.saving = this.saving.then(async () => {
+      try {
+        const snapshot = this.wallet.toSnapshot();
+        const slot = Math.floor(snapshot.takenAt / CHECKPOINT_INTERVAL_MS);
+        const checkpoint = slot !== this.lastCheckpointSlot;
+        await this.store.saveSnapshot(this.name, snapshot, checkpoint);
+        if (checkpoint) this.lastCheckpointSlot = slot;
+      } catch (err) {
+        log.error(`Failed to save "${this.name}":`, err);
+      }
+    });
+    return this.saving;
+  }
+
+  startAutosave(intervalMs = DEFAULT_AUTOSAVE_MS): void {
+    if (this.autosaveHandle) return;
+    this.autosaveHandle = this.clock.setInterval(() => this.save(), intervalMs);
+  }
+
+  async stop(): Promise<void> {
+    if (this.autosaveHandle) {
+      this.clock.clearInterval(this.autosaveHandle);
+      this.autosaveHandle = null;
+    }
+    await this.save();
+    log.info(`Saved "${this.name}" on shutdown`);
+  }
+
+  getName(): string {
+    return this.name;
+  }
+}
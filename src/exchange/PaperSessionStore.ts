@@ -0,0 +1,167 @@
+import fs from "fs";
+import path from "path";
+import {
+  IPaperSession,
+  IPaperSessionStore,
+  IDemoWalletSnapshot,
+} from "../types/exchange.types";
+import { PaperSessionModel, IPaperSessionDoc } from "../models/PaperSession";
+import { DemoWalletSnapshotModel } from "../models/DemoWalletSnapshot";
+
+// ==================== MONGO ====================
+
+export class MongoPaperSessionStore implements IPaperSessionStore {
+  async getSession(name: string): Promise<IPaperSession | null> {
+    const doc = await PaperSessionModel.findOne({ name }).exec();
+    return doc ? toSession(doc) : null;
+  }
+
+  async listSessions(): Promise<IPaperSession[]> {
+    const docs = await PaperSessionModel.find({}).sort({ updatedAt: -1 }).exec();
+    return docs.map(toSession);
+  }
+
+  async createSession(session: IPaperSession): Promise<void> {
+    await PaperSessionModel.create({
+      name: session.name,
+      startingBalance: session.startingBalance,
+      forkedFrom: session.forkedFrom
+        ? { session: session.forkedFrom.session, snapshotAt: new Date(session.forkedFrom.snapshotAt) }
+        : undefined,
+      createdAt: new Date(session.createdAt),
+      updatedAt: new Date(session.updatedAt),
+    });
+  }
+
+  async saveSnapshot(name: string, snapshot: IDemoWalletSnapshot, checkpoint: boolean): Promise<void> {
+    const takenAt = new Date(snapshot.takenAt);
+    if (checkpoint) {
+      await DemoWalletSnapshotModel.create({ session: name, takenAt, checkpoint: true, state: snapshot });
+    } else {
+      await DemoWalletSnapshotModel.findOneAndUpdate(
+        { session: name, checkpoint: false },
+        { $set: { takenAt, state: snapshot } },
+        { upsert: true }
+      ).exec();
+    }
+    await PaperSessionModel.updateOne({ name }, { $set: { updatedAt: takenAt } }).exec();
+  }
+
+  async getSnapshot(name: string, at?: number): Promise<IDemoWalletSnapshot | null> {
+    const filter: Record<string, any> = { session: name };
+    if (at !== undefined) filter.takenAt = { $lte: new Date(at) };
+    const doc = await DemoWalletSnapshotModel.findOne(filter).sort({ takenAt: -1 }).exec();
+    return doc ? doc.state : null;
+  }
+}
+
+function toSession(doc: IPaperSessionDoc): IPaperSession {
+  return {
+    name: doc.name,
+    createdAt: doc.createdAt.getTime(),
+    updatedAt: doc.updatedAt.getTime(),
+    startingBalance: doc.startingBalance,
+    forkedFrom: doc.forkedFrom?.session
+      ? { session: doc.forkedFrom.session, snapshotAt: doc.forkedFrom.snapshotAt.getTime() }
+      : undefined,
+  };
+}
+
+// ==================== LOCAL FILES ====================
+
+const SESSION_FILE = "session.json";
+const LATEST_FILE = "latest.json";
+const CHECKPOINT_DIR = "checkpoints";
+
+/**
+ * File-backed store for running without MongoDB. Layout per session:
+ *   <dir>/<name>/session.json
+ *   <dir>/<name>/latest.json
+ *   <dir>/<name>/checkpoints/<takenAt>.json
+ * Every write goes through tmp + rename so a crash never leaves a torn file.
+ */
+export class FilePaperSessionStore implements IPaperSessionStore {
+  private dir: string;
+
+  constructor(dir: string) {
+    this.dir = dir;
+    fs.mkdirSync(dir, { recursive: true });
+  }
+
+  async getSession(name: string): Promise<IPaperSession | null> {
+    return this.readJson<IPaperSession>(path.join(this.sessionDir(name), SESSION_FILE));
+  }
+
+  async listSessions(): Promise<IPaperSession[]> {
+    const entries = await fs.promises.readdir(this.dir, { withFileTypes: true });
+    const sessions: IPaperSession[] = [];
+    for (const entry of entries) {
+      if (!entry.isDirectory()) continue;
+      const session = await this.getSession(entry.name);
+      if (session) sessions.push(session);
+    }
+    return sessions.sort((a, b) => b.updatedAt - a.updatedAt);
+  }
+
+  async createSession(session: IPaperSession): Promise<void> {
+    await fs.promises.mkdir(path.join(this.sessionDir(session.name), CHECKPOINT_DIR), { recursive: true });
+    await this.writeJson(path.join(this.sessionDir(session.name), SESSION_FILE), session);
+  }
+
+  async saveSnapshot(name: string, snapshot: IDemoWalletSnapshot, checkpoint: boolean): Promise<void> {
+    const dir = this.sessionDir(name);
+    const file = checkpoint
+      ? path.join(dir, CHECKPOINT_DIR, `${snapshot.takenAt}.json`)
+      : path.join(dir, LATEST_FILE);
+    await this.writeJson(file, snapshot);
+
+    const session = await this.getSession(name);
+    if (session) {
+      session.updatedAt = snapshot.takenAt;
+      await this.writeJson(path.join(dir, SESSION_FILE), session);
+    }
+  }
+
+  async getSnapshot(name: string, at?: number): Promise<IDemoWalletSnapshot | null> {
+    const dir = this.sessionDir(name);
+    const limit = at ?? Infinity;
+    let best: IDemoWalletSnapshot | null = null;
+
+    const latest = await this.readJson<IDemoWalletSnapshot>(path.join(dir, LATEST_FILE));
+    if (latest && latest.takenAt <= limit) best = latest;
+
+    // Checkpoint files are named by takenAt, so only the best candidate is read
+    const checkpointDir = path.join(dir, CHECKPOINT_DIR);
+    const stamps = fs.existsSync(checkpointDir)
+      ? (await fs.promises.readdir(checkpointDir))
+          .map((f) => parseInt(path.basename(f, ".json"), 10))
+          .filter((ts) => !isNaN(ts) && ts <= limit)
+      : [];
+    if (stamps.length > 0) {
+      const newest = Math.max(...stamps);
+      if (!best || newest > best.takenAt) {
+        best = await this.readJson<IDemoWalletSnapshot>(path.join(checkpointDir, `${newest}.json`));
+      }
+    }
+
+    return best;
+  }
+
+  private sessionDir(name: string): string {
+    if (!/^[\w.-]+$/.test(name)) {
+      throw new Error(`Invalid paper session name: ${name}`);
+    }
+    return path.join(this.dir, name);
+  }
+
+  private async readJson<T>(file: string): Promise<T | null> {
+    if (!fs.existsSync(file)) return null;
+    return JSON.parse(await fs.promises.readFile(file, "utf8")) as T;
+  }
+
+  private async writeJson(file: string, data: unknown): Promise<void> {
+    const tmp = `${file}.tmp`;
+    await fs.promises.writeFile(tmp, JSON.stringify(data));
+    await fs.promises.rename(tmp, file);
+  }
+}
@@ -0,0 +1,297 @@
+import WebSocket from "ws";
+import {
+  IPolymarketApiCredentials,
+  IPolymarketUserFill,
+  IPolymarketOrderStatus,
+} from "../types/polymarket.types";
+import { PolymarketClient } from "../polymarket/PolymarketClient";
+import { logger } from "../utils/logger";
+
+const log = logger.child("PolymarketUserWS");
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+const POLYMARKET_USER_WS_URL =
+  "wss://ws-subscriptions-clob.polymarket.com/ws/user";
+
+const HEARTBEAT_INTERVAL_MS = 10_000;
+const BASE_RECONNECT_MS = 3_000;
+const MAX_RECONNECT_MS = 30_000;
+const SEEN_FILL_LIMIT = 2_000;
+
+export type UserFillCallback = (fill: IPolymarketUserFill) => void;
+export type UserOrderCallback = (order: IPolymarketOrderStatus) => void;
+
+// ---------------------------------------------------------------------------
+// PolymarketUserFeed
+// ---------------------------------------------------------------------------
+
+/**
+ * Authenticated Polymarket user channel: matches and order updates for
+ * the API key's own orders.
+ *
+ * A trade is reported several times as it moves from MATCHED to MINED to
+ * CONFIRMED; each (trade, order) pair is delivered to fill callbacks once,
+ * on its first sighting. FAILED trades are dropped. Order events are
+ * forwarded as-is (placement, partial match, cancellation).
+ */
+export class PolymarketUserFeed {
+  private ws: WebSocket | null = null;
+  private url: string;
+  private credentials: IPolymarketApiCredentials | null = null;
+  private fillCallbacks: UserFillCallback[] = [];
+  private orderCallbacks: UserOrderCallback[] = [];
+  private seenFills: Set<string> = new Set();
+  private connected: boolean = false;
+  private stopped: boolean = true;
+  private reconnectTimer: NodeJS.Timeout | null = null;
+  private heartbeatTimer: NodeJS.Timeout | null = null;
+  private reconnectAttempts: number = 0;
+
+  constructor(url: string = POLYMARKET_USER_WS_URL) {
+    this.url = url;
+  }
+
+  // -----------------------------------------------------------------------
+  // Public API
+  // -----------------------------------------------------------------------
+
+  /**
+   * Connect with the client's L2 credentials. Subscribes to all of the
+   * account's markets.
+   */
+  connect(credentials: IPolymarketApiCredentials): void {
+    this.credentials = credentials;
+    this.stopped = false;
+    this.openConnection();
+  }
+
+  disconnect(): void {
+    this.stopped = true;
+    this.clearHeartbeat();
+    this.clearReconnect();
+
+    if (this.ws) {
+      try {
+        this.ws.removeAllListeners();
+        this.ws.close();
+      } catch {
+        // ignore close errors
+      }
+      this.ws = null;
+    }
+
+    this.connected = false;
+    log.info("Disconnected");
+  }
+
+  onFill(callback: UserFillCallback): void {
+    this.fillCallbacks.push(callback);
+  }
+
+  onOrder(callback: UserOrderCallback): void {
+    this.orderCallbacks.push(callback);
+  }
+
+  isConnected(): boolean {
+    return this.connected;
+  }
+
+  // -----------------------------------------------------------------------
+  // Private — connection lifecycle
+  // -----------------------------------------------------------------------
+
+  private openConnection(): void {
+    this.clearReconnect();
+    if (!this.credentials) return;
+
+    try {
+      this.ws = new WebSocket(this.url);
+    } catch (err) {
+      log.error("Failed to create WebSocket", err);
+      this.scheduleReconnect();
+      return;
+    }
+
+    this.ws.on("open", () => {
+      this.connected = true;
+      this.reconnectAttempts = 0;
+      log.success("Connected — subscribing to user channel");
+
+      this.ws!.send(
+        JSON.stringify({ auth: this.credentials, markets: [], type: "user" })
+      );
+      this.startHeartbeat();
+    });
+
+    this.ws.on("message", (raw: WebSocket.Data) => {
+      this.handleMessage(raw);
+    });
+
+    this.ws.on("close", (code: number, reason: Buffer) => {
+      this.connected = false;
+      this.clearHeartbeat();
+      log.warning(
+        `Connection closed (code=${code}, reason=${reason.toString()})`
+      );
+      this.scheduleReconnect();
+    });
+
+    this.ws.on("error", (err: Error) => {
+      this.connected = false;
+      this.clearHeartbeat();
+      log.error("WebSocket error", err);
+      if (!this.ws || this.ws.readyState === WebSocket.CLOSED) {
+        this.scheduleReconnect();
+      }
+    });
+  }
+
+  private startHeartbeat(): void {
+    this.clearHeartbeat();
+    this.heartbeatTimer = setInterval(() => {
+      if (this.ws && this.ws.readyState === WebSocket.OPEN) {
+        this.ws.send("PING");
+      }
+    }, HEARTBEAT_INTERVAL_MS);
+  }
+
+  private clearHeartbeat(): void {
+    if (this.heartbeatTimer) {
+      clearInterval(this.heartbeatTimer);
+      this.heartbeatTimer = null;
+    }
+  }
+
+  private clearReconnect(): void {
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+  }
+
+  /**
+   * Exponential back-off: 3 s, 6 s, 12 s, 24 s, 30 s (capped).
+   */
+  private scheduleReconnect(): void {
+    if (this.stopped) return;
+    this.clearReconnect();
+    const delayMs = Math.min(
+      BASE_RECONNECT_MS * Math.pow(2, this.reconnectAttempts),
+      MAX_RECONNECT_MS
+    );
+    this.reconnectAttempts++;
+
+    log.info(
+      `Reconnecting in ${(delayMs / 1000).toFixed(1)}s (attempt #${this.reconnectAttempts})`
+    );
+
+    this.reconnectTimer = setTimeout(() => {
+      if (this.ws) {
+        try {
+          this.ws.removeAllListeners();
+          this.ws.close();
+        } catch {
+          // ignore
+        }
+        this.ws = null;
+      }
+      this.openConnection();
+    }, delayMs);
+  }
+
+  // -----------------------------------------------------------------------
+  // Private — message handling
+  // -----------------------------------------------------------------------
+
+  private handleMessage(raw: WebSocket.Data): void {
+    const text = typeof raw === "string" ? raw : raw.toString();
+    if (text === "PONG") return;
+
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(text);
+    } catch {
+      log.warning(`Unparseable message: ${text.slice(0, 120)}`);
+      return;
+    }
+
+    const events: unknown[] = Array.isArray(parsed) ? parsed : [parsed];
+    for (const event of events) {
+      if (typeof event !== "object" || event === null) continue;
+      const e = event as Record<string, any>;
+      if (e.event_type === "trade") this.handleTrade(e);
+      else if (e.event_type === "order") this.handleOrder(e);
+    }
+  }
+
+  /**
+   * One trade can match our taker order and/or any number of our resting
+   * maker orders; each is reported as its own fill.
+   */
+  private handleTrade(event: Record<string, any>): void {
+    if (String(event.status || "").toUpperCase() === "FAILED") return;
+    const tradeId = String(event.id || "");
+    if (!tradeId) return;
+    const timestamp = parseInt(event.match_time || event.timestamp || "0", 10) * 1000 || Date.now();
+
+    const fills: IPolymarketUserFill[] = [];
+    if (event.taker_order_id) {
+      fills.push({
+        tradeId,
+        orderId: event.taker_order_id,
+        tokenId: event.asset_id,
+        shares: parseFloat(event.size || "0"),
+        price: parseFloat(event.price || "0"),
+        timestamp,
+      });
+    }
+    for (const maker of event.maker_orders || []) {
+      fills.push({
+        tradeId,
+        orderId: maker.order_id,
+        tokenId: maker.asset_id,
+        shares: parseFloat(maker.matched_amount || "0"),
+        price: parseFloat(maker.price || "0"),
+        timestamp,
+      });
+    }
+
+    for (const fill of fills) {
+      if (!fill.orderId || !(fill.shares > 0)) continue;
+      const key = `${fill.tradeId}:${fill.orderId}`;
+      if (this.seenFills.has(key)) continue;
+      this.seenFills.add(key);
+      if (this.seenFills.size > SEEN_FILL_LIMIT) {
+        this.seenFills.delete(this.seenFills.values().next().value as string);
+      }
+
+      for (const cb of this.fillCallbacks) {
+        try {
+          cb(fill);
+        } catch (err) {
+          log.error("Fill callback error", err);
+        }
+      }
+    }
+  }
+
+  private handleOrder(event: Record<string, any>): void {
+    const type = String(event.type || "").toUpperCase();
+    const order = PolymarketClient.parseOrderStatus({
+      ...event,
+      status: type === "CANCELLATION" ? "CANCELED" : event.status,
+    });
+    if (!order.orderId) return;
+
+    for (const cb of this.orderCallbacks) {
+      try {
+        cb(order);
+      } catch (err) {
+        log.error("Order callback error", err);
+      }
+    }
+  }
+}
@@ -1,6 +1,12 @@
 import WebSocket from "ws";
-import { IUnifiedOrderbook } from "../types/exchange.types";
+import {
+  IOrderbookFeed,
+  IUnifiedOrderbook,
+  BookUpdateCallback,
+  TradeTickCallback,
+} from "../types/exchange.types";
 import { logger } from "../utils/logger";
+import { wsConnected, wsReconnects } from "../utils/metrics";
 
 // ---------------------------------------------------------------------------
 // Constants
@@ -17,19 +23,11 @@ const MAX_RECONNECT_MS = 30_000;
 // PolymarketWebSocketFeed
 // ---------------------------------------------------------------------------
 
-export class PolymarketWebSocketFeed {
+export class PolymarketWebSocketFeed implements IOrderbookFeed {
   private ws: WebSocket | null = null;
   private books: Map<string, IUnifiedOrderbook> = new Map();
-  private bookCallbacks: ((
-    tokenId: string,
-    book: IUnifiedOrderbook
-  ) => void)[] = [];
-  private tradeCallbacks: ((
-    tokenId: string,
-    price: number,
-    size: number,
-    side: string
-  ) => void)[] = [];
+  private bookCallbacks: BookUpdateCallback[] = [];
+  private tradeCallbacks: TradeTickCallback[] = [];
   private subscribedTokens: string[] = [];
   private connected: boolean = false;
   private reconnectTimer: NodeJS.Timeout | null = null;
@@ -72,6 +70,7 @@ export class PolymarketWebSocketFeed {
     }
 
     this.connected = false;
+    wsConnected.set(0, { feed: "polymarket" });
     logger.info("[PolymarketWS] Disconnected");
   }
 
@@ -112,23 +111,14 @@ export class PolymarketWebSocketFeed {
   /**
    * Register a callback that fires whenever a book snapshot or update occurs.
    */
-  onBookUpdate(
-    callback: (tokenId: string, book: IUnifiedOrderbook) => void
-  ): void {
+  onBookUpdate(callback: BookUpdateCallback): void {
     this.bookCallbacks.push(callback);
   }
 
   /**
    * Register a callback that fires when a last-trade-price event arrives.
    */
-  onTrade(
-    callback: (
-      tokenId: string,
-      price: number,
-      size: number,
-      side: string
-    ) => void
-  ): void {
+  onTrade(callback: TradeTickCallback): void {
     this.tradeCallbacks.push(callback);
   }
 
@@ -178,6 +168,7 @@ export class PolymarketWebSocketFeed {
     this.ws.on("open", () => {
       this.connected = true;
       this.reconnectAttempts = 0;
+      wsConnected.set(1, { feed: "polymarket" });
       logger.success(
         `[PolymarketWS] Connected — subscribing to ${this.subscribedTokens.length} token(s)`
       );
@@ -200,6 +191,7 @@ export class PolymarketWebSocketFeed {
 
     this.ws.on("close", (code: number, reason: Buffer) => {
       this.connected = false;
+      wsConnected.set(0, { feed: "polymarket" });
       this.clearHeartbeat();
       logger.warning(
         `[PolymarketWS] Connection closed (code=${code}, reason=${reason.toString()})`
@@ -209,6 +201,7 @@ export class PolymarketWebSocketFeed {
 
     this.ws.on("error", (err: Error) => {
       this.connected = false;
+      wsConnected.set(0, { feed: "polymarket" });
       this.clearHeartbeat();
       logger.error("[PolymarketWS] WebSocket error", err);
       // The "close" event normally follows; reconnect is handled there.
@@ -263,6 +256,7 @@ export class PolymarketWebSocketFeed {
   }
 
   private reconnect(): void {
+    wsReconnects.inc({ feed: "polymarket" });
     // Ensure the old socket is fully closed before re-opening
     if (this.ws) {
       try {
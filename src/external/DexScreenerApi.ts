@@ -0,0 +1,84 @@
+import axios from "axios";
+import { logger } from "../utils/logger";
+import { RateLimiter } from "../utils/rateLimit";
+
+export interface DexScreenerPair {
+  chainId: string;
+  dexId: string;
+  pairAddress: string;
+  baseToken: { address: string; name: string; symbol: string };
+  quoteToken: { address: string; name: string; symbol: string };
+  priceUsd?: string;
+  volume?: { h24?: number };
+  priceChange?: { h1?: number };
+  liquidity?: { usd?: number };
+  fdv?: number;
+  marketCap?: number;
+  pairCreatedAt?: number; // Unix ms
+  info?: { imageUrl?: string };
+}
+
+/** Entry of the token-profiles and token-boosts feeds */
+export interface DexScreenerTokenRef {
+  chainId: string;
+  tokenAddress: string;
+  icon?: string;
+}
+
+const MAX_TOKENS_PER_REQUEST = 30;
+
+/**
+ * DexScreener public REST API (no key). Profiles and boosts are limited
+ * to 60 requests/min, pair lookups to 300/min.
+ */
+export class DexScreenerApi {
+  private baseUrl = "https://api.dexscreener.com";
+  private feedLimiter = new RateLimiter(1, 1);
+  private pairLimiter = new RateLimiter(5, 5);
+
+  /** Tokens that most recently set up a DexScreener profile */
+  async getLatestProfiles(): Promise<DexScreenerTokenRef[]> {
+    return this.getFeed("/token-profiles/latest/v1");
+  }
+
+  /** Tokens with the most active boosts (the trending surface) */
+  async getTopBoosts(): Promise<DexScreenerTokenRef[]> {
+    return this.getFeed("/token-boosts/top/v1");
+  }
+
+  async getLatestBoosts(): Promise<DexScreenerTokenRef[]> {
+    return this.getFeed("/token-boosts/latest/v1");
+  }
+
+  /**
+   * All pairs for the given token addresses on one chain, batched 30 per
+   * request. Failed batches are logged and skipped.
+   */
+  async getTokenPairs(chainId: string, addresses: string[]): Promise<DexScreenerPair[]> {
+    const pairs: DexScreenerPair[] = [];
+    for (let i = 0; i < addresses.length; i += MAX_TOKENS_PER_REQUEST) {
+      const batch = addresses.slice(i, i + MAX_TOKENS_PER_REQUEST);
+      await this.pairLimiter.acquire();
+      try {
+        const response = await axios.get(`${this.baseUrl}/tokens/v1/${chainId}/${batch.join(",")}`, {
+          timeout: 10000,
+        });
+        if (Array.isArray(response.data)) pairs.push(...response.data);
+      } catch (err) {
+        logger.error(`DexScreener pair lookup failed (${batch.length} tokens):`, err);
+      }
+    }
+    return pairs;
+  }
+
+  private async getFeed(path: string): Promise<DexScreenerTokenRef[]> {
+    await this.feedLimiter.acquire();
+    try {
+      const response = await axios.get(`${this.baseUrl}${path}`, { timeout: 10000 });
+      return Array.isArray(response.data) ? response.data : [];
+    } catch (err) {
+      logger.error(`DexScreener ${path} fetch failed:`, err);
+      return [];
+    }
+  }
+}
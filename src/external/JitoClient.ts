@@ -116,7 +116,7 @@ export class JitoClient {
    */
   async getBundleStatus(
     bundleId: string
-  ): Promise<{ status: string; signature?: string }> {
+  ): Promise<{ status: string; signature?: string; slot?: number }> {
     try {
       const response = await axios.post(
         `${this.blockEngineUrl}/api/v1/bundles`,
@@ -138,6 +138,7 @@ export class JitoClient {
         return {
           status: status.confirmation_status || "unknown",
           signature: status.transactions?.[0],
+          slot: status.slot,
         };
       }
     } catch (err) {
@@ -146,6 +147,33 @@ export class JitoClient {
     return { status: "unknown" };
   }
 
+  /**
+   * Status of a bundle submitted in the last five minutes: "Pending",
+   * "Landed", "Failed" (no leader took it, and it was not forwarded) or
+   * "Invalid" (unknown id).
+   */
+  async getInflightBundleStatus(bundleId: string): Promise<string> {
+    try {
+      const response = await axios.post(
+        `${this.blockEngineUrl}/api/v1/getInflightBundleStatuses`,
+        {
+          jsonrpc: "2.0",
+          id: 1,
+          method: "getInflightBundleStatuses",
+          params: [[bundleId]],
+        },
+        {
+          headers: { "Content-Type": "application/json" },
+          timeout: 10000,
+        }
+      );
+      return response.data?.result?.value?.[0]?.status || "unknown";
+    } catch (err) {
+      logger.error("Jito inflight status check error:", err);
+      return "unknown";
+    }
+  }
+
   /**
    * Send bundle and wait for confirmation.
    */
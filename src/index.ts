@@ -1,7 +1,9 @@
 import { PolymarketOrchestrator } from "./polymarket/PolymarketOrchestrator";
-import { logger } from "./utils/logger";
+import { setupLogging } from "./config/logging";
+import { closeLogSinks, logger } from "./utils/logger";
 
 async function main() {
+  setupLogging();
   const mode = process.env.BOT_MODE || "polymarket";
 
   if (mode === "polymarket") {
@@ -20,12 +22,14 @@ async function main() {
     process.on("SIGINT", async () => {
       logger.info("Shutting down...");
       await orchestrator.shutdown();
+      closeLogSinks();
       process.exit(0);
     });
 
     process.on("SIGTERM", async () => {
       logger.info("Received SIGTERM, shutting down...");
       await orchestrator.shutdown();
+      closeLogSinks();
       process.exit(0);
     });
   } else {
@@ -44,12 +48,14 @@ async function main() {
     process.on("SIGINT", async () => {
       logger.info("Shutting down...");
       await orchestrator.shutdown();
+      closeLogSinks();
       process.exit(0);
     });
 
     process.on("SIGTERM", async () => {
       logger.info("Received SIGTERM, shutting down...");
       await orchestrator.shutdown();
+      closeLogSinks();
       process.exit(0);
     });
   }
@@ -0,0 +1,29 @@
+import mongoose, { Schema, Document } from "mongoose";
+
+/** One mutating control-API call (see ControlApi) */
+export interface IControlAuditDoc extends Document {
+  timestamp: Date;
+  actor: string;
+  action: string;
+  params?: unknown;
+  ok: boolean;
+  detail?: string;
+  ip?: string;
+}
+
+const ControlAuditSchema: Schema = new Schema({
+  timestamp: { type: Date, required: true },
+  actor: { type: String, required: true },
+  action: { type: String, required: true },
+  params: { type: Schema.Types.Mixed },
+  ok: { type: Boolean, required: true },
+  detail: { type: String },
+  ip: { type: String },
+});
+
+ControlAuditSchema.index({ timestamp: -1 });
+
+export const ControlAuditModel = mongoose.model<IControlAuditDoc>(
+  "ControlAudit",
+  ControlAuditSchema
+);
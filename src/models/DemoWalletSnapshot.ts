@@ -0,0 +1,24 @@
+import mongoose, { Schema, Document } from "mongoose";
+import { IDemoWalletSnapshot } from "../types/exchange.types";
+
+export interface IDemoWalletSnapshotDoc extends Document {
+  session: string;
+  takenAt: Date;
+  checkpoint: boolean; // false = the session's rolling latest snapshot
+  state: IDemoWalletSnapshot;
+}
+
+const DemoWalletSnapshotSchema: Schema = new Schema({
+  session: { type: String, required: true },
+  takenAt: { type: Date, required: true },
+  checkpoint: { type: Boolean, default: false },
+  state: { type: Schema.Types.Mixed, required: true },
+});
+
+DemoWalletSnapshotSchema.index({ session: 1, takenAt: -1 });
+DemoWalletSnapshotSchema.index({ session: 1, checkpoint: 1 });
+
+export const DemoWalletSnapshotModel = mongoose.model<IDemoWalletSnapshotDoc>(
+  "DemoWalletSnapshot",
+  DemoWalletSnapshotSchema
+);
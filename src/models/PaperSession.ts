@@ -0,0 +1,28 @@
+import mongoose, { Schema, Document } from "mongoose";
+
+export interface IPaperSessionDoc extends Document {
+  name: string;
+  startingBalance: number;
+  forkedFrom?: {
+    session: string;
+    snapshotAt: Date;
+  };
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const PaperSessionSchema: Schema = new Schema({
+  name: { type: String, required: true, unique: true },
+  startingBalance: { type: Number, required: true },
+  forkedFrom: {
+    session: { type: String },
+    snapshotAt: { type: Date },
+  },
+  createdAt: { type: Date, default: Date.now },
+  updatedAt: { type: Date, default: Date.now },
+});
+
+export const PaperSessionModel = mongoose.model<IPaperSessionDoc>(
+  "PaperSession",
+  PaperSessionSchema
+);
@@ -0,0 +1,54 @@
+import mongoose, { Schema, Document } from "mongoose";
+
+/** Closed trade recorded by PerformanceTracker (mirrors IHFTTrade) */
+export interface IPerformanceTradeDoc extends Document {
+  tradeId: string;
+  strategy: string;
+  strategyId: string;
+  asset: string;
+  interval: string;
+  conditionId: string;
+  direction: "YES" | "NO";
+  tokenId: string;
+  side: "BUY" | "SELL";
+  entryPrice: number;
+  size: number;
+  shares: number;
+  pnl: number;
+  holdTimeMs: number;
+  orderId?: string;
+  openedAt: Date;
+  closedAt: Date;
+  exchange?: string;
+}
+
+const PerformanceTradeSchema: Schema = new Schema({
+  tradeId: { type: String, required: true, unique: true },
+  strategy: { type: String, required: true },
+  strategyId: { type: String, required: true },
+  asset: { type: String, required: true },
+  interval: { type: String },
+  conditionId: { type: String },
+  direction: { type: String, enum: ["YES", "NO"] },
+  tokenId: { type: String },
+  side: { type: String, enum: ["BUY", "SELL"], required: true },
+  entryPrice: { type: Number, required: true },
+  size: { type: Number, required: true },
+  shares: { type: Number, required: true },
+  pnl: { type: Number, required: true },
+  holdTimeMs: { type: Number, required: true },
+  orderId: { type: String },
+  openedAt: { type: Date, required: true },
+  closedAt: { type: Date, required: true },
+  exchange: { type: String },
+});
+
+PerformanceTradeSchema.index({ closedAt: -1 });
+PerformanceTradeSchema.index({ strategyId: 1, closedAt: -1 });
+PerformanceTradeSchema.index({ exchange: 1, closedAt: -1 });
+PerformanceTradeSchema.index({ asset: 1, closedAt: -1 });
+
+export const PerformanceTradeModel = mongoose.model<IPerformanceTradeDoc>(
+  "PerformanceTrade",
+  PerformanceTradeSchema
+);
@@ -1,4 +1,5 @@
 import mongoose, { Schema, Document } from "mongoose";
+import { PolymarketPositionStatus } from "../types/polymarket.types";
 
 export interface IPolymarketPositionDoc extends Document {
   marketId: string;
@@ -21,12 +22,24 @@ export interface IPolymarketPositionDoc extends Document {
     timestamp: Date;
   }[];
   compositeScore: number;
+  correlationId?: string;       // of the aggregated signal that opened it
   openedAt: Date;
   closedAt?: Date;
   orderId?: string;
   exitOrderId?: string;
   exitPrice?: number;
-  status: "open" | "closed" | "resolved";
+  status: PolymarketPositionStatus;
+  // Resolution bookkeeping (status "pending_resolution")
+  resolutionAttempts: number;
+  nextResolutionCheckAt?: Date;
+  lastResolutionError?: string;
+  startPrice?: number;          // underlying at window start (price feed cross-check)
+  endPrice?: number;            // underlying at window end
+  resolutionMismatch?: boolean; // market outcome disagreed with the price feed
+  // On-chain redemption of winning tokens
+  redeemTxHash?: string;
+  redeemedAt?: Date;
+  redeemAttempts: number;
 }
 
 const PolymarketPositionSchema: Schema = new Schema({
@@ -52,6 +65,7 @@ const PolymarketPositionSchema: Schema = new Schema({
     },
   ],
   compositeScore: { type: Number, required: true },
+  correlationId: { type: String },
   openedAt: { type: Date, default: Date.now },
   closedAt: { type: Date },
   orderId: { type: String },
@@ -59,9 +73,18 @@ const PolymarketPositionSchema: Schema = new Schema({
   exitPrice: { type: Number },
   status: {
     type: String,
-    enum: ["open", "closed", "resolved"],
+    enum: ["open", "pending_resolution", "closed", "resolved"],
     default: "open",
   },
+  resolutionAttempts: { type: Number, default: 0 },
+  nextResolutionCheckAt: { type: Date },
+  lastResolutionError: { type: String },
+  startPrice: { type: Number },
+  endPrice: { type: Number },
+  resolutionMismatch: { type: Boolean },
+  redeemTxHash: { type: String },
+  redeemedAt: { type: Date },
+  redeemAttempts: { type: Number, default: 0 },
 });
 
 PolymarketPositionSchema.index({ status: 1, asset: 1 });
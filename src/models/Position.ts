@@ -1,4 +1,7 @@
 import mongoose, { Schema, Document } from "mongoose";
+import { ISwapRouteRecord } from "../types/routing.types";
+import { IExitLeg, IExitState, IExitStrategy, IPendingExit } from "../types/strategy.types";
+import { ITxOutcome } from "../types/transaction.types";
 
 export interface IPosition extends Document {
   tokenAddress: string;
@@ -9,17 +12,89 @@ export interface IPosition extends Document {
     logoURI: string;
     mcap: number;
   };
-  amount: number;
+  amount: number;            // still held; reduced by partial exits
   avgBuyPrice: number;
   openTimestamp: Date;
   closeTimestamp?: Date;
-  status: "open" | "closed";
+  status: "pending" | "open" | "closed" | "failed"; // pending: buy outcome unknown; failed: buy never landed
   realizedPnl?: number;
   lastPrice?: number;
   signature?: string[];
   totalBuyAmount?: number;
+  correlationId?: string; // of the aggregated signal that opened it
+  routes?: ISwapRouteRecord[]; // swap route chosen for each buy/sell
+  txOutcomes?: ITxOutcome[];   // how each buy/sell transaction landed (or did not)
+  exitStrategy?: IExitStrategy; // set at open; older positions use ExitEngine defaults
+  exitState?: IExitState;
+  exitLegs?: IExitLeg[];
+  pendingExit?: IPendingExit; // sell sent with an unknown outcome; no new sell until it settles
 }
 
+const SwapRouteRecordSchema = new Schema(
+  {
+    side: { type: String, enum: ["buy", "sell"], required: true },
+    route: { type: String, required: true },
+    label: { type: String },
+    inAmount: { type: String, required: true },
+    outAmount: { type: String, required: true },
+    minOutAmount: { type: String, required: true },
+    slippageBps: { type: Number, required: true },
+    priceImpactPct: { type: Number, required: true },
+    signature: { type: String, required: true },
+    candidates: { type: [Schema.Types.Mixed], default: [] },
+    timestamp: { type: Date, required: true },
+  },
+  { _id: false }
+);
+
+const TxOutcomeSchema = new Schema(
+  {
+    side: { type: String, enum: ["buy", "sell"], required: true },
+    status: { type: String, enum: ["landed", "failed", "expired", "unknown"], required: true },
+    signature: { type: String },
+    slot: { type: Number },
+    commitment: { type: String, required: true },
+    attempts: { type: [Schema.Types.Mixed], default: [] },
+    latencyMs: { type: Number, required: true },
+    error: { type: String },
+    timestamp: { type: Date, required: true },
+  },
+  { _id: false }
+);
+
+const ExitStrategySchema = new Schema(
+  {
+    takeProfitPct: { type: Number, required: true },
+    stopLossPct: { type: Number, required: true },
+    trailingStopPct: { type: Number },
+    trailingStopActivatedAt: { type: Number },
+    timeoutMinutes: { type: Number },
+    partialTakeProfits: {
+      type: [new Schema({ pnlPct: Number, fraction: Number }, { _id: false })],
+      default: undefined,
+    },
+    breakEvenAtPct: { type: Number },
+  },
+  { _id: false }
+);
+
+const ExitLegSchema = new Schema(
+  {
+    reason: {
+      type: String,
+      enum: ["take_profit", "stop_loss", "break_even", "trailing_stop", "timeout", "signal"],
+      required: true,
+    },
+    level: { type: Number },
+    amount: { type: Number, required: true },
+    price: { type: Number, required: true },
+    pnlPct: { type: Number, required: true },
+    signature: { type: String, required: true },
+    timestamp: { type: Date, required: true },
+  },
+  { _id: false }
+);
+
 const PositionSchema: Schema = new Schema({
   tokenAddress: { type: String, required: true },
   tokenInfo: {
@@ -33,11 +108,25 @@ const PositionSchema: Schema = new Schema({
   avgBuyPrice: { type: Number, required: true },
   openTimestamp: { type: Date, required: true },
   closeTimestamp: { type: Date },
-  status: { type: String, enum: ["open", "closed"], required: true },
+  status: { type: String, enum: ["pending", "open", "closed", "failed"], required: true },
   realizedPnl: { type: Number },
   lastPrice: { type: Number },
   signature: { type: [String] },
   totalBuyAmount: { type: Number },
+  correlationId: { type: String },
+  routes: { type: [SwapRouteRecordSchema], default: undefined },
+  txOutcomes: { type: [TxOutcomeSchema], default: undefined },
+  exitStrategy: { type: ExitStrategySchema },
+  exitState: {
+    type: new Schema(
+      { highWaterPrice: Number, breakEvenArmed: Boolean, trailingActive: Boolean },
+      { _id: false }
+    ),
+  },
+  exitLegs: { type: [ExitLegSchema], default: undefined },
+  pendingExit: {
+    type: new Schema({ leg: { type: ExitLegSchema, required: true }, final: Boolean }, { _id: false }),
+  },
 });
 
 export const Position = mongoose.model<IPosition>("Position", PositionSchema);
@@ -224,3 +224,93 @@ export const DEFAULT_STRATEGY_CONFIGS: Omit<
     consecutiveFailures: 0,
   },
 ];
+
+export const DEFAULT_POLYMARKET_STRATEGY_CONFIGS: Omit<
+  IStrategyConfigDoc,
+  keyof Document
+>[] = [
+  {
+    strategyId: "poly-probability-edge",
+    name: "Probability Edge Detector",
+    category: "signal",
+    tier: "normal",
+    enabled: true,
+    weight: 0.25,
+    intervalMs: 30000,
+    params: { minEdge: 0.08 },
+    circuitBreakerThreshold: 5,
+    consecutiveFailures: 0,
+  },
+  {
+    strategyId: "poly-momentum-scalper",
+    name: "Momentum Scalper",
+    category: "signal",
+    tier: "fast",
+    enabled: true,
+    weight: 0.2,
+    intervalMs: 10000,
+    params: {},
+    circuitBreakerThreshold: 5,
+    consecutiveFailures: 0,
+  },
+  {
+    strategyId: "poly-macd-momentum",
+    name: "MACD & RSI Momentum",
+    category: "signal",
+    tier: "normal",
+    enabled: true,
+    weight: 0.15,
+    intervalMs: 30000,
+    params: {},
+    circuitBreakerThreshold: 5,
+    consecutiveFailures: 0,
+  },
+  {
+    strategyId: "poly-volume-breakout",
+    name: "Volume Surge Breakout",
+    category: "signal",
+    tier: "normal",
+    enabled: true,
+    weight: 0.1,
+    intervalMs: 30000,
+    params: { spikeMultiplier: 3, priceChangeThreshold: 0.001 },
+    circuitBreakerThreshold: 5,
+    consecutiveFailures: 0,
+  },
+  {
+    strategyId: "poly-mean-reversion-bb",
+    name: "BB Mean Reversion",
+    category: "signal",
+    tier: "normal",
+    enabled: true,
+    weight: 0.1,
+    intervalMs: 60000,
+    params: { bbPeriod: 20, bbStdDev: 2, adxThreshold: 25 },
+    circuitBreakerThreshold: 5,
+    consecutiveFailures: 0,
+  },
+  {
+    strategyId: "poly-volatility-regime",
+    name: "Volatility Regime",
+    category: "signal",
+    tier: "slow",
+    enabled: true,
+    weight: 0.1,
+    intervalMs: 120000,
+    params: {},
+    circuitBreakerThreshold: 5,
+    consecutiveFailures: 0,
+  },
+  {
+    strategyId: "poly-order-flow",
+    name: "Order Flow Analysis",
+    category: "signal",
+    tier: "fast",
+    enabled: true,
+    weight: 0.1,
+    intervalMs: 15000,
+    params: { imbalanceThreshold: 0.15 },
+    circuitBreakerThreshold: 5,
+    consecutiveFailures: 0,
+  },
+];
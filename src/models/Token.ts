@@ -14,6 +14,9 @@ export interface IToken extends Document {
   mcap?: number;
   liquidity?: number;
   createdAt?: Date;
+  poolAddress?: string;
+  sources: string[];      // discovery sources that reported it (TokenSourceId)
+  discoveredAt?: Date;    // first time any source reported it
 }
 
 const TokenSchema: Schema = new Schema({
@@ -30,6 +33,9 @@ const TokenSchema: Schema = new Schema({
   mcap: { type: Number },
   liquidity: { type: Number },
   createdAt: { type: Date },
+  poolAddress: { type: String },
+  sources: { type: [String], default: [] },
+  discoveredAt: { type: Date },
 });
 
 export const Token = mongoose.model<IToken>("Token", TokenSchema);
@@ -0,0 +1,256 @@
+import { PolymarketClient } from "./PolymarketClient";
+import { PolymarketRiskManager } from "./PolymarketRiskManager";
+import { PolymarketPositionManager } from "./PolymarketPositionManager";
+import { HFTTickEngine } from "./HFTTickEngine";
+import { MultiExchangeTickEngine } from "../exchange/MultiExchangeTickEngine";
+import { HyperliquidClient } from "../exchange/HyperliquidClient";
+import { DemoWallet } from "../exchange/DemoWallet";
+import { IStrategy } from "../strategies/IStrategy";
+import { IExecutionVenue } from "../types/exchange.types";
+import {
+  IBotControl,
+  IControlStatus,
+  IControlStrategyState,
+  IControlKillSwitchState,
+  IControlRiskLimits,
+  IControlRiskLimitsPatch,
+  IControlOpenOrder,
+  IFlattenResult,
+} from "../types/control.types";
+import { logger } from "../utils/logger";
+
+const log = logger.child("Control");
+
+export interface BotControllerDeps {
+  client: PolymarketClient;
+  hyperliquidClient: HyperliquidClient;
+  riskManager: PolymarketRiskManager;
+  positionManager: PolymarketPositionManager;
+  hftEngine: HFTTickEngine;
+  multiExchangeEngine: MultiExchangeTickEngine;
+  demoWallet: DemoWallet;
+  execution: IExecutionVenue;
+  signalStrategies: Map<string, IStrategy>;
+}
+
+/**
+ * Runtime control over all three trading loops (cron signal strategies,
+ * HFT tick engine, multi-exchange engine).
+ *
+ * Pause stops new entries everywhere while exits, stops and settlement
+ * keep running. The kill switch pauses, cancels open orders and flattens
+ * every position; it stays active until reset, and a reset leaves the bot
+ * paused so resuming is a separate, deliberate step.
+ */
+export class BotController implements IBotControl {
+  private deps: BotControllerDeps;
+  private paused = false;
+  private disabledSignalStrategies: Set<string> = new Set();
+  private killSwitch: IControlKillSwitchState = { active: false };
+
+  constructor(deps: BotControllerDeps) {
+    this.deps = deps;
+  }
+
+  // ==================== QUERIES (used by the orchestrator's cron loops) ====================
+
+  isPaused(): boolean {
+    return this.paused;
+  }
+
+  isSignalStrategyEnabled(strategyId: string): boolean {
+    return !this.disabledSignalStrategies.has(strategyId);
+  }
+
+  // ==================== IBotControl ====================
+
+  getStatus(): IControlStatus {
+    const { demoWallet, execution } = this.deps;
+    return {
+      paused: this.paused,
+      killSwitch: { ...this.killSwitch },
+      executionMode: execution.mode,
+      equity: demoWallet.getEquity(),
+      balance: demoWallet.getBalance(),
+      openPositions: demoWallet.getPositionCount(),
+      strategies: this.getStrategyStates(),
+      timestamp: Date.now(),
+    };
+  }
+
+  pause(): void {
+    this.setPaused(true);
+  }
+
+  resume(): void {
+    if (this.killSwitch.active) {
+      throw new Error("Kill switch is active — reset it before resuming");
+    }
+    this.setPaused(false);
+  }
+
+  setStrategyEnabled(strategyId: string, enabled: boolean): IControlStrategyState {
+    const { hftEngine, multiExchangeEngine, signalStrategies } = this.deps;
+
+    if (signalStrategies.has(strategyId)) {
+      if (enabled) this.disabledSignalStrategies.delete(strategyId);
+      else this.disabledSignalStrategies.add(strategyId);
+      log.warning(`Signal strategy ${strategyId} ${enabled ? "enabled" : "disabled"}`);
+      return { id: strategyId, engine: "signal", enabled };
+    }
+    if (hftEngine.setStrategyEnabled(strategyId, enabled)) {
+      return { id: strategyId, engine: "hft", enabled };
+    }
+    if (multiExchangeEngine.setStrategyEnabled(strategyId, enabled)) {
+      return { id: strategyId, engine: "multi_exchange", enabled };
+    }
+    throw new Error(`Unknown strategy: ${strategyId}`);
+  }
+
+  async flatten(reason: string): Promise<IFlattenResult> {
+    const { hftEngine, multiExchangeEngine, positionManager } = this.deps;
+
+    const ordersCancelled = await hftEngine.cancelAllOrders();
+    const engine = multiExchangeEngine.flattenAll(reason);
+
+    let polymarketPositionsClosed = 0;
+    for (const pos of await positionManager.getOpenPositions()) {
+      try {
+        await positionManager.closePosition(pos.id);
+        polymarketPositionsClosed++;
+      } catch (err) {
+        log.error(`Failed to close Polymarket position ${pos.id}:`, err);
+      }
+    }
+
+    log.warning(
+      `Flattened (${reason}) | engine: ${engine.closed} ($${engine.pnl.toFixed(2)}) | ` +
+      `polymarket: ${polymarketPositionsClosed} | orders cancelled: ${ordersCancelled}`
+    );
+    return {
+      enginePositionsClosed: engine.closed,
+      enginePnl: engine.pnl,
+      polymarketPositionsClosed,
+      ordersCancelled,
+    };
+  }
+
+  async triggerKillSwitch(reason: string): Promise<IFlattenResult> {
+    this.killSwitch = { active: true, reason, triggeredAt: Date.now() };
+    this.setPaused(true);
+    this.deps.hftEngine.getRiskManager().haltUntilCleared();
+    log.warning(`Kill switch triggered: ${reason}`);
+    return this.flatten(`kill_switch: ${reason}`);
+  }
+
+  resetKillSwitch(): void {
+    if (!this.killSwitch.active) return;
+    this.killSwitch = { active: false };
+    this.deps.hftEngine.getRiskManager().clearKillSwitch();
+    log.info("Kill switch reset — bot stays paused until resumed");
+  }
+
+  getRiskLimits(): IControlRiskLimits {
+    return {
+      hft: this.deps.hftEngine.getRiskManager().getLimits(),
+      polymarket: this.deps.riskManager.getLimits(),
+    };
+  }
+
+  /** All values are validated before any limit changes */
+  updateRiskLimits(patch: IControlRiskLimitsPatch): IControlRiskLimits {
+    const current = this.getRiskLimits();
+    const { minEdge, ...hftRest } = patch.hft || {};
+    validateLimits("hft", hftRest, current.hft);
+    if (minEdge !== undefined) validateLimits("hft.minEdge", minEdge, current.hft.minEdge);
+    validateLimits("polymarket", patch.polymarket || {}, current.polymarket);
+
+    if (patch.hft) this.deps.hftEngine.getRiskManager().updateLimits(patch.hft);
+    if (patch.polymarket) this.deps.riskManager.updateLimits(patch.polymarket);
+    return this.getRiskLimits();
+  }
+
+  async getOpenOrders(): Promise<IControlOpenOrder[]> {
+    const { hftEngine, client, hyperliquidClient } = this.deps;
+
+    const orders: IControlOpenOrder[] = hftEngine.getOpenOrders().map((o) => ({
+      venue: "hft",
+      orderId: o.orderId,
+      symbol: o.tokenId,
+      side: o.side,
+      price: o.price,
+      size: o.size,
+      placedAt: o.placedAt,
+      strategyId: o.strategyId,
+    }));
+
+    // Exchange-side orders, including any the bot no longer tracks
+    const tracked = new Set(orders.map((o) => o.orderId));
+    for (const o of await client.getOpenOrders()) {
+      if (tracked.has(o.id)) continue;
+      orders.push({
+        venue: "polymarket",
+        orderId: o.id,
+        symbol: o.asset_id,
+        side: o.side,
+        price: parseFloat(o.price),
+        size: parseFloat(o.original_size) - parseFloat(o.size_matched || "0"),
+        placedAt: o.created_at ? o.created_at * 1000 : undefined,
+      });
+    }
+
+    if (hyperliquidClient.canTrade()) {
+      for (const o of await hyperliquidClient.getOpenOrders()) {
+        orders.push({
+          venue: "hyperliquid",
+          orderId: String(o.oid),
+          symbol: o.coin,
+          side: o.side === "B" ? "BUY" : "SELL",
+          price: parseFloat(o.limitPx),
+          size: parseFloat(o.sz),
+          placedAt: o.timestamp,
+        });
+      }
+    }
+
+    return orders;
+  }
+
+  // ==================== INTERNALS ====================
+
+  private setPaused(paused: boolean): void {
+    this.paused = paused;
+    this.deps.hftEngine.setPaused(paused);
+    this.deps.multiExchangeEngine.setPaused(paused);
+    log.warning(`Bot ${paused ? "PAUSED" : "RESUMED"}`);
+  }
+
+  private getStrategyStates(): IControlStrategyState[] {
+    const { hftEngine, multiExchangeEngine, signalStrategies } = this.deps;
+    return [
+      ...[...signalStrategies.keys()].map((id) => ({
+        id,
+        engine: "signal" as const,
+        enabled: this.isSignalStrategyEnabled(id),
+      })),
+      ...hftEngine.getStrategyStates().map((s) => ({ id: s.id, engine: "hft" as const, enabled: s.enabled })),
+      ...multiExchangeEngine.getStrategyStates().map((s) => ({
+        id: s.id,
+        engine: "multi_exchange" as const,
+        enabled: s.enabled,
+      })),
+    ];
+  }
+}
+
+/** Only known keys, each a finite non-negative number */
+function validateLimits(scope: string, patch: object, current: object): void {
+  for (const [key, value] of Object.entries(patch)) {
+    if (!(key in current)) {
+      throw new Error(`Unknown ${scope} limit: ${key}`);
+    }
+    if (typeof value !== "number" || !Number.isFinite(value) || value < 0) {
+      throw new Error(`Invalid ${scope}.${key}: expected a non-negative number`);
+    }
+  }
+}
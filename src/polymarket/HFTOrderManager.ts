@@ -2,27 +2,61 @@ import {
   IArbOpportunity,
   ITrackedOrder,
   IHFTTrade,
-  HFTStrategyType,
+  IOrderLifecycleEvent,
+  OrderFillSource,
+  OrderLifecycleCallback,
 } from "../types/hft.types";
+import {
+  IPolymarketOrderResponse,
+  IPolymarketOrderStatus,
+  IPolymarketUserFill,
+} from "../types/polymarket.types";
 import { PolymarketClient } from "./PolymarketClient";
 import { HFTRiskManager } from "./HFTRiskManager";
 import { PerformanceTracker } from "./PerformanceTracker";
+import { PolymarketUserFeed } from "../exchange/PolymarketUserFeed";
 import { logger } from "../utils/logger";
 
+const log = logger.child("HFT");
+
+const FILL_POLL_INTERVAL_MS = 5_000;
+const RECONCILE_INTERVAL_MS = 30_000; // poll cadence while the user feed is up
+const CLOSED_RETENTION_MS = 60_000; // late fills for cancelled orders still count
+const SHARE_EPSILON = 1e-6;
+
+/** A user-feed event for an order id not registered (yet) */
+type PendingOrderEvent = { fill: IPolymarketUserFill } | { status: IPolymarketOrderStatus };
+
 /**
  * Fast order lifecycle management for HFT.
  * - Places orders (FOK for arb, GTC for market making)
  * - Tracks open orders
  * - Handles fills and cancellations
  * - Prevents duplicate orders
+ *
+ * Resting GTC fills arrive from the Polymarket user channel; open orders
+ * are also polled, every few seconds while it is down and more slowly
+ * while it is up. Trade events add up per order, while order statuses
+ * (placement, UPDATE events, polls) report the matched total; an order is
+ * booked up to the larger of the two, so every fill increment is booked
+ * exactly once into inventory, risk and performance tracking. Events for
+ * an order that is still being placed are held until it is registered.
  */
 export class HFTOrderManager {
   private client: PolymarketClient;
   private riskManager: HFTRiskManager;
   private perfTracker: PerformanceTracker;
   private openOrders: Map<string, ITrackedOrder> = new Map();
+  private closedOrders: Map<string, { order: ITrackedOrder; closedAt: number }> = new Map();
   private recentOpportunityKeys: Set<string> = new Set();
   private dedupWindowMs: number = 2000; // Don't resubmit same opportunity within 2s
+  private eventCallbacks: OrderLifecycleCallback[] = [];
+  private userFeed: PolymarketUserFeed | null = null;
+  private pollHandle: NodeJS.Timeout | null = null;
+  private polling: boolean = false;
+  private lastPollAt: number = 0;
+  private fillProgress: Map<string, { streamed: number; reported: number }> = new Map();
+  private pendingEvents: Map<string, { events: PendingOrderEvent[]; receivedAt: number }> = new Map();
 
   constructor(
     client: PolymarketClient,
@@ -55,8 +89,8 @@ export class HFTOrderManager {
       this.perfTracker.recordTrade(simulatedTrade);
       this.riskManager.recordTrade(simulatedTrade);
 
-      logger.info(
-        `[HFT DRY] ${opp.type} ${opp.side} ${opp.asset} @ ${opp.price.toFixed(3)} | $${opp.size.toFixed(2)} | edge: ${(opp.edge * 100).toFixed(2)}% | profit: $${opp.expectedProfit.toFixed(3)}`
+      log.info(
+        `DRY ${opp.type} ${opp.side} ${opp.asset} @ ${opp.price.toFixed(3)} | $${opp.size.toFixed(2)} | edge: ${(opp.edge * 100).toFixed(2)}% | profit: $${opp.expectedProfit.toFixed(3)}`
       );
       return simulatedTrade;
     }
@@ -84,21 +118,31 @@ export class HFTOrderManager {
         const trade = this.createTradeRecord(opp, shares, startTime, opp.price);
         trade.orderId = result.orderID;
 
-        // Track open order if GTC (passive)
+        // Track open order if GTC (passive) — fills are booked as they arrive
         if (opp.orderType === "GTC" && result.orderID) {
-          this.openOrders.set(result.orderID, {
+          const order: ITrackedOrder = {
             orderId: result.orderID,
             strategyId: opp.strategyId,
+            strategy: opp.type,
+            asset: opp.asset,
+            interval: opp.interval,
+            conditionId: opp.conditionId,
+            direction: opp.direction,
             tokenId: opp.tokenId,
             side: opp.side,
             price: opp.price,
             size: opp.size,
+            shares,
+            filledShares: 0,
+            expectedProfit: opp.expectedProfit,
             orderType: opp.orderType,
+            status: "open",
             placedAt: startTime,
             filled: false,
             cancelled: false,
             fillLatencyMs: fillLatency,
-          });
+          };
+          this.registerOrder(order, result);
         } else {
           // FOK orders are immediately filled or dead
           this.perfTracker.recordTrade(trade);
@@ -114,17 +158,17 @@ export class HFTOrderManager {
 
         this.riskManager.setOpenOrderCount(this.openOrders.size);
 
-        logger.success(
-          `[HFT] ${opp.type} ${opp.side} ${opp.asset} @ ${opp.price.toFixed(3)} | $${opp.size.toFixed(2)} | edge: ${(opp.edge * 100).toFixed(2)}% | latency: ${fillLatency}ms`
+        log.success(
+          `${opp.type} ${opp.side} ${opp.asset} @ ${opp.price.toFixed(3)} | $${opp.size.toFixed(2)} | edge: ${(opp.edge * 100).toFixed(2)}% | latency: ${fillLatency}ms`
         );
 
         return trade;
       } else {
-        logger.warning(`[HFT] Order failed: ${result.errorMsg}`);
+        log.warning(`Order failed: ${result.errorMsg}`);
         return null;
       }
     } catch (err) {
-      logger.error("[HFT] Execution error:", err);
+      log.error("Execution error:", err);
       return null;
     }
   }
@@ -137,26 +181,28 @@ export class HFTOrderManager {
     if (!order) return false;
 
     const success = await this.client.cancelOrder(orderId);
-    if (success) {
-      order.cancelled = true;
-      this.openOrders.delete(orderId);
-      this.riskManager.setOpenOrderCount(this.openOrders.size);
-    }
+    if (success) this.markCancelled(order, "cancel");
     return success;
   }
 
   /**
-   * Cancel all open orders.
+   * Cancel all open orders. Orders the exchange refuses to cancel (e.g.
+   * already matched) stay tracked so their fills are still booked.
    */
   async cancelAllOrders(): Promise<number> {
-    let cancelled = 0;
-    for (const [orderId] of this.openOrders) {
-      const success = await this.client.cancelOrder(orderId);
-      if (success) cancelled++;
+    const orders = Array.from(this.openOrders.values());
+    const { canceled, notCanceled } = await this.client.cancelOrders(orders.map((o) => o.orderId));
+    const cancelledIds = new Set(canceled);
+    for (const order of orders) {
+      if (cancelledIds.has(order.orderId) && this.openOrders.has(order.orderId)) {
+        this.markCancelled(order, "cancel");
+      }
     }
-    this.openOrders.clear();
-    this.riskManager.setOpenOrderCount(0);
-    return cancelled;
+    for (const [orderId, reason] of Object.entries(notCanceled)) {
+      log.warning(`Order ${orderId} not cancelled: ${reason}`);
+    }
+    this.riskManager.setOpenOrderCount(this.openOrders.size);
+    return canceled.length;
   }
 
   /**
@@ -169,7 +215,7 @@ export class HFTOrderManager {
       if (now - order.placedAt > maxAgeMs) {
         const success = await this.client.cancelOrder(orderId);
         if (success) {
-          this.openOrders.delete(orderId);
+          this.markCancelled(order, "cancel");
           cancelled++;
         }
       }
@@ -187,7 +233,7 @@ export class HFTOrderManager {
       if (Math.abs(order.price - currentMid) > maxDrift) {
         const success = await this.client.cancelOrder(orderId);
         if (success) {
-          this.openOrders.delete(orderId);
+          this.markCancelled(order, "cancel");
           cancelled++;
         }
       }
@@ -204,6 +250,265 @@ export class HFTOrderManager {
     return Array.from(this.openOrders.values());
   }
 
+  /** True while a resting order is still awaiting (full) fill */
+  isTracking(orderId: string): boolean {
+    return this.openOrders.has(orderId);
+  }
+
+  /**
+   * Register a callback for placed / partially_filled / filled / cancelled.
+   */
+  onOrderEvent(callback: OrderLifecycleCallback): void {
+    this.eventCallbacks.push(callback);
+  }
+
+  // ==================== FILL TRACKING ====================
+
+  /**
+   * Start ingesting fills from the user feed when given, with a CLOB poll
+   * that speeds up while the feed is disconnected.
+   */
+  startFillTracking(
+    userFeed: PolymarketUserFeed | null,
+    pollIntervalMs: number = FILL_POLL_INTERVAL_MS
+  ): void {
+    this.stopFillTracking();
+    this.userFeed = userFeed;
+
+    if (userFeed) {
+      userFeed.onFill((fill) => this.onStreamFill(fill));
+      userFeed.onOrder((status) => this.onStreamStatus(status));
+    }
+
+    this.pollHandle = setInterval(() => {
+      // The feed carries fills while it is up; a slower poll still catches what it missed
+      const interval = this.userFeed?.isConnected() ? RECONCILE_INTERVAL_MS : pollIntervalMs;
+      if (Date.now() - this.lastPollAt < interval) return;
+      this.pollFills().catch((err) => log.error("Fill poll error:", err));
+    }, pollIntervalMs);
+  }
+
+  stopFillTracking(): void {
+    if (this.pollHandle) {
+      clearInterval(this.pollHandle);
+      this.pollHandle = null;
+    }
+  }
+
+  /**
+   * Reconcile tracked orders against the CLOB. Orders no longer listed as
+   * open are looked up individually to tell fills from cancellations.
+   */
+  async pollFills(): Promise<void> {
+    if (this.polling || this.openOrders.size === 0) return;
+    this.polling = true;
+    this.lastPollAt = Date.now();
+
+    try {
+      const listed = new Map<string, IPolymarketOrderStatus>();
+      for (const raw of await this.client.getOpenOrders()) {
+        const status = PolymarketClient.parseOrderStatus(raw);
+        listed.set(status.orderId, status);
+      }
+
+      for (const order of Array.from(this.openOrders.values())) {
+        const status = listed.get(order.orderId) ?? (await this.client.getOrder(order.orderId));
+        if (status) this.reconcileOrder(order, status, "poll");
+      }
+      this.pruneClosedOrders();
+    } finally {
+      this.polling = false;
+    }
+  }
+
+  /**
+   * Start tracking a placed GTC order: book what matched on placement,
+   * then replay any feed events that arrived before the order id was known.
+   */
+  private registerOrder(order: ITrackedOrder, result: IPolymarketOrderResponse): void {
+    this.openOrders.set(order.orderId, order);
+    this.emit("placed", order, "placement");
+
+    if (result.status === "matched" || (result.sizeMatched ?? 0) > 0) {
+      this.reconcileOrder(
+        order,
+        {
+          orderId: order.orderId,
+          tokenId: order.tokenId,
+          status: result.status === "matched" ? "matched" : "live",
+          originalSize: order.shares,
+          sizeMatched: result.sizeMatched ?? 0,
+          price: order.price,
+        },
+        "placement"
+      );
+    }
+
+    const pending = this.pendingEvents.get(order.orderId);
+    this.pendingEvents.delete(order.orderId);
+    for (const event of pending?.events || []) {
+      if ("fill" in event) this.onStreamFill(event.fill);
+      else this.onStreamStatus(event.status);
+    }
+  }
+
+  private onStreamFill(fill: IPolymarketUserFill): void {
+    const order = this.findOrder(fill.orderId);
+    if (!order) return this.holdEvent(fill.orderId, { fill });
+    this.progressOf(order).streamed += fill.shares;
+    this.bookProgress(order, fill.price, "websocket");
+  }
+
+  private onStreamStatus(status: IPolymarketOrderStatus): void {
+    const order = this.findOrder(status.orderId);
+    if (!order) return this.holdEvent(status.orderId, { status });
+    this.reconcileOrder(order, status, "websocket");
+  }
+
+  /** Feed events can beat the placement response; keep them for a while */
+  private holdEvent(orderId: string, event: PendingOrderEvent): void {
+    const entry = this.pendingEvents.get(orderId) ?? { events: [], receivedAt: Date.now() };
+    entry.events.push(event);
+    this.pendingEvents.set(orderId, entry);
+    this.pruneClosedOrders();
+  }
+
+  /** Book any fills beyond what is already recorded, then close out */
+  private reconcileOrder(
+    order: ITrackedOrder,
+    status: IPolymarketOrderStatus,
+    source: OrderFillSource
+  ): void {
+    const matched =
+      status.status === "matched" ? Math.max(status.sizeMatched, order.shares) : status.sizeMatched;
+    const progress = this.progressOf(order);
+    progress.reported = Math.max(progress.reported, matched);
+    this.bookProgress(order, status.price || order.price, source);
+    if (status.status === "cancelled" && this.openOrders.has(order.orderId)) {
+      this.markCancelled(order, source);
+    }
+  }
+
+  private progressOf(order: ITrackedOrder): { streamed: number; reported: number } {
+    let progress = this.fillProgress.get(order.orderId);
+    if (!progress) {
+      progress = { streamed: 0, reported: 0 };
+      this.fillProgress.set(order.orderId, progress);
+    }
+    return progress;
+  }
+
+  /** Fill the order up to the larger of the streamed and reported totals */
+  private bookProgress(order: ITrackedOrder, price: number, source: OrderFillSource): void {
+    const { streamed, reported } = this.progressOf(order);
+    const target = Math.max(streamed, reported);
+    if (target > order.filledShares + SHARE_EPSILON) {
+      this.applyFill(order, target - order.filledShares, price, source);
+    }
+  }
+
+  /**
+   * Book a fill increment. Increments are capped at the order's remaining
+   * shares so a fill seen by both the feed and a poll can't overfill it.
+   */
+  private applyFill(order: ITrackedOrder, shares: number, price: number, source: OrderFillSource): void {
+    const increment = Math.min(shares, order.shares - order.filledShares);
+    if (increment <= SHARE_EPSILON) return;
+
+    const prevFilled = order.filledShares;
+    order.filledShares += increment;
+    order.fillPrice = ((order.fillPrice ?? 0) * prevFilled + price * increment) / order.filledShares;
+
+    const trade = this.createFillRecord(order, increment, price);
+    this.perfTracker.recordTrade(trade);
+    this.riskManager.recordTrade(trade);
+    this.riskManager.updateInventory(order.asset, order.direction, order.side, increment, price);
+
+    const complete = order.shares - order.filledShares <= SHARE_EPSILON;
+    if (complete) {
+      order.filled = true;
+      if (!order.cancelled) order.status = "filled";
+      this.openOrders.delete(order.orderId);
+      this.closedOrders.delete(order.orderId);
+      this.fillProgress.delete(order.orderId);
+      this.riskManager.setOpenOrderCount(this.openOrders.size);
+    } else if (!order.cancelled) {
+      order.status = "partially_filled";
+    }
+
+    log.success(
+      `Fill ${order.side} ${order.asset} ${order.direction} ${increment.toFixed(2)} @ ${price.toFixed(3)} | ` +
+      `${order.filledShares.toFixed(2)}/${order.shares.toFixed(2)} shares (${source})`
+    );
+    this.emit(complete ? "filled" : "partially_filled", order, source, trade);
+  }
+
+  private markCancelled(order: ITrackedOrder, source: IOrderLifecycleEvent["source"]): void {
+    order.cancelled = true;
+    order.status = "cancelled";
+    this.openOrders.delete(order.orderId);
+    this.closedOrders.set(order.orderId, { order, closedAt: Date.now() });
+    this.riskManager.setOpenOrderCount(this.openOrders.size);
+    this.pruneClosedOrders();
+    this.emit("cancelled", order, source);
+  }
+
+  private findOrder(orderId: string): ITrackedOrder | undefined {
+    return this.openOrders.get(orderId) ?? this.closedOrders.get(orderId)?.order;
+  }
+
+  private pruneClosedOrders(): void {
+    const cutoff = Date.now() - CLOSED_RETENTION_MS;
+    for (const [orderId, entry] of this.closedOrders) {
+      if (entry.closedAt < cutoff) {
+        this.closedOrders.delete(orderId);
+        this.fillProgress.delete(orderId);
+      }
+    }
+    for (const [orderId, entry] of this.pendingEvents) {
+      if (entry.receivedAt < cutoff) this.pendingEvents.delete(orderId);
+    }
+  }
+
+  private emit(
+    type: IOrderLifecycleEvent["type"],
+    order: ITrackedOrder,
+    source: IOrderLifecycleEvent["source"],
+    fill?: IHFTTrade
+  ): void {
+    const event: IOrderLifecycleEvent = { type, order: { ...order }, fill, source, timestamp: Date.now() };
+    for (const cb of this.eventCallbacks) {
+      try {
+        cb(event);
+      } catch (err) {
+        log.error("Order event callback error:", err);
+      }
+    }
+  }
+
+  /** Trade record for one fill increment; expected profit is pro-rated */
+  private createFillRecord(order: ITrackedOrder, shares: number, price: number): IHFTTrade {
+    return {
+      id: `hft-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+      strategy: order.strategy,
+      strategyId: order.strategyId,
+      asset: order.asset,
+      interval: order.interval,
+      conditionId: order.conditionId,
+      direction: order.direction,
+      tokenId: order.tokenId,
+      side: order.side,
+      entryPrice: price,
+      size: shares * price,
+      shares,
+      pnl: order.shares > 0 ? order.expectedProfit * (shares / order.shares) : 0,
+      holdTimeMs: Date.now() - order.placedAt,
+      orderId: order.orderId,
+      openedAt: order.placedAt,
+      closedAt: Date.now(),
+    };
+  }
+
   private createTradeRecord(
     opp: IArbOpportunity,
     shares: number,
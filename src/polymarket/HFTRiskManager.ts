@@ -7,7 +7,11 @@ import {
   HFTStrategyType,
 } from "../types/hft.types";
 import { PolymarketAsset } from "../types/polymarket.types";
+import { binaryEdge } from "../quant/pricing/BinaryOptionPricer";
 import { logger } from "../utils/logger";
+import { riskDenials } from "../utils/metrics";
+
+const log = logger.child("HFTRisk");
 
 const DEFAULT_HFT_LIMITS: IHFTRiskLimits = {
   maxInventoryPerAsset: 100,
@@ -62,58 +66,87 @@ export class HFTRiskManager {
     // 1. Kill switch active?
     if (now < this.killSwitchUntil) {
       const remaining = ((this.killSwitchUntil - now) / 1000).toFixed(0);
-      return this.deny(`Kill switch active (${remaining}s remaining)`);
+      return this.deny("kill_switch", `Kill switch active (${remaining}s remaining)`);
     }
 
     // 2. Minimum edge check
     const minEdge = this.limits.minEdge[opportunity.type];
     if (opportunity.edge < minEdge) {
       return this.deny(
+        "min_edge",
         `Edge ${(opportunity.edge * 100).toFixed(2)}% < min ${(minEdge * 100).toFixed(2)}%`
       );
     }
 
-    // 3. Time to resolution
+    // 3. Fair value: a directional buy must still pay at the low end of
+    // the model's interval, whatever edge the strategy reported
+    if (opportunity.fairValue && opportunity.side === "BUY") {
+      const fair = opportunity.fairValue;
+      const { conservative } = binaryEdge(fair, opportunity.direction, opportunity.price);
+      if (conservative < 0) {
+        const [low] = opportunity.direction === "YES" ? fair.yesInterval : fair.noInterval;
+        return this.deny(
+          "fair_value",
+          `Price ${opportunity.price.toFixed(3)} above fair value low ${low.toFixed(3)} (${opportunity.direction})`
+        );
+      }
+    }
+
+    // 4. Time to resolution
     if (timeToResolution < this.limits.minTimeToResolution) {
-      return this.deny(`Time to resolution ${timeToResolution}s < min ${this.limits.minTimeToResolution}s`);
+      return this.deny(
+        "time_to_resolution",
+        `Time to resolution ${timeToResolution}s < min ${this.limits.minTimeToResolution}s`
+      );
     }
 
-    // 4. Trade size
+    // 5. Trade size
     if (opportunity.size > this.limits.maxTradeSize) {
       opportunity.size = this.limits.maxTradeSize;
     }
 
-    // 5. Inventory check
+    // 6. Inventory check
     const inv = this.inventory.get(opportunity.asset);
     if (inv && inv.totalValue + opportunity.size > this.limits.maxInventoryPerAsset) {
       return this.deny(
+        "inventory",
         `Inventory ${opportunity.asset}: $${inv.totalValue.toFixed(0)} + $${opportunity.size.toFixed(0)} > max $${this.limits.maxInventoryPerAsset}`
       );
     }
 
-    // 6. Total exposure
+    // 7. Total exposure
     if (this.totalHFTExposure + opportunity.size > this.limits.maxTotalExposure) {
       return this.deny(
+        "total_exposure",
         `Total HFT exposure: $${this.totalHFTExposure.toFixed(0)} + $${opportunity.size.toFixed(0)} > max $${this.limits.maxTotalExposure}`
       );
     }
 
-    // 7. Concurrent orders
+    // 8. Concurrent orders
     if (this.openOrderCount >= this.limits.maxConcurrentOrders) {
-      return this.deny(`Concurrent orders: ${this.openOrderCount} >= max ${this.limits.maxConcurrentOrders}`);
+      return this.deny(
+        "concurrent_orders",
+        `Concurrent orders: ${this.openOrderCount} >= max ${this.limits.maxConcurrentOrders}`
+      );
     }
 
-    // 8. Recent loss checks
+    // 9. Recent loss checks
     const pnl1m = this.getRecentPnl(60_000);
     if (pnl1m < -this.limits.maxLossPerMinute) {
       this.activateKillSwitch(60_000);
-      return this.deny(`1-min loss $${Math.abs(pnl1m).toFixed(2)} > max $${this.limits.maxLossPerMinute}`);
+      return this.deny(
+        "loss_1m",
+        `1-min loss $${Math.abs(pnl1m).toFixed(2)} > max $${this.limits.maxLossPerMinute}`
+      );
     }
 
     const pnl1h = this.getRecentPnl(3_600_000);
     if (pnl1h < -this.limits.maxLossPerHour) {
       this.activateKillSwitch(300_000); // 5 min pause
-      return this.deny(`1-hr loss $${Math.abs(pnl1h).toFixed(2)} > max $${this.limits.maxLossPerHour}`);
+      return this.deny(
+        "loss_1h",
+        `1-hr loss $${Math.abs(pnl1h).toFixed(2)} > max $${this.limits.maxLossPerHour}`
+      );
     }
 
     return {
@@ -196,9 +229,35 @@ export class HFTRiskManager {
     return Date.now() < this.killSwitchUntil;
   }
 
+  getLimits(): IHFTRiskLimits {
+    return { ...this.limits, minEdge: { ...this.limits.minEdge } };
+  }
+
+  /** Merge new limits; minEdge is merged per strategy type */
+  updateLimits(patch: Partial<IHFTRiskLimits>): IHFTRiskLimits {
+    this.limits = {
+      ...this.limits,
+      ...patch,
+      minEdge: { ...this.limits.minEdge, ...patch.minEdge },
+    };
+    log.warning(`Limits updated: ${JSON.stringify(patch)}`);
+    return this.getLimits();
+  }
+
+  /** Block all HFT entries until clearKillSwitch() */
+  haltUntilCleared(): void {
+    this.killSwitchUntil = Number.MAX_SAFE_INTEGER;
+    log.warning("HFT KILL SWITCH activated until cleared");
+  }
+
+  clearKillSwitch(): void {
+    this.killSwitchUntil = 0;
+    log.info("HFT kill switch cleared");
+  }
+
   private activateKillSwitch(durationMs: number): void {
     this.killSwitchUntil = Date.now() + durationMs;
-    logger.warning(
+    log.warning(
       `HFT KILL SWITCH activated for ${(durationMs / 1000).toFixed(0)}s`
     );
   }
@@ -210,7 +269,8 @@ export class HFTRiskManager {
       .reduce((sum, t) => sum + t.pnl, 0);
   }
 
-  private deny(reason: string): IHFTRiskCheck {
+  private deny(check: string, reason: string): IHFTRiskCheck {
+    riskDenials.inc({ manager: "hft", reason: check });
     return {
       allowed: false,
       reason,
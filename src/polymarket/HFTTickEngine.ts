@@ -4,6 +4,7 @@ import { MarketDiscoveryService } from "./MarketDiscoveryService";
 import { HFTRiskManager } from "./HFTRiskManager";
 import { HFTOrderManager } from "./HFTOrderManager";
 import { PerformanceTracker } from "./PerformanceTracker";
+import { PolymarketUserFeed } from "../exchange/PolymarketUserFeed";
 import { HFTStrategyBase } from "../strategies/hft/HFTStrategyBase";
 import { YesNoArbitrageStrategy } from "../strategies/hft/YesNoArbitrageStrategy";
 import { LatencyArbitrageStrategy } from "../strategies/hft/LatencyArbitrageStrategy";
@@ -13,6 +14,7 @@ import {
   ITickSnapshot,
   IArbOpportunity,
   IPerformanceMetrics,
+  ITrackedOrder,
 } from "../types/hft.types";
 import {
   PolymarketAsset,
@@ -21,6 +23,9 @@ import {
   IPolymarketOrderbook,
 } from "../types/polymarket.types";
 import { logger } from "../utils/logger";
+import { tickDuration } from "../utils/metrics";
+
+const log = logger.child("HFT");
 
 const TICK_INTERVAL_MS = 500;
 const MAX_HISTORY_TICKS = 60; // 30 seconds of history at 500ms/tick
@@ -45,6 +50,7 @@ export class HFTTickEngine {
   private riskManager: HFTRiskManager;
   private orderManager: HFTOrderManager;
   private perfTracker: PerformanceTracker;
+  private userFeed: PolymarketUserFeed | null = null;
 
   private strategies: HFTStrategyBase[] = [];
   private tickHistory: Map<string, ITickSnapshot[]> = new Map();
@@ -53,6 +59,7 @@ export class HFTTickEngine {
   private tickHandle: NodeJS.Timeout | null = null;
   private tickCount: number = 0;
   private running: boolean = false;
+  private paused: boolean = false; // operator pause: ticks keep snapshotting, no strategy runs
   private ticksProcessed: number = 0;
   private opportunitiesFound: number = 0;
   private tradesExecuted: number = 0;
@@ -73,6 +80,13 @@ export class HFTTickEngine {
       this.perfTracker
     );
 
+    // Resting orders count toward strategy stats only as they fill
+    this.orderManager.onOrderEvent((event) => {
+      if (!event.fill) return;
+      const strategy = this.strategies.find((s) => s.id === event.order.strategyId);
+      if (strategy) strategy.recordTrade(event.fill.pnl);
+    });
+
     // Initialize Binance price history buffers
     for (const asset of ["BTC", "ETH", "XRP"] as PolymarketAsset[]) {
       this.binancePriceHistory.set(asset, []);
@@ -85,10 +99,10 @@ export class HFTTickEngine {
   async start(): Promise<void> {
     if (this.running) return;
 
-    logger.info("=== HFT Tick Engine Starting ===");
+    log.info("=== HFT Tick Engine Starting ===");
 
     // Initialize performance tracker
-    this.perfTracker.initialize();
+    await this.perfTracker.initialize();
 
     // Load all 4 HFT strategies
     this.strategies = [
@@ -98,15 +112,23 @@ export class HFTTickEngine {
       new OrderbookMicrostructureStrategy(),
     ];
 
-    logger.info(
+    log.info(
       `HFT strategies loaded: ${this.strategies.map((s) => s.name).join(", ")}`
     );
 
+    // Track GTC fills: user channel when authenticated, REST polling as fallback
+    const credentials = this.client.getApiCredentials();
+    if (credentials) {
+      this.userFeed = new PolymarketUserFeed();
+      this.userFeed.connect(credentials);
+    }
+    this.orderManager.startFillTracking(this.userFeed);
+
     // Start the tick loop
     this.running = true;
     this.tickHandle = setInterval(() => this.onTick(), TICK_INTERVAL_MS);
 
-    logger.success(
+    log.success(
       `HFT Tick Engine running at ${TICK_INTERVAL_MS}ms intervals | ${this.strategies.length} strategies`
     );
   }
@@ -127,12 +149,17 @@ export class HFTTickEngine {
     // Cancel all open HFT orders
     const cancelled = await this.orderManager.cancelAllOrders();
     if (cancelled > 0) {
-      logger.info(`Cancelled ${cancelled} open HFT orders`);
+      log.info(`Cancelled ${cancelled} open HFT orders`);
+    }
+    this.orderManager.stopFillTracking();
+    if (this.userFeed) {
+      this.userFeed.disconnect();
+      this.userFeed = null;
     }
 
     this.perfTracker.shutdown();
 
-    logger.info(
+    log.info(
       `HFT Tick Engine stopped | Ticks: ${this.ticksProcessed} | Opps: ${this.opportunitiesFound} | Trades: ${this.tradesExecuted}`
     );
   }
@@ -157,6 +184,7 @@ export class HFTTickEngine {
   private async onTick(): Promise<void> {
     if (!this.running) return;
 
+    const endTimer = tickDuration.startTimer({ engine: "hft" });
     try {
       this.tickCount++;
       this.ticksProcessed++;
@@ -179,14 +207,14 @@ export class HFTTickEngine {
 
         // Run each enabled strategy
         for (const strategy of this.strategies) {
-          if (!strategy.isEnabled()) continue;
+          if (this.paused || !strategy.isEnabled()) continue;
 
           try {
             const opps = strategy.onTick(snapshot, history);
             allOpportunities.push(...opps);
           } catch (err) {
             // Strategy error should never crash the tick loop
-            logger.error(`[HFT] Strategy ${strategy.id} error:`, err);
+            log.error(`Strategy ${strategy.id} error:`, err);
           }
         }
 
@@ -226,9 +254,9 @@ export class HFTTickEngine {
         if (trade) {
           this.tradesExecuted++;
 
-          // Update strategy stats
+          // Update strategy stats (resting orders update them as they fill)
           const strategy = this.strategies.find((s) => s.id === opp.strategyId);
-          if (strategy) {
+          if (strategy && !(trade.orderId && this.orderManager.isTracking(trade.orderId))) {
             strategy.recordTrade(trade.pnl);
           }
         }
@@ -239,7 +267,9 @@ export class HFTTickEngine {
         await this.orderManager.cancelStaleOrders(30_000);
       }
     } catch (err) {
-      logger.error("[HFT] Tick error:", err);
+      log.error("Tick error:", err);
+    } finally {
+      endTimer();
     }
   }
 
@@ -390,6 +420,7 @@ export class HFTTickEngine {
         binancePrice,
         binancePriceChange10s: priceChange10s,
         binancePriceChange30s: priceChange30s,
+        fairValue: this.priceFeed.getFairValue(market),
         timestamp: now,
       };
 
@@ -466,6 +497,43 @@ export class HFTTickEngine {
     return latest;
   }
 
+  // ==================== OPERATOR CONTROL ====================
+
+  setPaused(paused: boolean): void {
+    this.paused = paused;
+    log.warning(`${paused ? "PAUSED — strategies not evaluated" : "Resumed"}`);
+  }
+
+  isPaused(): boolean {
+    return this.paused;
+  }
+
+  /** Returns false for an unknown strategy id */
+  setStrategyEnabled(strategyId: string, enabled: boolean): boolean {
+    const strategy = this.strategies.find((s) => s.id === strategyId);
+    if (!strategy) return false;
+    if (enabled) strategy.enable();
+    else strategy.disable();
+    log.warning(`Strategy ${strategyId} ${enabled ? "enabled" : "disabled"}`);
+    return true;
+  }
+
+  getStrategyStates(): { id: string; name: string; enabled: boolean }[] {
+    return this.strategies.map((s) => ({ id: s.id, name: s.name, enabled: s.isEnabled() }));
+  }
+
+  getOpenOrders(): ITrackedOrder[] {
+    return this.orderManager.getOpenOrders();
+  }
+
+  cancelAllOrders(): Promise<number> {
+    return this.orderManager.cancelAllOrders();
+  }
+
+  getRiskManager(): HFTRiskManager {
+    return this.riskManager;
+  }
+
   /**
    * Get the internal performance tracker for shared access.
    */
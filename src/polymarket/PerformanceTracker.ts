@@ -2,11 +2,19 @@ import {
   IHFTTrade,
   IPerformanceMetrics,
   IPerformanceWindow,
+  ITradeQuery,
   HFTStrategyType,
 } from "../types/hft.types";
+import { PerformanceTradeModel, IPerformanceTradeDoc } from "../models/PerformanceTrade";
 import { mean, stddev } from "../utils/mathUtils";
 import { logger } from "../utils/logger";
 
+const MAX_IN_MEMORY_TRADES = 5000;
+
+export interface PerformanceTrackerOptions {
+  persist?: boolean; // store trades in MongoDB and reload on initialize (default true)
+}
+
 const EMPTY_METRICS: IPerformanceMetrics = {
   totalTrades: 0,
   wins: 0,
@@ -31,15 +39,28 @@ const EMPTY_METRICS: IPerformanceMetrics = {
  * Real-time performance metrics calculator.
  * Tracks PF, Sharpe, Sortino, Win Rate, Max Drawdown
  * across rolling time windows and per-strategy.
+ *
+ * Trades are persisted to MongoDB (PerformanceTrade) and the most recent
+ * 5000 are reloaded on initialize(), so metrics survive restarts.
+ * queryTrades() reaches the full stored history.
  */
 export class PerformanceTracker {
   private allTrades: IHFTTrade[] = [];
   private intervalHandle: NodeJS.Timeout | null = null;
   private startTime: number = Date.now();
+  private persist: boolean;
 
-  initialize(): void {
+  constructor(options: PerformanceTrackerOptions = {}) {
+    this.persist = options.persist ?? true;
+  }
+
+  async initialize(): Promise<void> {
     this.startTime = Date.now();
 
+    if (this.persist) {
+      await this.loadTrades();
+    }
+
     // Log performance every 5 minutes
     this.intervalHandle = setInterval(() => this.logPerformance(), 5 * 60_000);
   }
@@ -53,9 +74,76 @@ export class PerformanceTracker {
 
   recordTrade(trade: IHFTTrade): void {
     this.allTrades.push(trade);
-    // Keep last 5000 trades
-    if (this.allTrades.length > 5000) {
-      this.allTrades = this.allTrades.slice(-5000);
+    // Keep last 5000 trades in memory; older ones stay queryable in MongoDB
+    if (this.allTrades.length > MAX_IN_MEMORY_TRADES) {
+      this.allTrades = this.allTrades.slice(-MAX_IN_MEMORY_TRADES);
+    }
+
+    if (this.persist) {
+      const { id, ...fields } = trade;
+      PerformanceTradeModel.create({
+        ...fields,
+        tradeId: id,
+        openedAt: new Date(trade.openedAt),
+        closedAt: new Date(trade.closedAt),
+      }).catch((err) => {
+        logger.error(`[PerfTracker] Failed to persist trade ${trade.id}:`, err);
+      });
+    }
+  }
+
+  // ==================== HISTORY ====================
+
+  /**
+   * Trades matching a filter, oldest first. Reads MongoDB when persisting
+   * (full history), otherwise the in-memory buffer.
+   */
+  async queryTrades(query: ITradeQuery = {}): Promise<IHFTTrade[]> {
+    if (!this.persist) {
+      const matches = this.allTrades.filter(
+        (t) =>
+          (query.strategyId === undefined || t.strategyId === query.strategyId) &&
+          (query.exchange === undefined || t.exchange === query.exchange) &&
+          (query.asset === undefined || t.asset === query.asset) &&
+          (query.from === undefined || t.closedAt >= query.from) &&
+          (query.to === undefined || t.closedAt <= query.to)
+      );
+      return query.limit ? matches.slice(-query.limit) : matches;
+    }
+
+    const filter: Record<string, any> = {};
+    if (query.strategyId !== undefined) filter.strategyId = query.strategyId;
+    if (query.exchange !== undefined) filter.exchange = query.exchange;
+    if (query.asset !== undefined) filter.asset = query.asset;
+    if (query.from !== undefined || query.to !== undefined) {
+      filter.closedAt = {};
+      if (query.from !== undefined) filter.closedAt.$gte = new Date(query.from);
+      if (query.to !== undefined) filter.closedAt.$lte = new Date(query.to);
+    }
+
+    let cursor = PerformanceTradeModel.find(filter).sort({ closedAt: -1 });
+    if (query.limit) cursor = cursor.limit(query.limit);
+    const docs = await cursor.exec();
+    return docs.reverse().map(toTrade);
+  }
+
+  /**
+   * Metrics over any slice of history, e.g. one strategy on one exchange
+   * over the last 30 days.
+   */
+  async getQueryMetrics(query: ITradeQuery = {}): Promise<IPerformanceMetrics> {
+    return this.calculateMetrics(await this.queryTrades(query));
+  }
+
+  private async loadTrades(): Promise<void> {
+    try {
+      this.allTrades = await this.queryTrades({ limit: MAX_IN_MEMORY_TRADES });
+      if (this.allTrades.length > 0) {
+        this.startTime = Math.min(this.startTime, this.allTrades[0].openedAt);
+      }
+      logger.info(`[PerfTracker] Loaded ${this.allTrades.length} trades from history`);
+    } catch (err) {
+      logger.error("[PerfTracker] Failed to load trade history:", err);
     }
   }
 
@@ -231,3 +319,26 @@ export class PerformanceTracker {
     }
   }
 }
+
+function toTrade(doc: IPerformanceTradeDoc): IHFTTrade {
+  return {
+    id: doc.tradeId,
+    strategy: doc.strategy as HFTStrategyType,
+    strategyId: doc.strategyId,
+    asset: doc.asset as IHFTTrade["asset"],
+    interval: doc.interval as IHFTTrade["interval"],
+    conditionId: doc.conditionId,
+    direction: doc.direction,
+    tokenId: doc.tokenId,
+    side: doc.side,
+    entryPrice: doc.entryPrice,
+    size: doc.size,
+    shares: doc.shares,
+    pnl: doc.pnl,
+    holdTimeMs: doc.holdTimeMs,
+    orderId: doc.orderId,
+    openedAt: doc.openedAt.getTime(),
+    closedAt: doc.closedAt.getTime(),
+    exchange: doc.exchange,
+  };
+}
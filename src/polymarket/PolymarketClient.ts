@@ -1,33 +1,104 @@
 import axios, { AxiosInstance } from "axios";
 import { ethers } from "ethers";
+import crypto from "crypto";
 import {
   IPolymarketOrder,
   IPolymarketOrderResponse,
   IPolymarketOrderbook,
+  IPolymarketOrderStatus,
+  IPolymarketApiCredentials,
+  IPolymarketMarketConfig,
+  IPolymarketSignedOrder,
+  IPolymarketCancelResult,
+  IPolymarketHolding,
+  PolymarketTickSize,
+  PolymarketSignatureType,
 } from "../types/polymarket.types";
 import { logger } from "../utils/logger";
+import { orderLatency, recordOrderResult } from "../utils/metrics";
 
 const CLOB_BASE_URL = "https://clob.polymarket.com";
 const GAMMA_BASE_URL = "https://gamma-api.polymarket.com";
+const DATA_BASE_URL = "https://data-api.polymarket.com";
+
+// CTF Exchange order signing (Polygon mainnet)
+const POLYGON_CHAIN_ID = 137;
+const CTF_EXCHANGE = "0x4bFb41d5B3570DeFd03C39a9A4D8dE6Bd8B8982E";
+const NEG_RISK_CTF_EXCHANGE = "0xC5d563A36AE78145C45a50134d48A1215220f80a";
+const ZERO_ADDRESS = "0x0000000000000000000000000000000000000000";
+const ORDER_TYPES = {
+  Order: [
+    { name: "salt", type: "uint256" },
+    { name: "maker", type: "address" },
+    { name: "signer", type: "address" },
+    { name: "taker", type: "address" },
+    { name: "tokenId", type: "uint256" },
+    { name: "makerAmount", type: "uint256" },
+    { name: "takerAmount", type: "uint256" },
+    { name: "expiration", type: "uint256" },
+    { name: "nonce", type: "uint256" },
+    { name: "feeRateBps", type: "uint256" },
+    { name: "side", type: "uint8" },
+    { name: "signatureType", type: "uint8" },
+  ],
+};
+
+// Decimal places allowed per tick size (price, size, USDC amount)
+const ROUNDING: Record<PolymarketTickSize, { price: number; size: number; amount: number }> = {
+  "0.1": { price: 1, size: 2, amount: 3 },
+  "0.01": { price: 2, size: 2, amount: 4 },
+  "0.001": { price: 3, size: 2, amount: 5 },
+  "0.0001": { price: 4, size: 2, amount: 6 },
+};
+const TOKEN_DECIMALS = 6; // USDC and outcome tokens
+const MAX_BATCH_ORDERS = 15;
+const MARKET_CONFIG_TTL_MS = 5 * 60_000; // tick size tightens near 0/1
+
+export interface PolymarketClientOptions {
+  clobUrl?: string;
+  gammaUrl?: string;
+  dataUrl?: string;
+  chainId?: number;
+  signatureType?: PolymarketSignatureType;
+  funderAddress?: string; // maker for proxy / Safe wallets
+}
 
 export class PolymarketClient {
   private clobApi: AxiosInstance;
   private gammaApi: AxiosInstance;
+  private dataApi: AxiosInstance;
   private wallet: ethers.Wallet | null = null;
   private apiKey: string = "";
   private apiSecret: string = "";
   private passphrase: string = "";
   private authenticated = false;
+  private chainId: number;
+  private signatureType: PolymarketSignatureType;
+  private funderAddress?: string;
+  private marketConfigs: Map<string, IPolymarketMarketConfig & { fetchedAt: number }> = new Map();
+
+  constructor(options: PolymarketClientOptions = {}) {
+    this.chainId = options.chainId ?? POLYGON_CHAIN_ID;
+    this.signatureType = options.signatureType ?? 0;
+    this.funderAddress = options.funderAddress;
+    if (this.signatureType !== 0 && !this.funderAddress) {
+      throw new Error("Polymarket proxy/Safe signature types need a funder address");
+    }
 
-  constructor() {
     this.clobApi = axios.create({
-      baseURL: CLOB_BASE_URL,
+      baseURL: options.clobUrl || CLOB_BASE_URL,
       timeout: 10000,
       headers: { "Content-Type": "application/json" },
     });
 
     this.gammaApi = axios.create({
-      baseURL: GAMMA_BASE_URL,
+      baseURL: options.gammaUrl || GAMMA_BASE_URL,
+      timeout: 10000,
+      headers: { "Content-Type": "application/json" },
+    });
+
+    this.dataApi = axios.create({
+      baseURL: options.dataUrl || DATA_BASE_URL,
       timeout: 10000,
       headers: { "Content-Type": "application/json" },
     });
@@ -139,6 +210,7 @@ export class PolymarketClient {
 
   /**
    * Generate L2 HMAC headers for authenticated requests.
+   * The CLOB expects a URL-safe base64 signature.
    */
   private getL2Headers(
     method: string,
@@ -150,10 +222,12 @@ export class PolymarketClient {
     const timestamp = Math.floor(Date.now() / 1000).toString();
     const message = timestamp + method.toUpperCase() + path + body;
 
-    const hmac = require("crypto")
+    const hmac = crypto
       .createHmac("sha256", Buffer.from(this.apiSecret, "base64"))
       .update(message)
-      .digest("base64");
+      .digest("base64")
+      .replace(/\+/g, "-")
+      .replace(/\//g, "_");
 
     return {
       POLY_ADDRESS: this.wallet?.address || "",
@@ -172,6 +246,12 @@ export class PolymarketClient {
     return this.wallet?.address || "";
   }
 
+  /** L2 credentials, e.g. to authenticate the user WebSocket channel */
+  getApiCredentials(): IPolymarketApiCredentials | null {
+    if (!this.authenticated) return null;
+    return { apiKey: this.apiKey, secret: this.apiSecret, passphrase: this.passphrase };
+  }
+
   // ==================== PUBLIC ENDPOINTS ====================
 
   /**
@@ -302,10 +382,39 @@ export class PolymarketClient {
     }
   }
 
+  /**
+   * Tick size, neg-risk flag and fee rate for a token, cached for a few
+   * minutes. A missing fee-rate endpoint means no fee.
+   */
+  async getMarketConfig(tokenId: string): Promise<IPolymarketMarketConfig> {
+    const cached = this.marketConfigs.get(tokenId);
+    if (cached && Date.now() - cached.fetchedAt < MARKET_CONFIG_TTL_MS) return cached;
+
+    const [tick, negRisk, fee] = await Promise.all([
+      this.clobApi.get("/tick-size", { params: { token_id: tokenId } }),
+      this.clobApi.get("/neg-risk", { params: { token_id: tokenId } }),
+      this.clobApi.get("/fee-rate", { params: { token_id: tokenId } }).catch(() => null),
+    ]);
+
+    const tickSize = String(tick.data?.minimum_tick_size ?? "") as PolymarketTickSize;
+    if (!ROUNDING[tickSize]) {
+      throw new Error(`Unsupported tick size for ${tokenId}: ${tick.data?.minimum_tick_size}`);
+    }
+    const config = {
+      tickSize,
+      negRisk: negRisk.data?.neg_risk === true,
+      feeRateBps: parseInt(fee?.data?.base_fee ?? "0", 10) || 0,
+      fetchedAt: Date.now(),
+    };
+    this.marketConfigs.set(tokenId, config);
+    return config;
+  }
+
   // ==================== AUTHENTICATED ENDPOINTS ====================
 
   /**
    * Place a market order (FOK - Fill or Kill).
+   * Priced at the far tick so it takes whatever the book offers.
    */
   async placeMarketOrder(
     tokenId: string,
@@ -316,15 +425,20 @@ export class PolymarketClient {
       return { success: false, errorMsg: "Not authenticated" };
     }
 
-    const order: IPolymarketOrder = {
-      tokenId,
-      side,
-      price: side === "BUY" ? 0.99 : 0.01, // Aggressive price for market orders
-      size: amount,
-      orderType: "FOK",
-    };
-
-    return this.placeOrder(order);
+    try {
+      const { tickSize } = await this.getMarketConfig(tokenId);
+      const tick = parseFloat(tickSize);
+      const order: IPolymarketOrder = {
+        tokenId,
+        side,
+        price: side === "BUY" ? 1 - tick : tick,
+        size: amount,
+        orderType: "FOK",
+      };
+      return this.placeOrder(order);
+    } catch (err: any) {
+      return this.orderError(err);
+    }
   }
 
   /**
@@ -335,6 +449,21 @@ export class PolymarketClient {
     side: "BUY" | "SELL",
     price: number,
     size: number
+  ): Promise<IPolymarketOrderResponse> {
+    return this.placeLimitOrderTyped(tokenId, side, price, size, "GTC");
+  }
+
+  /**
+   * Place a typed limit order with optional expiration (GTD support).
+   * Used by HFT market making for time-limited passive orders.
+   */
+  async placeLimitOrderTyped(
+    tokenId: string,
+    side: "BUY" | "SELL",
+    price: number,
+    size: number,
+    orderType: "GTC" | "GTD" | "FOK" | "FAK" = "GTC",
+    expiration?: number // UTC seconds for GTD
   ): Promise<IPolymarketOrderResponse> {
     if (!this.authenticated) {
       return { success: false, errorMsg: "Not authenticated" };
@@ -345,34 +474,69 @@ export class PolymarketClient {
       side,
       price,
       size,
-      orderType: "GTC",
+      orderType,
+      ...(expiration ? { expiration } : {}),
     };
 
     return this.placeOrder(order);
   }
 
+  /**
+   * Place several orders, up to 15 per request. Results line up with the
+   * input; an order that fails to build fails alone.
+   */
+  async placeOrders(orders: IPolymarketOrder[]): Promise<IPolymarketOrderResponse[]> {
+    if (!this.authenticated) {
+      return orders.map(() => ({ success: false, errorMsg: "Not authenticated" }));
+    }
+
+    const results: IPolymarketOrderResponse[] = new Array(orders.length);
+    const payloads: { index: number; payload: object }[] = [];
+    for (let i = 0; i < orders.length; i++) {
+      try {
+        payloads.push({ index: i, payload: await this.buildOrderPayload(orders[i]) });
+      } catch (err: any) {
+        results[i] = this.orderError(err);
+      }
+    }
+
+    for (let i = 0; i < payloads.length; i += MAX_BATCH_ORDERS) {
+      const chunk = payloads.slice(i, i + MAX_BATCH_ORDERS);
+      const endTimer = orderLatency.startTimer({ venue: "polymarket" });
+      try {
+        const body = JSON.stringify(chunk.map((c) => c.payload));
+        const headers = this.getL2Headers("POST", "/orders", body);
+        const response = await this.clobApi.post("/orders", body, { headers });
+        const data: any[] = Array.isArray(response.data) ? response.data : [];
+        chunk.forEach((c, j) => (results[c.index] = this.parseOrderResponse(data[j])));
+      } catch (err: any) {
+        const failed = this.orderError(err);
+        chunk.forEach((c) => (results[c.index] = failed));
+      }
+      endTimer();
+      chunk.forEach((c) => recordOrderResult("polymarket", results[c.index].success, results[c.index].errorMsg));
+    }
+
+    return results;
+  }
+
   private async placeOrder(
     order: IPolymarketOrder
   ): Promise<IPolymarketOrderResponse> {
+    const endTimer = orderLatency.startTimer({ venue: "polymarket" });
+    let result: IPolymarketOrderResponse;
     try {
-      const body = JSON.stringify(order);
+      const body = JSON.stringify(await this.buildOrderPayload(order));
       const headers = this.getL2Headers("POST", "/order", body);
 
-      const response = await this.clobApi.post("/order", order, { headers });
-
-      return {
-        success: response.data?.success ?? true,
-        orderID: response.data?.orderID,
-        status: response.data?.status,
-      };
+      const response = await this.clobApi.post("/order", body, { headers });
+      result = this.parseOrderResponse(response.data);
     } catch (err: any) {
-      const msg =
-        err.response?.data?.errorMsg ||
-        err.response?.data?.message ||
-        err.message;
-      logger.error(`Order placement failed: ${msg}`);
-      return { success: false, errorMsg: msg };
+      result = this.orderError(err);
     }
+    endTimer();
+    recordOrderResult("polymarket", result.success, result.errorMsg);
+    return result;
   }
 
   /**
@@ -382,43 +546,147 @@ export class PolymarketClient {
     if (!this.authenticated) return false;
 
     try {
-      const headers = this.getL2Headers(
-        "DELETE",
-        `/order/${orderId}`
-      );
-      await this.clobApi.delete(`/order/${orderId}`, { headers });
-      return true;
+      const body = JSON.stringify({ orderID: orderId });
+      const headers = this.getL2Headers("DELETE", "/order", body);
+      const response = await this.clobApi.delete("/order", { headers, data: body });
+      return (response.data?.canceled || []).includes(orderId);
     } catch {
       return false;
     }
   }
 
   /**
-   * Place a typed limit order with optional expiration (GTD support).
-   * Used by HFT market making for time-limited passive orders.
+   * Cancel several orders in one request.
    */
-  async placeLimitOrderTyped(
-    tokenId: string,
+  async cancelOrders(orderIds: string[]): Promise<IPolymarketCancelResult> {
+    const result: IPolymarketCancelResult = { canceled: [], notCanceled: {} };
+    if (orderIds.length === 0) return result;
+    if (!this.authenticated) {
+      for (const id of orderIds) result.notCanceled[id] = "Not authenticated";
+      return result;
+    }
+
+    try {
+      const body = JSON.stringify(orderIds);
+      const headers = this.getL2Headers("DELETE", "/orders", body);
+      const response = await this.clobApi.delete("/orders", { headers, data: body });
+      result.canceled = response.data?.canceled || [];
+      result.notCanceled = response.data?.not_canceled || {};
+    } catch (err: any) {
+      const reason = err.response?.data?.error || err.message;
+      for (const id of orderIds) result.notCanceled[id] = reason;
+    }
+    return result;
+  }
+
+  // ==================== ORDER SIGNING ====================
+
+  /**
+   * Build and sign the CTF Exchange order for a price/size request.
+   *
+   * Prices are rounded to the market's tick and sizes down to 2 decimals.
+   * BUY pays USDC (makerAmount) for shares (takerAmount); SELL the reverse.
+   * Neg-risk markets settle through a different exchange contract, which
+   * is part of the signed domain.
+   */
+  async createSignedOrder(order: IPolymarketOrder): Promise<IPolymarketSignedOrder> {
+    if (!this.wallet) throw new Error("Wallet not initialized");
+
+    const config = await this.getMarketConfig(order.tokenId);
+    const { makerAmount, takerAmount } = PolymarketClient.orderAmounts(
+      order.side,
+      order.price,
+      order.size,
+      config.tickSize
+    );
+
+    const unsigned = {
+      salt: Math.round(Math.random() * Date.now()),
+      maker: this.funderAddress || this.wallet.address,
+      signer: this.wallet.address,
+      taker: ZERO_ADDRESS,
+      tokenId: order.tokenId,
+      makerAmount,
+      takerAmount,
+      expiration: String(order.orderType === "GTD" ? order.expiration ?? 0 : 0),
+      nonce: "0",
+      feeRateBps: String(config.feeRateBps),
+      side: order.side,
+      signatureType: this.signatureType,
+    };
+
+    const domain = {
+      name: "Polymarket CTF Exchange",
+      version: "1",
+      chainId: this.chainId,
+      verifyingContract: config.negRisk ? NEG_RISK_CTF_EXCHANGE : CTF_EXCHANGE,
+    };
+    const signature = await this.wallet.signTypedData(domain, ORDER_TYPES, {
+      ...unsigned,
+      side: order.side === "BUY" ? 0 : 1,
+    });
+
+    return { ...unsigned, signature };
+  }
+
+  /**
+   * makerAmount / takerAmount in 6-decimal base units. Throws when the
+   * price is off the market's range or the size rounds to nothing.
+   */
+  static orderAmounts(
     side: "BUY" | "SELL",
     price: number,
     size: number,
-    orderType: "GTC" | "GTD" | "FOK" | "FAK" = "GTC",
-    expiration?: number // UTC seconds for GTD
-  ): Promise<IPolymarketOrderResponse> {
-    if (!this.authenticated) {
-      return { success: false, errorMsg: "Not authenticated" };
+    tickSize: PolymarketTickSize
+  ): { makerAmount: string; takerAmount: string } {
+    const rounding = ROUNDING[tickSize];
+    const tick = parseFloat(tickSize);
+    const rawPrice = roundNormal(price, rounding.price);
+    if (rawPrice < tick || rawPrice > 1 - tick) {
+      throw new Error(`Price ${price} outside [${tick}, ${1 - tick}] for tick size ${tickSize}`);
     }
 
-    const order: IPolymarketOrder = {
-      tokenId,
-      side,
-      price,
-      size,
-      orderType,
-      ...(expiration ? { expiration } : {}),
+    const shares = roundDown(size, rounding.size);
+    let usdc = shares * rawPrice;
+    if (decimalPlaces(usdc) > rounding.amount) {
+      usdc = roundUp(usdc, rounding.amount + 4);
+      if (decimalPlaces(usdc) > rounding.amount) usdc = roundDown(usdc, rounding.amount);
+    }
+    if (shares <= 0 || usdc <= 0) {
+      throw new Error(`Order size ${size} rounds to zero`);
+    }
+
+    const [maker, taker] = side === "BUY" ? [usdc, shares] : [shares, usdc];
+    return { makerAmount: toBaseUnits(maker), takerAmount: toBaseUnits(taker) };
+  }
+
+  private async buildOrderPayload(order: IPolymarketOrder): Promise<object> {
+    return {
+      order: await this.createSignedOrder(order),
+      owner: this.apiKey,
+      orderType: order.orderType,
     };
+  }
 
-    return this.placeOrder(order);
+  private parseOrderResponse(data: any): IPolymarketOrderResponse {
+    const success = data?.success ?? !data?.errorMsg;
+    return {
+      success,
+      orderID: data?.orderID || undefined,
+      status: data?.status,
+      ...(data?.size_matched !== undefined ? { sizeMatched: parseFloat(data.size_matched) || 0 } : {}),
+      ...(data?.errorMsg ? { errorMsg: data.errorMsg } : {}),
+    };
+  }
+
+  private orderError(err: any): IPolymarketOrderResponse {
+    const msg =
+      err.response?.data?.errorMsg ||
+      err.response?.data?.error ||
+      err.response?.data?.message ||
+      err.message;
+    logger.error(`Order placement failed: ${msg}`);
+    return { success: false, errorMsg: msg };
   }
 
   /**
@@ -428,11 +696,119 @@ export class PolymarketClient {
     if (!this.authenticated) return [];
 
     try {
-      const headers = this.getL2Headers("GET", "/orders");
-      const response = await this.clobApi.get("/orders", { headers });
-      return response.data || [];
+      const headers = this.getL2Headers("GET", "/data/orders");
+      const response = await this.clobApi.get("/data/orders", { headers });
+      const data = response.data?.data ?? response.data;
+      return Array.isArray(data) ? data : [];
     } catch {
       return [];
     }
   }
+
+  /**
+   * Outcome-token holdings of the trading account (the funder for proxy /
+   * Safe wallets). Returns null when the request fails so callers can tell
+   * "flat" from "unknown".
+   */
+  async getPositions(): Promise<IPolymarketHolding[] | null> {
+    const user = this.funderAddress || this.wallet?.address;
+    if (!user) return null;
+
+    try {
+      const response = await this.dataApi.get("/positions", {
+        params: { user, sizeThreshold: 0.01, limit: 500 },
+      });
+      const data = Array.isArray(response.data) ? response.data : [];
+      return data.map((p: any) => ({
+        tokenId: String(p.asset),
+        conditionId: p.conditionId || "",
+        outcome: p.outcome || "",
+        shares: parseFloat(p.size || "0"),
+        avgPrice: parseFloat(p.avgPrice || "0"),
+        currentPrice: parseFloat(p.curPrice || "0"),
+        redeemable: !!p.redeemable,
+      }));
+    } catch (err: any) {
+      logger.error(`Failed to fetch Polymarket positions: ${err.message}`);
+      return null;
+    }
+  }
+
+  /** USDC collateral balance; null on failure */
+  async getBalance(): Promise<number | null> {
+    if (!this.authenticated) return null;
+
+    try {
+      const path = "/balance-allowance";
+      const headers = this.getL2Headers("GET", path);
+      const response = await this.clobApi.get(path, {
+        headers,
+        params: { asset_type: "COLLATERAL", signature_type: this.signatureType },
+      });
+      return parseInt(response.data?.balance || "0", 10) / 10 ** TOKEN_DECIMALS;
+    } catch (err: any) {
+      logger.error(`Failed to fetch Polymarket balance: ${err.message}`);
+      return null;
+    }
+  }
+
+  /**
+   * Get a single order by ID, including filled and cancelled ones.
+   * Returns null when the order can't be fetched.
+   */
+  async getOrder(orderId: string): Promise<IPolymarketOrderStatus | null> {
+    if (!this.authenticated) return null;
+
+    try {
+      const path = `/data/order/${orderId}`;
+      const headers = this.getL2Headers("GET", path);
+      const response = await this.clobApi.get(path, { headers });
+      return response.data ? PolymarketClient.parseOrderStatus(response.data) : null;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Normalize a raw CLOB order (REST or user channel).
+   */
+  static parseOrderStatus(raw: any): IPolymarketOrderStatus {
+    const status = String(raw.status || "").toUpperCase();
+    return {
+      orderId: raw.id,
+      tokenId: raw.asset_id,
+      status: status === "MATCHED" ? "matched" : status.startsWith("CANCEL") ? "cancelled" : "live",
+      originalSize: parseFloat(raw.original_size || "0"),
+      sizeMatched: parseFloat(raw.size_matched || "0"),
+      price: parseFloat(raw.price || "0"),
+    };
+  }
+}
+
+// ==================== AMOUNT ROUNDING ====================
+
+function roundNormal(x: number, decimals: number): number {
+  const f = 10 ** decimals;
+  return Math.round(x * f) / f;
+}
+
+function roundDown(x: number, decimals: number): number {
+  const f = 10 ** decimals;
+  return Math.floor(x * f + 1e-9) / f;
+}
+
+function roundUp(x: number, decimals: number): number {
+  const f = 10 ** decimals;
+  return Math.ceil(x * f - 1e-9) / f;
+}
+
+function decimalPlaces(x: number): number {
+  if (Number.isInteger(x)) return 0;
+  const [mantissa, exp] = x.toString().split("e");
+  const fraction = (mantissa.split(".")[1] || "").length;
+  return Math.max(0, fraction - (exp ? parseInt(exp, 10) : 0));
+}
+
+function toBaseUnits(x: number): string {
+  return Math.round(x * 10 ** TOKEN_DECIMALS).toString();
 }
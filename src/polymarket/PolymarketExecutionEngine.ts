@@ -12,6 +12,8 @@ import { PolymarketRiskManager } from "./PolymarketRiskManager";
 import { PolymarketPositionManager } from "./PolymarketPositionManager";
 import { logger } from "../utils/logger";
 
+const log = logger.child("PolymarketExecution");
+
 /**
  * Converts aggregated signals into Polymarket orders.
  * BUY signal → buy YES token (betting price goes UP)
@@ -53,7 +55,7 @@ export class PolymarketExecutionEngine {
     const polyDirection: PolymarketDirection =
       direction === SignalDirection.BUY ? "YES" : "NO";
 
-    logger.info(
+    log.info(
       `Execution: ${asset} ${interval} → ${polyDirection} (score: ${compositeScore.toFixed(3)})`
     );
 
@@ -62,7 +64,8 @@ export class PolymarketExecutionEngine {
       asset,
       interval,
       compositeScore,
-      this.defaultSizeUSDC
+      this.defaultSizeUSDC,
+      polyDirection
     );
 
     if (!riskCheck.allowed) {
@@ -153,7 +156,7 @@ export class PolymarketExecutionEngine {
 
     // Place order
     if (!this.client.isAuthenticated()) {
-      logger.warning("Dry run (not authenticated): would place order");
+      log.warning("Dry run (not authenticated): would place order");
       // Still record position for tracking
       await this.positionManager.openPosition({
         marketId: market.conditionId,
@@ -173,6 +176,7 @@ export class PolymarketExecutionEngine {
           timestamp: s.timestamp,
         })),
         compositeScore,
+        correlationId: aggregatedSignal.correlationId,
       });
 
       return {
@@ -228,9 +232,10 @@ export class PolymarketExecutionEngine {
       })),
       compositeScore,
       orderId: orderResult.orderID,
+      correlationId: aggregatedSignal.correlationId,
     });
 
-    logger.success(
+    log.success(
       `Order placed: ${polyDirection} ${asset} @ ${currentPrice.toFixed(3)} | $${sizeUSDC.toFixed(2)} | ${shares.toFixed(2)} shares`
     );
 
@@ -1,4 +1,5 @@
 import cron from "node-cron";
+import fs from "fs";
 import { connectToDatabase } from "../config/mongoose";
 import { PolymarketClient } from "./PolymarketClient";
 import { PriceFeedService } from "./PriceFeedService";
@@ -6,27 +7,57 @@ import { MarketDiscoveryService } from "./MarketDiscoveryService";
 import { PolymarketRiskManager } from "./PolymarketRiskManager";
 import { PolymarketExecutionEngine } from "./PolymarketExecutionEngine";
 import { PolymarketPositionManager } from "./PolymarketPositionManager";
+import { PolymarketResolver } from "./PolymarketResolver";
+import { PolymarketRedeemer } from "./PolymarketRedeemer";
 import { HFTTickEngine } from "./HFTTickEngine";
 import { SignalAggregator } from "../engine/SignalAggregator";
+import {
+  StrategyConfigWatcher,
+  seedStrategyConfigs,
+} from "../engine/StrategyConfigWatcher";
+import { DEFAULT_POLYMARKET_STRATEGY_CONFIGS } from "../models/StrategyConfig";
 import { IStrategy } from "../strategies/IStrategy";
 import {
   IStrategyConfig,
-  StrategyCategory,
+  IStrategyConfigChange,
   StrategyTier,
   SignalDirection,
 } from "../types/strategy.types";
-import { PolymarketAsset, PolymarketInterval } from "../types/polymarket.types";
-import { logger } from "../utils/logger";
+import {
+  PolymarketAsset,
+  PolymarketInterval,
+  PolymarketSignatureType,
+} from "../types/polymarket.types";
+import { logger, withCorrelationId } from "../utils/logger";
 
 // Multi-exchange imports
 import { KalshiClient } from "../exchange/KalshiClient";
 import { KalshiMarketDiscovery } from "../exchange/KalshiMarketDiscovery";
 import { HyperliquidClient } from "../exchange/HyperliquidClient";
+import { BinanceFuturesClient } from "../exchange/BinanceFuturesClient";
 import { HyperliquidMarketData } from "../exchange/HyperliquidMarketData";
 import { MultiExchangeTickEngine } from "../exchange/MultiExchangeTickEngine";
 import { DemoWallet } from "../exchange/DemoWallet";
+import {
+  ExecutionRouter,
+  PolymarketVenue,
+  KalshiVenue,
+  HyperliquidVenue,
+} from "../exchange/ExecutionVenue";
+import { IExecutionVenue } from "../types/exchange.types";
+import { PaperSessionManager } from "../exchange/PaperSessionManager";
+import { MongoPaperSessionStore, FilePaperSessionStore } from "../exchange/PaperSessionStore";
+import { BinanceWebSocketFeed } from "../exchange/BinanceWebSocketFeed";
+import { PolymarketWebSocketFeed } from "../exchange/PolymarketWebSocketFeed";
+import { MarketDataRecorder } from "../recorder/MarketDataRecorder";
 import { DashboardServer } from "../dashboard/DashboardServer";
+import { ControlApi } from "../dashboard/ControlApi";
+import { BotController } from "./BotController";
+import { ExchangeReconciler } from "../quant/live/ExchangeReconciler";
+import { AlertSystem, ReconciliationEngine } from "../quant/live/LiveTradingSystem";
 import { env } from "../config/environment";
+import { logBuffer } from "../config/logging";
+import { equity, metrics, openExposure } from "../utils/metrics";
 
 // Polymarket strategies
 import { PolyMACDMomentumStrategy } from "../strategies/polymarket/PolyMACDMomentumStrategy";
@@ -37,87 +68,6 @@ import { MomentumScalperStrategy } from "../strategies/polymarket/MomentumScalpe
 import { VolatilityRegimeStrategy } from "../strategies/polymarket/VolatilityRegimeStrategy";
 import { OrderFlowStrategy } from "../strategies/polymarket/OrderFlowStrategy";
 
-// Strategy configs for Polymarket
-const POLYMARKET_STRATEGY_CONFIGS: IStrategyConfig[] = [
-  {
-    id: "poly-probability-edge",
-    name: "Probability Edge Detector",
-    category: StrategyCategory.SIGNAL,
-    tier: StrategyTier.NORMAL,
-    enabled: true,
-    weight: 0.25,
-    intervalMs: 30000,
-    params: { minEdge: 0.08 },
-    circuitBreakerThreshold: 5,
-  },
-  {
-    id: "poly-momentum-scalper",
-    name: "Momentum Scalper",
-    category: StrategyCategory.SIGNAL,
-    tier: StrategyTier.FAST,
-    enabled: true,
-    weight: 0.20,
-    intervalMs: 10000,
-    params: {},
-    circuitBreakerThreshold: 5,
-  },
-  {
-    id: "poly-macd-momentum",
-    name: "MACD & RSI Momentum",
-    category: StrategyCategory.SIGNAL,
-    tier: StrategyTier.NORMAL,
-    enabled: true,
-    weight: 0.15,
-    intervalMs: 30000,
-    params: {},
-    circuitBreakerThreshold: 5,
-  },
-  {
-    id: "poly-volume-breakout",
-    name: "Volume Surge Breakout",
-    category: StrategyCategory.SIGNAL,
-    tier: StrategyTier.NORMAL,
-    enabled: true,
-    weight: 0.10,
-    intervalMs: 30000,
-    params: { spikeMultiplier: 3, priceChangeThreshold: 0.001 },
-    circuitBreakerThreshold: 5,
-  },
-  {
-    id: "poly-mean-reversion-bb",
-    name: "BB Mean Reversion",
-    category: StrategyCategory.SIGNAL,
-    tier: StrategyTier.NORMAL,
-    enabled: true,
-    weight: 0.10,
-    intervalMs: 60000,
-    params: { bbPeriod: 20, bbStdDev: 2, adxThreshold: 25 },
-    circuitBreakerThreshold: 5,
-  },
-  {
-    id: "poly-volatility-regime",
-    name: "Volatility Regime",
-    category: StrategyCategory.SIGNAL,
-    tier: StrategyTier.SLOW,
-    enabled: true,
-    weight: 0.10,
-    intervalMs: 120000,
-    params: {},
-    circuitBreakerThreshold: 5,
-  },
-  {
-    id: "poly-order-flow",
-    name: "Order Flow Analysis",
-    category: StrategyCategory.SIGNAL,
-    tier: StrategyTier.FAST,
-    enabled: true,
-    weight: 0.10,
-    intervalMs: 15000,
-    params: { imbalanceThreshold: 0.15 },
-    circuitBreakerThreshold: 5,
-  },
-];
-
 export class PolymarketOrchestrator {
   private client: PolymarketClient;
   private priceFeed: PriceFeedService;
@@ -136,18 +86,31 @@ export class PolymarketOrchestrator {
   private multiExchangeEngine: MultiExchangeTickEngine;
   private demoWallet: DemoWallet;
   private dashboardServer: DashboardServer;
+  private controller: BotController;
+  private reconciler: ExchangeReconciler;
+  private binanceClient: BinanceFuturesClient | null = null;
+  private recorder: MarketDataRecorder | null = null;
+  private paperSession: PaperSessionManager | null = null;
 
   private strategies: Map<string, IStrategy> = new Map();
+  private strategyConfigs: Map<string, IStrategyConfig> = new Map();
+  private configWatcher: StrategyConfigWatcher;
   private cronJobs: ReturnType<typeof cron.schedule>[] = [];
 
   constructor() {
-    this.client = new PolymarketClient();
+    this.client = new PolymarketClient({
+      clobUrl: env.polymarketClobUrl,
+      signatureType: env.polymarketSignatureType as PolymarketSignatureType | undefined,
+      funderAddress: env.polymarketFunderAddress,
+    });
     this.priceFeed = new PriceFeedService();
     this.discovery = new MarketDiscoveryService(this.client);
-    this.riskManager = new PolymarketRiskManager(this.client, this.discovery);
+    this.riskManager = new PolymarketRiskManager(this.client, this.discovery, undefined, this.priceFeed);
     this.positionManager = new PolymarketPositionManager(
       this.client,
-      this.riskManager
+      this.riskManager,
+      new PolymarketResolver(this.client, this.priceFeed),
+      { redeemer: this.createRedeemer() }
     );
     this.executionEngine = new PolymarketExecutionEngine(
       this.client,
@@ -156,6 +119,10 @@ export class PolymarketOrchestrator {
       this.positionManager
     );
     this.signalAggregator = new SignalAggregator();
+    this.configWatcher = new StrategyConfigWatcher(
+      DEFAULT_POLYMARKET_STRATEGY_CONFIGS.map((c) => c.strategyId)
+    );
+    this.configWatcher.onChange((change) => this.applyStrategyConfig(change));
     this.hftEngine = new HFTTickEngine(
       this.client,
       this.priceFeed,
@@ -163,13 +130,37 @@ export class PolymarketOrchestrator {
     );
 
     // Multi-exchange setup
-    this.kalshiClient = new KalshiClient(env.kalshiApiKey);
+    this.kalshiClient = new KalshiClient(
+      env.kalshiApiKey,
+      env.kalshiPrivateKeyPath ? fs.readFileSync(env.kalshiPrivateKeyPath, "utf8") : undefined
+    );
     this.kalshiDiscovery = new KalshiMarketDiscovery(this.kalshiClient);
-    this.hyperliquidClient = new HyperliquidClient();
+    this.hyperliquidClient = new HyperliquidClient({
+      privateKey: env.hyperliquidPrivateKey,
+      baseUrl: env.hyperliquidApiUrl,
+      accountAddress: env.hyperliquidAccountAddress,
+    });
     this.hyperliquidData = new HyperliquidMarketData(this.hyperliquidClient);
     this.demoWallet = new DemoWallet(env.demoStartingBalance);
+    if (env.paperSession) {
+      const store = env.paperSessionDir
+        ? new FilePaperSessionStore(env.paperSessionDir)
+        : new MongoPaperSessionStore();
+      this.paperSession = new PaperSessionManager(this.demoWallet, store, env.paperSession);
+    }
+
+    // Paper by default; EXECUTION_EXCHANGES / EXECUTION_STRATEGIES promote to live
+    const liveVenues: IExecutionVenue[] = [new PolymarketVenue(this.client, this.demoWallet)];
+    if (this.kalshiClient.canTrade()) liveVenues.push(new KalshiVenue(this.kalshiClient, this.demoWallet));
+    if (this.hyperliquidClient.canTrade()) liveVenues.push(new HyperliquidVenue(this.hyperliquidClient, this.demoWallet));
+    const execution = new ExecutionRouter(this.demoWallet, liveVenues, {
+      exchanges: ExecutionRouter.parseModes(env.executionExchanges),
+      strategies: ExecutionRouter.parseModes(env.executionStrategies),
+    });
 
     const perfTracker = this.hftEngine.getPerformanceTracker();
+    const binanceFeed = new BinanceWebSocketFeed();
+    const polymarketFeed = new PolymarketWebSocketFeed();
     this.multiExchangeEngine = new MultiExchangeTickEngine(
       this.kalshiClient,
       this.kalshiDiscovery,
@@ -177,7 +168,59 @@ export class PolymarketOrchestrator {
       this.hyperliquidData,
       this.demoWallet,
       perfTracker,
-      this.hftEngine
+      this.hftEngine,
+      { binanceFeed, polymarketFeed, execution, divergenceDeltaHedge: env.divergenceDeltaHedge }
+    );
+
+    if (env.recorderDir) {
+      this.recorder = new MarketDataRecorder(env.recorderDir);
+      this.recorder.attachBinanceFeed(binanceFeed);
+      this.recorder.attachPolymarketFeed(polymarketFeed);
+      this.recorder.attachHyperliquid(this.hyperliquidData);
+      this.recorder.attachKalshi(this.kalshiClient);
+      this.recorder.attachMultiExchangeEngine(this.multiExchangeEngine);
+    }
+
+    this.controller = new BotController({
+      client: this.client,
+      hyperliquidClient: this.hyperliquidClient,
+      riskManager: this.riskManager,
+      positionManager: this.positionManager,
+      hftEngine: this.hftEngine,
+      multiExchangeEngine: this.multiExchangeEngine,
+      demoWallet: this.demoWallet,
+      execution,
+      signalStrategies: this.strategies,
+    });
+
+    // Live exchange state vs. the bot's books; only exchanges with credentials are checked
+    if (env.binanceApiKey) this.binanceClient = new BinanceFuturesClient();
+    this.reconciler = new ExchangeReconciler(
+      {
+        engine: new ReconciliationEngine(),
+        alerts: new AlertSystem(),
+        polymarket: this.client,
+        kalshi: this.kalshiClient,
+        hyperliquid: this.hyperliquidClient,
+        binance: this.binanceClient ?? undefined,
+        demoWallet: this.demoWallet,
+        isLivePosition: (pos) => execution.getPositionMode(pos.id) === "live",
+        knownOrderIds: {
+          polymarket: () => this.hftEngine.getOpenOrders().map((o) => o.orderId),
+          // Engine venues only send market orders, so anything resting is foreign
+          kalshi: () => [],
+          hyperliquid: () => [],
+          binance: () => [],
+        },
+      },
+      { intervalMs: env.reconcileIntervalMs, autoHalt: env.reconcileAutoHalt }
+    );
+    this.reconciler.onHalt((reason) => this.controller.triggerKillSwitch(reason));
+
+    const controlApi = new ControlApi(
+      this.controller,
+      ControlApi.parseTokens(env.controlApiTokens),
+      logBuffer
     );
 
     this.dashboardServer = new DashboardServer(
@@ -185,8 +228,25 @@ export class PolymarketOrchestrator {
       perfTracker,
       this.multiExchangeEngine,
       this.hftEngine,
-      env.dashboardPort
+      env.dashboardPort,
+      controlApi
     );
+
+    this.registerMetricsCollectors();
+  }
+
+  /** Gauges read from live state on each /metrics scrape */
+  private registerMetricsCollectors(): void {
+    metrics.addCollector(() => {
+      equity.set(this.demoWallet.getEquity(), { account: "demo" });
+      const notional = this.demoWallet.getPositions().reduce((sum, p) => sum + p.notional, 0);
+      openExposure.set(notional, { book: "multi_exchange" });
+      openExposure.set(this.hftEngine.getRiskManager().getTotalExposure(), { book: "hft" });
+    });
+    metrics.addCollector(async () => {
+      const stats = await this.positionManager.getStats();
+      openExposure.set(stats.totalExposure, { book: "polymarket" });
+    });
   }
 
   async start(): Promise<void> {
@@ -195,6 +255,16 @@ export class PolymarketOrchestrator {
     // 1. Connect to MongoDB
     await connectToDatabase();
     logger.success("MongoDB connected");
+    await seedStrategyConfigs(DEFAULT_POLYMARKET_STRATEGY_CONFIGS);
+
+    // 1b. Resume (or create/fork) the paper session before anything trades
+    if (this.paperSession) {
+      const result = await this.paperSession.open(
+        env.paperSessionFrom ? PaperSessionManager.parseSource(env.paperSessionFrom) : undefined
+      );
+      this.paperSession.startAutosave();
+      logger.success(`Paper session "${this.paperSession.getName()}" ${result}`);
+    }
 
     // 2. Initialize Polymarket client
     const polygonKey = process.env.POLYGON_PRIVATE_KEY;
@@ -217,17 +287,25 @@ export class PolymarketOrchestrator {
     // 6. Initialize strategies
     await this.initializeStrategies();
 
-    // 7. Schedule cron jobs
+    // 7. Schedule cron jobs and pick up config edits from here on
     this.scheduleCronJobs();
+    this.configWatcher.start();
 
     // 8. Start HFT tick engine (500ms sub-second loop)
     await this.hftEngine.start();
 
-    // 9. Start multi-exchange engine (Kalshi + Hyperliquid)
+    // 9. Start market-data recorder (before the feeds connect) and multi-exchange engine
+    if (this.recorder) {
+      this.recorder.start();
+      logger.success(`Market-data recorder writing to ${env.recorderDir}`);
+    }
     await this.multiExchangeEngine.start();
 
-    // 10. Start dashboard server
+    // 10. Start dashboard server and exchange reconciliation
     await this.dashboardServer.start();
+    // Binance is only reconciled; a failed connect leaves it unchecked
+    if (this.binanceClient) await this.binanceClient.connect();
+    this.reconciler.start();
 
     // 11. Log status
     const stats = await this.positionManager.getStats();
@@ -243,34 +321,98 @@ export class PolymarketOrchestrator {
     );
   }
 
+  /** Tokens held by a proxy or Safe can't be redeemed by the signing key */
+  private createRedeemer(): PolymarketRedeemer | undefined {
+    if (!env.polymarketAutoRedeem) return undefined;
+    if (!env.polygonPrivateKey || !env.polygonRpcUrl) {
+      logger.warning("POLYMARKET_AUTO_REDEEM needs POLYGON_PRIVATE_KEY and POLYGON_RPC_URL — redemption disabled");
+      return undefined;
+    }
+    if ((env.polymarketSignatureType ?? 0) !== 0) {
+      logger.warning("POLYMARKET_AUTO_REDEEM only supports EOA wallets — redemption disabled");
+      return undefined;
+    }
+    return new PolymarketRedeemer(env.polygonPrivateKey, env.polygonRpcUrl);
+  }
+
   private async initializeStrategies(): Promise<void> {
-    // Create strategy instances with dependency injection
-    const strategyInstances: IStrategy[] = [
-      new ProbabilityEdgeStrategy(this.priceFeed, this.discovery),
-      new MomentumScalperStrategy(this.priceFeed),
-      new PolyMACDMomentumStrategy(this.priceFeed),
-      new PolyVolumeBreakoutStrategy(this.priceFeed),
-      new PolyMeanReversionBBStrategy(this.priceFeed),
-      new VolatilityRegimeStrategy(this.priceFeed),
-      new OrderFlowStrategy(this.client, this.discovery),
-    ];
-
-    for (const strategy of strategyInstances) {
-      const config = POLYMARKET_STRATEGY_CONFIGS.find(
-        (c) => c.id === strategy.id
-      );
-      if (!config) continue;
+    const configs = await this.configWatcher.load();
+    for (const config of configs) {
+      if (config.enabled) await this.loadStrategy(config);
+    }
+  }
 
-      try {
-        await strategy.initialize(config);
-        this.strategies.set(strategy.id, strategy);
-        this.signalAggregator.setWeight(config.id, config.weight);
-        logger.info(
-          `Strategy loaded: ${config.name} (weight: ${config.weight})`
-        );
-      } catch (err) {
-        logger.error(`Failed to init strategy ${strategy.id}:`, err);
+  /**
+   * Create a strategy instance with its dependencies injected.
+   */
+  private createStrategy(strategyId: string): IStrategy | null {
+    switch (strategyId) {
+      case "poly-probability-edge": return new ProbabilityEdgeStrategy(this.priceFeed, this.discovery);
+      case "poly-momentum-scalper": return new MomentumScalperStrategy(this.priceFeed);
+      case "poly-macd-momentum": return new PolyMACDMomentumStrategy(this.priceFeed);
+      case "poly-volume-breakout": return new PolyVolumeBreakoutStrategy(this.priceFeed);
+      case "poly-mean-reversion-bb": return new PolyMeanReversionBBStrategy(this.priceFeed);
+      case "poly-volatility-regime": return new VolatilityRegimeStrategy(this.priceFeed);
+      case "poly-order-flow": return new OrderFlowStrategy(this.client, this.discovery);
+      default: return null;
+    }
+  }
+
+  /**
+   * Apply a persisted config edit. Weight and tier edits take effect in
+   * place; anything else swaps in a freshly initialized instance.
+   */
+  private async applyStrategyConfig(change: IStrategyConfigChange): Promise<void> {
+    const { config } = change;
+    const running = this.strategies.has(config.id);
+
+    if (!config.enabled) {
+      if (running) {
+        await this.unloadStrategy(config.id);
+        logger.info(`Strategy disabled: ${config.name}`);
       }
+      return;
+    }
+
+    if (!running || change.needsReinit) {
+      await this.loadStrategy(config);
+      return;
+    }
+
+    // Tier is read from the live config on every run
+    this.strategyConfigs.set(config.id, config);
+    if (change.weightChanged) {
+      this.signalAggregator.setWeight(config.id, config.weight);
+    }
+  }
+
+  private async loadStrategy(config: IStrategyConfig): Promise<void> {
+    const strategy = this.createStrategy(config.id);
+    if (!strategy) return;
+
+    try {
+      await strategy.initialize(config);
+      await this.unloadStrategy(config.id);
+      this.strategies.set(strategy.id, strategy);
+      this.strategyConfigs.set(config.id, config);
+      this.signalAggregator.setWeight(config.id, config.weight);
+      logger.info(
+        `Strategy loaded: ${config.name} (weight: ${config.weight}, tier: ${config.tier})`
+      );
+    } catch (err) {
+      logger.error(`Failed to init strategy ${strategy.id}:`, err);
+    }
+  }
+
+  private async unloadStrategy(strategyId: string): Promise<void> {
+    const strategy = this.strategies.get(strategyId);
+    if (!strategy) return;
+    this.strategies.delete(strategyId);
+    this.strategyConfigs.delete(strategyId);
+    try {
+      await strategy.shutdown();
+    } catch (err) {
+      logger.error(`Error shutting down ${strategyId}:`, err);
     }
   }
 
@@ -321,8 +463,12 @@ export class PolymarketOrchestrator {
    * Token addresses are replaced by asset symbols for Polymarket.
    */
   private async runTier(tier: StrategyTier): Promise<void> {
+    if (this.controller.isPaused()) return;
     const strategies = [...this.strategies.values()].filter(
-      (s) => s.tier === tier && s.isHealthy()
+      (s) =>
+        (this.strategyConfigs.get(s.id)?.tier ?? s.tier) === tier &&
+        s.isHealthy() &&
+        this.controller.isSignalStrategyEnabled(s.id)
     );
     if (strategies.length === 0) return;
 
@@ -347,6 +493,7 @@ export class PolymarketOrchestrator {
    * Process aggregated signals and execute Polymarket trades.
    */
   private async processSignals(): Promise<void> {
+    if (this.controller.isPaused()) return;
     try {
       const assets: PolymarketAsset[] = ["BTC", "ETH", "XRP"];
       const intervals: PolymarketInterval[] = ["5M", "15M"];
@@ -358,27 +505,29 @@ export class PolymarketOrchestrator {
         if (aggregated.direction === SignalDirection.NEUTRAL) continue;
         if (aggregated.compositeScore < 0.60) continue;
 
-        for (const interval of intervals) {
-          const market = this.discovery.getCurrentMarket(asset, interval);
-          if (!market) continue;
-
-          // Execute trade
-          const result = await this.executionEngine.executeTrade(
-            asset,
-            interval,
-            aggregated
-          );
+        await withCorrelationId(aggregated.correlationId, async () => {
+          for (const interval of intervals) {
+            const market = this.discovery.getCurrentMarket(asset, interval);
+            if (!market) continue;
 
-          if (result.success) {
-            logger.success(
-              `Trade executed: ${result.direction} ${asset} ${interval} @ ${result.entryPrice.toFixed(3)} | $${result.size.toFixed(2)} | score: ${result.compositeScore.toFixed(3)} | strategies: ${result.strategies.join(", ")}`
-            );
-          } else if (result.error && !result.error.includes("Risk denied")) {
-            logger.warning(
-              `Trade skipped: ${asset} ${interval} - ${result.error}`
+            // Execute trade
+            const result = await this.executionEngine.executeTrade(
+              asset,
+              interval,
+              aggregated
             );
+
+            if (result.success) {
+              logger.success(
+                `Trade executed: ${result.direction} ${asset} ${interval} @ ${result.entryPrice.toFixed(3)} | $${result.size.toFixed(2)} | score: ${result.compositeScore.toFixed(3)} | strategies: ${result.strategies.join(", ")}`
+              );
+            } else if (result.error && !result.error.includes("Risk denied")) {
+              logger.warning(
+                `Trade skipped: ${asset} ${interval} - ${result.error}`
+              );
+            }
           }
-        }
+        });
       }
     } catch (err) {
       logger.error("Signal processing error:", err);
@@ -391,7 +540,7 @@ export class PolymarketOrchestrator {
     const signalStats = this.signalAggregator.getStats();
 
     logger.info(
-      `[Stats] Open: ${stats.openCount} | Exposure: $${stats.totalExposure.toFixed(0)} | ` +
+      `[Stats] Open: ${stats.openCount} | Pending resolution: ${stats.pendingResolutionCount} | Exposure: $${stats.totalExposure.toFixed(0)} | ` +
         `Resolved: ${stats.resolvedCount} | Total P&L: $${stats.totalPnl.toFixed(2)} | ` +
         `Win rate: ${(stats.winRate * 100).toFixed(1)}% | Daily P&L: $${dailyPnl.toFixed(2)} | ` +
         `Signals: ${signalStats.totalSignals}`
@@ -431,19 +580,25 @@ export class PolymarketOrchestrator {
   getMultiExchangeEngine(): MultiExchangeTickEngine { return this.multiExchangeEngine; }
   getDashboardServer(): DashboardServer { return this.dashboardServer; }
   getHFTEngine(): HFTTickEngine { return this.hftEngine; }
+  getController(): BotController { return this.controller; }
+  getReconciler(): ExchangeReconciler { return this.reconciler; }
 
   async shutdown(): Promise<void> {
     logger.info("Orchestrator shutting down...");
 
-    // Stop dashboard first
+    // Stop dashboard and reconciliation first
     this.dashboardServer.stop();
+    this.reconciler.stop();
 
-    // Stop multi-exchange engine
+    // Stop multi-exchange engine, then flush the recorder
     await this.multiExchangeEngine.stop();
+    if (this.recorder) await this.recorder.stop();
+    if (this.paperSession) await this.paperSession.stop();
 
     // Stop HFT engine (cancels all open orders)
     await this.hftEngine.stop();
 
+    this.configWatcher.stop();
     for (const job of this.cronJobs) {
       job.stop();
     }
@@ -4,10 +4,28 @@ import {
   PolymarketInterval,
   PolymarketOutcome,
 } from "../types/polymarket.types";
-import { PolymarketPositionModel } from "../models/PolymarketPosition";
+import {
+  PolymarketPositionModel,
+  IPolymarketPositionDoc,
+} from "../models/PolymarketPosition";
 import { PolymarketClient } from "./PolymarketClient";
 import { PolymarketRiskManager } from "./PolymarketRiskManager";
-import { logger } from "../utils/logger";
+import { PolymarketResolver } from "./PolymarketResolver";
+import { PolymarketRedeemer } from "./PolymarketRedeemer";
+import { logger, withCorrelationId } from "../utils/logger";
+
+const log = logger.child("PolymarketPositions");
+
+const RESOLUTION_BASE_BACKOFF_MS = 15_000;
+const RESOLUTION_MAX_BACKOFF_MS = 15 * 60_000;
+const RESOLUTION_WARN_EVERY = 8;       // attempts between "still unresolved" warnings (~45 min at first)
+const REDEEM_INTERVAL_MS = 60_000;
+const MAX_REDEEM_ATTEMPTS = 5;
+
+export interface PolymarketPositionManagerOptions {
+  /** On-chain redemption of winning tokens (disabled when unset) */
+  redeemer?: PolymarketRedeemer;
+}
 
 interface OpenPositionParams {
   marketId: string;
@@ -28,6 +46,7 @@ interface OpenPositionParams {
   }[];
   compositeScore: number;
   orderId?: string;
+  correlationId?: string;
 }
 
 /**
@@ -35,19 +54,32 @@ interface OpenPositionParams {
  * - Opening positions
  * - Tracking open positions
  * - Resolving positions when markets settle
+ * - Redeeming winning tokens
  * - Computing P&L
+ *
+ * A position whose market has ended moves to "pending_resolution" and is
+ * re-checked with exponential backoff until the market reports a settled
+ * outcome. Nothing is booked to P&L (or the daily loss limit) before then.
  */
 export class PolymarketPositionManager {
   private client: PolymarketClient;
   private riskManager: PolymarketRiskManager;
+  private resolver: PolymarketResolver;
+  private redeemer: PolymarketRedeemer | null;
   private intervalHandle: NodeJS.Timeout | null = null;
+  private resolving = false;
+  private lastRedeemRunAt = 0;
 
   constructor(
     client: PolymarketClient,
-    riskManager: PolymarketRiskManager
+    riskManager: PolymarketRiskManager,
+    resolver: PolymarketResolver,
+    options: PolymarketPositionManagerOptions = {}
   ) {
     this.client = client;
     this.riskManager = riskManager;
+    this.resolver = resolver;
+    this.redeemer = options.redeemer || null;
   }
 
   async initialize(): Promise<void> {
@@ -60,7 +92,7 @@ export class PolymarketPositionManager {
       15_000
     );
 
-    logger.info("PolymarketPositionManager initialized");
+    log.info("PolymarketPositionManager initialized");
   }
 
   async shutdown(): Promise<void> {
@@ -90,10 +122,11 @@ export class PolymarketPositionManager {
       entrySignals: params.entrySignals,
       compositeScore: params.compositeScore,
       orderId: params.orderId,
+      correlationId: params.correlationId,
       status: "open",
     });
 
-    logger.info(
+    log.info(
       `Position opened: ${params.direction} ${params.asset} ${params.interval} | $${params.size.toFixed(2)} @ ${params.entryPrice.toFixed(3)}`
     );
 
@@ -109,122 +142,207 @@ export class PolymarketPositionManager {
       return 0;
     }
 
-    // Get current token price
-    const currentPrice = await this.client.getMidPrice(position.tokenId);
-    if (!currentPrice) {
-      logger.error(`Cannot get price for position ${positionId}`);
-      return 0;
+    return withCorrelationId(position.correlationId, async () => {
+      // Get current token price
+      const currentPrice = await this.client.getMidPrice(position.tokenId);
+      if (!currentPrice) {
+        log.error(`Cannot get price for position ${positionId}`);
+        return 0;
+      }
+
+      // Sell tokens if authenticated
+      if (this.client.isAuthenticated()) {
+        const result = await this.client.placeMarketOrder(
+          position.tokenId,
+          "SELL",
+          position.shares
+        );
+        if (!result.success) {
+          log.error(`Failed to sell position: ${result.errorMsg}`);
+          return 0;
+        }
+        position.exitOrderId = result.orderID;
+      }
+
+      // Calculate P&L
+      const exitValue = position.shares * currentPrice;
+      const pnl = exitValue - position.size;
+
+      position.exitPrice = currentPrice;
+      position.pnl = pnl;
+      position.closedAt = new Date();
+      position.status = "closed";
+      await position.save();
+
+      this.riskManager.recordPnl(pnl);
+
+      log.info(
+        `Position closed: ${position.direction} ${position.asset} | P&L: $${pnl.toFixed(2)} (${((pnl / position.size) * 100).toFixed(1)}%)`
+      );
+
+      return pnl;
+    });
+  }
+
+  /**
+   * Resolve positions whose markets have ended.
+   * In prediction markets, tokens pay $1 (correct) or $0 (wrong).
+   */
+  async resolveExpiredPositions(): Promise<void> {
+    if (this.resolving) return;
+    this.resolving = true;
+    try {
+      const now = new Date();
+
+      // Ended markets wait for their resolution in their own state
+      await PolymarketPositionModel.updateMany(
+        { status: "open", marketEndTime: { $lte: now } },
+        { $set: { status: "pending_resolution", nextResolutionCheckAt: now } }
+      );
+
+      const due = await PolymarketPositionModel.find({
+        status: "pending_resolution",
+        $or: [
+          { nextResolutionCheckAt: { $lte: now } },
+          { nextResolutionCheckAt: { $exists: false } },
+        ],
+      });
+      for (const position of due) {
+        await withCorrelationId(position.correlationId, () => this.tryResolve(position));
+      }
+
+      if (this.redeemer && now.getTime() - this.lastRedeemRunAt >= REDEEM_INTERVAL_MS) {
+        this.lastRedeemRunAt = now.getTime();
+        await this.redeemWinnings();
+      }
+    } catch (err) {
+      log.error("Error resolving expired positions:", err);
+    } finally {
+      this.resolving = false;
+    }
+  }
+
+  private async tryResolve(position: IPolymarketPositionDoc): Promise<void> {
+    let resolution = null;
+    let error: string | undefined;
+    try {
+      resolution = await this.resolver.resolve(position);
+    } catch (err: any) {
+      error = err.message;
     }
 
-    // Sell tokens if authenticated
-    if (this.client.isAuthenticated()) {
-      const result = await this.client.placeMarketOrder(
-        position.tokenId,
-        "SELL",
-        position.shares
+    if (!resolution) {
+      const attempts = (position.resolutionAttempts || 0) + 1;
+      const backoffMs = Math.min(
+        RESOLUTION_BASE_BACKOFF_MS * 2 ** (attempts - 1),
+        RESOLUTION_MAX_BACKOFF_MS
       );
-      if (!result.success) {
-        logger.error(`Failed to sell position: ${result.errorMsg}`);
-        return 0;
+      position.resolutionAttempts = attempts;
+      position.nextResolutionCheckAt = new Date(Date.now() + backoffMs);
+      position.lastResolutionError = error || "market not settled";
+      await position.save();
+
+      if (attempts % RESOLUTION_WARN_EVERY === 0) {
+        const endedMin = (Date.now() - position.marketEndTime.getTime()) / 60_000;
+        log.warning(
+          `Position still pending resolution: ${position.direction} ${position.asset} ${position.interval} ` +
+          `${position.conditionId} | ended ${endedMin.toFixed(0)}m ago, ${attempts} checks (${position.lastResolutionError})`
+        );
       }
-      position.exitOrderId = result.orderID;
+      return;
     }
 
-    // Calculate P&L
-    const exitValue = position.shares * currentPrice;
-    const pnl = exitValue - position.size;
+    const { outcome } = resolution;
+    const won = PolymarketPositionManager.didPositionWin(position.direction as PolymarketDirection, outcome);
+
+    // Calculate P&L: winning = shares * $1 - cost; losing = -cost
+    const pnl = won
+      ? position.shares * 1.0 - position.size
+      : -position.size;
 
-    position.exitPrice = currentPrice;
+    position.resolved = true;
+    position.outcome = outcome;
     position.pnl = pnl;
     position.closedAt = new Date();
-    position.status = "closed";
+    position.status = "resolved";
+    position.startPrice = resolution.startPrice ?? undefined;
+    position.endPrice = resolution.endPrice ?? undefined;
+    position.resolutionMismatch = resolution.mismatch;
+    position.nextResolutionCheckAt = undefined;
+    position.lastResolutionError = undefined;
     await position.save();
 
     this.riskManager.recordPnl(pnl);
 
-    logger.info(
-      `Position closed: ${position.direction} ${position.asset} | P&L: $${pnl.toFixed(2)} (${((pnl / position.size) * 100).toFixed(1)}%)`
+    const emoji = won ? "WIN" : "LOSS";
+    log.info(
+      `Position resolved [${emoji}]: ${position.direction} ${position.asset} ${position.interval} | outcome: ${outcome} | P&L: $${pnl.toFixed(2)}` +
+      (resolution.mismatch ? " | price feed disagrees" : "")
     );
-
-    return pnl;
   }
 
   /**
-   * Resolve positions whose markets have ended.
-   * In prediction markets, tokens pay $1 (correct) or $0 (wrong).
+   * Redeem winning tokens of live positions, one transaction per market.
+   * Conditions the oracle hasn't reported on-chain yet are retried on the
+   * next pass; failed transactions count towards MAX_REDEEM_ATTEMPTS.
    */
-  async resolveExpiredPositions(): Promise<void> {
-    const now = new Date();
-    const expiredPositions = await PolymarketPositionModel.find({
-      status: "open",
-      marketEndTime: { $lte: now },
+  private async redeemWinnings(): Promise<void> {
+    const candidates = await PolymarketPositionModel.find({
+      status: "resolved",
+      orderId: { $exists: true, $ne: null },
+      redeemedAt: { $exists: false },
+      redeemAttempts: { $lt: MAX_REDEEM_ATTEMPTS },
     });
 
-    for (const position of expiredPositions) {
-      try {
-        // Try to get resolution from the market
-        const marketData = await this.client.getMarket(
-          position.conditionId
-        );
+    const byCondition = new Map<string, IPolymarketPositionDoc[]>();
+    for (const position of candidates) {
+      if (!position.outcome) continue;
+      if (!PolymarketPositionManager.didPositionWin(position.direction as PolymarketDirection, position.outcome)) continue;
+      const group = byCondition.get(position.conditionId) || [];
+      group.push(position);
+      byCondition.set(position.conditionId, group);
+    }
+
+    for (const [conditionId, positions] of byCondition) {
+      const shares = { yes: 0, no: 0 };
+      for (const p of positions) {
+        if (p.direction === "YES") shares.yes += p.shares;
+        else shares.no += p.shares;
+      }
 
-        if (marketData?.resolved || marketData?.closed) {
-          // Determine outcome
-          const outcome = this.determineOutcome(marketData);
-          const won = this.didPositionWin(position.direction as PolymarketDirection, outcome);
-
-          // Calculate P&L: winning = shares * $1 - cost; losing = -cost
-          const pnl = won
-            ? position.shares * 1.0 - position.size
-            : -position.size;
-
-          position.resolved = true;
-          position.outcome = outcome;
-          position.pnl = pnl;
-          position.closedAt = new Date();
-          position.status = "resolved";
-          await position.save();
-
-          this.riskManager.recordPnl(pnl);
-
-          const emoji = won ? "WIN" : "LOSS";
-          logger.info(
-            `Position resolved [${emoji}]: ${position.direction} ${position.asset} ${position.interval} | outcome: ${outcome} | P&L: $${pnl.toFixed(2)}`
-          );
-        } else {
-          // Market hasn't resolved yet, mark stale but keep checking
-          // Add 30s grace period before marking as timed out
-          const graceMs = 30_000;
-          if (
-            now.getTime() - position.marketEndTime.getTime() > graceMs &&
-            !marketData
-          ) {
-            // Can't determine outcome, assume worst case
-            position.resolved = true;
-            position.pnl = -position.size;
-            position.closedAt = new Date();
-            position.status = "resolved";
-            await position.save();
-            this.riskManager.recordPnl(-position.size);
-            logger.warning(
-              `Position timed out (no resolution data): ${position.conditionId}`
-            );
-          }
+      try {
+        const { negRisk } = await this.client.getMarketConfig(positions[0].tokenId);
+        const txHash = await this.redeemer!.redeem(conditionId, negRisk, shares);
+        if (!txHash) continue; // not reported on-chain yet
+
+        const redeemedAt = new Date();
+        for (const p of positions) {
+          p.redeemTxHash = txHash;
+          p.redeemedAt = redeemedAt;
+          await p.save();
         }
-      } catch (err) {
-        logger.error(
-          `Error resolving position ${position.conditionId}:`,
-          err
+        log.success(
+          `Redeemed ${(shares.yes + shares.no).toFixed(2)} winning shares in ${conditionId.slice(0, 10)}... | tx ${txHash}`
         );
+      } catch (err: any) {
+        for (const p of positions) {
+          p.redeemAttempts = (p.redeemAttempts || 0) + 1;
+          await p.save();
+        }
+        log.error(`Redemption failed for ${conditionId}: ${err.message}`);
       }
     }
   }
 
   /**
-   * Determine market outcome from raw market data.
+   * Determine market outcome from raw market data, or null when it can't
+   * be told: no explicit result and no outcome price past `conclusive`.
+   * Also used by the binary-outcome backtest to settle simulated positions.
    */
-  private determineOutcome(
-    marketData: any
-  ): PolymarketOutcome {
+  static determineOutcome(
+    marketData: any,
+    conclusive: number = 0.9
+  ): PolymarketOutcome | null {
     // Check various outcome formats from Polymarket
     const outcome = marketData.outcome || marketData.resolution;
     if (outcome === "Yes" || outcome === "Up" || outcome === "YES") {
@@ -234,15 +352,16 @@ export class PolymarketPositionManager {
       return "DOWN";
     }
 
-    // Check by token prices: winning token goes to ~1.0
-    const yesPrice = parseFloat(
-      marketData.outcomePrices?.[0] || "0.5"
-    );
-    if (yesPrice > 0.9) return "UP";
-    if (yesPrice < 0.1) return "DOWN";
-
-    // Fallback based on title keywords or default
-    return "DOWN";
+    // Check by token prices: winning token goes to ~1.0. Gamma sends
+    // outcomes and prices as JSON-encoded arrays in matching order.
+    const prices = parseList(marketData.outcomePrices).map((p) => parseFloat(p));
+    const names = parseList(marketData.outcomes);
+    const upIndex = Math.max(0, names.findIndex((n) => n === "Yes" || n === "Up"));
+    const upPrice = prices[upIndex];
+    if (upPrice === undefined || isNaN(upPrice)) return null;
+    if (upPrice >= conclusive) return "UP";
+    if (upPrice <= 1 - conclusive) return "DOWN";
+    return null;
   }
 
   /**
@@ -250,7 +369,7 @@ export class PolymarketPositionManager {
    * YES + UP = win, YES + DOWN = lose
    * NO + DOWN = win, NO + UP = lose
    */
-  private didPositionWin(
+  static didPositionWin(
     direction: PolymarketDirection,
     outcome: PolymarketOutcome
   ): boolean {
@@ -267,6 +386,12 @@ export class PolymarketPositionManager {
     });
   }
 
+  async getPendingResolutionPositions() {
+    return PolymarketPositionModel.find({ status: "pending_resolution" }).sort({
+      marketEndTime: 1,
+    });
+  }
+
   async getPositionsByAsset(asset: PolymarketAsset) {
     return PolymarketPositionModel.find({
       asset,
@@ -284,6 +409,7 @@ export class PolymarketPositionManager {
 
   async getStats(): Promise<{
     openCount: number;
+    pendingResolutionCount: number;
     totalExposure: number;
     resolvedCount: number;
     totalPnl: number;
@@ -292,11 +418,14 @@ export class PolymarketPositionManager {
     const openPositions = await PolymarketPositionModel.find({
       status: "open",
     });
+    const pendingPositions = await PolymarketPositionModel.find({
+      status: "pending_resolution",
+    });
     const resolvedPositions = await PolymarketPositionModel.find({
       status: { $in: ["closed", "resolved"] },
     });
 
-    const totalExposure = openPositions.reduce(
+    const totalExposure = [...openPositions, ...pendingPositions].reduce(
       (sum, p) => sum + p.size,
       0
     );
@@ -310,6 +439,7 @@ export class PolymarketPositionManager {
 
     return {
       openCount: openPositions.length,
+      pendingResolutionCount: pendingPositions.length,
       totalExposure,
       resolvedCount: resolvedPositions.length,
       totalPnl,
@@ -320,3 +450,15 @@ export class PolymarketPositionManager {
     };
   }
 }
+
+/** Gamma encodes list fields as JSON strings; accept arrays as-is */
+function parseList(value: unknown): string[] {
+  if (Array.isArray(value)) return value.map(String);
+  if (typeof value !== "string") return [];
+  try {
+    const parsed = JSON.parse(value);
+    return Array.isArray(parsed) ? parsed.map(String) : [];
+  } catch {
+    return [];
+  }
+}
@@ -0,0 +1,92 @@
+import { ethers } from "ethers";
+import { logger } from "../utils/logger";
+
+const log = logger.child("Redeemer");
+
+// Polygon mainnet
+const CONDITIONAL_TOKENS = "0x4D97DCd97eC945f40cF65F87097ACe5EA0476045";
+const NEG_RISK_ADAPTER = "0xd91E80cF2E7be2e162c6513ceD06f1dD0dA35296";
+const USDC_E = "0x2791Bca1f2de4661ED88A30C99A7a9449Aa84174";
+const TOKEN_DECIMALS = 6;
+const BINARY_INDEX_SETS = [1, 2]; // outcome slots 0 (YES/Up) and 1 (NO/Down)
+
+const CTF_ABI = [
+  "function payoutDenominator(bytes32 conditionId) view returns (uint256)",
+  "function redeemPositions(address collateralToken, bytes32 parentCollectionId, bytes32 conditionId, uint256[] indexSets)",
+];
+const NEG_RISK_ADAPTER_ABI = [
+  "function redeemPositions(bytes32 conditionId, uint256[] amounts)",
+];
+
+export interface PolymarketRedeemerOptions {
+  confirmations?: number; // default 1
+}
+
+/**
+ * Redeems resolved outcome tokens for USDC on-chain.
+ *
+ * Standard markets redeem through the Conditional Tokens contract, which
+ * pays out the wallet's whole balance for the condition; neg-risk markets
+ * go through the NegRiskAdapter with explicit amounts. Tokens must be held
+ * by the signing key itself (EOA signature type) — proxy and Safe wallets
+ * redeem through their own contracts.
+ */
+export class PolymarketRedeemer {
+  private wallet: ethers.Wallet;
+  private ctf: ethers.Contract;
+  private negRiskAdapter: ethers.Contract;
+  private confirmations: number;
+
+  constructor(privateKey: string, rpcUrl: string, options: PolymarketRedeemerOptions = {}) {
+    const provider = new ethers.JsonRpcProvider(rpcUrl);
+    this.wallet = new ethers.Wallet(privateKey, provider);
+    this.ctf = new ethers.Contract(CONDITIONAL_TOKENS, CTF_ABI, this.wallet);
+    this.negRiskAdapter = new ethers.Contract(NEG_RISK_ADAPTER, NEG_RISK_ADAPTER_ABI, this.wallet);
+    this.confirmations = options.confirmations ?? 1;
+  }
+
+  /**
+   * True once the oracle has reported payouts for the condition on-chain,
+   * which can lag the market closing by a few hours.
+   */
+  async isRedeemable(conditionId: string): Promise<boolean> {
+    const denominator: bigint = await this.ctf.payoutDenominator(conditionId);
+    return denominator > 0n;
+  }
+
+  /**
+   * Redeem a condition's tokens. `shares` are the YES/NO balances to
+   * redeem (used by neg-risk markets only). Returns the transaction hash,
+   * or null if the condition isn't redeemable yet; throws if the
+   * transaction fails.
+   */
+  async redeem(
+    conditionId: string,
+    negRisk: boolean,
+    shares: { yes: number; no: number }
+  ): Promise<string | null> {
+    if (!(await this.isRedeemable(conditionId))) return null;
+
+    const tx = negRisk
+      ? await this.negRiskAdapter.redeemPositions(conditionId, [
+          toBaseUnits(shares.yes),
+          toBaseUnits(shares.no),
+        ])
+      : await this.ctf.redeemPositions(USDC_E, ethers.ZeroHash, conditionId, BINARY_INDEX_SETS);
+
+    log.info(`Redeeming ${conditionId.slice(0, 10)}... | tx ${tx.hash}`);
+    const receipt = await tx.wait(this.confirmations);
+    if (!receipt || receipt.status !== 1) {
+      throw new Error(`Redemption transaction ${tx.hash} reverted`);
+    }
+    return tx.hash;
+  }
+
+  getAddress(): string {
+    return this.wallet.address;
+  }
+}
+
+function toBaseUnits(shares: number): bigint {
+  return BigInt(Math.floor(shares * 10 ** TOKEN_DECIMALS));
+}
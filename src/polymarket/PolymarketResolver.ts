@@ -0,0 +1,101 @@
+import { PolymarketClient } from "./PolymarketClient";
+import { PriceFeedService } from "./PriceFeedService";
+import { PolymarketPositionManager } from "./PolymarketPositionManager";
+import {
+  PolymarketAsset,
+  PolymarketOutcome,
+  IPolymarketResolution,
+} from "../types/polymarket.types";
+import { logger } from "../utils/logger";
+
+const log = logger.child("Resolver");
+
+export interface PolymarketResolverOptions {
+  /** Outcome price that counts as settled when the market has no explicit result (default 0.99) */
+  settledPrice?: number;
+  /** Relative underlying move below which the price feed can't call the outcome (default 0.0002) */
+  minPriceMove?: number;
+}
+
+/**
+ * Works out how an expired Up/Down market settled.
+ *
+ * Only the market's own resolution is trusted for P&L: an explicit
+ * outcome, or a closed market whose outcome prices have settled at 1/0.
+ * The underlying's move over the window (Binance, via PriceFeedService)
+ * is fetched alongside as a cross-check: disagreements are flagged, never
+ * booked on their own. Until the market settles, resolve() returns null
+ * and the caller retries later.
+ */
+export class PolymarketResolver {
+  private client: PolymarketClient;
+  private priceFeed: PriceFeedService;
+  private options: Required<PolymarketResolverOptions>;
+
+  constructor(
+    client: PolymarketClient,
+    priceFeed: PriceFeedService,
+    options: PolymarketResolverOptions = {}
+  ) {
+    this.client = client;
+    this.priceFeed = priceFeed;
+    this.options = {
+      settledPrice: options.settledPrice ?? 0.99,
+      minPriceMove: options.minPriceMove ?? 0.0002,
+    };
+  }
+
+  async resolve(position: {
+    conditionId: string;
+    asset: string;
+    marketStartTime: Date;
+    marketEndTime: Date;
+  }): Promise<IPolymarketResolution | null> {
+    const [marketData, window] = await Promise.all([
+      this.client.getMarket(position.conditionId),
+      this.priceFeed.getWindowPrices(
+        position.asset as PolymarketAsset,
+        position.marketStartTime,
+        position.marketEndTime
+      ),
+    ]);
+
+    const outcome = this.marketOutcome(marketData);
+    if (!outcome) return null;
+
+    const priceOutcome = window ? this.priceOutcome(window.startPrice, window.endPrice) : null;
+    const mismatch = priceOutcome !== null && priceOutcome !== outcome;
+    if (mismatch) {
+      log.warning(
+        `${position.asset} ${position.conditionId.slice(0, 10)}... resolved ${outcome} but ` +
+        `${window!.startPrice} → ${window!.endPrice} says ${priceOutcome}`
+      );
+    }
+
+    return {
+      outcome,
+      priceOutcome,
+      startPrice: window?.startPrice ?? null,
+      endPrice: window?.endPrice ?? null,
+      mismatch,
+    };
+  }
+
+  /** The market's settled outcome, or null while it is still open or undecided */
+  private marketOutcome(marketData: any): PolymarketOutcome | null {
+    if (!marketData) return null;
+    const settled =
+      marketData.closed ||
+      marketData.resolved ||
+      String(marketData.umaResolutionStatus || "").toLowerCase() === "resolved";
+    if (!settled) return null;
+    return PolymarketPositionManager.determineOutcome(marketData, this.options.settledPrice);
+  }
+
+  /** Up/Down markets resolve Up when the end price is at or above the start */
+  private priceOutcome(startPrice: number, endPrice: number): PolymarketOutcome | null {
+    if (!(startPrice > 0)) return null;
+    if (Math.abs(endPrice - startPrice) / startPrice < this.options.minPriceMove) return null;
+    return endPrice >= startPrice ? "UP" : "DOWN";
+  }
+}
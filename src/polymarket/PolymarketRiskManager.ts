@@ -1,28 +1,21 @@
 import {
   IPolymarketRiskCheck,
+  IPolymarketRiskLimits,
   PolymarketAsset,
+  PolymarketDirection,
   PolymarketInterval,
 } from "../types/polymarket.types";
 import { PolymarketClient } from "./PolymarketClient";
 import { MarketDiscoveryService } from "./MarketDiscoveryService";
+import { PriceFeedService } from "./PriceFeedService";
+import { binaryEdge } from "../quant/pricing/BinaryOptionPricer";
 import { PolymarketPositionModel } from "../models/PolymarketPosition";
 import { logger } from "../utils/logger";
+import { riskDenials } from "../utils/metrics";
 
-interface RiskLimits {
-  maxPositionUSDC: number;
-  maxTotalExposure: number;
-  maxPositionsPerAsset: number;
-  maxConcurrentPositions: number;
-  minLiquidity: number;
-  maxSpread: number;
-  minTimeToResolution: number; // seconds
-  maxTimeToResolution: number; // seconds
-  minConfidenceScore: number;
-  maxDailyLoss: number;
-  cooldownAfterLossMs: number;
-}
+const log = logger.child("PolymarketRisk");
 
-const DEFAULT_LIMITS: RiskLimits = {
+const DEFAULT_LIMITS: IPolymarketRiskLimits = {
   maxPositionUSDC: 50,
   maxTotalExposure: 200,
   maxPositionsPerAsset: 2,
@@ -32,18 +25,20 @@ const DEFAULT_LIMITS: RiskLimits = {
   minTimeToResolution: 30, // at least 30s left
   maxTimeToResolution: 900, // 15 minutes max
   minConfidenceScore: 0.60,
+  minFairValueEdge: 0.02,
   maxDailyLoss: 100,
   cooldownAfterLossMs: 60_000,
 };
 
 /**
  * Risk gating for Polymarket trades.
- * Checks liquidity, spread, exposure, timing, and daily P&L limits.
+ * Checks liquidity, spread, fair value, exposure, timing, and daily P&L limits.
  */
 export class PolymarketRiskManager {
   private client: PolymarketClient;
   private discovery: MarketDiscoveryService;
-  private limits: RiskLimits;
+  private priceFeed: PriceFeedService | null;
+  private limits: IPolymarketRiskLimits;
   private dailyPnl: number = 0;
   private lastLossTime: number = 0;
   private dailyResetTime: number = 0;
@@ -51,33 +46,39 @@ export class PolymarketRiskManager {
   constructor(
     client: PolymarketClient,
     discovery: MarketDiscoveryService,
-    limits?: Partial<RiskLimits>
+    limits?: Partial<IPolymarketRiskLimits>,
+    priceFeed?: PriceFeedService
   ) {
     this.client = client;
     this.discovery = discovery;
+    this.priceFeed = priceFeed || null;
     this.limits = { ...DEFAULT_LIMITS, ...limits };
     this.dailyResetTime = this.getNextMidnight();
   }
 
   /**
-   * Evaluate whether a trade should be allowed.
+   * Evaluate whether a trade should be allowed. With a direction (and a
+   * price feed to price the window), the side's quoted price must also
+   * sit minFairValueEdge under the low end of its fair value.
    */
   async checkRisk(
     asset: PolymarketAsset,
     interval: PolymarketInterval,
     compositeScore: number,
-    requestedSize: number
+    requestedSize: number,
+    direction?: PolymarketDirection
   ): Promise<IPolymarketRiskCheck> {
     this.resetDailyIfNeeded();
 
     const market = this.discovery.getCurrentMarket(asset, interval);
     if (!market) {
-      return this.deny("No active market found", 0, 0, 0, 0);
+      return this.deny("no_market", "No active market found", 0, 0, 0, 0);
     }
 
     // 1. Confidence threshold
     if (compositeScore < this.limits.minConfidenceScore) {
       return this.deny(
+        "confidence",
         `Score ${compositeScore.toFixed(2)} below threshold ${this.limits.minConfidenceScore}`,
         0, 0, 0, 0
       );
@@ -87,12 +88,14 @@ export class PolymarketRiskManager {
     const timeToResolution = (market.endTime.getTime() - Date.now()) / 1000;
     if (timeToResolution < this.limits.minTimeToResolution) {
       return this.deny(
+        "time_to_resolution",
         `Only ${timeToResolution.toFixed(0)}s to resolution (min ${this.limits.minTimeToResolution}s)`,
         0, 0, timeToResolution, 0
       );
     }
     if (timeToResolution > this.limits.maxTimeToResolution) {
       return this.deny(
+        "time_to_resolution",
         `${timeToResolution.toFixed(0)}s to resolution exceeds max ${this.limits.maxTimeToResolution}s`,
         0, 0, timeToResolution, 0
       );
@@ -102,6 +105,7 @@ export class PolymarketRiskManager {
     const liquidity = market.liquidity;
     if (liquidity < this.limits.minLiquidity) {
       return this.deny(
+        "liquidity",
         `Liquidity $${liquidity.toFixed(0)} below minimum $${this.limits.minLiquidity}`,
         liquidity, 0, timeToResolution, 0
       );
@@ -115,14 +119,30 @@ export class PolymarketRiskManager {
     }
     if (spread > this.limits.maxSpread) {
       return this.deny(
+        "spread",
         `Spread ${(spread * 100).toFixed(1)}% exceeds max ${(this.limits.maxSpread * 100).toFixed(1)}%`,
         liquidity, spread, timeToResolution, 0
       );
     }
 
-    // 5. Current exposure check
+    // 5. Fair value check — skipped until the window can be priced
+    const fair = direction && this.priceFeed ? this.priceFeed.getFairValue(market) : null;
+    if (direction && fair) {
+      const price = direction === "YES" ? market.yesPrice : market.noPrice;
+      const { conservative } = binaryEdge(fair, direction, price);
+      if (conservative < this.limits.minFairValueEdge) {
+        return this.deny(
+          "fair_value",
+          `${direction} @ ${price.toFixed(3)} has ${(conservative * 100).toFixed(1)}% conservative edge ` +
+            `(min ${(this.limits.minFairValueEdge * 100).toFixed(1)}%)`,
+          liquidity, spread, timeToResolution, 0
+        );
+      }
+    }
+
+    // 6. Current exposure check (capital stays tied up until resolution)
     const openPositions = await PolymarketPositionModel.find({
-      status: "open",
+      status: { $in: ["open", "pending_resolution"] },
     });
     const currentExposure = openPositions.reduce(
       (sum, p) => sum + p.size,
@@ -131,37 +151,41 @@ export class PolymarketRiskManager {
 
     if (currentExposure + requestedSize > this.limits.maxTotalExposure) {
       return this.deny(
+        "total_exposure",
         `Total exposure $${(currentExposure + requestedSize).toFixed(0)} exceeds max $${this.limits.maxTotalExposure}`,
         liquidity, spread, timeToResolution, currentExposure
       );
     }
 
-    // 6. Max concurrent positions
+    // 7. Max concurrent positions
     if (openPositions.length >= this.limits.maxConcurrentPositions) {
       return this.deny(
+        "concurrent_positions",
         `${openPositions.length} open positions (max ${this.limits.maxConcurrentPositions})`,
         liquidity, spread, timeToResolution, currentExposure
       );
     }
 
-    // 7. Per-asset position limit
+    // 8. Per-asset position limit
     const assetPositions = openPositions.filter((p) => p.asset === asset);
     if (assetPositions.length >= this.limits.maxPositionsPerAsset) {
       return this.deny(
+        "asset_positions",
         `${assetPositions.length} ${asset} positions (max ${this.limits.maxPositionsPerAsset})`,
         liquidity, spread, timeToResolution, currentExposure
       );
     }
 
-    // 8. Daily loss limit
+    // 9. Daily loss limit
     if (this.dailyPnl < -this.limits.maxDailyLoss) {
       return this.deny(
+        "daily_loss",
         `Daily loss $${Math.abs(this.dailyPnl).toFixed(0)} exceeds max $${this.limits.maxDailyLoss}`,
         liquidity, spread, timeToResolution, currentExposure
       );
     }
 
-    // 9. Cooldown after loss
+    // 10. Cooldown after loss
     if (
       this.lastLossTime > 0 &&
       Date.now() - this.lastLossTime < this.limits.cooldownAfterLossMs
@@ -171,6 +195,7 @@ export class PolymarketRiskManager {
         1000
       ).toFixed(0);
       return this.deny(
+        "loss_cooldown",
         `Loss cooldown: ${remaining}s remaining`,
         liquidity, spread, timeToResolution, currentExposure
       );
@@ -212,6 +237,16 @@ export class PolymarketRiskManager {
     return Math.max(1, Math.round(sized * 100) / 100);
   }
 
+  getLimits(): IPolymarketRiskLimits {
+    return { ...this.limits };
+  }
+
+  updateLimits(patch: Partial<IPolymarketRiskLimits>): IPolymarketRiskLimits {
+    this.limits = { ...this.limits, ...patch };
+    log.warning(`Limits updated: ${JSON.stringify(patch)}`);
+    return this.getLimits();
+  }
+
   /**
    * Record trade result for daily P&L tracking.
    */
@@ -220,7 +255,7 @@ export class PolymarketRiskManager {
     if (pnl < 0) {
       this.lastLossTime = Date.now();
     }
-    logger.info(
+    log.info(
       `Risk Manager: daily P&L = $${this.dailyPnl.toFixed(2)}`
     );
   }
@@ -230,13 +265,15 @@ export class PolymarketRiskManager {
   }
 
   private deny(
+    check: string,
     reason: string,
     liquidity: number,
     spread: number,
     timeToResolution: number,
     currentExposure: number
   ): IPolymarketRiskCheck {
-    logger.warning(`Risk denied: ${reason}`);
+    log.warning(`Risk denied: ${reason}`);
+    riskDenials.inc({ manager: "polymarket", reason: check });
     return {
       allowed: false,
       reason,
@@ -251,7 +288,7 @@ export class PolymarketRiskManager {
 
   private resetDailyIfNeeded(): void {
     if (Date.now() >= this.dailyResetTime) {
-      logger.info(
+      log.info(
         `Daily risk reset: previous P&L = $${this.dailyPnl.toFixed(2)}`
       );
       this.dailyPnl = 0;
@@ -1,6 +1,8 @@
 import axios from "axios";
 import { IOHLCV } from "../types/market.types";
-import { PolymarketAsset } from "../types/polymarket.types";
+import { IPolymarketMarket, PolymarketAsset } from "../types/polymarket.types";
+import { IBinaryFairValue, IVolatilityEstimate } from "../types/pricing.types";
+import { RealizedVolatility, priceBinaryOption } from "../quant/pricing/BinaryOptionPricer";
 import { logger } from "../utils/logger";
 
 const BINANCE_BASE = "https://api.binance.com/api/v3";
@@ -199,6 +201,88 @@ export class PriceFeedService {
     return this.latestPrices.get(asset) || null;
   }
 
+  /**
+   * Underlying price at a past moment: the open of the 1-minute Binance
+   * candle starting then. Null if that candle doesn't exist yet or the
+   * request fails.
+   */
+  async getPriceAt(asset: PolymarketAsset, time: Date): Promise<number | null> {
+    const startTime = Math.floor(time.getTime() / 60000) * 60000;
+    try {
+      const response = await axios.get(`${BINANCE_BASE}/klines`, {
+        params: { symbol: BINANCE_SYMBOLS[asset], interval: "1m", startTime, limit: 1 },
+      });
+      const kline = response.data?.[0];
+      if (!kline || kline[0] !== startTime) return null;
+      return parseFloat(kline[1]);
+    } catch (err) {
+      logger.error(`Failed to fetch ${asset} price at ${time.toISOString()}:`, err);
+      return null;
+    }
+  }
+
+  /**
+   * Underlying prices at the start and end of a market window.
+   */
+  async getWindowPrices(
+    asset: PolymarketAsset,
+    start: Date,
+    end: Date
+  ): Promise<{ startPrice: number; endPrice: number } | null> {
+    const [startPrice, endPrice] = await Promise.all([
+      this.getPriceAt(asset, start),
+      this.getPriceAt(asset, end),
+    ]);
+    if (startPrice === null || endPrice === null) return null;
+    return { startPrice, endPrice };
+  }
+
+  /**
+   * Open of the 1-minute candle a market window started in — the price
+   * an Up/Down window resolves against. Null until that candle exists.
+   */
+  getWindowOpenPrice(asset: PolymarketAsset, startTime: Date): number | null {
+    const startTs = Math.floor(startTime.getTime() / 60000) * 60000;
+    const candle = (this.candles.get(asset) || []).find(
+      (c) => c.timestamp.getTime() === startTs
+    );
+    return candle ? candle.open : null;
+  }
+
+  /**
+   * Realized volatility of 1-minute closes over the last hour. Null
+   * until 20 candles have been collected.
+   */
+  getVolatility(asset: PolymarketAsset): IVolatilityEstimate | null {
+    const vol = new RealizedVolatility({
+      sampleIntervalMs: 60_000,
+      windowMs: 60 * 60_000,
+      minSamples: 20,
+    });
+    for (const candle of this.getCandles(asset, 61)) {
+      vol.push(candle.close, candle.timestamp.getTime());
+    }
+    return vol.estimate();
+  }
+
+  /**
+   * Fair YES/NO value of a market window at the latest price (see
+   * BinaryOptionPricer). Null without an open price, spot or volatility.
+   */
+  getFairValue(market: IPolymarketMarket): IBinaryFairValue | null {
+    const openPrice = this.getWindowOpenPrice(market.asset, market.startTime);
+    const spot = this.getLatestPrice(market.asset);
+    const volatility = this.getVolatility(market.asset);
+    if (openPrice === null || spot === null || !volatility) return null;
+
+    return priceBinaryOption({
+      openPrice,
+      spot,
+      timeRemainingMs: market.endTime.getTime() - Date.now(),
+      volatility,
+    });
+  }
+
   /**
    * Get all tracked assets.
    */
@@ -0,0 +1,144 @@
+import { IBar } from "./BacktestEngine";
+import { IOHLCV } from "../../types/market.types";
+import { PolymarketAsset } from "../../types/polymarket.types";
+import { PriceFeedService } from "../../polymarket/PriceFeedService";
+import { MarketDataService } from "../../services/MarketDataService";
+
+// ============================================================================
+// BAR-FED DATA SOURCES
+// ============================================================================
+//
+// Drop-in replacements for the live candle sources, fed one historical bar
+// at a time by the StrategyBacktestAdapter. Strategies only ever see bars
+// pushed so far, so the lookahead barrier of BacktestEngine carries over to
+// strategies that read candles themselves.
+
+const INTERVAL_UNITS_MS: Record<string, number> = {
+  s: 1000,
+  m: 60_000,
+  h: 3_600_000,
+  d: 86_400_000,
+};
+
+function toCandle(bar: IBar): IOHLCV {
+  return {
+    timestamp: new Date(bar.timestamp),
+    open: bar.open,
+    high: bar.high,
+    low: bar.low,
+    close: bar.close,
+    volume: bar.volume,
+  };
+}
+
+/** "1m" → 60000, "5m" → 300000; null if unparseable */
+function intervalToMs(interval: string): number | null {
+  const match = /^(\d+)([smhd])$/.exec(interval);
+  if (!match) return null;
+  return parseInt(match[1], 10) * INTERVAL_UNITS_MS[match[2]];
+}
+
+/**
+ * Roll bars up into candles of `intervalMs`. The last candle may be
+ * partial — it only contains bars pushed so far, as it would live.
+ */
+function resample(bars: IBar[], intervalMs: number): IOHLCV[] {
+  const candles: IOHLCV[] = [];
+  let bucketStart = -1;
+
+  for (const bar of bars) {
+    const bucket = Math.floor(bar.timestamp / intervalMs) * intervalMs;
+    const last = candles[candles.length - 1];
+    if (last && bucket === bucketStart) {
+      last.high = Math.max(last.high, bar.high);
+      last.low = Math.min(last.low, bar.low);
+      last.close = bar.close;
+      last.volume += bar.volume;
+    } else {
+      bucketStart = bucket;
+      candles.push({ ...toCandle(bar), timestamp: new Date(bucket) });
+    }
+  }
+  return candles;
+}
+
+/**
+ * PriceFeedService backed by historical bars, for the Polymarket strategies.
+ * Bar `instrument` is the asset (BTC/ETH/XRP). No network access.
+ */
+export class BacktestPriceFeed extends PriceFeedService {
+  private history: Map<string, IOHLCV[]> = new Map();
+
+  async initialize(): Promise<void> {}
+
+  async shutdown(): Promise<void> {}
+
+  pushBar(bar: IBar): void {
+    const candles = this.history.get(bar.instrument) || [];
+    candles.push(toCandle(bar));
+    this.history.set(bar.instrument, candles);
+  }
+
+  getCandles(asset: PolymarketAsset, limit: number = 50): IOHLCV[] {
+    return (this.history.get(asset) || []).slice(-limit);
+  }
+
+  getLatestPrice(asset: PolymarketAsset): number | null {
+    const candles = this.history.get(asset);
+    return candles && candles.length > 0 ? candles[candles.length - 1].close : null;
+  }
+
+  hasEnoughData(asset: PolymarketAsset, minCandles: number = 26): boolean {
+    return (this.history.get(asset) || []).length >= minCandles;
+  }
+}
+
+/**
+ * MarketDataService backed by historical bars, for the registry strategies.
+ * Bar `instrument` is the token address. Candles requested at a coarser
+ * interval than the bars are resampled on the fly.
+ */
+export class BacktestMarketData extends MarketDataService {
+  private history: Map<string, IBar[]> = new Map();
+
+  async initialize(): Promise<void> {}
+
+  async shutdown(): Promise<void> {}
+
+  pushBar(bar: IBar): void {
+    const bars = this.history.get(bar.instrument) || [];
+    bars.push(bar);
+    this.history.set(bar.instrument, bars);
+  }
+
+  async getCandles(
+    tokenAddress: string,
+    interval: string = "1m",
+    limit: number = 50
+  ): Promise<IOHLCV[]> {
+    const bars = this.history.get(tokenAddress) || [];
+    const intervalMs = intervalToMs(interval);
+    const barSpacing =
+      bars.length >= 2 ? bars[bars.length - 1].timestamp - bars[bars.length - 2].timestamp : 0;
+
+    const candles =
+      intervalMs && intervalMs > barSpacing
+        ? resample(bars, intervalMs)
+        : bars.map(toCandle);
+    return candles.slice(-limit);
+  }
+
+  async getLatestPrice(tokenAddress: string): Promise<number | null> {
+    const bars = this.history.get(tokenAddress);
+    return bars && bars.length > 0 ? bars[bars.length - 1].close : null;
+  }
+
+  /** Bars carry no market cap, so every backtested token passes the filter */
+  async filterByMcap(tokens: string[]): Promise<string[]> {
+    return tokens;
+  }
+
+  getTrackedTokens(): string[] {
+    return Array.from(this.history.keys());
+  }
+}
@@ -0,0 +1,502 @@
+/**
+ * ============================================================================
+ * BINARY-OUTCOME BACKTEST — POLYMARKET UP/DOWN MARKETS
+ * ============================================================================
+ *
+ * BacktestEngine models linear price P&L. Up/Down markets are different:
+ * a share costs p ∈ (0, 1) and settles at $1 or $0 when the window ends.
+ *
+ * MODEL:
+ * 1. Each market window is replayed snapshot by snapshot (YES + NO books)
+ * 2. The decision function sees the books, the underlying price series up
+ *    to now, and its open position — never anything later
+ * 3. Buys walk the ask side, early exits walk the bid side, taker fee on
+ *    every fill's notional
+ * 4. Open positions settle at window end through
+ *    PolymarketPositionManager.determineOutcome — the live settlement rules
+ *
+ * REPORT: P&L, hit rate, average entry price, edge captured (realized
+ * payoff − entry price, i.e. vs the market's implied probability) and a
+ * calibration table of predicted vs realized win rates.
+ *
+ * ============================================================================
+ */
+
+import { IBar } from "./BacktestEngine";
+import { PolymarketPositionManager } from "../../polymarket/PolymarketPositionManager";
+import { IUnifiedOrderbook, IUnifiedBookLevel } from "../../types/exchange.types";
+import {
+  PolymarketAsset,
+  PolymarketInterval,
+  PolymarketDirection,
+  PolymarketOutcome,
+} from "../../types/polymarket.types";
+import { ReplayEvent } from "../../types/replay.types";
+import { mean } from "../../utils/mathUtils";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface IBinaryBookSnapshot {
+  timestamp: number;
+  yes: IUnifiedOrderbook;
+  no: IUnifiedOrderbook;
+}
+
+export interface IBinaryMarketWindow {
+  conditionId: string;       // market id or slug
+  asset: PolymarketAsset;
+  interval: PolymarketInterval;
+  startTime: number;         // Unix ms
+  endTime: number;
+  books: IBinaryBookSnapshot[];
+  resolution?: string;       // recorded outcome ("Up"/"Down"/"Yes"/"No"), if known
+}
+
+export interface IBinaryPosition {
+  direction: PolymarketDirection;
+  shares: number;
+  cost: number;              // USDC paid incl. fees
+  avgPrice: number;          // per share, excl. fees
+  entryTime: number;
+  predictedProbability: number;
+}
+
+export interface IBinaryDecisionContext {
+  market: IBinaryMarketWindow;
+  snapshot: IBinaryBookSnapshot;
+  underlying: IBar[];        // asset bars up to the snapshot time
+  position: IBinaryPosition | null;
+  timeRemainingMs: number;
+}
+
+export interface IBinaryDecision {
+  action: "BUY_YES" | "BUY_NO" | "SELL" | "HOLD";
+  size?: number;             // USDC to spend on a buy
+  probability?: number;      // model's win probability for the side bought
+}
+
+export type BinarySignalFunction = (ctx: IBinaryDecisionContext) => IBinaryDecision;
+
+export interface IBinaryCosts {
+  takerFeeBps: number;       // on fill notional
+}
+
+export const DEFAULT_BINARY_COSTS: IBinaryCosts = {
+  takerFeeBps: 100,          // conservative flat taker fee; 0 for fee-free markets
+};
+
+export interface IBinaryTrade {
+  id: number;
+  conditionId: string;
+  asset: PolymarketAsset;
+  interval: PolymarketInterval;
+  direction: PolymarketDirection;
+  entryTime: number;
+  exitTime: number;
+  entryPrice: number;        // avg per share, excl. fees = implied probability
+  exitPrice: number;         // 1 / 0 on settlement, avg bid on early exit
+  shares: number;
+  cost: number;
+  fees: number;
+  pnl: number;
+  predictedProbability: number;
+  settled: boolean;          // false = exited before window end
+  outcome?: PolymarketOutcome;
+  won?: boolean;
+}
+
+export interface ICalibrationBucket {
+  lower: number;
+  upper: number;
+  count: number;
+  avgPredicted: number;
+  realizedWinRate: number;
+}
+
+export interface IBinaryBacktestResult {
+  initialCapital: number;
+  finalCapital: number;
+  totalPnl: number;
+  totalReturn: number;
+  totalFees: number;
+
+  totalTrades: number;
+  settledTrades: number;
+  hitRate: number;              // wins / settled trades
+  avgEntryPrice: number;
+  avgImpliedProbability: number;
+  avgPredictedProbability: number;
+  edgeCaptured: number;         // mean(payoff − entry price) over settled trades
+  expectedEdge: number;         // mean(predicted − entry price) over all trades
+  brierScore: number;           // mean((predicted − won)²) over settled trades
+
+  calibration: ICalibrationBucket[];
+  trades: IBinaryTrade[];
+  unfilledOrders: number;       // funded buys that found no ask liquidity
+  unsettledWindows: number;     // held to a window end with no resolution; stake returned, no trade
+}
+
+// ============================================================================
+// ENGINE
+// ============================================================================
+
+export class BinaryOutcomeBacktest {
+  private windows: IBinaryMarketWindow[];
+  private underlying: Map<string, IBar[]> = new Map();
+  private initialCapital: number;
+  private costs: IBinaryCosts;
+  private defaultSize: number;
+
+  constructor(
+    windows: IBinaryMarketWindow[],
+    underlying: IBar[],
+    initialCapital = 100,
+    costs: IBinaryCosts = DEFAULT_BINARY_COSTS,
+    defaultSize = 25
+  ) {
+    this.windows = [...windows].sort((a, b) => a.startTime - b.startTime);
+    for (const bar of [...underlying].sort((a, b) => a.timestamp - b.timestamp)) {
+      const bars = this.underlying.get(bar.instrument) || [];
+      bars.push(bar);
+      this.underlying.set(bar.instrument, bars);
+    }
+    this.initialCapital = initialCapital;
+    this.costs = costs;
+    this.defaultSize = defaultSize;
+  }
+
+  /**
+   * Replay every window in start-time order. Capital carries across
+   * windows; overlapping windows are processed one after another, so they
+   * do not compete for the same capital.
+   */
+  run(signalFn: BinarySignalFunction): IBinaryBacktestResult {
+    const trades: IBinaryTrade[] = [];
+    let cash = this.initialCapital;
+    let unfilledOrders = 0;
+    let unsettledWindows = 0;
+
+    for (const market of this.windows) {
+      const books = market.books
+        .filter((b) => b.timestamp >= market.startTime && b.timestamp < market.endTime)
+        .sort((a, b) => a.timestamp - b.timestamp);
+      const assetBars = this.underlying.get(market.asset) || [];
+
+      let position: IBinaryPosition | null = null;
+      let barIdx = 0;
+
+      for (const snapshot of books) {
+        // STRICT TEMPORAL BARRIER: underlying only up to this snapshot
+        while (barIdx < assetBars.length && assetBars[barIdx].timestamp <= snapshot.timestamp) {
+          barIdx++;
+        }
+
+        const decision = signalFn({
+          market,
+          snapshot,
+          underlying: assetBars.slice(0, barIdx),
+          position: position ? { ...position } : null,
+          timeRemainingMs: market.endTime - snapshot.timestamp,
+        });
+
+        if ((decision.action === "BUY_YES" || decision.action === "BUY_NO") && !position) {
+          const direction: PolymarketDirection = decision.action === "BUY_YES" ? "YES" : "NO";
+          const book = direction === "YES" ? snapshot.yes : snapshot.no;
+          const budget = Math.min(decision.size ?? this.defaultSize, cash);
+          if (budget <= 0) continue;
+          const fill = this.fillBuy(book.asks, budget);
+          if (!fill) {
+            unfilledOrders++;
+            continue;
+          }
+
+          cash -= fill.notional + fill.fee;
+          position = {
+            direction,
+            shares: fill.shares,
+            cost: fill.notional + fill.fee,
+            avgPrice: fill.notional / fill.shares,
+            entryTime: snapshot.timestamp,
+            predictedProbability: decision.probability ?? fill.notional / fill.shares,
+          };
+        } else if (decision.action === "SELL" && position) {
+          const book = position.direction === "YES" ? snapshot.yes : snapshot.no;
+          const fill = this.fillSell(book.bids, position.shares);
+          if (!fill) continue;
+
+          // Bids too thin for the whole position: exit what fills, hold the rest
+          const soldFraction = fill.shares / position.shares;
+          const costSold = position.cost * soldFraction;
+          const proceeds = fill.notional - fill.fee;
+          cash += proceeds;
+
+          trades.push({
+            id: trades.length,
+            conditionId: market.conditionId,
+            asset: market.asset,
+            interval: market.interval,
+            direction: position.direction,
+            entryTime: position.entryTime,
+            exitTime: snapshot.timestamp,
+            entryPrice: position.avgPrice,
+            exitPrice: fill.notional / fill.shares,
+            shares: fill.shares,
+            cost: costSold,
+            fees: position.cost * soldFraction - position.avgPrice * fill.shares + fill.fee,
+            pnl: proceeds - costSold,
+            predictedProbability: position.predictedProbability,
+            settled: false,
+          });
+
+          if (fill.shares >= position.shares - 1e-9) {
+            position = null;
+          } else {
+            position.shares -= fill.shares;
+            position.cost -= costSold;
+          }
+        }
+      }
+
+      if (position) {
+        const outcome = this.settle(market, books, assetBars);
+        if (!outcome) {
+          cash += position.cost;
+          unsettledWindows++;
+          continue;
+        }
+        const won = PolymarketPositionManager.didPositionWin(position.direction, outcome);
+        const payout = won ? position.shares * 1.0 : 0;
+        cash += payout;
+
+        trades.push({
+          id: trades.length,
+          conditionId: market.conditionId,
+          asset: market.asset,
+          interval: market.interval,
+          direction: position.direction,
+          entryTime: position.entryTime,
+          exitTime: market.endTime,
+          entryPrice: position.avgPrice,
+          exitPrice: won ? 1 : 0,
+          shares: position.shares,
+          cost: position.cost,
+          fees: position.cost - position.avgPrice * position.shares,
+          pnl: payout - position.cost,
+          predictedProbability: position.predictedProbability,
+          settled: true,
+          outcome,
+          won,
+        });
+      }
+    }
+
+    return this.calculateMetrics(trades, cash, unfilledOrders, unsettledWindows);
+  }
+
+  // ==================== FILLS ====================
+
+  /** Walk asks (cheapest first) spending up to `budget` incl. fees */
+  private fillBuy(
+    asks: IUnifiedBookLevel[],
+    budget: number
+  ): { shares: number; notional: number; fee: number } | null {
+    const feeRate = this.costs.takerFeeBps / 10000;
+    let remaining = budget / (1 + feeRate);
+    let shares = 0;
+    let notional = 0;
+
+    for (const level of [...asks].sort((a, b) => a.price - b.price)) {
+      if (remaining <= 0) break;
+      if (level.price <= 0 || level.price >= 1 || level.size <= 0) continue;
+      const take = Math.min(level.size, remaining / level.price);
+      shares += take;
+      notional += take * level.price;
+      remaining -= take * level.price;
+    }
+
+    if (shares <= 0) return null;
+    return { shares, notional, fee: notional * feeRate };
+  }
+
+  /** Walk bids (best first) selling up to `shares` */
+  private fillSell(
+    bids: IUnifiedBookLevel[],
+    shares: number
+  ): { shares: number; notional: number; fee: number } | null {
+    const feeRate = this.costs.takerFeeBps / 10000;
+    let remaining = shares;
+    let sold = 0;
+    let notional = 0;
+
+    for (const level of [...bids].sort((a, b) => b.price - a.price)) {
+      if (remaining <= 0) break;
+      if (level.price <= 0 || level.size <= 0) continue;
+      const take = Math.min(level.size, remaining);
+      sold += take;
+      notional += take * level.price;
+      remaining -= take;
+    }
+
+    if (sold <= 0) return null;
+    return { shares: sold, notional, fee: notional * feeRate };
+  }
+
+  // ==================== SETTLEMENT ====================
+
+  /**
+   * Settle a window with the live rules. A recorded resolution wins; else
+   * the final YES book price when it is conclusive (>0.9 / <0.1); else the
+   * underlying close vs open over the window, which is how Up/Down markets
+   * resolve. A window with none of these is unsettled (null) rather than
+   * guessed, so it cannot bias the hit rate.
+   */
+  private settle(
+    market: IBinaryMarketWindow,
+    books: IBinaryBookSnapshot[],
+    assetBars: IBar[]
+  ): PolymarketOutcome | null {
+    const recorded = market.resolution
+      ? PolymarketPositionManager.determineOutcome({ outcome: market.resolution })
+      : null;
+    if (recorded) return recorded;
+
+    const last = books[books.length - 1];
+    const fromBook = PolymarketPositionManager.determineOutcome({
+      outcomePrices: [String(last ? last.yes.midPrice : 0.5)],
+    });
+    if (fromBook) return fromBook;
+
+    const openBar = assetBars.find((b) => b.timestamp >= market.startTime);
+    const closeBar = [...assetBars].reverse().find((b) => b.timestamp <= market.endTime);
+    if (openBar && closeBar && openBar.timestamp < market.endTime) {
+      return closeBar.close >= openBar.open ? "UP" : "DOWN";
+    }
+
+    return null;
+  }
+
+  // ==================== METRICS ====================
+
+  private calculateMetrics(
+    trades: IBinaryTrade[],
+    finalCapital: number,
+    unfilledOrders: number,
+    unsettledWindows: number
+  ): IBinaryBacktestResult {
+    const settled = trades.filter((t) => t.settled);
+    const wins = settled.filter((t) => t.won);
+    const totalPnl = trades.reduce((s, t) => s + t.pnl, 0);
+
+    return {
+      initialCapital: this.initialCapital,
+      finalCapital,
+      totalPnl,
+      totalReturn: totalPnl / this.initialCapital,
+      totalFees: trades.reduce((s, t) => s + t.fees, 0),
+
+      totalTrades: trades.length,
+      settledTrades: settled.length,
+      hitRate: settled.length > 0 ? wins.length / settled.length : 0,
+      avgEntryPrice: trades.length > 0 ? mean(trades.map((t) => t.entryPrice)) : 0,
+      avgImpliedProbability: settled.length > 0 ? mean(settled.map((t) => t.entryPrice)) : 0,
+      avgPredictedProbability: trades.length > 0 ? mean(trades.map((t) => t.predictedProbability)) : 0,
+      edgeCaptured: settled.length > 0 ? mean(settled.map((t) => t.exitPrice - t.entryPrice)) : 0,
+      expectedEdge: trades.length > 0 ? mean(trades.map((t) => t.predictedProbability - t.entryPrice)) : 0,
+      brierScore: settled.length > 0
+        ? mean(settled.map((t) => (t.predictedProbability - (t.won ? 1 : 0)) ** 2))
+        : 0,
+
+      calibration: BinaryOutcomeBacktest.calibrationTable(settled),
+      trades,
+      unfilledOrders,
+      unsettledWindows,
+    };
+  }
+
+  /**
+   * Bucket settled trades by predicted win probability and compare with
+   * the realized win rate. Well calibrated: avgPredicted ≈ realizedWinRate.
+   */
+  static calibrationTable(trades: IBinaryTrade[], buckets = 10): ICalibrationBucket[] {
+    const table: ICalibrationBucket[] = [];
+    for (let i = 0; i < buckets; i++) {
+      const lower = i / buckets;
+      const upper = (i + 1) / buckets;
+      const inBucket = trades.filter(
+        (t) =>
+          t.settled &&
+          t.predictedProbability >= lower &&
+          (t.predictedProbability < upper || (i === buckets - 1 && t.predictedProbability <= upper))
+      );
+      if (inBucket.length === 0) continue;
+      table.push({
+        lower,
+        upper,
+        count: inBucket.length,
+        avgPredicted: mean(inBucket.map((t) => t.predictedProbability)),
+        realizedWinRate: inBucket.filter((t) => t.won).length / inBucket.length,
+      });
+    }
+    return table;
+  }
+}
+
+// ============================================================================
+// RECORDING ADAPTER
+// ============================================================================
+
+const UPDOWN_SLUG = /^(btc|eth|xrp)-updown-(5m|15m)-(\d+)$/;
+const INTERVAL_MS: Record<PolymarketInterval, number> = {
+  "5M": 5 * 60_000,
+  "15M": 15 * 60_000,
+};
+
+/**
+ * Build market windows from a market-data recording (see SegmentStore).
+ * Windows come from pm_market listings; each book update for either token
+ * yields a snapshot pairing the latest YES and NO books.
+ */
+export function windowsFromRecording(events: ReplayEvent[]): IBinaryMarketWindow[] {
+  const windows = new Map<string, IBinaryMarketWindow & { upTokenId: string; downTokenId: string }>();
+  const byToken = new Map<string, string>();
+
+  for (const event of events) {
+    if (event.type !== "pm_market" || windows.has(event.slug)) continue;
+    const match = UPDOWN_SLUG.exec(event.slug);
+    if (!match) continue;
+
+    const interval = match[2].toUpperCase() as PolymarketInterval;
+    const startTime = parseInt(match[3], 10) * 1000;
+    windows.set(event.slug, {
+      conditionId: event.slug,
+      asset: match[1].toUpperCase() as PolymarketAsset,
+      interval,
+      startTime,
+      endTime: startTime + INTERVAL_MS[interval],
+      books: [],
+      upTokenId: event.upTokenId,
+      downTokenId: event.downTokenId,
+    });
+    byToken.set(event.upTokenId, event.slug);
+    byToken.set(event.downTokenId, event.slug);
+  }
+
+  const latest = new Map<string, IUnifiedOrderbook>();
+  for (const event of events) {
+    if (event.type !== "pm_book") continue;
+    const slug = byToken.get(event.tokenId);
+    if (!slug) continue;
+    latest.set(event.tokenId, event.book);
+
+    const window = windows.get(slug)!;
+    const yes = latest.get(window.upTokenId);
+    const no = latest.get(window.downTokenId);
+    if (yes && no) window.books.push({ timestamp: event.ts, yes, no });
+  }
+
+  return Array.from(windows.values())
+    .filter((w) => w.books.length > 0)
+    .map(({ upTokenId, downTokenId, ...window }) => window);
+}
@@ -0,0 +1,476 @@
+/**
+ * ============================================================================
+ * EXCHANGE RECONCILER
+ * ============================================================================
+ *
+ * Feeds the ReconciliationEngine with real state on a schedule.
+ *
+ * INTERNAL (what the bot thinks it holds):
+ *   - DemoWallet positions that were routed to a live venue
+ *   - Open and pending-resolution PolymarketPositionModel documents that
+ *     were actually ordered
+ *
+ * EXTERNAL (what the exchanges report):
+ *   - Polymarket data-API holdings, CLOB open orders, USDC balance
+ *   - Kalshi portfolio positions, resting orders, balance
+ *   - Hyperliquid clearinghouse state and open orders
+ *   - Binance futures positions and balance
+ *
+ * Holdings are netted to signed units per (exchange, symbol) and valued in
+ * USD at one reference price before comparison, so the engine's size
+ * tolerances read as dollars. An exchange whose fetch fails is skipped for
+ * that run rather than reported as flat. Auto-halt runs the onHalt
+ * callbacks, which the orchestrator points at the bot controller's kill
+ * switch.
+ *
+ * ============================================================================
+ */
+
+import { PolymarketClient } from "../../polymarket/PolymarketClient";
+import { KalshiClient } from "../../exchange/KalshiClient";
+import { HyperliquidClient } from "../../exchange/HyperliquidClient";
+import { BinanceFuturesClient } from "../../exchange/BinanceFuturesClient";
+import { DemoWallet } from "../../exchange/DemoWallet";
+import { PolymarketPositionModel } from "../../models/PolymarketPosition";
+import { IDemoPosition } from "../../types/exchange.types";
+import { AlertSystem, IDiscrepancy, ReconciliationEngine } from "./LiveTradingSystem";
+import { logger } from "../../utils/logger";
+
+const log = logger.child("Reconciler");
+
+export type ReconciledExchange = "polymarket" | "kalshi" | "hyperliquid" | "binance";
+
+export interface ExchangeReconcilerDeps {
+  engine: ReconciliationEngine;
+  alerts: AlertSystem;
+  polymarket?: PolymarketClient;
+  kalshi?: KalshiClient;
+  hyperliquid?: HyperliquidClient;
+  binance?: BinanceFuturesClient;
+  demoWallet?: DemoWallet;
+  /** Which DemoWallet positions hold real exchange exposure (default: all) */
+  isLivePosition?: (pos: IDemoPosition) => boolean;
+  /**
+   * Order ids the bot is tracking, per exchange. Resting orders on an
+   * exchange with a provider but missing from it are reported as orphans;
+   * exchanges without a provider aren't order-checked.
+   */
+  knownOrderIds?: Partial<Record<ReconciledExchange, () => Iterable<string>>>;
+}
+
+export interface ExchangeReconcilerOptions {
+  intervalMs?: number;     // default 60s
+  autoHalt?: boolean;      // trip the kill switch on persistent HIGH mismatches (default false)
+  haltAfterRuns?: number;  // consecutive runs a HIGH mismatch must survive (default 2)
+}
+
+export interface IReconciliationReport {
+  timestamp: number;
+  checked: ReconciledExchange[];
+  skipped: { exchange: ReconciledExchange; reason: string }[];
+  balances: Partial<Record<ReconciledExchange, number>>;
+  discrepancies: IDiscrepancy[];
+  halted: boolean;
+}
+
+interface Holding {
+  exchange: string;
+  symbol: string;
+  units: number; // signed: positive = long / YES, negative = short / NO
+  price: number; // USD per unit
+}
+
+interface ExchangeSnapshot {
+  holdings: Holding[];
+  orders: { orderId: string; instrument: string; size: number }[];
+  balance: number | null;
+}
+
+type HaltCallback = (reason: string) => Promise<unknown> | unknown;
+
+const SEVERITY_RANK: Record<IDiscrepancy["severity"], number> = { LOW: 0, MEDIUM: 1, HIGH: 2 };
+const ALERT_LEVEL: Record<IDiscrepancy["severity"], "INFO" | "WARNING" | "CRITICAL"> = {
+  LOW: "INFO",
+  MEDIUM: "WARNING",
+  HIGH: "CRITICAL",
+};
+
+export class ExchangeReconciler {
+  private deps: ExchangeReconcilerDeps;
+  private options: Required<ExchangeReconcilerOptions>;
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private running = false;
+  private open: Map<string, IDiscrepancy> = new Map(); // discrepancy key → last seen
+  private highRuns = 0;
+  private halted = false;
+  private haltCallbacks: HaltCallback[] = [];
+  private lastReport: IReconciliationReport | null = null;
+
+  constructor(deps: ExchangeReconcilerDeps, options: ExchangeReconcilerOptions = {}) {
+    this.deps = deps;
+    this.options = {
+      intervalMs: options.intervalMs ?? 60_000,
+      autoHalt: options.autoHalt ?? false,
+      haltAfterRuns: Math.max(1, options.haltAfterRuns ?? 2),
+    };
+  }
+
+  /** Called when auto-halt fires, e.g. to flatten through the bot controller */
+  onHalt(callback: HaltCallback): void {
+    this.haltCallbacks.push(callback);
+  }
+
+  start(): void {
+    if (this.timer) return;
+    this.timer = setInterval(() => {
+      this.runOnce().catch((err) => log.error("Run failed:", err));
+    }, this.options.intervalMs);
+    log.info(
+      `Every ${this.options.intervalMs / 1000}s | auto-halt ${this.options.autoHalt ? `after ${this.options.haltAfterRuns} runs` : "off"}`
+    );
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  getLastReport(): IReconciliationReport | null {
+    return this.lastReport;
+  }
+
+  /**
+   * One reconciliation pass. Overlapping calls return null instead of
+   * racing the one in flight.
+   */
+  async runOnce(): Promise<IReconciliationReport | null> {
+    if (this.running) return null;
+    this.running = true;
+    try {
+      return await this.reconcile();
+    } finally {
+      this.running = false;
+    }
+  }
+
+  // ==================== RECONCILIATION ====================
+
+  private async reconcile(): Promise<IReconciliationReport> {
+    const report: IReconciliationReport = {
+      timestamp: Date.now(),
+      checked: [],
+      skipped: [],
+      balances: {},
+      discrepancies: [],
+      halted: false,
+    };
+
+    // Exchange state first: an order placed while we fetch is then already
+    // in the bot's books when the known ids are read below
+    const snapshots = new Map<ReconciledExchange, ExchangeSnapshot>();
+    for (const [exchange, fetch] of this.fetchers()) {
+      try {
+        const snapshot = await fetch();
+        if (!snapshot) {
+          report.skipped.push({ exchange, reason: "fetch failed" });
+          continue;
+        }
+        snapshots.set(exchange, snapshot);
+        report.checked.push(exchange);
+        if (snapshot.balance !== null) report.balances[exchange] = snapshot.balance;
+      } catch (err: any) {
+        report.skipped.push({ exchange, reason: err.message });
+      }
+    }
+
+    const internal = (await this.internalHoldings()).filter((h) =>
+      snapshots.has(h.exchange as ReconciledExchange)
+    );
+    const external = [...snapshots.values()].flatMap((s) => s.holdings);
+    report.discrepancies.push(...this.compareHoldings(internal, external));
+
+    for (const [exchange, snapshot] of snapshots) {
+      const known = this.deps.knownOrderIds?.[exchange];
+      if (!known) continue;
+      report.discrepancies.push(
+        ...this.deps.engine.reconcileOrders(exchange, new Set(known()), snapshot.orders)
+      );
+    }
+
+    this.raiseAlerts(report.discrepancies, new Set(report.checked));
+    report.halted = await this.checkHalt(report.discrepancies);
+    this.lastReport = report;
+
+    const skipped = report.skipped.map((s) => `${s.exchange} (${s.reason})`).join(", ");
+    log.info(
+      `${report.checked.join(", ") || "no exchanges"} | ${report.discrepancies.length} discrepancies` +
+      (skipped ? ` | skipped ${skipped}` : "")
+    );
+    return report;
+  }
+
+  /**
+   * Net both sides per (exchange, symbol) and value them at a shared price:
+   * the exchange's mark when it reports one, else the internal entry.
+   */
+  private compareHoldings(internal: Holding[], external: Holding[]): IDiscrepancy[] {
+    const internalNet = netHoldings(internal);
+    const externalNet = netHoldings(external);
+
+    // Opposite signs are separate instruments (long vs short, YES vs NO)
+    const toPositions = (net: Map<string, Holding>) =>
+      [...net.entries()]
+        .map(([key, h]) => {
+          const price = externalNet.get(key)?.price || internalNet.get(key)?.price || 0;
+          return {
+            instrument: `${h.symbol}:${h.units >= 0 ? "LONG" : "SHORT"}`,
+            exchange: h.exchange,
+            size: Math.abs(h.units) * price,
+            price,
+          };
+        })
+        .filter((p) => p.size > 0.01);
+
+    return this.deps.engine.reconcile(toPositions(internalNet), toPositions(externalNet));
+  }
+
+  private async internalHoldings(): Promise<Holding[]> {
+    const { demoWallet, isLivePosition } = this.deps;
+    const holdings: Holding[] = [];
+
+    if (demoWallet) {
+      for (const pos of demoWallet.getPositions()) {
+        if (isLivePosition && !isLivePosition(pos)) continue;
+        if (!(pos.entryPrice > 0)) continue;
+        const units = pos.notional / pos.entryPrice;
+        if (pos.exchange === "kalshi") {
+          // Kalshi nets NO contracts as a negative position on the ticker
+          const { ticker, contractSide } = KalshiClient.parseSymbol(pos.symbol);
+          const signed = pos.side === "LONG" ? units : -units;
+          holdings.push({
+            exchange: "kalshi",
+            symbol: ticker,
+            units: contractSide === "yes" ? signed : -signed,
+            price: pos.entryPrice,
+          });
+          continue;
+        }
+        holdings.push({
+          exchange: pos.exchange,
+          symbol: pos.symbol,
+          units: pos.side === "LONG" ? units : -units,
+          price: pos.entryPrice,
+        });
+      }
+    }
+
+    if (this.deps.polymarket) {
+      // Dry-run positions are recorded without an order id
+      const docs = await PolymarketPositionModel.find({
+        status: { $in: ["open", "pending_resolution"] },
+        orderId: { $exists: true, $ne: null },
+      }).exec();
+      for (const doc of docs) {
+        holdings.push({ exchange: "polymarket", symbol: doc.tokenId, units: doc.shares, price: doc.entryPrice });
+      }
+    }
+
+    return holdings;
+  }
+
+  // ==================== EXCHANGE SNAPSHOTS ====================
+
+  private fetchers(): [ReconciledExchange, () => Promise<ExchangeSnapshot | null>][] {
+    const { polymarket, kalshi, hyperliquid, binance } = this.deps;
+    const fetchers: [ReconciledExchange, () => Promise<ExchangeSnapshot | null>][] = [];
+    if (polymarket?.isAuthenticated()) fetchers.push(["polymarket", () => this.fetchPolymarket(polymarket)]);
+    if (kalshi?.canTrade()) fetchers.push(["kalshi", () => this.fetchKalshi(kalshi)]);
+    if (hyperliquid?.canTrade()) fetchers.push(["hyperliquid", () => this.fetchHyperliquid(hyperliquid)]);
+    if (binance?.isConnected()) fetchers.push(["binance", () => this.fetchBinance(binance)]);
+    return fetchers;
+  }
+
+  private async fetchPolymarket(client: PolymarketClient): Promise<ExchangeSnapshot | null> {
+    const positions = await client.getPositions();
+    if (!positions) return null;
+    const [orders, balance] = await Promise.all([client.getOpenOrders(), client.getBalance()]);
+
+    return {
+      // Resolved tokens awaiting redemption are no longer open positions
+      holdings: positions
+        .filter((p) => !p.redeemable)
+        .map((p) => ({ exchange: "polymarket", symbol: p.tokenId, units: p.shares, price: p.currentPrice })),
+      orders: orders.map((o: any) => ({
+        orderId: o.id,
+        instrument: o.asset_id,
+        size: parseFloat(o.original_size || "0") - parseFloat(o.size_matched || "0"),
+      })),
+      balance,
+    };
+  }
+
+  private async fetchKalshi(client: KalshiClient): Promise<ExchangeSnapshot | null> {
+    const [positions, orders, balance] = await Promise.all([
+      client.getPositions(),
+      client.getOpenOrders(),
+      client.getBalance(),
+    ]);
+    if (!positions) return null;
+
+    return {
+      holdings: positions.map((p) => ({
+        exchange: "kalshi",
+        symbol: p.ticker,
+        units: p.position,
+        price: Math.abs(p.market_exposure / p.position) / 100, // cents per contract
+      })),
+      orders: (orders || []).map((o) => ({
+        orderId: o.order_id,
+        instrument: o.ticker,
+        size: o.remaining_count ?? o.count,
+      })),
+      balance,
+    };
+  }
+
+  private async fetchHyperliquid(client: HyperliquidClient): Promise<ExchangeSnapshot | null> {
+    const address = client.getAccountAddress();
+    if (!address) return null;
+    const state = await client.getUserState(address);
+    if (!state) return null;
+    const orders = await client.getOpenOrders(address);
+
+    return {
+      holdings: state.assetPositions
+        .map(({ position: p }) => {
+          const units = parseFloat(p.szi);
+          const value = parseFloat(p.positionValue);
+          return {
+            exchange: "hyperliquid",
+            symbol: p.coin,
+            units,
+            price: units !== 0 ? Math.abs(value / units) : parseFloat(p.entryPx),
+          };
+        })
+        .filter((h) => h.units !== 0),
+      orders: orders.map((o) => ({ orderId: String(o.oid), instrument: o.coin, size: parseFloat(o.sz) })),
+      balance: parseFloat(state.marginSummary.accountValue),
+    };
+  }
+
+  /** The Binance client reports failures as empty results, so a lost connection skips it */
+  private async fetchBinance(client: BinanceFuturesClient): Promise<ExchangeSnapshot | null> {
+    const [positions, balance] = await Promise.all([client.getPositions(), client.getBalance()]);
+    if (!client.isConnected()) return null;
+
+    return {
+      holdings: positions.map((p) => ({
+        exchange: "binance",
+        symbol: p.symbol,
+        units: p.side === "long" ? p.size : -p.size,
+        price: p.markPrice,
+      })),
+      orders: [],
+      balance: balance.total,
+    };
+  }
+
+  // ==================== ALERTS & HALT ====================
+
+  /**
+   * Alert on discrepancies that are new or got worse since the last run,
+   * and note the ones that cleared. Exchanges skipped this run keep their
+   * previous state.
+   */
+  private raiseAlerts(discrepancies: IDiscrepancy[], checked: Set<string>): void {
+    const { alerts } = this.deps;
+    const current = new Map(discrepancies.map((d) => [discrepancyKey(d), d]));
+
+    for (const [key, d] of current) {
+      const previous = this.open.get(key);
+      if (previous && SEVERITY_RANK[previous.severity] >= SEVERITY_RANK[d.severity]) continue;
+      alerts.emit(ALERT_LEVEL[d.severity], "RECONCILIATION", describe(d), { ...d });
+    }
+
+    for (const [key, d] of this.open) {
+      if (current.has(key) || !checked.has(d.exchange)) continue;
+      this.open.delete(key);
+      alerts.emit("INFO", "RECONCILIATION", `Resolved: ${describe(d)}`, { ...d });
+    }
+
+    for (const [key, d] of current) this.open.set(key, d);
+  }
+
+  /**
+   * Optimistically booked positions can briefly disagree with the exchange,
+   * so a HIGH mismatch must survive `haltAfterRuns` consecutive runs before
+   * trading is halted. Halting happens once; a clean run re-arms it.
+   */
+  private async checkHalt(discrepancies: IDiscrepancy[]): Promise<boolean> {
+    const high = discrepancies.filter((d) => d.severity === "HIGH");
+    if (high.length === 0) {
+      this.highRuns = 0;
+      this.halted = false;
+      return false;
+    }
+
+    this.highRuns++;
+    if (!this.options.autoHalt || this.halted || this.highRuns < this.options.haltAfterRuns) {
+      return false;
+    }
+
+    this.halted = true;
+    const reason =
+      `Reconciliation: ${high.length} HIGH discrepancies for ${this.highRuns} runs ` +
+      `(${high.slice(0, 3).map((d) => `${d.exchange}/${d.instrument}`).join(", ")}${high.length > 3 ? ", ..." : ""})`;
+    this.deps.alerts.emit("CRITICAL", "RECONCILIATION", `Auto-halt: ${reason}`, { discrepancies: high });
+
+    for (const cb of this.haltCallbacks) {
+      try {
+        await cb(reason);
+      } catch (err) {
+        log.error("Halt callback error:", err);
+      }
+    }
+    return true;
+  }
+}
+
+function netHoldings(holdings: Holding[]): Map<string, Holding> {
+  const net = new Map<string, Holding>();
+  for (const h of holdings) {
+    const key = `${h.exchange}|${h.symbol}`;
+    const existing = net.get(key);
+    if (!existing) {
+      net.set(key, { ...h });
+      continue;
+    }
+    const units = existing.units + h.units;
+    // Units-weighted price keeps the combined holding's value consistent
+    const weight = Math.abs(existing.units) + Math.abs(h.units);
+    existing.price = weight > 0
+      ? (existing.price * Math.abs(existing.units) + h.price * Math.abs(h.units)) / weight
+      : h.price;
+    existing.units = units;
+  }
+  return net;
+}
+
+function discrepancyKey(d: IDiscrepancy): string {
+  return `${d.exchange}|${d.instrument}|${d.type}|${d.orderId || ""}`;
+}
+
+function describe(d: IDiscrepancy): string {
+  switch (d.type) {
+    case "ORPHAN_ORDER":
+      return `${d.exchange} order ${d.orderId} on ${d.instrument} is not tracked by the bot`;
+    case "MISSING_EXTERNAL":
+      return `${d.exchange} ${d.instrument}: bot holds $${d.internalSize.toFixed(2)}, exchange has none`;
+    case "MISSING_INTERNAL":
+      return `${d.exchange} ${d.instrument}: exchange holds $${d.externalSize.toFixed(2)}, bot has none`;
+    default:
+      return `${d.exchange} ${d.instrument}: bot $${d.internalSize.toFixed(2)} vs exchange $${d.externalSize.toFixed(2)}`;
+  }
+}
@@ -506,7 +506,7 @@ export class ReconciliationEngine {
    * Compare internal position state against broker/exchange state.
    */
   reconcile(
-    internalPositions: ITrackedPosition[],
+    internalPositions: Pick<ITrackedPosition, "instrument" | "exchange" | "size">[],
     externalPositions: { instrument: string; exchange: string; size: number; price: number }[]
   ): IDiscrepancy[] {
     const newDiscrepancies: IDiscrepancy[] = [];
@@ -562,12 +562,41 @@ export class ReconciliationEngine {
       }
     }
 
+    this.record(newDiscrepancies);
+    return newDiscrepancies;
+  }
+
+  /**
+   * Flag resting exchange orders the bot has no record of placing.
+   */
+  reconcileOrders(
+    exchange: string,
+    knownOrderIds: Set<string>,
+    externalOrders: { orderId: string; instrument: string; size: number }[]
+  ): IDiscrepancy[] {
+    const newDiscrepancies: IDiscrepancy[] = externalOrders
+      .filter(o => !knownOrderIds.has(o.orderId))
+      .map(o => ({
+        type: "ORPHAN_ORDER" as const,
+        instrument: o.instrument,
+        exchange,
+        orderId: o.orderId,
+        internalSize: 0,
+        externalSize: o.size,
+        difference: o.size,
+        timestamp: Date.now(),
+        severity: "MEDIUM" as const,
+      }));
+
+    this.record(newDiscrepancies);
+    return newDiscrepancies;
+  }
+
+  private record(newDiscrepancies: IDiscrepancy[]): void {
     this.discrepancies.push(...newDiscrepancies);
     if (this.discrepancies.length > 1000) {
       this.discrepancies.splice(0, this.discrepancies.length - 1000);
     }
-
-    return newDiscrepancies;
   }
 
   getRecentDiscrepancies(n = 50): IDiscrepancy[] {
@@ -581,9 +610,10 @@ export class ReconciliationEngine {
 }
 
 export interface IDiscrepancy {
-  type: "MISSING_EXTERNAL" | "MISSING_INTERNAL" | "SIZE_MISMATCH" | "PRICE_MISMATCH";
+  type: "MISSING_EXTERNAL" | "MISSING_INTERNAL" | "SIZE_MISMATCH" | "PRICE_MISMATCH" | "ORPHAN_ORDER";
   instrument: string;
   exchange: string;
+  orderId?: string; // ORPHAN_ORDER only
   internalSize: number;
   externalSize: number;
   difference: number;
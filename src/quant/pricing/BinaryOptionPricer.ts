@@ -0,0 +1,325 @@
+/**
+ * Binary option pricing for crypto prediction markets.
+ *
+ * Rolling Up/Down windows (Polymarket) and Kalshi price contracts are
+ * cash-or-nothing digitals on the underlying. The underlying is modelled
+ * as driftless geometric Brownian motion over the time remaining, so
+ *
+ *   P(S_T ≥ K) = N(d2),   d2 = (ln(S/K) − ½σ²T) / (σ√T)
+ *
+ * Strategies and risk managers price through here so "edge" means the
+ * same thing everywhere: fair value minus the price paid, net of fees.
+ * Volatility comes from one of the estimators below (realized, EWMA) or
+ * is backed out of a quoted price (impliedVolatility).
+ */
+
+import { IBinaryFairValue, IVolatilityEstimate, VolatilitySource } from "../../types/pricing.types";
+
+const MS_PER_YEAR = 365 * 24 * 60 * 60 * 1000;
+const DEFAULT_CONFIDENCE_Z = 1.96;
+
+// ==================== CORE MODEL ====================
+
+/** P(S_T > K) under driftless GBM with total log-return deviation `sd` */
+export function probabilityAbove(spot: number, strike: number, sd: number): number {
+  if (spot <= 0 || strike <= 0) return 0;
+  if (sd <= 0) return spot > strike ? 1 : 0;
+  const d2 = (Math.log(spot / strike) - 0.5 * sd * sd) / sd;
+  return normalCdf(d2);
+}
+
+/** Standard normal CDF (Abramowitz & Stegun 26.2.17, |error| < 7.5e-8) */
+export function normalCdf(x: number): number {
+  const t = 1 / (1 + 0.2316419 * Math.abs(x));
+  const poly =
+    t * (0.31938153 + t * (-0.356563782 + t * (1.781477937 + t * (-1.821255978 + t * 1.330274429))));
+  const tail = normalPdf(x) * poly;
+  return x >= 0 ? 1 - tail : tail;
+}
+
+function normalPdf(x: number): number {
+  return Math.exp(-0.5 * x * x) / Math.sqrt(2 * Math.PI);
+}
+
+// ==================== UP/DOWN FAIR VALUE ====================
+
+export interface BinaryPricingInput {
+  openPrice: number;        // window open — the strike
+  spot: number;
+  timeRemainingMs: number;
+  volatility: IVolatilityEstimate;
+  confidenceZ?: number;     // default 1.96 (95% interval)
+}
+
+/**
+ * Fair YES/NO value of an Up/Down window, with an interval from the
+ * volatility estimate's standard error and sensitivities to spot, vol
+ * and time. Null when the inputs can't be priced (no open price or spot).
+ */
+export function priceBinaryOption(input: BinaryPricingInput): IBinaryFairValue | null {
+  const { openPrice, spot, volatility } = input;
+  if (!(openPrice > 0) || !(spot > 0) || !(volatility.perSqrtMs >= 0)) return null;
+
+  const timeRemainingMs = Math.max(0, input.timeRemainingMs);
+  const z = input.confidenceZ ?? DEFAULT_CONFIDENCE_Z;
+  const sqrtT = Math.sqrt(timeRemainingMs);
+  const sd = volatility.perSqrtMs * sqrtT;
+
+  const yes = probabilityAbove(spot, openPrice, sd);
+
+  // P is monotonic in vol on either side of the strike, so the interval
+  // endpoints are the two vol extremes in whichever order they land
+  const volLow = Math.max(0, volatility.perSqrtMs - z * volatility.standardError);
+  const volHigh = volatility.perSqrtMs + z * volatility.standardError;
+  const atLow = probabilityAbove(spot, openPrice, volLow * sqrtT);
+  const atHigh = probabilityAbove(spot, openPrice, volHigh * sqrtT);
+  const yesInterval: [number, number] = [Math.min(atLow, atHigh, yes), Math.max(atLow, atHigh, yes)];
+
+  let delta = 0;
+  let gamma = 0;
+  let vega = 0;
+  let theta = 0;
+  if (sd > 0) {
+    const d2 = (Math.log(spot / openPrice) - 0.5 * sd * sd) / sd;
+    const pdf = normalPdf(d2);
+    const dPdSd = (-pdf * (d2 + sd)) / sd;
+
+    delta = pdf / (spot * sd); // dN(d2)/dS
+    gamma = (-pdf * (d2 + sd)) / (spot * spot * sd * sd);
+    // sd = σ_annual × √(T in years)
+    vega = dPdSd * Math.sqrt(timeRemainingMs / MS_PER_YEAR) * 0.01;
+    // Time passing shrinks sd: dsd/dt = −σ / (2√T), per ms → per second
+    theta = ((dPdSd * -volatility.perSqrtMs) / (2 * sqrtT)) * 1000;
+  }
+
+  return {
+    yes,
+    no: 1 - yes,
+    yesInterval,
+    noInterval: [1 - yesInterval[1], 1 - yesInterval[0]],
+    delta,
+    gamma,
+    vega,
+    theta,
+    openPrice,
+    spot,
+    timeRemainingMs,
+    volatility,
+  };
+}
+
+/**
+ * Edge of buying one side at `price` with a per-share `fee`: expected
+ * value at fair, and the conservative value at the low end of the
+ * interval. Strategies size on `edge` and risk gates check `conservative`.
+ */
+export function binaryEdge(
+  fair: IBinaryFairValue,
+  side: "YES" | "NO",
+  price: number,
+  feePerShare = 0
+): { edge: number; conservative: number } {
+  const value = side === "YES" ? fair.yes : fair.no;
+  const low = side === "YES" ? fair.yesInterval[0] : fair.noInterval[0];
+  return {
+    edge: value - price - feePerShare,
+    conservative: low - price - feePerShare,
+  };
+}
+
+// ==================== VOLATILITY ESTIMATORS ====================
+
+/**
+ * A volatility taken as given: backed out of a market price or supplied
+ * by another venue. Annualized input, e.g. 0.6 for 60%.
+ */
+export function fixedVolatility(
+  annualized: number,
+  source: VolatilitySource = "implied"
+): IVolatilityEstimate {
+  return {
+    perSqrtMs: Math.max(0, annualized) / Math.sqrt(MS_PER_YEAR),
+    standardError: 0,
+    source,
+    samples: 0,
+  };
+}
+
+/**
+ * Annualized volatility that makes the model YES value equal `yesPrice`
+ * (bisection). Null when no volatility reproduces the price — e.g. spot
+ * above the open but YES quoted under 0.5, which GBM can't produce.
+ */
+export function impliedVolatility(
+  yesPrice: number,
+  openPrice: number,
+  spot: number,
+  timeRemainingMs: number
+): number | null {
+  if (!(yesPrice > 0 && yesPrice < 1) || !(openPrice > 0) || !(spot > 0) || timeRemainingMs <= 0) {
+    return null;
+  }
+  const years = timeRemainingMs / MS_PER_YEAR;
+  const yesAt = (vol: number) => probabilityAbove(spot, openPrice, vol * Math.sqrt(years));
+
+  let lo = 1e-4;
+  let hi = 20;
+  const fLo = yesAt(lo) - yesPrice;
+  const fHi = yesAt(hi) - yesPrice;
+  if (fLo * fHi > 0) return null;
+
+  for (let i = 0; i < 100; i++) {
+    const mid = (lo + hi) / 2;
+    const fMid = yesAt(mid) - yesPrice;
+    if (Math.abs(fMid) < 1e-7) return mid;
+    if (fMid * fLo > 0) lo = mid;
+    else hi = mid;
+  }
+  return (lo + hi) / 2;
+}
+
+export interface RealizedVolatilityOptions {
+  sampleIntervalMs?: number; // default 1s — ticks closer together are skipped
+  windowMs?: number;         // default 30 min
+  minSamples?: number;       // default 120
+  minAnnualVol?: number;     // default 0.2 — floor so quiet periods don't price certainty
+}
+
+/**
+ * Rolling realized volatility of an asset's price from sampled ticks,
+ * expressed per √ms so it scales with any time to close.
+ */
+export class RealizedVolatility {
+  private samples: { price: number; ts: number }[] = [];
+  private options: Required<RealizedVolatilityOptions>;
+
+  constructor(options: RealizedVolatilityOptions = {}) {
+    this.options = {
+      sampleIntervalMs: options.sampleIntervalMs ?? 1_000,
+      windowMs: options.windowMs ?? 30 * 60_000,
+      minSamples: options.minSamples ?? 120,
+      minAnnualVol: options.minAnnualVol ?? 0.2,
+    };
+  }
+
+  push(price: number, ts: number): void {
+    if (!(price > 0)) return;
+    const last = this.samples[this.samples.length - 1];
+    if (last && ts - last.ts < this.options.sampleIntervalMs) return;
+
+    this.samples.push({ price, ts });
+    const cutoff = ts - this.options.windowMs;
+    while (this.samples.length > 0 && this.samples[0].ts < cutoff) {
+      this.samples.shift();
+    }
+  }
+
+  /** Volatility per √ms, or null until enough samples have been collected */
+  perSqrtMs(): number | null {
+    if (this.samples.length < this.options.minSamples) return null;
+
+    let sumSq = 0;
+    for (let i = 1; i < this.samples.length; i++) {
+      const r = Math.log(this.samples[i].price / this.samples[i - 1].price);
+      sumSq += r * r;
+    }
+    const elapsed = this.samples[this.samples.length - 1].ts - this.samples[0].ts;
+    if (elapsed <= 0) return null;
+
+    const floor = this.options.minAnnualVol / Math.sqrt(MS_PER_YEAR);
+    return Math.max(floor, Math.sqrt(sumSq / elapsed));
+  }
+
+  /** perSqrtMs with its sampling error (σ/√(2n) for n returns) */
+  estimate(): IVolatilityEstimate | null {
+    const vol = this.perSqrtMs();
+    if (vol === null) return null;
+    const returns = this.samples.length - 1;
+    return {
+      perSqrtMs: vol,
+      standardError: vol / Math.sqrt(2 * returns),
+      source: "realized",
+      samples: returns,
+    };
+  }
+
+  annualized(): number | null {
+    const vol = this.perSqrtMs();
+    return vol === null ? null : vol * Math.sqrt(MS_PER_YEAR);
+  }
+
+  latestPrice(): number {
+    return this.samples[this.samples.length - 1]?.price ?? 0;
+  }
+}
+
+export interface EwmaVolatilityOptions {
+  sampleIntervalMs?: number; // default 1s
+  halfLifeMs?: number;       // default 5 min — weight of a return halves every half-life
+  minSamples?: number;       // default 30
+  minAnnualVol?: number;     // default 0.2
+}
+
+/**
+ * Exponentially weighted volatility: recent returns dominate, so the
+ * estimate follows a volatility spike within a few half-lives instead of
+ * waiting for it to fill a rolling window. Returns are time-normalised,
+ * so uneven sample spacing is fine.
+ */
+export class EwmaVolatility {
+  private variancePerMs = 0;
+  private lastPrice = 0;
+  private lastTs = 0;
+  private samples = 0;
+  private options: Required<EwmaVolatilityOptions>;
+
+  constructor(options: EwmaVolatilityOptions = {}) {
+    this.options = {
+      sampleIntervalMs: options.sampleIntervalMs ?? 1_000,
+      halfLifeMs: options.halfLifeMs ?? 5 * 60_000,
+      minSamples: options.minSamples ?? 30,
+      minAnnualVol: options.minAnnualVol ?? 0.2,
+    };
+  }
+
+  push(price: number, ts: number): void {
+    if (!(price > 0)) return;
+    if (this.lastPrice > 0) {
+      const dt = ts - this.lastTs;
+      if (dt < this.options.sampleIntervalMs) return;
+
+      const r = Math.log(price / this.lastPrice);
+      const weight = 1 - Math.exp((-dt * Math.LN2) / this.options.halfLifeMs);
+      this.variancePerMs =
+        this.samples === 0 ? (r * r) / dt : weight * ((r * r) / dt) + (1 - weight) * this.variancePerMs;
+      this.samples++;
+    }
+    this.lastPrice = price;
+    this.lastTs = ts;
+  }
+
+  perSqrtMs(): number | null {
+    if (this.samples < this.options.minSamples) return null;
+    const floor = this.options.minAnnualVol / Math.sqrt(MS_PER_YEAR);
+    return Math.max(floor, Math.sqrt(this.variancePerMs));
+  }
+
+  estimate(): IVolatilityEstimate | null {
+    const vol = this.perSqrtMs();
+    if (vol === null) return null;
+    // Effective sample size of the exponential weights at the sampling rate
+    const perHalfLife = this.options.halfLifeMs / this.options.sampleIntervalMs;
+    const effective = Math.min(this.samples, (2 * perHalfLife) / Math.LN2);
+    return {
+      perSqrtMs: vol,
+      standardError: vol / Math.sqrt(2 * effective),
+      source: "ewma",
+      samples: effective,
+    };
+  }
+
+  annualized(): number | null {
+    const vol = this.perSqrtMs();
+    return vol === null ? null : vol * Math.sqrt(MS_PER_YEAR);
+  }
+}
@@ -0,0 +1,143 @@
+import { SegmentWriter } from "./SegmentStore";
+import { IPriceTickFeed, IOrderbookFeed, IUnifiedOrderbook } from "../types/exchange.types";
+import { ReplayEvent } from "../types/replay.types";
+import { HyperliquidMarketData } from "../exchange/HyperliquidMarketData";
+import { KalshiClient } from "../exchange/KalshiClient";
+import { MultiExchangeTickEngine } from "../exchange/MultiExchangeTickEngine";
+import { logger } from "../utils/logger";
+
+const log = logger.child("Recorder");
+
+const FLUSH_INTERVAL_MS = 5_000;
+const MAX_BUFFERED_EVENTS = 5_000;
+
+/**
+ * Market-data recorder.
+ *
+ * Taps the live feeds the bot trades on — Binance price ticks, Polymarket
+ * books/trades and Up/Down listings, Hyperliquid and Kalshi books — and
+ * persists them as ReplayEvents in hourly per-exchange gzip segments
+ * (see SegmentStore). Recordings load straight into EventReplayHarness.
+ *
+ * Events are buffered in memory and flushed every 5s (or at 5000 events);
+ * flushes are serialized so segment appends never interleave.
+ */
+export class MarketDataRecorder {
+  private writer: SegmentWriter;
+  private buffer: ReplayEvent[] = [];
+  private flushTimer: NodeJS.Timeout | null = null;
+  private flushChain: Promise<void> = Promise.resolve();
+  private recording = false;
+  private eventsRecorded = 0;
+  private flushErrors = 0;
+
+  constructor(dir: string) {
+    this.writer = new SegmentWriter(dir);
+  }
+
+  start(): void {
+    if (this.recording) return;
+    this.recording = true;
+    this.flushTimer = setInterval(() => this.flush(), FLUSH_INTERVAL_MS);
+    log.info("Recording market data");
+  }
+
+  async stop(): Promise<void> {
+    if (!this.recording) return;
+    this.recording = false;
+    if (this.flushTimer) {
+      clearInterval(this.flushTimer);
+      this.flushTimer = null;
+    }
+    await this.flush();
+    log.info(`Stopped | ${this.eventsRecorded} events recorded`);
+  }
+
+  // ==================== TAPS ====================
+
+  attachBinanceFeed(feed: IPriceTickFeed): void {
+    feed.onPrice((asset, price) => {
+      this.record({ type: "binance_price", ts: Date.now(), asset, price });
+    });
+  }
+
+  attachPolymarketFeed(feed: IOrderbookFeed): void {
+    feed.onBookUpdate((tokenId, book) => {
+      this.record({ type: "pm_book", ts: Date.now(), tokenId, book: snapshotBook(book) });
+    });
+    feed.onTrade((tokenId, price, size, side) => {
+      this.record({ type: "pm_trade", ts: Date.now(), tokenId, price, size, side });
+    });
+  }
+
+  attachHyperliquid(data: HyperliquidMarketData): void {
+    data.onBook((coin, book) => {
+      this.record({ type: "hl_book", ts: Date.now(), coin, book: snapshotBook(book) });
+    });
+  }
+
+  attachKalshi(client: KalshiClient): void {
+    client.onOrderbook((ticker, book) => {
+      this.record({ type: "kalshi_book", ts: Date.now(), ticker, book: snapshotBook(book) });
+    });
+  }
+
+  /** Capture Up/Down listings so replays can rediscover markets offline */
+  attachMultiExchangeEngine(engine: MultiExchangeTickEngine): void {
+    engine.onUpDownMarketListing((slug, listing) => {
+      this.record({ type: "pm_market", ts: Date.now(), slug, ...listing });
+    });
+  }
+
+  // ==================== STATUS ====================
+
+  getStats(): { recording: boolean; eventsRecorded: number; buffered: number; flushErrors: number } {
+    return {
+      recording: this.recording,
+      eventsRecorded: this.eventsRecorded,
+      buffered: this.buffer.length,
+      flushErrors: this.flushErrors,
+    };
+  }
+
+  // ==================== INTERNALS ====================
+
+  private record(event: ReplayEvent): void {
+    if (!this.recording) return;
+    this.buffer.push(event);
+    this.eventsRecorded++;
+    if (this.buffer.length >= MAX_BUFFERED_EVENTS) {
+      this.flush();
+    }
+  }
+
+  private flush(): Promise<void> {
+    if (this.buffer.length === 0) return this.flushChain;
+
+    const batch = this.buffer;
+    this.buffer = [];
+
+    this.flushChain = this.flushChain.then(async () => {
+      try {
+        await this.writer.append(batch);
+      } catch (err) {
+        this.flushErrors++;
+        log.error(`Failed to write ${batch.length} events`, err);
+      }
+    });
+    return this.flushChain;
+  }
+}
+
+/**
+ * Copy a book at record time. Live feeds mutate their book objects in
+ * place on incremental updates, so buffering the reference would record
+ * the state at flush time instead.
+ */
+function snapshotBook(book: IUnifiedOrderbook): IUnifiedOrderbook {
+  return {
+    ...book,
+    bids: book.bids.map((l) => ({ price: l.price, size: l.size })),
+    asks: book.asks.map((l) => ({ price: l.price, size: l.size })),
+  };
+}
@@ -0,0 +1,240 @@
+import fs from "fs";
+import path from "path";
+import zlib from "zlib";
+import {
+  ReplayEvent,
+  RecordedExchange,
+  IRecordingIndex,
+  IRecordingSegment,
+  IRecordedBook,
+  IRecordedPriceTick,
+} from "../types/replay.types";
+
+export const INDEX_FILE = "index.json";
+const SEGMENT_EXT = ".jsonl.gz";
+
+/** UTC hour bucket for a timestamp, e.g. 1772177700000 → "2026-02-27T07" */
+export function hourBucket(ts: number): string {
+  return new Date(ts).toISOString().slice(0, 13);
+}
+
+export function segmentPath(exchange: RecordedExchange, hour: string): string {
+  return path.join(exchange, `${hour}${SEGMENT_EXT}`);
+}
+
+/**
+ * Exchange a recorded event belongs to. Market listings are Polymarket
+ * metadata and live in the Polymarket segments next to its books.
+ */
+export function eventExchange(event: ReplayEvent): RecordedExchange {
+  switch (event.type) {
+    case "binance_price":
+      return "binance";
+    case "hl_book":
+      return "hyperliquid";
+    case "kalshi_book":
+      return "kalshi";
+    default:
+      return "polymarket";
+  }
+}
+
+// ==================== WRITER ====================
+
+/**
+ * Append-only writer for a recording directory.
+ *
+ * Each `append()` call gzips one batch of events and appends it to the
+ * exchange/hour segment as a separate gzip member — a valid multi-member
+ * gzip file that stays readable up to the last completed batch if the
+ * process dies. The index is rewritten atomically (tmp + rename) after
+ * every append.
+ */
+export class SegmentWriter {
+  private dir: string;
+  private index: IRecordingIndex;
+
+  constructor(dir: string) {
+    this.dir = dir;
+    fs.mkdirSync(dir, { recursive: true });
+    this.index = readIndex(dir) ?? {
+      version: 1,
+      createdAt: Date.now(),
+      updatedAt: Date.now(),
+      segments: [],
+    };
+  }
+
+  /**
+   * Write a batch of events. Events are grouped by exchange and hour, so
+   * a batch that straddles an hour boundary lands in both segments.
+   */
+  async append(events: ReplayEvent[]): Promise<void> {
+    if (events.length === 0) return;
+
+    const groups = new Map<string, { exchange: RecordedExchange; hour: string; events: ReplayEvent[] }>();
+    for (const event of events) {
+      const exchange = eventExchange(event);
+      const hour = hourBucket(event.ts);
+      const key = `${exchange}/${hour}`;
+      let group = groups.get(key);
+      if (!group) {
+        group = { exchange, hour, events: [] };
+        groups.set(key, group);
+      }
+      group.events.push(event);
+    }
+
+    for (const group of groups.values()) {
+      await this.appendSegment(group.exchange, group.hour, group.events);
+    }
+
+    this.index.updatedAt = Date.now();
+    await this.writeIndex();
+  }
+
+  getIndex(): IRecordingIndex {
+    return this.index;
+  }
+
+  private async appendSegment(
+    exchange: RecordedExchange,
+    hour: string,
+    events: ReplayEvent[]
+  ): Promise<void> {
+    const file = segmentPath(exchange, hour);
+    const fullPath = path.join(this.dir, file);
+    await fs.promises.mkdir(path.dirname(fullPath), { recursive: true });
+
+    const body = events.map((e) => JSON.stringify(e)).join("\n") + "\n";
+    const member = zlib.gzipSync(body);
+    await fs.promises.appendFile(fullPath, member);
+
+    let segment = this.index.segments.find((s) => s.file === file);
+    if (!segment) {
+      segment = {
+        exchange,
+        hour,
+        file,
+        firstTs: events[0].ts,
+        lastTs: events[0].ts,
+        eventCount: 0,
+        bytes: 0,
+      };
+      this.index.segments.push(segment);
+      this.index.segments.sort((a, b) => a.hour.localeCompare(b.hour) || a.exchange.localeCompare(b.exchange));
+    }
+
+    for (const event of events) {
+      if (event.ts < segment.firstTs) segment.firstTs = event.ts;
+      if (event.ts > segment.lastTs) segment.lastTs = event.ts;
+    }
+    segment.eventCount += events.length;
+    segment.bytes += member.length;
+  }
+
+  private async writeIndex(): Promise<void> {
+    const target = path.join(this.dir, INDEX_FILE);
+    const tmp = `${target}.tmp`;
+    await fs.promises.writeFile(tmp, JSON.stringify(this.index, null, 2));
+    await fs.promises.rename(tmp, target);
+  }
+}
+
+// ==================== READER ====================
+
+export function readIndex(dir: string): IRecordingIndex | null {
+  const indexPath = path.join(dir, INDEX_FILE);
+  if (!fs.existsSync(indexPath)) return null;
+  return JSON.parse(fs.readFileSync(indexPath, "utf8")) as IRecordingIndex;
+}
+
+/**
+ * Decode one segment. A truncated trailing gzip member (crash mid-write)
+ * is dropped rather than failing the whole segment.
+ */
+export function readSegment(dir: string, segment: IRecordingSegment): ReplayEvent[] {
+  const raw = fs.readFileSync(path.join(dir, segment.file));
+  let text: string;
+  try {
+    text = zlib.gunzipSync(raw).toString("utf8");
+  } catch {
+    text = zlib.gunzipSync(raw, { finishFlush: zlib.constants.Z_SYNC_FLUSH }).toString("utf8");
+  }
+
+  const events: ReplayEvent[] = [];
+  for (const line of text.split("\n")) {
+    if (!line) continue;
+    try {
+      events.push(JSON.parse(line) as ReplayEvent);
+    } catch {
+      // Partial last line from a truncated member
+    }
+  }
+  return events;
+}
+
+export interface RecordingQuery {
+  fromTs?: number;
+  toTs?: number;
+  exchanges?: RecordedExchange[];
+}
+
+/**
+ * Load every event in a recording matching the query, merged across
+ * exchanges and sorted by timestamp (recorded order kept for ties).
+ * Only segments whose [firstTs, lastTs] overlaps the range are opened.
+ */
+export function loadRecording(dir: string, query: RecordingQuery = {}): ReplayEvent[] {
+  const index = readIndex(dir);
+  if (!index) throw new Error(`No ${INDEX_FILE} in recording directory ${dir}`);
+
+  const from = query.fromTs ?? -Infinity;
+  const to = query.toTs ?? Infinity;
+
+  const events: ReplayEvent[] = [];
+  for (const segment of index.segments) {
+    if (query.exchanges && !query.exchanges.includes(segment.exchange)) continue;
+    if (segment.lastTs < from || segment.firstTs > to) continue;
+
+    for (const event of readSegment(dir, segment)) {
+      if (event.ts >= from && event.ts <= to) events.push(event);
+    }
+  }
+
+  return events
+    .map((event, idx) => ({ event, idx }))
+    .sort((a, b) => a.event.ts - b.event.ts || a.idx - b.idx)
+    .map((e) => e.event);
+}
+
+// ==================== STREAM VIEWS ====================
+
+/** Orderbook snapshots from a loaded recording, optionally for one exchange */
+export function toOrderbookStream(
+  events: ReplayEvent[],
+  exchange?: RecordedExchange
+): IRecordedBook[] {
+  const books: IRecordedBook[] = [];
+  for (const event of events) {
+    if (event.type === "pm_book") {
+      books.push({ ts: event.ts, exchange: "polymarket", symbol: event.tokenId, book: event.book });
+    } else if (event.type === "hl_book") {
+      books.push({ ts: event.ts, exchange: "hyperliquid", symbol: event.coin, book: event.book });
+    } else if (event.type === "kalshi_book") {
+      books.push({ ts: event.ts, exchange: "kalshi", symbol: event.ticker, book: event.book });
+    }
+  }
+  return exchange ? books.filter((b) => b.exchange === exchange) : books;
+}
+
+/** Binance spot ticks from a loaded recording, optionally for one asset */
+export function toPriceTickStream(events: ReplayEvent[], asset?: string): IRecordedPriceTick[] {
+  const ticks: IRecordedPriceTick[] = [];
+  for (const event of events) {
+    if (event.type !== "binance_price") continue;
+    if (asset && event.asset !== asset) continue;
+    ticks.push({ ts: event.ts, asset: event.asset, price: event.price });
+  }
+  return ticks;
+}
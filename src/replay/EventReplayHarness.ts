@@ -0,0 +1,203 @@
+import fs from "fs";
+import readline from "readline";
+import { MultiExchangeTickEngine, UpDownMarketListing } from "../exchange/MultiExchangeTickEngine";
+import { HyperliquidClient } from "../exchange/HyperliquidClient";
+import { DemoWallet } from "../exchange/DemoWallet";
+import { PerformanceTracker } from "../polymarket/PerformanceTracker";
+import { VirtualClock } from "./VirtualClock";
+import {
+  ReplayBinanceFeed,
+  ReplayPolymarketFeed,
+  ReplayHyperliquidData,
+  ReplayKalshiClient,
+  ReplayKalshiDiscovery,
+} from "./ReplayFeeds";
+import { ReplayEvent, IReplayResult, IReplayTrade } from "../types/replay.types";
+import { logger } from "../utils/logger";
+
+const log = logger.child("Replay");
+
+const DEFAULT_STARTING_BALANCE = 1000;
+const MAX_REPLAY_TRADES = 5000;
+
+export interface ReplayOptions {
+  startingBalance?: number;
+  /** Keep running the tick loop this long after the last event (e.g. to settle open bets) */
+  tailMs?: number;
+}
+
+/**
+ * Deterministic event replay for MultiExchangeTickEngine.
+ *
+ * Feeds a recorded stream of Binance ticks, Polymarket books/trades,
+ * Hyperliquid and Kalshi books into a real engine instance wired to
+ * file-backed feeds and a VirtualClock. The 500ms tick loop and the
+ * 30s market refresh fire on virtual time between events, so the same
+ * recording always produces the same trades — a change to a constant
+ * such as MOM_HARD_SL_PCT shows up as a diff in the result.
+ */
+export class EventReplayHarness {
+  private events: ReplayEvent[];
+  private options: ReplayOptions;
+
+  constructor(events: ReplayEvent[], options: ReplayOptions = {}) {
+    // Stable sort keeps same-timestamp events in recorded order
+    this.events = events
+      .map((event, idx) => ({ event, idx }))
+      .sort((a, b) => a.event.ts - b.event.ts || a.idx - b.idx)
+      .map((e) => e.event);
+    this.options = options;
+  }
+
+  /**
+   * Read a JSONL replay file (one ReplayEvent per line, blank lines skipped).
+   */
+  static async loadEvents(filePath: string): Promise<ReplayEvent[]> {
+    const events: ReplayEvent[] = [];
+    const rl = readline.createInterface({
+      input: fs.createReadStream(filePath, { encoding: "utf8" }),
+      crlfDelay: Infinity,
+    });
+
+    let lineNo = 0;
+    for await (const line of rl) {
+      lineNo++;
+      const trimmed = line.trim();
+      if (!trimmed) continue;
+      try {
+        events.push(JSON.parse(trimmed) as ReplayEvent);
+      } catch {
+        throw new Error(`Invalid replay event at ${filePath}:${lineNo}`);
+      }
+    }
+    return events;
+  }
+
+  async run(): Promise<IReplayResult> {
+    if (this.events.length === 0) {
+      throw new Error("Replay needs at least one event");
+    }
+
+    const startingBalance = this.options.startingBalance ?? DEFAULT_STARTING_BALANCE;
+    const startTs = this.events[0].ts;
+    const endTs = this.events[this.events.length - 1].ts + (this.options.tailMs ?? 0);
+
+    const clock = new VirtualClock(startTs);
+    const binanceFeed = new ReplayBinanceFeed();
+    const polymarketFeed = new ReplayPolymarketFeed();
+    const hyperliquidData = new ReplayHyperliquidData();
+    const kalshiClient = new ReplayKalshiClient();
+    const kalshiDiscovery = new ReplayKalshiDiscovery(kalshiClient);
+    const demoWallet = new DemoWallet(startingBalance, undefined, clock);
+    // Not initialize()d: its periodic logging runs on wall-clock time
+    const perfTracker = new PerformanceTracker({ persist: false });
+
+    const listings = this.buildMarketListings();
+    const engine = new MultiExchangeTickEngine(
+      kalshiClient,
+      kalshiDiscovery,
+      new HyperliquidClient(),
+      hyperliquidData,
+      demoWallet,
+      perfTracker,
+      undefined,
+      {
+        clock,
+        binanceFeed,
+        polymarketFeed,
+        upDownMarketLookup: async (slug) => listings.get(slug) ?? null,
+      }
+    );
+
+    log.info(
+      `${this.events.length} events | ${new Date(startTs).toISOString()} → ${new Date(endTs).toISOString()}`
+    );
+
+    await engine.start();
+    await VirtualClock.flush();
+
+    let processed = 0;
+    for (const event of this.events) {
+      await clock.advanceTo(event.ts);
+      this.dispatch(event, binanceFeed, polymarketFeed, hyperliquidData, kalshiClient);
+      await VirtualClock.flush();
+      processed++;
+    }
+
+    await clock.advanceTo(endTs);
+    const ticks = engine.getStats().tickCount;
+    await engine.stop();
+
+    const wallet = demoWallet.getState();
+    return {
+      eventsProcessed: processed,
+      startTs,
+      endTs,
+      ticks,
+      startingBalance,
+      finalEquity: wallet.totalEquity,
+      realizedPnl: wallet.totalRealizedPnl,
+      openPositions: wallet.positions.length,
+      trades: perfTracker.getRecentTrades(MAX_REPLAY_TRADES).map(
+        (t): IReplayTrade => ({
+          strategy: t.strategyId,
+          exchange: t.exchange || "polymarket",
+          symbol: t.tokenId,
+          side: t.side === "BUY" ? "LONG" : "SHORT",
+          entryPrice: t.entryPrice,
+          size: t.size,
+          pnl: t.pnl,
+          openedAt: t.openedAt,
+          closedAt: t.closedAt,
+        })
+      ),
+    };
+  }
+
+  /**
+   * Gamma lookups are answered from every pm_market event in the recording,
+   * matching the live API which returns a slug as soon as it is listed.
+   */
+  private buildMarketListings(): Map<string, UpDownMarketListing> {
+    const listings = new Map<string, UpDownMarketListing>();
+    for (const event of this.events) {
+      if (event.type !== "pm_market" || listings.has(event.slug)) continue;
+      listings.set(event.slug, {
+        upTokenId: event.upTokenId,
+        downTokenId: event.downTokenId,
+        upPrice: event.upPrice,
+        downPrice: event.downPrice,
+      });
+    }
+    return listings;
+  }
+
+  private dispatch(
+    event: ReplayEvent,
+    binanceFeed: ReplayBinanceFeed,
+    polymarketFeed: ReplayPolymarketFeed,
+    hyperliquidData: ReplayHyperliquidData,
+    kalshiClient: ReplayKalshiClient
+  ): void {
+    switch (event.type) {
+      case "binance_price":
+        binanceFeed.pushPrice(event.asset, event.price, event.ts);
+        break;
+      case "pm_book":
+        polymarketFeed.pushBook(event.tokenId, event.book);
+        break;
+      case "pm_trade":
+        polymarketFeed.pushTrade(event.tokenId, event.price, event.size, event.side);
+        break;
+      case "hl_book":
+        hyperliquidData.pushBook(event.coin, event.book);
+        break;
+      case "kalshi_book":
+        kalshiClient.pushBook(event.ticker, event.book);
+        break;
+      case "pm_market":
+        // Consumed up front by buildMarketListings()
+        break;
+    }
+  }
+}
@@ -0,0 +1,189 @@
+import { BinanceWebSocketFeed } from "../exchange/BinanceWebSocketFeed";
+import { HyperliquidClient } from "../exchange/HyperliquidClient";
+import { HyperliquidMarketData } from "../exchange/HyperliquidMarketData";
+import { KalshiClient } from "../exchange/KalshiClient";
+import { KalshiMarketDiscovery } from "../exchange/KalshiMarketDiscovery";
+import {
+  IOrderbookFeed,
+  IUnifiedOrderbook,
+  BookUpdateCallback,
+  TradeTickCallback,
+} from "../types/exchange.types";
+import { HyperliquidCoin } from "../types/hyperliquid.types";
+import { logger } from "../utils/logger";
+
+const log = logger.child("ReplayPM");
+
+/**
+ * File-backed stand-ins for the live market data sources. Each one exposes
+ * the same surface the engine already consumes and is fed by the replay
+ * harness via `push*()` calls instead of sockets or REST polling.
+ */
+
+// ==================== BINANCE ====================
+
+export class ReplayBinanceFeed extends BinanceWebSocketFeed {
+  connect(): void {
+    this.connected = true;
+  }
+
+  disconnect(): void {
+    this.connected = false;
+  }
+
+  /** Deliver a recorded miniTicker close price at its recorded timestamp */
+  pushPrice(asset: string, price: number, timestamp: number): void {
+    if (!this.connected || price <= 0) return;
+    this.ingestPrice(asset, price, timestamp);
+  }
+}
+
+// ==================== POLYMARKET ====================
+
+export class ReplayPolymarketFeed implements IOrderbookFeed {
+  private books: Map<string, IUnifiedOrderbook> = new Map();
+  private bookCallbacks: BookUpdateCallback[] = [];
+  private tradeCallbacks: TradeTickCallback[] = [];
+  private subscribedTokens: Set<string> = new Set();
+  private connected = false;
+
+  connect(tokenIds: string[], _labels?: Map<string, string>): void {
+    this.subscribedTokens = new Set(tokenIds);
+    this.connected = true;
+  }
+
+  disconnect(): void {
+    this.connected = false;
+  }
+
+  addMarkets(tokenIds: string[], _labels?: Map<string, string>): void {
+    for (const id of tokenIds) this.subscribedTokens.add(id);
+  }
+
+  onBookUpdate(callback: BookUpdateCallback): void {
+    this.bookCallbacks.push(callback);
+  }
+
+  onTrade(callback: TradeTickCallback): void {
+    this.tradeCallbacks.push(callback);
+  }
+
+  isConnected(): boolean {
+    return this.connected;
+  }
+
+  getOrderbook(tokenId: string): IUnifiedOrderbook | null {
+    return this.books.get(tokenId) ?? null;
+  }
+
+  /**
+   * Deliver a recorded book. Like the live socket, only tokens the engine
+   * has subscribed to are forwarded.
+   */
+  pushBook(tokenId: string, book: IUnifiedOrderbook): void {
+    if (!this.connected || !this.subscribedTokens.has(tokenId)) return;
+
+    this.books.set(tokenId, book);
+    for (const cb of this.bookCallbacks) {
+      try {
+        cb(tokenId, book);
+      } catch (err) {
+        log.error("Book callback error", err);
+      }
+    }
+  }
+
+  pushTrade(tokenId: string, price: number, size: number, side: string): void {
+    if (!this.connected || !this.subscribedTokens.has(tokenId)) return;
+
+    for (const cb of this.tradeCallbacks) {
+      try {
+        cb(tokenId, price, size, side);
+      } catch (err) {
+        log.error("Trade callback error", err);
+      }
+    }
+  }
+}
+
+// ==================== HYPERLIQUID ====================
+
+export class ReplayHyperliquidData extends HyperliquidMarketData {
+  private latestBooks: Map<string, IUnifiedOrderbook> = new Map();
+
+  constructor() {
+    super(new HyperliquidClient());
+  }
+
+  async start(): Promise<void> {
+    // No metadata or mids to load — books arrive from the recording
+  }
+
+  stop(): void {}
+
+  async fetchOrderbook(coin: HyperliquidCoin): Promise<IUnifiedOrderbook | null> {
+    return this.latestBooks.get(coin) ?? null;
+  }
+
+  getCachedOrderbook(coin: string): IUnifiedOrderbook | null {
+    return this.latestBooks.get(coin) ?? null;
+  }
+
+  getMidPrice(coin: string): number {
+    return this.latestBooks.get(coin)?.midPrice || 0;
+  }
+
+  pushBook(coin: string, book: IUnifiedOrderbook): void {
+    this.latestBooks.set(coin, book);
+  }
+}
+
+// ==================== KALSHI ====================
+
+export class ReplayKalshiClient extends KalshiClient {
+  private latestBooks: Map<string, IUnifiedOrderbook> = new Map();
+
+  async getOrderbook(symbol: string): Promise<IUnifiedOrderbook | null> {
+    return this.latestBooks.get(symbol) ?? null;
+  }
+
+  async placeLimitOrder(): Promise<{ success: boolean; orderId?: string; error?: string }> {
+    return { success: false, error: "Order placement disabled in replay" };
+  }
+
+  async placeMarketOrder(): Promise<{ success: boolean; orderId?: string; error?: string }> {
+    return { success: false, error: "Order placement disabled in replay" };
+  }
+
+  pushBook(ticker: string, book: IUnifiedOrderbook): void {
+    this.latestBooks.set(ticker, book);
+  }
+
+  getRecordedTickers(): string[] {
+    return [...this.latestBooks.keys()];
+  }
+}
+
+export class ReplayKalshiDiscovery extends KalshiMarketDiscovery {
+  private replayClient: ReplayKalshiClient;
+
+  constructor(client: ReplayKalshiClient) {
+    super(client);
+    this.replayClient = client;
+  }
+
+  async start(): Promise<void> {}
+
+  stop(): void {}
+
+  async discoverActiveMarkets(): Promise<void> {}
+
+  /** Every ticker that has had a book in the recording so far */
+  getAllActiveTickers(): string[] {
+    return this.replayClient.getRecordedTickers();
+  }
+
+  getTotalActiveCount(): number {
+    return this.replayClient.getRecordedTickers().length;
+  }
+}
@@ -0,0 +1,86 @@
+import { IClock, TimerHandle } from "../utils/clock";
+
+interface VirtualTimer {
+  id: number;
+  callback: () => void;
+  intervalMs: number;
+  nextFireAt: number;
+}
+
+/**
+ * Manually-advanced clock for deterministic replay.
+ *
+ * Time only moves when `advanceTo()` is called. Intervals that fall due are
+ * fired in timestamp order (ties by registration order), with `now()` set to
+ * each timer's scheduled time, and pending promises are drained after every
+ * callback so async tick handlers finish before the next event is applied.
+ */
+export class VirtualClock implements IClock {
+  private currentTs: number;
+  private timers: Map<number, VirtualTimer> = new Map();
+  private nextId = 1;
+
+  constructor(startTs: number) {
+    this.currentTs = startTs;
+  }
+
+  now(): number {
+    return this.currentTs;
+  }
+
+  setInterval(callback: () => void, intervalMs: number): TimerHandle {
+    const id = this.nextId++;
+    this.timers.set(id, {
+      id,
+      callback,
+      intervalMs: Math.max(1, intervalMs),
+      nextFireAt: this.currentTs + Math.max(1, intervalMs),
+    });
+    return id;
+  }
+
+  clearInterval(handle: TimerHandle): void {
+    this.timers.delete(handle as number);
+  }
+
+  /**
+   * Move time forward to `ts`, firing every timer that falls due on the way.
+   * Moving backwards is a no-op so out-of-order events cannot rewind time.
+   */
+  async advanceTo(ts: number): Promise<void> {
+    if (ts < this.currentTs) return;
+
+    for (;;) {
+      const due = this.nextDueTimer(ts);
+      if (!due) break;
+
+      this.currentTs = due.nextFireAt;
+      due.nextFireAt += due.intervalMs;
+      due.callback();
+      await VirtualClock.flush();
+    }
+
+    this.currentTs = ts;
+  }
+
+  getPendingTimerCount(): number {
+    return this.timers.size;
+  }
+
+  /**
+   * Let queued promise continuations (and any setImmediate work they spawn)
+   * run to completion before the replay continues.
+   */
+  static flush(): Promise<void> {
+    return new Promise((resolve) => setImmediate(resolve));
+  }
+
+  private nextDueTimer(limitTs: number): VirtualTimer | null {
+    let best: VirtualTimer | null = null;
+    for (const timer of this.timers.values()) {
+      if (timer.nextFireAt > limitTs) continue;
+      if (!best || timer.nextFireAt < best.nextFireAt) best = timer;
+    }
+    return best;
+  }
+}
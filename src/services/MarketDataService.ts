@@ -114,6 +114,21 @@ export class MarketDataService {
     return candle?.close ?? null;
   }
 
+  /**
+   * Keep the tokens whose market cap falls within [mcapMin, mcapMax].
+   */
+  async filterByMcap(
+    tokens: string[],
+    mcapMin: number,
+    mcapMax: number
+  ): Promise<string[]> {
+    const docs = await Token.find({
+      address: { $in: tokens },
+      mcap: { $gte: mcapMin, $lte: mcapMax },
+    }).exec();
+    return docs.map((t) => t.address);
+  }
+
   /**
    * Get all tokens being tracked.
    */
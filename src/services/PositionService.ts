@@ -1,6 +1,9 @@
 import { Position, IPosition } from "../models/Position";
 import { TokenSwap } from "./TokenSwap";
 import { SwapService } from "./SwapService";
+import { ISwapRouteRecord } from "../types/routing.types";
+import { IExitLeg, IPendingExit } from "../types/strategy.types";
+import { ITxOutcome } from "../types/transaction.types";
 
 export class PositionService {
   static async openPosition(
@@ -8,7 +11,7 @@ export class PositionService {
   ): Promise<IPosition> {
     const position = new Position({
       ...positionData,
-      status: "open",
+      status: positionData.status ?? "open",
       openTimestamp: new Date(),
     });
     return await position.save();
@@ -18,7 +21,9 @@ export class PositionService {
     positionId: string,
     realizedPnl: number,
     lastPrice: number,
-    signature: string
+    signature: string,
+    route?: ISwapRouteRecord,
+    txOutcome?: ITxOutcome
   ): Promise<IPosition | null> {
     const position = await Position.findById(positionId);
     if (!position) return null;
@@ -31,6 +36,126 @@ export class PositionService {
         lastPrice,
         // push signature to the array
         signature: [...(position.signature || []), signature],
+        ...(route && { routes: [...(position.routes || []), route] }),
+        ...(txOutcome && { txOutcomes: [...(position.txOutcomes || []), txOutcome] }),
+      },
+      { new: true }
+    ).exec();
+  }
+
+  /**
+   * Record a landed sell. Partial legs reduce the amount held; the final
+   * leg closes the position with the amount-weighted PnL of all legs.
+   */
+  static async recordExitLeg(
+    positionId: string,
+    leg: IExitLeg,
+    close: boolean,
+    route?: ISwapRouteRecord,
+    txOutcome?: ITxOutcome
+  ): Promise<IPosition | null> {
+    const position = await Position.findById(positionId);
+    if (!position) return null;
+    const update: Partial<IPosition> = {
+      ...this.exitLegUpdate(position, leg, close),
+      ...(route && { routes: [...(position.routes || []), route] }),
+      ...(txOutcome && { txOutcomes: [...(position.txOutcomes || []), txOutcome] }),
+    };
+    return Position.findByIdAndUpdate(positionId, update, { new: true }).exec();
+  }
+
+  /**
+   * Keep a sell whose outcome is unknown: the leg it would book waits on
+   * the position until settlePendingExit, and the amount is untouched.
+   */
+  static async recordPendingExit(
+    positionId: string,
+    pendingExit: IPendingExit,
+    route: ISwapRouteRecord,
+    txOutcome: ITxOutcome
+  ): Promise<IPosition | null> {
+    return Position.findByIdAndUpdate(
+      positionId,
+      { pendingExit, $push: { routes: route, txOutcomes: txOutcome } },
+      { new: true }
+    ).exec();
+  }
+
+  /**
+   * Settle the pending sell with its resolved outcome, which replaces the
+   * unknown one. Landed books the leg; anything else only clears it.
+   */
+  static async settlePendingExit(
+    positionId: string,
+    txOutcome: ITxOutcome
+  ): Promise<IPosition | null> {
+    const position = await Position.findById(positionId);
+    if (!position?.pendingExit) return null;
+    const { leg, final } = position.pendingExit;
+    const outcomes = [...(position.txOutcomes || [])];
+    const index = outcomes.map((o) => o.signature).lastIndexOf(txOutcome.signature);
+    if (index >= 0) outcomes[index] = txOutcome;
+    else outcomes.push(txOutcome);
+
+    const update = {
+      ...(txOutcome.status === "landed" && this.exitLegUpdate(position, leg, final)),
+      txOutcomes: outcomes,
+      $unset: { pendingExit: 1 },
+    };
+    return Position.findByIdAndUpdate(positionId, update, { new: true }).exec();
+  }
+
+  /** Amount, legs and, for the final leg, the close for one landed sell */
+  private static exitLegUpdate(position: IPosition, leg: IExitLeg, close: boolean): Partial<IPosition> {
+    const legs = [...(position.exitLegs || []), leg];
+    const update: Partial<IPosition> = {
+      amount: Math.max(position.amount - leg.amount, 0),
+      lastPrice: leg.price,
+      signature: [...(position.signature || []), leg.signature],
+      exitLegs: legs,
+    };
+    if (close) {
+      const sold = legs.reduce((sum, l) => sum + l.amount, 0);
+      update.status = "closed";
+      update.closeTimestamp = new Date();
+      update.realizedPnl = sold > 0 ? legs.reduce((sum, l) => sum + l.pnlPct * l.amount, 0) / sold : leg.pnlPct;
+    }
+    return update;
+  }
+
+  /** Keep a sell that did not land on record; the position stays open */
+  static async recordTxOutcome(
+    positionId: string,
+    txOutcome: ITxOutcome
+  ): Promise<IPosition | null> {
+    return Position.findByIdAndUpdate(
+      positionId,
+      { $push: { txOutcomes: txOutcome } },
+      { new: true }
+    ).exec();
+  }
+
+  /**
+   * Settle a pending buy with its resolved outcome: landed opens the
+   * position, anything else marks it failed with nothing held.
+   */
+  static async settlePendingBuy(
+    positionId: string,
+    txOutcome: ITxOutcome
+  ): Promise<IPosition | null> {
+    const position = await Position.findById(positionId);
+    if (!position || position.status !== "pending") return null;
+    const landed = txOutcome.status === "landed";
+    // The pending record's last outcome is the unknown one being replaced
+    const outcomes = [...(position.txOutcomes || [])];
+    outcomes[Math.max(outcomes.length - 1, 0)] = txOutcome;
+    return Position.findByIdAndUpdate(
+      positionId,
+      {
+        status: landed ? "open" : "failed",
+        ...(!landed && { amount: 0, closeTimestamp: new Date() }),
+        ...(landed && txOutcome.signature && { signature: [...(position.signature || []), txOutcome.signature] }),
+        txOutcomes: outcomes,
       },
       { new: true }
     ).exec();
@@ -43,10 +168,19 @@ export class PositionService {
     return Position.findByIdAndUpdate(positionId, update, { new: true }).exec();
   }
 
+  static async getPosition(positionId: string): Promise<IPosition | null> {
+    return Position.findById(positionId).exec();
+  }
+
   static async getOpenPositions(): Promise<IPosition[]> {
     return Position.find({ status: "open" }).sort({ openTimestamp: -1 }).exec();
   }
 
+  /** Buys whose transaction outcome is not known yet */
+  static async getPendingPositions(): Promise<IPosition[]> {
+    return Position.find({ status: "pending" }).sort({ openTimestamp: -1 }).exec();
+  }
+
   static calculatePnL(avgBuyPrice: number, currentPrice: number): number {
     return ((currentPrice - avgBuyPrice) / avgBuyPrice) * 100;
   }
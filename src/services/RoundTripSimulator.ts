@@ -0,0 +1,332 @@
+import {
+  AddressLookupTableAccount,
+  ComputeBudgetProgram,
+  Connection,
+  PublicKey,
+  SimulatedTransactionResponse,
+  TransactionInstruction,
+  TransactionMessage,
+  VersionedTransaction,
+} from "@solana/web3.js";
+import { getATAAddress } from "@raydium-io/raydium-sdk-v2";
+import { IRoundTripSimulation } from "../types/risk.types";
+import { ISwapQuote } from "../types/routing.types";
+import { JupiterInstruction, JupiterRoute, JupiterSwapInstructions } from "./routing/JupiterRoute";
+import { TOKEN_2022_PROGRAM_ID, USDC_MINT_ADDRESS } from "../utils/constants";
+
+// Token-2022 mint extension types (TLV after the 165-byte base + account type)
+const EXT_TRANSFER_FEE_CONFIG = 1;
+const EXT_DEFAULT_ACCOUNT_STATE = 6;
+const EXT_NON_TRANSFERABLE = 9;
+const EXT_PERMANENT_DELEGATE = 12;
+const EXT_TRANSFER_HOOK = 14;
+
+const ACCOUNT_STATE_FROZEN = 2;
+
+export interface RoundTripSimulatorOptions {
+  probeUsdc?: number;     // default 5 — buy size; capped by the wallet's USDC
+  slippageBps?: number;   // default 500 — loose, since slippage is what we measure
+  cacheTtlMs?: number;    // default 2 min
+}
+
+interface MintTraits {
+  tokenProgram: PublicKey;
+  transferFeeBps: number;
+  transferHookProgram?: string;
+  permanentDelegate: boolean;
+  defaultFrozen: boolean;
+  nonTransferable: boolean;
+}
+
+/**
+ * Honeypot test by simulation. Buys a small amount of the token with
+ * the trading wallet's USDC, then sells exactly what arrived, composing
+ * both Jupiter swaps into one transaction so the sell sees the buy's
+ * state. simulateTransaction runs it against the live chain without
+ * signatures; the wallet's token and USDC accounts are read back from
+ * the simulated post-state to measure what each leg actually delivered.
+ *
+ * Jupiter is used for both legs regardless of the execution route: tax,
+ * hook and freeze behaviour belong to the token, not the venue.
+ */
+export class RoundTripSimulator {
+  private connection: Connection;
+  private taker: PublicKey;
+  private jupiter: JupiterRoute;
+  private probeUsdc: number;
+  private slippageBps: number;
+  private cacheTtlMs: number;
+  private cache: Map<string, { data: IRoundTripSimulation; expiresAt: number }> = new Map();
+  private lookupTables: Map<string, AddressLookupTableAccount> = new Map();
+
+  constructor(
+    connection: Connection,
+    taker: PublicKey,
+    jupiter: JupiterRoute,
+    options: RoundTripSimulatorOptions = {}
+  ) {
+    this.connection = connection;
+    this.taker = taker;
+    this.jupiter = jupiter;
+    this.probeUsdc = options.probeUsdc ?? 5;
+    this.slippageBps = options.slippageBps ?? 500;
+    this.cacheTtlMs = options.cacheTtlMs ?? 120_000;
+  }
+
+  async simulate(tokenAddress: string): Promise<IRoundTripSimulation> {
+    const cached = this.cache.get(tokenAddress);
+    if (cached && cached.expiresAt > Date.now()) return cached.data;
+
+    const result = await this.run(tokenAddress);
+
+    // Only cache verdicts; an RPC hiccup shouldn't stick for the TTL
+    if (result.conclusive) {
+      this.cache.set(tokenAddress, { data: result, expiresAt: Date.now() + this.cacheTtlMs });
+    }
+    return result;
+  }
+
+  private async run(tokenAddress: string): Promise<IRoundTripSimulation> {
+    const result: IRoundTripSimulation = {
+      tokenAddress,
+      conclusive: false,
+      buySucceeded: false,
+      sellSucceeded: false,
+      probeUsdc: 0,
+      frozenAfterBuy: false,
+      transferFeeBps: 0,
+      transferHookInvoked: false,
+      permanentDelegate: false,
+      flags: [],
+    };
+    const inconclusive = (error: string) => ({ ...result, error, flags: [...result.flags, "SIM_INCONCLUSIVE"] });
+    const verdict = (error?: string) => ({ ...result, conclusive: true, error });
+
+    // 1. Mint extensions
+    const mint = await this.getMintTraits(tokenAddress);
+    if (!mint) return inconclusive("mint account not found");
+    result.transferFeeBps = mint.transferFeeBps;
+    result.transferHookProgram = mint.transferHookProgram;
+    result.permanentDelegate = mint.permanentDelegate;
+    if (mint.transferFeeBps > 0) result.flags.push("TRANSFER_FEE");
+    if (mint.transferHookProgram) result.flags.push("TRANSFER_HOOK");
+    if (mint.permanentDelegate) result.flags.push("PERMANENT_DELEGATE");
+    if (mint.defaultFrozen) result.flags.push("DEFAULT_FROZEN");
+    if (mint.nonTransferable) {
+      result.flags.push("NON_TRANSFERABLE");
+      return verdict("mint is non-transferable");
+    }
+
+    // 2. Probe size from the wallet's USDC
+    const tokenAccount = getATAAddress(this.taker, new PublicKey(tokenAddress), mint.tokenProgram).publicKey;
+    const usdcAccount = getATAAddress(this.taker, new PublicKey(USDC_MINT_ADDRESS)).publicKey;
+    const [usdcBefore, tokenBefore] = await Promise.all([
+      this.getBalance(usdcAccount),
+      this.getBalance(tokenAccount),
+    ]);
+    const probe = bigMin(BigInt(Math.floor(this.probeUsdc * 1e6)), usdcBefore);
+    if (probe < 100_000n) return inconclusive("wallet holds under 0.1 USDC to probe with");
+    result.probeUsdc = Number(probe) / 1e6;
+
+    // 3. Buy alone: how many tokens arrive, and in what state
+    const buyQuote = await this.quote(USDC_MINT_ADDRESS, tokenAddress, probe);
+    if (!buyQuote) return inconclusive("no buy route");
+    const buyLeg = await this.jupiter.getSwapInstructions(buyQuote, this.taker.toBase58());
+    if (!buyLeg) return inconclusive("buy instructions unavailable");
+
+    const buySim = await this.simulateLegs([buyLeg], [tokenAccount]);
+    if (!buySim) return inconclusive("buy transaction too large");
+    if (buySim.err) {
+      result.flags.push("SIM_BUY_FAILED");
+      return verdict(`buy: ${describeError(buySim)}`);
+    }
+    result.buySucceeded = true;
+
+    const tokenAfter = parseTokenAccount(buySim.accounts?.[0]);
+    const received = tokenAfter.amount - tokenBefore;
+    result.frozenAfterBuy = tokenAfter.frozen;
+    result.buyTaxPct = shortfallPct(received, BigInt(buyQuote.outAmount));
+    if (tokenAfter.frozen) {
+      result.flags.push("FROZEN_AFTER_BUY");
+      return verdict("token account frozen after buy");
+    }
+    if (received <= 0n) {
+      result.flags.push("SIM_BUY_NOTHING_RECEIVED");
+      return verdict("buy delivered no tokens");
+    }
+
+    // 4. Buy then sell everything received
+    const sellQuote = await this.quote(tokenAddress, USDC_MINT_ADDRESS, received);
+    if (!sellQuote) {
+      result.flags.push("SIM_NO_SELL_ROUTE");
+      return verdict("no sell route for the received amount");
+    }
+    const sellLeg = await this.jupiter.getSwapInstructions(sellQuote, this.taker.toBase58());
+    if (!sellLeg) return inconclusive("sell instructions unavailable");
+
+    const roundTrip = await this.simulateLegs([buyLeg, sellLeg], [usdcAccount]);
+    if (!roundTrip) return inconclusive("round-trip transaction too large");
+    result.transferHookInvoked = !!mint.transferHookProgram &&
+      (roundTrip.logs || []).some((l) => l.startsWith(`Program ${mint.transferHookProgram} invoke`));
+    if (roundTrip.err) {
+      result.flags.push("SIM_SELL_FAILED");
+      return verdict(`sell: ${describeError(roundTrip)}`);
+    }
+    result.sellSucceeded = true;
+
+    const usdcAfter = parseTokenAccount(roundTrip.accounts?.[0]).amount;
+    const usdcBack = usdcAfter - (usdcBefore - probe);
+    result.sellTaxPct = shortfallPct(usdcBack, BigInt(sellQuote.outAmount));
+    result.roundTripLossPct = shortfallPct(usdcBack, probe);
+    return verdict();
+  }
+
+  private quote(inputMint: string, outputMint: string, amount: bigint): Promise<ISwapQuote | null> {
+    return this.jupiter.quote({
+      inputMint,
+      outputMint,
+      amount: amount.toString(),
+      taker: this.taker.toBase58(),
+      slippageBps: this.slippageBps,
+    });
+  }
+
+  /**
+   * Compose the legs under one compute budget and simulate unsigned,
+   * returning the post-state of the given accounts, or null when the
+   * composed transaction exceeds the size limit. The blockhash is a
+   * placeholder: the RPC replaces it.
+   */
+  private async simulateLegs(
+    legs: JupiterSwapInstructions[],
+    accounts: PublicKey[]
+  ): Promise<SimulatedTransactionResponse | null> {
+    const instructions = [ComputeBudgetProgram.setComputeUnitLimit({ units: 1_400_000 })];
+    for (const leg of legs) {
+      instructions.push(...leg.setupInstructions.map(toInstruction), toInstruction(leg.swapInstruction));
+      if (leg.cleanupInstruction) instructions.push(toInstruction(leg.cleanupInstruction));
+    }
+    const tables = await this.getLookupTables([...new Set(legs.flatMap((l) => l.addressLookupTableAddresses))]);
+
+    let tx: VersionedTransaction;
+    try {
+      const message = new TransactionMessage({
+        payerKey: this.taker,
+        recentBlockhash: PublicKey.default.toBase58(),
+        instructions,
+      }).compileToV0Message(tables);
+      tx = new VersionedTransaction(message);
+      tx.serialize();
+    } catch {
+      return null; // over 1232 bytes or 64 accounts
+    }
+
+    const { value } = await this.connection.simulateTransaction(tx, {
+      sigVerify: false,
+      replaceRecentBlockhash: true,
+      commitment: "processed",
+      accounts: { encoding: "base64", addresses: accounts.map((a) => a.toBase58()) },
+    });
+    return value;
+  }
+
+  private async getLookupTables(addresses: string[]): Promise<AddressLookupTableAccount[]> {
+    const missing = addresses.filter((a) => !this.lookupTables.has(a));
+    const fetched = await Promise.all(missing.map((a) => this.connection.getAddressLookupTable(new PublicKey(a))));
+    for (const { value } of fetched) {
+      if (value) this.lookupTables.set(value.key.toBase58(), value);
+    }
+    return addresses.map((a) => this.lookupTables.get(a)).filter((t): t is AddressLookupTableAccount => !!t);
+  }
+
+  private async getMintTraits(tokenAddress: string): Promise<MintTraits | null> {
+    const info = await this.connection.getAccountInfo(new PublicKey(tokenAddress));
+    if (!info) return null;
+
+    const traits: MintTraits = {
+      tokenProgram: info.owner,
+      transferFeeBps: 0,
+      permanentDelegate: false,
+      defaultFrozen: false,
+      nonTransferable: false,
+    };
+    if (info.owner.toBase58() !== TOKEN_2022_PROGRAM_ID) return traits;
+
+    const data = info.data;
+    let offset = 166;
+    while (offset + 4 <= data.length) {
+      const type = data.readUInt16LE(offset);
+      const length = data.readUInt16LE(offset + 2);
+      const value = data.subarray(offset + 4, offset + 4 + length);
+      switch (type) {
+        case EXT_TRANSFER_FEE_CONFIG:
+          // authorities (64) + withheld (8) + older fee (18) + newer fee epoch/max (16)
+          traits.transferFeeBps = value.readUInt16LE(106);
+          break;
+        case EXT_DEFAULT_ACCOUNT_STATE:
+          traits.defaultFrozen = value[0] === ACCOUNT_STATE_FROZEN;
+          break;
+        case EXT_NON_TRANSFERABLE:
+          traits.nonTransferable = true;
+          break;
+        case EXT_PERMANENT_DELEGATE:
+          traits.permanentDelegate = !value.subarray(0, 32).equals(Buffer.alloc(32));
+          break;
+        case EXT_TRANSFER_HOOK: {
+          const program = new PublicKey(value.subarray(32, 64));
+          if (!program.equals(PublicKey.default)) traits.transferHookProgram = program.toBase58();
+          break;
+        }
+      }
+      if (type === 0) break; // uninitialized padding
+      offset += 4 + length;
+    }
+    return traits;
+  }
+
+  private async getBalance(account: PublicKey): Promise<bigint> {
+    try {
+      const { value } = await this.connection.getTokenAccountBalance(account);
+      return BigInt(value.amount);
+    } catch {
+      return 0n; // no account yet
+    }
+  }
+}
+
+function toInstruction(ix: JupiterInstruction): TransactionInstruction {
+  return new TransactionInstruction({
+    programId: new PublicKey(ix.programId),
+    keys: ix.accounts.map((a) => ({
+      pubkey: new PublicKey(a.pubkey),
+      isSigner: a.isSigner,
+      isWritable: a.isWritable,
+    })),
+    data: Buffer.from(ix.data, "base64"),
+  });
+}
+
+/** SPL token account: amount at 64 (u64), state at 108; both programs share the base layout */
+function parseTokenAccount(account: { data: string[] } | null | undefined): { amount: bigint; frozen: boolean } {
+  if (!account) return { amount: 0n, frozen: false };
+  const data = Buffer.from(account.data[0], "base64");
+  if (data.length < 109) return { amount: 0n, frozen: false };
+  return { amount: data.readBigUInt64LE(64), frozen: data[108] === ACCOUNT_STATE_FROZEN };
+}
+
+/** How far actual fell short of expected, in percent (never negative) */
+function shortfallPct(actual: bigint, expected: bigint): number {
+  if (expected <= 0n) return 0;
+  return Math.max(0, (1 - Number(actual) / Number(expected)) * 100);
+}
+
+function bigMin(a: bigint, b: bigint): bigint {
+  return a < b ? a : b;
+}
+
+/** The program error plus the last log line, which usually names the cause */
+function describeError(sim: SimulatedTransactionResponse): string {
+  const lastLog = (sim.logs || []).filter((l) => !l.startsWith("Program consumption")).slice(-1)[0];
+  const err = typeof sim.err === "string" ? sim.err : JSON.stringify(sim.err);
+  return lastLog ? `${err} (${lastLog})` : err;
+}
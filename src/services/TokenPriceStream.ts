@@ -0,0 +1,73 @@
+import { SwapService } from "./SwapService";
+import { logger } from "../utils/logger";
+
+const log = logger.child("PriceStream");
+
+type PriceCallback = (tokenAddress: string, price: number, timestamp: Date) => void;
+
+/**
+ * USDC prices for a changing set of tokens, pushed to listeners as they
+ * arrive. Backed by one batched Jupiter price request per interval, so
+ * listeners see every watched token at the same cadence.
+ */
+export class TokenPriceStream {
+  private swapService = new SwapService();
+  private watchers: Map<string, number> = new Map(); // token -> watch count
+  private callbacks: PriceCallback[] = [];
+  private intervalMs: number;
+  private handle: NodeJS.Timeout | null = null;
+  private polling = false;
+
+  constructor(intervalMs: number = 3000) {
+    this.intervalMs = intervalMs;
+  }
+
+  start(): void {
+    if (this.handle) return;
+    this.handle = setInterval(() => this.poll(), this.intervalMs);
+    log.info(`Polling watched tokens every ${this.intervalMs}ms`);
+  }
+
+  stop(): void {
+    if (this.handle) clearInterval(this.handle);
+    this.handle = null;
+  }
+
+  onPrice(callback: PriceCallback): void {
+    this.callbacks.push(callback);
+  }
+
+  watch(tokenAddress: string): void {
+    this.watchers.set(tokenAddress, (this.watchers.get(tokenAddress) || 0) + 1);
+  }
+
+  unwatch(tokenAddress: string): void {
+    const count = (this.watchers.get(tokenAddress) || 0) - 1;
+    if (count > 0) this.watchers.set(tokenAddress, count);
+    else this.watchers.delete(tokenAddress);
+  }
+
+  private async poll(): Promise<void> {
+    // A slow response must not stack requests
+    if (this.polling || this.watchers.size === 0) return;
+    this.polling = true;
+    try {
+      const tokens = [...this.watchers.keys()];
+      const data = await this.swapService.getTokenPrice(tokens);
+      const timestamp = new Date();
+      for (const token of tokens) {
+        const price = Number(data?.prices?.[token]);
+        if (!(price > 0)) continue;
+        for (const cb of this.callbacks) {
+          try {
+            cb(token, price, timestamp);
+          } catch (err) {
+            log.error(`Listener failed for ${token}:`, err);
+          }
+        }
+      }
+    } finally {
+      this.polling = false;
+    }
+  }
+}
@@ -1,4 +1,5 @@
 import { Token, IToken } from "../models/Token";
+import { IDiscoveredToken, TokenSourceId } from "../types/discovery.types";
 
 export class TokenService {
   static async getTokenByAddress(address: string): Promise<IToken | null> {
@@ -16,4 +17,48 @@ export class TokenService {
       { upsert: true, new: true }
     ).exec();
   }
+
+  /**
+   * Upsert a discovery pipeline candidate: market fields are refreshed,
+   * source tags accumulate and the first discovery time is kept.
+   */
+  static async upsertDiscoveredToken(
+    token: IDiscoveredToken,
+    sources: TokenSourceId[]
+  ): Promise<IToken> {
+    const fields: Partial<IToken> = {
+      symbol: token.symbol || token.address.slice(0, 6),
+      price: token.price ?? 0,
+      volume24h: token.volume24h ?? 0,
+      age: formatAge(token.pairCreatedAt),
+      priceChange1h: token.priceChange1h !== undefined ? `${token.priceChange1h}%` : "0%",
+      timestamp: new Date(),
+    };
+    if (token.name !== undefined) fields.name = token.name;
+    if (token.decimals !== undefined) fields.decimals = token.decimals;
+    if (token.logoURI !== undefined) fields.logoURI = token.logoURI;
+    if (token.mcap !== undefined) fields.mcap = token.mcap;
+    if (token.liquidity !== undefined) fields.liquidity = token.liquidity;
+    if (token.pairCreatedAt !== undefined) fields.createdAt = token.pairCreatedAt;
+    if (token.poolAddress !== undefined) fields.poolAddress = token.poolAddress;
+
+    return Token.findOneAndUpdate(
+      { address: token.address },
+      {
+        $set: fields,
+        $addToSet: { sources: { $each: sources } },
+        $setOnInsert: { discoveredAt: token.discoveredAt },
+      },
+      { upsert: true, new: true }
+    ).exec();
+  }
+}
+
+/** Compact age like DexScreener shows it: "45m", "6h", "3d" */
+function formatAge(createdAt?: Date): string {
+  if (!createdAt) return "unknown";
+  const minutes = Math.max(0, Math.floor((Date.now() - createdAt.getTime()) / 60_000));
+  if (minutes < 60) return `${minutes}m`;
+  if (minutes < 48 * 60) return `${Math.floor(minutes / 60)}h`;
+  return `${Math.floor(minutes / 1440)}d`;
 }
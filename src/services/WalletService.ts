@@ -10,9 +10,12 @@ import { logger } from "../utils/logger";
 import bs58 from "bs58";
 import { USDC_MINT_ADDRESS } from "../utils/constants";
 
+const MINT_DECIMALS_OFFSET = 44; // same in SPL Token and Token-2022 mints
+
 export class WalletService {
   private wallet: Keypair;
   private connection: Connection;
+  private mintDecimals: Map<string, number> = new Map();
 
   constructor() {
     this.wallet = this.loadWalletFromPrivateKey(env.solanaPrivateKey!);
@@ -48,6 +51,10 @@ export class WalletService {
     return this.wallet;
   }
 
+  public getConnection(): Connection {
+    return this.connection;
+  }
+
   public async getSolBalance(): Promise<number> {
     const balance = await this.connection.getBalance(this.getPublicKey());
     return balance / LAMPORTS_PER_SOL;
@@ -82,6 +89,23 @@ export class WalletService {
     }
   }
 
+  /**
+   * Decimals of a token mint, read from the mint account once and cached.
+   * Throws when the mint does not exist.
+   */
+  public async getTokenDecimals(mint: string): Promise<number> {
+    const cached = this.mintDecimals.get(mint);
+    if (cached !== undefined) return cached;
+
+    const info = await this.connection.getAccountInfo(new PublicKey(mint));
+    if (!info || info.data.length <= MINT_DECIMALS_OFFSET) {
+      throw new Error(`Mint account ${mint} not found`);
+    }
+    const decimals = info.data[MINT_DECIMALS_OFFSET];
+    this.mintDecimals.set(mint, decimals);
+    return decimals;
+  }
+
   public async executeSwap(swapTransaction: string) {
     // Deserialize transaction
     const swapTransactionBuf = Buffer.from(swapTransaction, "base64");
@@ -54,10 +54,12 @@ export class WebSocketService {
   }
 
   /**
-   * Subscribe to new pool creation events on Raydium.
+   * Subscribe to new pool creation events on Raydium. Every callback
+   * shares one log subscription.
    */
   subscribeNewPools(callback: PoolCallback): void {
     this.poolCallbacks.push(callback);
+    if (this.poolCallbacks.length > 1) return;
     // Raydium V4 AMM program
     const raydiumProgramId = new PublicKey(
       "675kPX9MHTjS2zt1qfr1NYHuzeLXfQM9H24wFSUt1Mp8"
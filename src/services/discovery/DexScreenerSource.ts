@@ -0,0 +1,68 @@
+import { DexScreenerApi, DexScreenerPair } from "../../external/DexScreenerApi";
+import { IDiscoveredToken, TokenSourceId } from "../../types/discovery.types";
+import { PollingDiscoverySource } from "./TokenDiscoverySource";
+
+const CHAIN_ID = "solana";
+
+/**
+ * Boosted and newly profiled Solana tokens from the DexScreener API,
+ * priced from each token's deepest pool. Replaces scraping the trending
+ * page with a headless browser.
+ */
+export class DexScreenerSource extends PollingDiscoverySource {
+  readonly id = "dexscreener" as const;
+  private api: DexScreenerApi;
+  private maxTokensPerPoll: number;
+
+  constructor(api: DexScreenerApi, options: { pollIntervalMs?: number; maxTokensPerPoll?: number } = {}) {
+    super(options.pollIntervalMs ?? 30_000);
+    this.api = api;
+    this.maxTokensPerPoll = options.maxTokensPerPoll ?? 60;
+  }
+
+  protected async poll(): Promise<IDiscoveredToken[]> {
+    const [boosts, profiles] = await Promise.all([this.api.getTopBoosts(), this.api.getLatestProfiles()]);
+
+    // Boosts first: they are the closest thing to the old trending ranking
+    const addresses = [
+      ...new Set(
+        [...boosts, ...profiles].filter((t) => t.chainId === CHAIN_ID).map((t) => t.tokenAddress)
+      ),
+    ].slice(0, this.maxTokensPerPoll);
+    if (addresses.length === 0) return [];
+
+    return pairsToTokens(await this.api.getTokenPairs(CHAIN_ID, addresses), this.id);
+  }
+}
+
+/**
+ * One candidate per base token, described by its deepest pool. Shared
+ * with the pipeline, which enriches on-chain candidates the same way.
+ */
+export function pairsToTokens(pairs: DexScreenerPair[], source: TokenSourceId): IDiscoveredToken[] {
+  const deepest = new Map<string, DexScreenerPair>();
+  for (const pair of pairs) {
+    if (pair.chainId !== CHAIN_ID) continue;
+    const current = deepest.get(pair.baseToken.address);
+    if (!current || (pair.liquidity?.usd || 0) > (current.liquidity?.usd || 0)) {
+      deepest.set(pair.baseToken.address, pair);
+    }
+  }
+
+  const now = new Date();
+  return [...deepest.values()].map((pair) => ({
+    address: pair.baseToken.address,
+    source,
+    discoveredAt: now,
+    symbol: pair.baseToken.symbol,
+    name: pair.baseToken.name,
+    logoURI: pair.info?.imageUrl,
+    price: pair.priceUsd !== undefined ? parseFloat(pair.priceUsd) : undefined,
+    volume24h: pair.volume?.h24,
+    liquidity: pair.liquidity?.usd,
+    mcap: pair.marketCap ?? pair.fdv,
+    priceChange1h: pair.priceChange?.h1,
+    pairCreatedAt: pair.pairCreatedAt ? new Date(pair.pairCreatedAt) : undefined,
+    poolAddress: pair.pairAddress,
+  }));
+}
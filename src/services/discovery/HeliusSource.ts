@@ -0,0 +1,72 @@
+import { HeliusClient } from "../../external/HeliusClient";
+import { IDiscoveredToken } from "../../types/discovery.types";
+import { SOL_MINT_ADDRESS, USDC_MINT_ADDRESS } from "../../utils/constants";
+import { PollingDiscoverySource } from "./TokenDiscoverySource";
+
+const QUOTE_MINTS = new Set([SOL_MINT_ADDRESS, USDC_MINT_ADDRESS]);
+const MAX_SEEN_SIGNATURES = 5_000;
+
+/** A program to watch and the Helius transaction type that marks a launch */
+export interface HeliusLaunchProgram {
+  address: string;
+  type: string;
+}
+
+const DEFAULT_PROGRAMS: HeliusLaunchProgram[] = [
+  { address: "6EF8rrecthR5Dkzon8Nwu78hRvfCKubJ14M5uBEwF6P", type: "CREATE" },      // Pump.fun
+  { address: "675kPX9MHTjS2zt1qfr1NYHuzeLXfQM9H24wFSUt1Mp8", type: "CREATE_POOL" }, // Raydium AMM v4
+];
+
+/**
+ * Token launches and pool creations from Helius enhanced transactions.
+ * Catches launchpad mints that never touch the Raydium log subscription;
+ * like NewPoolSource, market data comes from pipeline enrichment.
+ */
+export class HeliusSource extends PollingDiscoverySource {
+  readonly id = "helius" as const;
+  private client: HeliusClient;
+  private programs: HeliusLaunchProgram[];
+  private seenSignatures: Set<string> = new Set();
+
+  constructor(client: HeliusClient, options: { pollIntervalMs?: number; programs?: HeliusLaunchProgram[] } = {}) {
+    super(options.pollIntervalMs ?? 20_000);
+    this.client = client;
+    this.programs = options.programs ?? DEFAULT_PROGRAMS;
+  }
+
+  protected async poll(): Promise<IDiscoveredToken[]> {
+    const tokens: IDiscoveredToken[] = [];
+    const now = new Date();
+
+    for (const program of this.programs) {
+      const txs = await this.client.getEnhancedTransactions(program.address, { limit: 50, type: program.type });
+      for (const tx of txs) {
+        if (this.seenSignatures.has(tx.signature)) continue;
+        this.rememberSignature(tx.signature);
+
+        const mints = new Set(
+          (tx.tokenTransfers || []).map((t) => t.mint).filter((m) => m && !QUOTE_MINTS.has(m))
+        );
+        for (const mint of mints) {
+          tokens.push({
+            address: mint,
+            source: this.id,
+            discoveredAt: now,
+            pairCreatedAt: tx.timestamp ? new Date(tx.timestamp * 1000) : undefined,
+          });
+        }
+      }
+    }
+
+    return tokens;
+  }
+
+  private rememberSignature(signature: string): void {
+    this.seenSignatures.add(signature);
+    if (this.seenSignatures.size > MAX_SEEN_SIGNATURES) {
+      // Sets iterate in insertion order: drop the oldest
+      const oldest = this.seenSignatures.values().next().value;
+      if (oldest !== undefined) this.seenSignatures.delete(oldest);
+    }
+  }
+}
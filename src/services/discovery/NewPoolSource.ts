@@ -0,0 +1,51 @@
+import { WebSocketService } from "../WebSocketService";
+import { IDiscoveredToken } from "../../types/discovery.types";
+import { IPoolCreationEvent } from "../../types/market.types";
+import { SOL_MINT_ADDRESS, USDC_MINT_ADDRESS } from "../../utils/constants";
+import { DiscoveryEmitter, TokenDiscoverySource } from "./TokenDiscoverySource";
+
+const QUOTE_MINTS = new Set([SOL_MINT_ADDRESS, USDC_MINT_ADDRESS]);
+
+/**
+ * New Raydium pools seen on-chain. Only the mint and pool are known at
+ * creation; market data comes from pipeline enrichment once DexScreener
+ * indexes the pool.
+ */
+export class NewPoolSource implements TokenDiscoverySource {
+  readonly id = "new_pools" as const;
+  private webSocket: WebSocketService;
+  private emit: DiscoveryEmitter | null = null;
+  private subscribed = false;
+
+  constructor(webSocket: WebSocketService) {
+    this.webSocket = webSocket;
+  }
+
+  async start(emit: DiscoveryEmitter): Promise<void> {
+    this.emit = emit;
+    // WebSocketService has no unsubscribe; stop() detaches the emitter instead
+    if (!this.subscribed) {
+      this.subscribed = true;
+      this.webSocket.subscribeNewPools((event) => this.onPool(event));
+    }
+  }
+
+  async stop(): Promise<void> {
+    this.emit = null;
+  }
+
+  private onPool(event: IPoolCreationEvent): void {
+    if (!this.emit) return;
+    const mint = [event.baseMint, event.quoteMint].find((m) => m && !QUOTE_MINTS.has(m));
+    if (!mint) return;
+
+    const token: IDiscoveredToken = {
+      address: mint,
+      source: this.id,
+      discoveredAt: event.timestamp,
+      pairCreatedAt: event.timestamp,
+      poolAddress: event.poolAddress || undefined,
+    };
+    this.emit([token]);
+  }
+}
@@ -0,0 +1,250 @@
+import { DexScreenerApi } from "../../external/DexScreenerApi";
+import { IDiscoveredToken, ITokenFilterRules, TokenSourceId } from "../../types/discovery.types";
+import { TokenService } from "../TokenService";
+import { logger } from "../../utils/logger";
+import { pairsToTokens } from "./DexScreenerSource";
+import { TokenDiscoverySource } from "./TokenDiscoverySource";
+
+const log = logger.child("Discovery");
+
+const HOUR_MS = 60 * 60 * 1000;
+
+export const DEFAULT_DISCOVERY_RULES: Record<TokenSourceId, ITokenFilterRules> = {
+  dexscreener: { minLiquidity: 10_000, minVolume24h: 5_000, maxAgeMs: 7 * 24 * HOUR_MS },
+  new_pools: { minLiquidity: 5_000, maxAgeMs: 6 * HOUR_MS },
+  helius: { minLiquidity: 5_000, maxAgeMs: 6 * HOUR_MS },
+};
+
+export interface TokenDiscoveryPipelineOptions {
+  rules?: Partial<Record<TokenSourceId, ITokenFilterRules>>; // merged over the defaults per field
+  flushIntervalMs?: number;   // default 15s
+  maxEnrichAttempts?: number; // default 8 — how many flushes a token may wait for market data
+}
+
+interface Candidate {
+  token: IDiscoveredToken;
+  sources: Set<TokenSourceId>;
+  attempts: number;
+}
+
+/**
+ * Merges candidates from every TokenDiscoverySource into the Token
+ * collection.
+ *
+ * Reports are keyed by mint, so a token seen by several sources is one
+ * candidate carrying all their tags. On each flush, candidates without
+ * market data are looked up on DexScreener (fresh on-chain pools can take
+ * a minute to be indexed, so they are retried), then kept if they pass
+ * the rules of at least one source that reported them.
+ */
+export class TokenDiscoveryPipeline {
+  private sources: TokenDiscoverySource[];
+  private dexScreener: DexScreenerApi;
+  private rules: Record<TokenSourceId, ITokenFilterRules>;
+  private flushIntervalMs: number;
+  private maxEnrichAttempts: number;
+  private pending: Map<string, Candidate> = new Map();
+  private flushTimer: NodeJS.Timeout | null = null;
+  private flushing = false;
+
+  constructor(
+    sources: TokenDiscoverySource[],
+    dexScreener: DexScreenerApi,
+    options: TokenDiscoveryPipelineOptions = {}
+  ) {
+    this.sources = sources;
+    this.dexScreener = dexScreener;
+    this.flushIntervalMs = options.flushIntervalMs ?? 15_000;
+    this.maxEnrichAttempts = options.maxEnrichAttempts ?? 8;
+    this.rules = { ...DEFAULT_DISCOVERY_RULES };
+    for (const [id, rules] of Object.entries(options.rules || {}) as [TokenSourceId, ITokenFilterRules][]) {
+      this.rules[id] = { ...this.rules[id], ...rules };
+    }
+  }
+
+  /**
+   * Parse per-source rule overrides (TOKEN_DISCOVERY_RULES), e.g.
+   * "dexscreener:minLiquidity=20000,maxAgeHours=72;new_pools:minMcap=50000".
+   */
+  static parseRules(spec?: string): Partial<Record<TokenSourceId, ITokenFilterRules>> {
+    const result: Partial<Record<TokenSourceId, ITokenFilterRules>> = {};
+    if (!spec) return result;
+
+    for (const entry of spec.split(";").map((e) => e.trim()).filter(Boolean)) {
+      const sep = entry.indexOf(":");
+      const id = entry.slice(0, sep).trim() as TokenSourceId;
+      if (sep <= 0 || !(id in DEFAULT_DISCOVERY_RULES)) {
+        throw new Error(`Invalid token discovery rules entry (expected <source>:key=value,...): ${entry}`);
+      }
+
+      const rules: ITokenFilterRules = {};
+      for (const pair of entry.slice(sep + 1).split(",").map((p) => p.trim()).filter(Boolean)) {
+        const [key, raw] = pair.split("=").map((p) => p.trim());
+        const value = parseFloat(raw);
+        if (isNaN(value)) throw new Error(`Invalid value in token discovery rule "${pair}"`);
+        switch (key) {
+          case "minLiquidity":
+          case "minVolume24h":
+          case "minMcap":
+          case "maxMcap":
+            rules[key] = value;
+            break;
+          case "maxAgeHours":
+            rules.maxAgeMs = value * HOUR_MS;
+            break;
+          default:
+            throw new Error(`Unknown token discovery rule "${key}"`);
+        }
+      }
+      result[id] = rules;
+    }
+    return result;
+  }
+
+  async start(): Promise<void> {
+    for (const source of this.sources) {
+      try {
+        await source.start((tokens) => this.ingest(tokens));
+        log.info(`Source started: ${source.id}`);
+      } catch (err) {
+        log.error(`Source ${source.id} failed to start:`, err);
+      }
+    }
+    this.flushTimer = setInterval(() => this.flush(), this.flushIntervalMs);
+    await this.flush();
+  }
+
+  async stop(): Promise<void> {
+    if (this.flushTimer) {
+      clearInterval(this.flushTimer);
+      this.flushTimer = null;
+    }
+    for (const source of this.sources) {
+      await source.stop().catch((err) => log.error(`Error stopping ${source.id}:`, err));
+    }
+    log.info("Stopped");
+  }
+
+  private ingest(tokens: IDiscoveredToken[]): void {
+    for (const token of tokens) {
+      if (!token.address) continue;
+      const existing = this.pending.get(token.address);
+      if (!existing) {
+        this.pending.set(token.address, { token: { ...token }, sources: new Set([token.source]), attempts: 0 });
+        continue;
+      }
+      existing.sources.add(token.source);
+      existing.token = mergeReports(existing.token, token);
+    }
+  }
+
+  private async flush(): Promise<void> {
+    if (this.flushing || this.pending.size === 0) return;
+    this.flushing = true;
+
+    const batch = [...this.pending.values()];
+    this.pending.clear();
+    let saved = 0;
+    let rejected = 0;
+    let waiting = 0;
+
+    try {
+      await this.enrich(batch.filter((c) => c.token.price === undefined));
+
+      const now = Date.now();
+      for (const candidate of batch) {
+        if (candidate.token.price === undefined) {
+          candidate.attempts++;
+          if (candidate.attempts < this.maxEnrichAttempts) {
+            this.requeue(candidate);
+            waiting++;
+          } else {
+            rejected++;
+          }
+          continue;
+        }
+
+        const accepted = [...candidate.sources].filter((s) => passesRules(candidate.token, this.rules[s], now));
+        if (accepted.length === 0) {
+          rejected++;
+          continue;
+        }
+
+        try {
+          await TokenService.upsertDiscoveredToken(candidate.token, [...candidate.sources]);
+          saved++;
+        } catch (err) {
+          log.error(`Failed to save ${candidate.token.address}:`, err);
+        }
+      }
+
+      if (saved > 0 || rejected > 0) {
+        log.info(`Saved ${saved} tokens | rejected ${rejected} | awaiting market data ${waiting}`);
+      }
+    } catch (err) {
+      log.error("Flush failed:", err);
+      for (const candidate of batch) this.requeue(candidate);
+    } finally {
+      this.flushing = false;
+    }
+  }
+
+  /** Fill market fields from each token's deepest DexScreener pool */
+  private async enrich(candidates: Candidate[]): Promise<void> {
+    if (candidates.length === 0) return;
+    const pairs = await this.dexScreener.getTokenPairs(
+      "solana",
+      candidates.map((c) => c.token.address)
+    );
+    const byAddress = new Map(pairsToTokens(pairs, "dexscreener").map((t) => [t.address, t]));
+    for (const candidate of candidates) {
+      const market = byAddress.get(candidate.token.address);
+      if (market) candidate.token = mergeReports(candidate.token, { ...market, source: candidate.token.source });
+    }
+  }
+
+  /** Put a candidate back, folding in anything reported since the flush began */
+  private requeue(candidate: Candidate): void {
+    const newer = this.pending.get(candidate.token.address);
+    if (newer) {
+      for (const s of newer.sources) candidate.sources.add(s);
+      candidate.token = mergeReports(candidate.token, newer.token);
+    }
+    this.pending.set(candidate.token.address, candidate);
+  }
+}
+
+/**
+ * Combine two reports of the same mint: the later report's defined
+ * fields win, except discovery and pool-creation times, which keep the
+ * earliest.
+ */
+function mergeReports(a: IDiscoveredToken, b: IDiscoveredToken): IDiscoveredToken {
+  const merged: IDiscoveredToken = { ...a };
+  for (const key of Object.keys(b) as (keyof IDiscoveredToken)[]) {
+    if (b[key] !== undefined) setField(merged, key, b[key]);
+  }
+  merged.source = a.source;
+  merged.discoveredAt = a.discoveredAt < b.discoveredAt ? a.discoveredAt : b.discoveredAt;
+  if (a.pairCreatedAt && b.pairCreatedAt) {
+    merged.pairCreatedAt = a.pairCreatedAt < b.pairCreatedAt ? a.pairCreatedAt : b.pairCreatedAt;
+  }
+  return merged;
+}
+
+/** Assign one field, keeping the key and value types tied together */
+function setField<T, K extends keyof T>(target: T, key: K, value: T[K]): void {
+  target[key] = value;
+}
+
+/** Missing data fails any rule that needs it */
+function passesRules(token: IDiscoveredToken, rules: ITokenFilterRules, now: number): boolean {
+  if (rules.minLiquidity !== undefined && !((token.liquidity ?? -1) >= rules.minLiquidity)) return false;
+  if (rules.minVolume24h !== undefined && !((token.volume24h ?? -1) >= rules.minVolume24h)) return false;
+  if (rules.minMcap !== undefined && !((token.mcap ?? -1) >= rules.minMcap)) return false;
+  if (rules.maxMcap !== undefined && !(token.mcap !== undefined && token.mcap <= rules.maxMcap)) return false;
+  if (rules.maxAgeMs !== undefined) {
+    if (!token.pairCreatedAt || now - token.pairCreatedAt.getTime() > rules.maxAgeMs) return false;
+  }
+  return true;
+}
@@ -0,0 +1,52 @@
+import { IDiscoveredToken, TokenSourceId } from "../../types/discovery.types";
+import { logger } from "../../utils/logger";
+
+export type DiscoveryEmitter = (tokens: IDiscoveredToken[]) => void;
+
+/**
+ * A feed of token candidates. Sources only report what they see; the
+ * TokenDiscoveryPipeline merges, enriches, filters and persists.
+ */
+export interface TokenDiscoverySource {
+  readonly id: TokenSourceId;
+  start(emit: DiscoveryEmitter): Promise<void>;
+  stop(): Promise<void>;
+}
+
+/**
+ * Base for sources that poll an API on an interval. A failed poll is
+ * logged and retried on the next interval.
+ */
+export abstract class PollingDiscoverySource implements TokenDiscoverySource {
+  abstract readonly id: TokenSourceId;
+  private timer: NodeJS.Timeout | null = null;
+  private polling = false;
+
+  constructor(protected readonly pollIntervalMs: number) {}
+
+  protected abstract poll(): Promise<IDiscoveredToken[]>;
+
+  async start(emit: DiscoveryEmitter): Promise<void> {
+    const run = async () => {
+      if (this.polling) return;
+      this.polling = true;
+      try {
+        const tokens = await this.poll();
+        if (tokens.length > 0) emit(tokens);
+      } catch (err) {
+        logger.child(`Discovery:${this.id}`).error("Poll failed:", err);
+      } finally {
+        this.polling = false;
+      }
+    };
+    this.timer = setInterval(run, this.pollIntervalMs);
+    await run();
+  }
+
+  async stop(): Promise<void> {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+}
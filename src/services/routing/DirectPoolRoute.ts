@@ -0,0 +1,207 @@
+import { Connection, PublicKey } from "@solana/web3.js";
+import { Raydium, TxVersion, liquidityStateV4Layout, toBN } from "@raydium-io/raydium-sdk-v2";
+import { ISwapQuote, ISwapQuoteRequest } from "../../types/routing.types";
+import { RAYDIUM_V4_PROGRAM_ID, SOL_MINT_ADDRESS } from "../../utils/constants";
+import { logger } from "../../utils/logger";
+import { SwapRoute, applySlippage } from "./SwapRoute";
+
+const log = logger.child("Router:direct_pool");
+
+const POOL_CACHE_TTL_MS = 10 * 60 * 1000;
+
+/** Byte offset of the u64 amount in an SPL token account */
+const TOKEN_ACCOUNT_AMOUNT_OFFSET = 64;
+
+/** AMM v4 pool state: baseVault and quoteVault sit back to back, as do baseMint and quoteMint */
+const BASE_VAULT_OFFSET = liquidityStateV4Layout.offsetOf("baseVault")!;
+const BASE_MINT_OFFSET = liquidityStateV4Layout.offsetOf("baseMint")!;
+const QUOTE_MINT_OFFSET = liquidityStateV4Layout.offsetOf("quoteMint")!;
+
+type PoolState = Awaited<ReturnType<Raydium["liquidity"]["getPoolInfoFromRpc"]>>;
+
+/** Output of a constant-product swap, all amounts in raw units */
+export interface ConstantProductResult {
+  amountOut: bigint;
+  fee: bigint;              // input units
+  priceImpactPct: number;   // fee excluded
+}
+
+/**
+ * x·y = k with the fee taken from the input, as the Raydium AMM v4
+ * program does it. Rounds down like the on-chain integer math.
+ */
+export function constantProductOut(
+  amountIn: bigint,
+  reserveIn: bigint,
+  reserveOut: bigint,
+  feeNumerator: bigint,
+  feeDenominator: bigint
+): ConstantProductResult {
+  if (amountIn <= 0n || reserveIn <= 0n || reserveOut <= 0n) {
+    return { amountOut: 0n, fee: 0n, priceImpactPct: 0 };
+  }
+  const fee = (amountIn * feeNumerator + feeDenominator - 1n) / feeDenominator;
+  const afterFee = amountIn - fee;
+  const amountOut = (reserveOut * afterFee) / (reserveIn + afterFee);
+
+  // Without the fee the trade would get reserveOut·a/(reserveIn + a) against a spot of reserveOut·a/reserveIn
+  const priceImpactPct = (Number(amountIn) / (Number(reserveIn) + Number(amountIn))) * 100;
+  return { amountOut, fee, priceImpactPct };
+}
+
+/**
+ * Skips aggregators and HTTP APIs entirely: finds the deepest Raydium AMM
+ * v4 pool for the pair on chain, prices the swap from live vault reserves, and builds the
+ * swap instruction against that pool with the v2 SDK. Useful as a
+ * fallback when the APIs are down and as a check on their quotes. Pools
+ * are looked up off the quote path, so a new pair quotes from its second
+ * request on.
+ */
+export class DirectPoolRoute implements SwapRoute {
+  readonly id = "direct_pool" as const;
+  private connection: Connection;
+  private owner: PublicKey;
+  private raydium: Promise<Raydium> | null = null;
+  private poolIds: Map<string, { poolId: string | null; expiresAt: number }> = new Map();
+  private lookups: Map<string, Promise<void>> = new Map();
+
+  constructor(connection: Connection, owner: PublicKey) {
+    this.connection = connection;
+    this.owner = owner;
+  }
+
+  async quote(request: ISwapQuoteRequest & { slippageBps: number }): Promise<ISwapQuote | null> {
+    const poolId = this.cachedPool(request.inputMint, request.outputMint);
+    if (!poolId) return null;
+
+    const raydium = await this.getRaydium();
+
+    const state: PoolState = await raydium.liquidity.getPoolInfoFromRpc({ poolId });
+    const rpc = state.poolRpcData;
+    const baseIsInput = rpc.baseMint.toBase58() === request.inputMint;
+    const reserveBase = BigInt(rpc.baseReserve.toString());
+    const reserveQuote = BigInt(rpc.quoteReserve.toString());
+
+    const result = constantProductOut(
+      BigInt(request.amount),
+      baseIsInput ? reserveBase : reserveQuote,
+      baseIsInput ? reserveQuote : reserveBase,
+      BigInt(rpc.swapFeeNumerator.toString()),
+      BigInt(rpc.swapFeeDenominator.toString())
+    );
+    if (result.amountOut <= 0n) return null;
+
+    return {
+      route: this.id,
+      inputMint: request.inputMint,
+      outputMint: request.outputMint,
+      inAmount: request.amount,
+      outAmount: result.amountOut.toString(),
+      minOutAmount: applySlippage(result.amountOut, request.slippageBps).toString(),
+      slippageBps: request.slippageBps,
+      priceImpactPct: result.priceImpactPct,
+      feeAmount: result.fee.toString(),
+      label: `Raydium AMM v4 ${poolId.slice(0, 4)}`,
+      context: state,
+    };
+  }
+
+  async buildTransaction(quote: ISwapQuote, _taker: string): Promise<string | null> {
+    try {
+      const raydium = await this.getRaydium();
+      const state = quote.context as PoolState;
+      const { transaction } = await raydium.liquidity.swap({
+        poolInfo: state.poolInfo,
+        poolKeys: state.poolKeys,
+        amountIn: toBN(quote.inAmount),
+        amountOut: toBN(quote.minOutAmount),
+        inputMint: quote.inputMint,
+        fixedSide: "in",
+        txVersion: TxVersion.V0,
+        config: {
+          associatedOnly: true,
+          inputUseSolBalance: quote.inputMint === SOL_MINT_ADDRESS,
+          outputUseSolBalance: quote.outputMint === SOL_MINT_ADDRESS,
+        },
+        computeBudgetConfig: { units: 300_000, microLamports: 100_000 },
+      });
+      return Buffer.from(transaction.serialize()).toString("base64");
+    } catch (err) {
+      log.error("Swap build failed:", err);
+      return null;
+    }
+  }
+
+  /** The SDK is loaded once, without its token list, owned by the trading wallet */
+  private getRaydium(): Promise<Raydium> {
+    if (!this.raydium) {
+      this.raydium = Raydium.load({
+        connection: this.connection,
+        owner: this.owner,
+        disableLoadToken: true,
+        disableFeatureCheck: true,
+      });
+      this.raydium.catch(() => (this.raydium = null));
+    }
+    return this.raydium;
+  }
+
+  /**
+   * Cached pool for the pair. Looking pools up scans the whole AMM v4
+   * program, far too slow for a quote, so a pair seen for the first time
+   * gets no pool (the route sits that quote out) while the lookup runs in
+   * the background; an expired entry is served until its refresh lands.
+   */
+  private cachedPool(mintA: string, mintB: string): string | null {
+    const key = [mintA, mintB].sort().join(":");
+    const cached = this.poolIds.get(key);
+    if ((!cached || cached.expiresAt <= Date.now()) && !this.lookups.has(key)) {
+      const lookup = this.findPool(mintA, mintB)
+        .then((poolId) => {
+          this.poolIds.set(key, { poolId, expiresAt: Date.now() + POOL_CACHE_TTL_MS });
+        })
+        .catch((err) => log.warning(`Pool lookup for ${key} failed: ${(err as Error).message}`))
+        .finally(() => this.lookups.delete(key));
+      this.lookups.set(key, lookup);
+    }
+    return cached?.poolId ?? null;
+  }
+
+  /**
+   * Deepest AMM v4 pool for the pair, read from chain: pool accounts whose
+   * mints match in either order (only their vault addresses are fetched),
+   * ranked by the balance of their mintA vault.
+   */
+  private async findPool(mintA: string, mintB: string): Promise<string | null> {
+    const programId = new PublicKey(RAYDIUM_V4_PROGRAM_ID);
+    const byMints = (base: string, quote: string) =>
+      this.connection.getProgramAccounts(programId, {
+        filters: [
+          { dataSize: liquidityStateV4Layout.span },
+          { memcmp: { offset: BASE_MINT_OFFSET, bytes: base } },
+          { memcmp: { offset: QUOTE_MINT_OFFSET, bytes: quote } },
+        ],
+        dataSlice: { offset: BASE_VAULT_OFFSET, length: 64 },
+      });
+    const [asBase, asQuote] = await Promise.all([byMints(mintA, mintB), byMints(mintB, mintA)]);
+
+    // The slice is baseVault then quoteVault; mintA's vault is the first when mintA is the base
+    const pools = [
+      ...asBase.map(({ pubkey, account }) => ({ pubkey, vault: new PublicKey(account.data.subarray(0, 32)) })),
+      ...asQuote.map(({ pubkey, account }) => ({ pubkey, vault: new PublicKey(account.data.subarray(32, 64)) })),
+    ];
+    if (pools.length === 0) return null;
+
+    const balances = await this.connection.getMultipleAccountsInfo(pools.map((p) => p.vault));
+    let poolId: string | null = null;
+    let deepest = 0n;
+    balances.forEach((info, i) => {
+      const amount = info ? info.data.readBigUInt64LE(TOKEN_ACCOUNT_AMOUNT_OFFSET) : 0n;
+      if (amount > deepest) {
+        deepest = amount;
+        poolId = pools[i].pubkey.toBase58();
+      }
+    });
+    return poolId;
+  }
+}
@@ -0,0 +1,126 @@
+import axios from "axios";
+import { ISwapQuote, ISwapQuoteRequest } from "../../types/routing.types";
+import { logger } from "../../utils/logger";
+import { SwapRoute } from "./SwapRoute";
+
+const log = logger.child("Router:jupiter");
+
+interface JupiterQuoteResponse {
+  inputMint: string;
+  outputMint: string;
+  inAmount: string;
+  outAmount: string;
+  otherAmountThreshold: string;
+  slippageBps: number;
+  priceImpactPct: string;   // fraction, despite the name
+  routePlan: { swapInfo: { label?: string; feeAmount: string; feeMint: string } }[];
+}
+
+export interface JupiterInstruction {
+  programId: string;
+  accounts: { pubkey: string; isSigner: boolean; isWritable: boolean }[];
+  data: string;             // base64
+}
+
+/** /swap-instructions: the swap transaction taken apart, for composing */
+export interface JupiterSwapInstructions {
+  computeBudgetInstructions: JupiterInstruction[];
+  setupInstructions: JupiterInstruction[];
+  swapInstruction: JupiterInstruction;
+  cleanupInstruction?: JupiterInstruction | null;
+  otherInstructions?: JupiterInstruction[];
+  addressLookupTableAddresses: string[];
+}
+
+/**
+ * Jupiter Swap API (v1). Keyless on lite-api; set an API key to use the
+ * paid host. Replaces the Ultra endpoint, which needed browser headers.
+ */
+export class JupiterRoute implements SwapRoute {
+  readonly id = "jupiter" as const;
+  private baseUrl: string;
+  private headers: Record<string, string>;
+  private maxAccounts?: number;
+
+  /** maxAccounts keeps routes small enough to compose several into one transaction */
+  constructor(options: { baseUrl?: string; apiKey?: string; maxAccounts?: number } = {}) {
+    this.baseUrl = options.baseUrl || (options.apiKey ? "https://api.jup.ag/swap/v1" : "https://lite-api.jup.ag/swap/v1");
+    this.headers = options.apiKey ? { "x-api-key": options.apiKey } : {};
+    this.maxAccounts = options.maxAccounts;
+  }
+
+  async quote(request: ISwapQuoteRequest & { slippageBps: number }): Promise<ISwapQuote | null> {
+    try {
+      const response = await axios.get<JupiterQuoteResponse>(`${this.baseUrl}/quote`, {
+        params: {
+          inputMint: request.inputMint,
+          outputMint: request.outputMint,
+          amount: request.amount,
+          slippageBps: request.slippageBps,
+          swapMode: "ExactIn",
+          maxAccounts: this.maxAccounts,
+        },
+        headers: this.headers,
+        timeout: 5000,
+      });
+      const data = response.data;
+      if (!data?.outAmount) return null;
+
+      const feeAmount = data.routePlan
+        .filter((leg) => leg.swapInfo.feeMint === request.inputMint)
+        .reduce((sum, leg) => sum + BigInt(leg.swapInfo.feeAmount || "0"), 0n);
+
+      return {
+        route: this.id,
+        inputMint: data.inputMint,
+        outputMint: data.outputMint,
+        inAmount: data.inAmount,
+        outAmount: data.outAmount,
+        minOutAmount: data.otherAmountThreshold,
+        slippageBps: data.slippageBps,
+        priceImpactPct: parseFloat(data.priceImpactPct || "0") * 100,
+        feeAmount: feeAmount.toString(),
+        label: data.routePlan.map((leg) => leg.swapInfo.label || "?").join(" > "),
+        context: data,
+      };
+    } catch (err: any) {
+      // 400 with COULD_NOT_FIND_ANY_ROUTE is an answer, not a failure
+      if (err?.response?.status === 400) return null;
+      throw err;
+    }
+  }
+
+  async buildTransaction(quote: ISwapQuote, taker: string): Promise<string | null> {
+    try {
+      const response = await axios.post(
+        `${this.baseUrl}/swap`,
+        {
+          quoteResponse: quote.context,
+          userPublicKey: taker,
+          wrapAndUnwrapSol: true,
+          dynamicComputeUnitLimit: true,
+          prioritizationFeeLamports: "auto",
+        },
+        { headers: this.headers, timeout: 10000 }
+      );
+      return response.data?.swapTransaction || null;
+    } catch (err) {
+      log.error("Swap transaction request failed:", err);
+      return null;
+    }
+  }
+
+  async getSwapInstructions(quote: ISwapQuote, taker: string): Promise<JupiterSwapInstructions | null> {
+    try {
+      const response = await axios.post(
+        `${this.baseUrl}/swap-instructions`,
+        { quoteResponse: quote.context, userPublicKey: taker, wrapAndUnwrapSol: true },
+        { headers: this.headers, timeout: 10000 }
+      );
+      return response.data?.swapInstruction ? response.data : null;
+    } catch (err) {
+      log.error("Swap instructions request failed:", err);
+      return null;
+    }
+  }
+}
@@ -0,0 +1,122 @@
+import axios from "axios";
+import { PublicKey } from "@solana/web3.js";
+import { API_URLS, getATAAddress } from "@raydium-io/raydium-sdk-v2";
+import { ISwapQuote, ISwapQuoteRequest } from "../../types/routing.types";
+import { SOL_MINT_ADDRESS } from "../../utils/constants";
+import { logger } from "../../utils/logger";
+import { SwapRoute } from "./SwapRoute";
+
+const log = logger.child("Router:raydium");
+
+interface RaydiumComputeResponse {
+  id: string;
+  success: boolean;
+  version: string;
+  msg?: string;
+  data: {
+    swapType: string;
+    inputMint: string;
+    inputAmount: string;
+    outputMint: string;
+    outputAmount: string;
+    otherAmountThreshold: string;
+    slippageBps: number;
+    priceImpactPct: number;   // percent
+    routePlan: { poolId: string; feeMint: string; feeAmount: string }[];
+  };
+}
+
+/**
+ * Raydium Trade API, the hosted router the v2 SDK points at: best path
+ * across Raydium's AMM v4, CPMM and CLMM pools, returned as a ready
+ * transaction.
+ */
+export class RaydiumRoute implements SwapRoute {
+  readonly id = "raydium" as const;
+
+  async quote(request: ISwapQuoteRequest & { slippageBps: number }): Promise<ISwapQuote | null> {
+    const response = await axios.get<RaydiumComputeResponse>(
+      `${API_URLS.SWAP_HOST}${API_URLS.SWAP_COMPUTE}swap-base-in`,
+      {
+        params: {
+          inputMint: request.inputMint,
+          outputMint: request.outputMint,
+          amount: request.amount,
+          slippageBps: request.slippageBps,
+          txVersion: "V0",
+        },
+        timeout: 5000,
+      }
+    );
+    // Unknown pairs come back as success: false (ROUTE_NOT_FOUND and friends)
+    if (!response.data?.success) return null;
+    const data = response.data.data;
+
+    const feeAmount = data.routePlan
+      .filter((leg) => leg.feeMint === request.inputMint)
+      .reduce((sum, leg) => sum + BigInt(leg.feeAmount || "0"), 0n);
+
+    return {
+      route: this.id,
+      inputMint: data.inputMint,
+      outputMint: data.outputMint,
+      inAmount: data.inputAmount,
+      outAmount: data.outputAmount,
+      minOutAmount: data.otherAmountThreshold,
+      slippageBps: data.slippageBps,
+      priceImpactPct: data.priceImpactPct,
+      feeAmount: feeAmount.toString(),
+      label: data.routePlan.map((leg) => `Raydium ${leg.poolId.slice(0, 4)}`).join(" > "),
+      context: response.data,
+    };
+  }
+
+  async buildTransaction(quote: ISwapQuote, taker: string): Promise<string | null> {
+    try {
+      const owner = new PublicKey(taker);
+      const inputIsSol = quote.inputMint === SOL_MINT_ADDRESS;
+      const outputIsSol = quote.outputMint === SOL_MINT_ADDRESS;
+
+      const response = await axios.post(
+        `${API_URLS.SWAP_HOST}${API_URLS.SWAP_TX}swap-base-in`,
+        {
+          computeUnitPriceMicroLamports: String(await this.getPriorityFee()),
+          swapResponse: quote.context,
+          txVersion: "V0",
+          wallet: taker,
+          wrapSol: inputIsSol,
+          unwrapSol: outputIsSol,
+          // Classic token program ATAs; Token-2022 mints are not supported on this route
+          inputAccount: inputIsSol ? undefined : getATAAddress(owner, new PublicKey(quote.inputMint)).publicKey.toBase58(),
+          outputAccount: outputIsSol ? undefined : getATAAddress(owner, new PublicKey(quote.outputMint)).publicKey.toBase58(),
+        },
+        { timeout: 10000 }
+      );
+
+      const txs: { transaction: string }[] = response.data?.data || [];
+      if (!response.data?.success || txs.length === 0) {
+        log.error(`Transaction build refused: ${response.data?.msg || "no transaction"}`);
+        return null;
+      }
+      if (txs.length > 1) {
+        // Setup transactions (e.g. account creation) can't ride in one signature
+        log.warning(`Route needs ${txs.length} transactions; skipping`);
+        return null;
+      }
+      return txs[0].transaction;
+    } catch (err) {
+      log.error("Transaction request failed:", err);
+      return null;
+    }
+  }
+
+  /** Raydium's "high" priority fee tier, in micro-lamports per CU */
+  private async getPriorityFee(): Promise<number> {
+    try {
+      const response = await axios.get(`${API_URLS.BASE_HOST}${API_URLS.PRIORITY_FEE}`, { timeout: 3000 });
+      return response.data?.data?.default?.h ?? 100_000;
+    } catch {
+      return 100_000;
+    }
+  }
+}
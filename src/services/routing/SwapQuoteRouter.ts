@@ -0,0 +1,132 @@
+import {
+  ISwapQuote,
+  ISwapQuoteCandidate,
+  ISwapQuoteRequest,
+  ISwapRouteDecision,
+  SwapRouteId,
+} from "../../types/routing.types";
+import { logger } from "../../utils/logger";
+import { swapQuotes } from "../../utils/metrics";
+import { SwapRoute, applySlippage } from "./SwapRoute";
+
+const log = logger.child("Router");
+
+export const SWAP_ROUTE_IDS: SwapRouteId[] = ["jupiter", "raydium", "direct_pool"];
+
+export interface SwapQuoteRouterOptions {
+  maxSlippageBps?: number;     // default 100 — cap on any request's tolerance
+  maxPriceImpactPct?: number;  // default 5 — quotes above are refused
+  quoteTimeoutMs?: number;     // default 4s per route
+}
+
+/**
+ * Asks every route for a quote, drops those that break the slippage
+ * policy, and builds the transaction on the best remaining one. Quotes
+ * rank by outAmount (already net of fees and price impact); ties go to
+ * the lower impact. If the winner fails to build, the runner-up is used.
+ */
+export class SwapQuoteRouter {
+  private routes: SwapRoute[];
+  private maxSlippageBps: number;
+  private maxPriceImpactPct: number;
+  private quoteTimeoutMs: number;
+
+  constructor(routes: SwapRoute[], options: SwapQuoteRouterOptions = {}) {
+    this.routes = routes;
+    this.maxSlippageBps = options.maxSlippageBps ?? 100;
+    this.maxPriceImpactPct = options.maxPriceImpactPct ?? 5;
+    this.quoteTimeoutMs = options.quoteTimeoutMs ?? 4000;
+  }
+
+  /** Route list from SWAP_ROUTES, e.g. "jupiter,direct_pool" (default: all) */
+  static parseRoutes(spec?: string): SwapRouteId[] {
+    if (!spec) return [...SWAP_ROUTE_IDS];
+    const ids = spec.split(",").map((s) => s.trim()).filter(Boolean);
+    for (const id of ids) {
+      if (!SWAP_ROUTE_IDS.includes(id as SwapRouteId)) {
+        throw new Error(`Unknown swap route "${id}" (expected one of ${SWAP_ROUTE_IDS.join(", ")})`);
+      }
+    }
+    return ids as SwapRouteId[];
+  }
+
+  async route(request: ISwapQuoteRequest): Promise<ISwapRouteDecision | null> {
+    const slippageBps = Math.min(request.slippageBps ?? this.maxSlippageBps, this.maxSlippageBps);
+    const settled = await Promise.allSettled(
+      this.routes.map((r) => this.withTimeout(r.quote({ ...request, slippageBps }), r.id))
+    );
+
+    const candidates: ISwapQuoteCandidate[] = [];
+    const eligible: { route: SwapRoute; quote: ISwapQuote; candidate: ISwapQuoteCandidate }[] = [];
+    settled.forEach((result, i) => {
+      const route = this.routes[i];
+      if (result.status === "rejected") {
+        logger.child(`Router:${route.id}`).warning(`Quote failed: ${result.reason?.message || result.reason}`);
+        candidates.push({ route: route.id, rejected: "error" });
+        return;
+      }
+      const quote = result.value;
+      if (!quote) {
+        candidates.push({ route: route.id, rejected: "no_quote" });
+        return;
+      }
+      const candidate: ISwapQuoteCandidate = {
+        route: route.id,
+        outAmount: quote.outAmount,
+        priceImpactPct: quote.priceImpactPct,
+        rejected: this.checkPolicy(quote, slippageBps),
+      };
+      candidates.push(candidate);
+      if (!candidate.rejected) eligible.push({ route, quote, candidate });
+    });
+
+    eligible.sort((a, b) => {
+      const diff = BigInt(b.quote.outAmount) - BigInt(a.quote.outAmount);
+      if (diff !== 0n) return diff > 0n ? 1 : -1;
+      return a.quote.priceImpactPct - b.quote.priceImpactPct;
+    });
+
+    for (const { route, quote, candidate } of eligible) {
+      const transaction = await route.buildTransaction(quote, request.taker);
+      if (!transaction) {
+        candidate.rejected = "build_failed";
+        continue;
+      }
+      for (const c of candidates) swapQuotes.inc({ route: c.route, result: c === candidate ? "won" : c.rejected || "lost" });
+      log.info(
+        `${route.id} won ${request.inputMint.slice(0, 6)}→${request.outputMint.slice(0, 6)} | out ${quote.outAmount} | impact ${quote.priceImpactPct.toFixed(2)}% | ${formatCandidates(candidates)}`
+      );
+      return { quote, transaction, candidates };
+    }
+
+    for (const c of candidates) swapQuotes.inc({ route: c.route, result: c.rejected || "lost" });
+    log.warning(
+      `No usable route for ${request.inputMint.slice(0, 6)}→${request.outputMint.slice(0, 6)} | ${formatCandidates(candidates)}`
+    );
+    return null;
+  }
+
+  /**
+   * A quote must stay under the impact cap, and its minimum output must
+   * be no looser than the policy slippage applied to its own output.
+   */
+  private checkPolicy(quote: ISwapQuote, slippageBps: number): ISwapQuoteCandidate["rejected"] {
+    if (quote.priceImpactPct > this.maxPriceImpactPct) return "price_impact";
+    if (BigInt(quote.minOutAmount) < applySlippage(BigInt(quote.outAmount), slippageBps)) return "slippage";
+    return undefined;
+  }
+
+  private withTimeout<T>(promise: Promise<T>, id: SwapRouteId): Promise<T> {
+    let timer: NodeJS.Timeout;
+    return Promise.race([
+      promise,
+      new Promise<T>((_, reject) => {
+        timer = setTimeout(() => reject(new Error(`${id} quote timed out`)), this.quoteTimeoutMs);
+      }),
+    ]).finally(() => clearTimeout(timer));
+  }
+}
+
+function formatCandidates(candidates: ISwapQuoteCandidate[]): string {
+  return candidates.map((c) => `${c.route}=${c.rejected || c.outAmount}`).join(" ");
+}
@@ -0,0 +1,18 @@
+import { ISwapQuote, ISwapQuoteRequest, SwapRouteId } from "../../types/routing.types";
+
+/**
+ * A way to execute a swap. Quoting is separate from building so the
+ * router only pays for a transaction on the route it picks.
+ */
+export interface SwapRoute {
+  readonly id: SwapRouteId;
+  /** null when the route has no path for the pair */
+  quote(request: ISwapQuoteRequest & { slippageBps: number }): Promise<ISwapQuote | null>;
+  /** Base64 unsigned VersionedTransaction paying out at least quote.minOutAmount */
+  buildTransaction(quote: ISwapQuote, taker: string): Promise<string | null>;
+}
+
+/** amount × (1 − bps), rounded down */
+export function applySlippage(amount: bigint, slippageBps: number): bigint {
+  return (amount * BigInt(10_000 - slippageBps)) / 10_000n;
+}
@@ -9,6 +9,7 @@ import {
 import { IStrategy } from "./IStrategy";
 import { CircuitBreaker } from "../utils/circuitBreaker";
 import { logger } from "../utils/logger";
+import { IClock, systemClock } from "../utils/clock";
 
 export abstract class BaseStrategy implements IStrategy {
   abstract readonly id: string;
@@ -19,6 +20,7 @@ export abstract class BaseStrategy implements IStrategy {
   protected config!: IStrategyConfig;
   protected circuitBreaker!: CircuitBreaker;
   protected initialized = false;
+  protected clock: IClock = systemClock;
 
   async initialize(config: IStrategyConfig): Promise<void> {
     this.config = config;
@@ -45,6 +47,11 @@ export abstract class BaseStrategy implements IStrategy {
     return this.config;
   }
 
+  /** Swap the time source used for signal timestamps (backtests) */
+  setClock(clock: IClock): void {
+    this.clock = clock;
+  }
+
   protected createSignal(
     tokenAddress: string,
     direction: SignalDirection,
@@ -59,8 +66,8 @@ export abstract class BaseStrategy implements IStrategy {
       confidence: Math.min(1.0, Math.max(0, confidence)),
       weight: this.config.weight,
       metadata,
-      timestamp: new Date(),
-      expiresAt: new Date(Date.now() + ttlMs),
+      timestamp: new Date(this.clock.now()),
+      expiresAt: new Date(this.clock.now() + ttlMs),
     };
   }
 
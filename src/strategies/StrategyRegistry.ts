@@ -1,5 +1,6 @@
 import { IStrategy, IAutonomousStrategy } from "./IStrategy";
 import { StrategyCategory } from "../types/strategy.types";
+import { MarketDataService } from "../services/MarketDataService";
 
 // Signal strategies
 import { MACDMomentumStrategy } from "./signal/MACDMomentumStrategy";
@@ -22,7 +23,9 @@ import { TokenomicsUnvestingStrategy } from "./autonomous/TokenomicsUnvestingStr
 import { SmartContractRiskScorer } from "./risk/SmartContractRiskScorer";
 import { MEVSubmarineRouter } from "./risk/MEVSubmarineRouter";
 
-type StrategyConstructor = new () => IStrategy;
+// Candle-driven strategies accept a MarketDataService (e.g. a backtest feed);
+// the rest ignore the argument.
+type StrategyConstructor = new (marketData?: MarketDataService) => IStrategy;
 
 const registry: Map<string, StrategyConstructor> = new Map();
 
@@ -52,12 +55,12 @@ function registerAll() {
 registerAll();
 
 export class StrategyRegistry {
-  static create(strategyId: string): IStrategy {
+  static create(strategyId: string, marketData?: MarketDataService): IStrategy {
     const Constructor = registry.get(strategyId);
     if (!Constructor) {
       throw new Error(`Unknown strategy: ${strategyId}`);
     }
-    return new Constructor();
+    return new Constructor(marketData);
   }
 
   static getAll(): string[] {
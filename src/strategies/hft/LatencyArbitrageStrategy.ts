@@ -1,13 +1,16 @@
 import { HFTStrategyBase } from "./HFTStrategyBase";
 import { ITickSnapshot, IArbOpportunity } from "../../types/hft.types";
+import { IBinaryFairValue } from "../../types/pricing.types";
+import { binaryEdge } from "../../quant/pricing/BinaryOptionPricer";
 
 /**
  * Latency Arbitrage: Exploit the delay between Binance price moves
  * and Polymarket YES/NO token repricing.
  *
  * When Binance BTC moves 0.2% in 10 seconds, Polymarket tokens
- * typically lag 1-5 seconds behind. We buy the underpriced side
- * before the market catches up.
+ * typically lag 1-5 seconds behind. The snapshot's fair value reprices
+ * with spot immediately, so the lag is the gap between fair value and
+ * the ask; we buy the underpriced side before the market catches up.
  *
  * Win rate: ~95%+ (depends on speed advantage and move magnitude)
  */
@@ -22,7 +25,8 @@ export class LatencyArbitrageStrategy extends HFTStrategyBase {
   onTick(snapshot: ITickSnapshot, history: ITickSnapshot[]): IArbOpportunity[] {
     const opportunities: IArbOpportunity[] = [];
 
-    if (snapshot.binancePrice <= 0) return opportunities;
+    const fair = snapshot.fairValue;
+    if (snapshot.binancePrice <= 0 || !fair) return opportunities;
 
     const priceChange10s = snapshot.binancePriceChange10s;
     const priceChange30s = snapshot.binancePriceChange30s;
@@ -42,9 +46,8 @@ export class LatencyArbitrageStrategy extends HFTStrategyBase {
     const isUpMove = priceChange10s > 0;
     const yesMid = snapshot.yesMid;
 
-    // Expected YES price direction: UP move → YES should be higher
-    // If Binance moved up but YES price hasn't increased proportionally, there's lag
-    const lagDetected = this.detectLag(snapshot, history, isUpMove);
+    // UP move → YES fair value rises; if the YES ask hasn't followed, there's lag
+    const lagDetected = this.detectLag(snapshot, fair, isUpMove);
 
     if (!lagDetected.hasLag) return opportunities;
 
@@ -85,12 +88,14 @@ export class LatencyArbitrageStrategy extends HFTStrategyBase {
           confidence,
           edge,
           orderType: "FOK",
+          fairValue: fair,
           metadata: {
             binanceChange10s: priceChange10s,
             binanceChange30s: priceChange30s,
             lagAmount: lagDetected.lagAmount,
             acceleration,
             yesMidBeforeTrade: yesMid,
+            fairYes: fair.yes,
           },
         });
       }
@@ -125,12 +130,14 @@ export class LatencyArbitrageStrategy extends HFTStrategyBase {
           confidence,
           edge,
           orderType: "FOK",
+          fairValue: fair,
           metadata: {
             binanceChange10s: priceChange10s,
             binanceChange30s: priceChange30s,
             lagAmount: lagDetected.lagAmount,
             acceleration,
             noMidBeforeTrade: snapshot.noMid,
+            fairNo: fair.no,
           },
         });
       }
@@ -140,40 +147,21 @@ export class LatencyArbitrageStrategy extends HFTStrategyBase {
   }
 
   /**
-   * Detect if Polymarket is lagging behind Binance.
-   * Compare expected YES price movement vs actual.
+   * Detect if Polymarket is lagging behind Binance: the ask on the side
+   * the move favours sits under fair value, even at the low end of the
+   * fair value's confidence interval.
    */
   private detectLag(
     snapshot: ITickSnapshot,
-    history: ITickSnapshot[],
+    fair: IBinaryFairValue,
     isUpMove: boolean
   ): { hasLag: boolean; lagAmount: number } {
-    if (history.length < 5) return { hasLag: false, lagAmount: 0 };
+    const asks = isUpMove ? snapshot.yesAsks : snapshot.noAsks;
+    if (asks.length === 0) return { hasLag: false, lagAmount: 0 };
 
-    // Get YES mid price from 5 ticks ago (~2.5 seconds)
-    const prevSnapshot = history[history.length - 5];
-    if (!prevSnapshot) return { hasLag: false, lagAmount: 0 };
-
-    const yesMidNow = snapshot.yesMid;
-    const yesMidPrev = prevSnapshot.yesMid;
-    const yesPriceChange = yesMidNow - yesMidPrev;
-
-    // Expected: if Binance moved up 0.3%, YES should move up proportionally
-    // In 5M markets, YES price sensitivity to underlying is roughly 1:1 near 0.50
-    // Near extremes (0.10 or 0.90), sensitivity is lower
-    const sensitivity = 1.0 - Math.abs(yesMidNow - 0.5) * 1.5;
-    const expectedYesChange =
-      snapshot.binancePriceChange10s * sensitivity * 0.5;
-
-    if (isUpMove) {
-      // Expected YES to go up. If it hasn't moved enough, there's lag.
-      const lag = Math.max(0, expectedYesChange - yesPriceChange);
-      return { hasLag: lag > 0.03, lagAmount: lag };
-    } else {
-      // Expected YES to go down (NO to go up). If YES hasn't dropped enough, lag.
-      const lag = Math.max(0, -expectedYesChange + yesPriceChange);
-      return { hasLag: lag > 0.03, lagAmount: lag };
-    }
+    const { edge, conservative } = binaryEdge(fair, isUpMove ? "YES" : "NO", parseFloat(asks[0].price));
+    const lag = Math.max(0, edge);
+    return { hasLag: lag > 0.03 && conservative > 0, lagAmount: lag };
   }
 
   /**
@@ -13,13 +13,16 @@ import { MACD } from "../../indicators/MACD";
 import { RSI } from "../../indicators/RSI";
 import { EMA } from "../../indicators/EMA";
 import { ADX } from "../../indicators/ADX";
+import { binaryEdge } from "../../quant/pricing/BinaryOptionPricer";
 
 /**
- * Core Polymarket strategy: compares indicator-based probability estimate
+ * Core Polymarket strategy: compares the window's fair value (binary
+ * option model on spot vs the window open, see BinaryOptionPricer)
  * against YES/NO token pricing to find edges.
  *
- * If indicators suggest 70% chance UP but YES token priced at 0.55 (55%),
- * there's a 15% probability edge.
+ * If the model says 70% chance UP but YES token priced at 0.55 (55%),
+ * there's a 15% probability edge. Indicators must not lean the other
+ * way, and the edge must survive the low end of the model's interval.
  *
  * Weight: 0.25 (highest)
  */
@@ -54,25 +57,30 @@ export class ProbabilityEdgeStrategy extends BaseStrategy {
         const closes = candles.map((c) => c.close);
         if (closes.length < 26) continue;
 
-        // Calculate our probability estimate from multiple indicators
+        // Indicator read of short-term direction — confirms, doesn't price
         const upProbability = this.estimateUpProbability(candles, closes);
 
         for (const interval of intervals) {
           const market = this.discovery.getCurrentMarket(asset, interval);
           if (!market) continue;
 
+          const fair = this.priceFeed.getFairValue(market);
+          if (!fair) continue;
+
           const marketYesPrice = market.yesPrice;
           const marketNoPrice = market.noPrice;
 
           // Edge on YES side (betting UP)
-          const yesEdge = upProbability - marketYesPrice;
+          const yes = binaryEdge(fair, "YES", marketYesPrice);
+          const yesEdge = yes.edge;
           // Edge on NO side (betting DOWN)
-          const noEdge = (1 - upProbability) - marketNoPrice;
+          const no = binaryEdge(fair, "NO", marketNoPrice);
+          const noEdge = no.edge;
 
           const minEdge = this.config.params.minEdge || 0.08;
 
-          if (yesEdge > minEdge) {
-            // Our model says UP is more likely than the market thinks
+          if (yesEdge > minEdge && yes.conservative > 0 && upProbability >= 0.5) {
+            // The model says UP is more likely than the market thinks
             const confidence = Math.min(
               1.0,
               0.5 + yesEdge * 2 // Scale edge to confidence
@@ -84,7 +92,9 @@ export class ProbabilityEdgeStrategy extends BaseStrategy {
                 confidence,
                 {
                   indicator: "ProbabilityEdge",
-                  ourEstimate: upProbability,
+                  ourEstimate: fair.yes,
+                  estimateInterval: fair.yesInterval,
+                  indicatorEstimate: upProbability,
                   marketPrice: marketYesPrice,
                   edge: yesEdge,
                   interval,
@@ -96,8 +106,8 @@ export class ProbabilityEdgeStrategy extends BaseStrategy {
             );
           }
 
-          if (noEdge > minEdge) {
-            // Our model says DOWN is more likely than the market thinks
+          if (noEdge > minEdge && no.conservative > 0 && upProbability <= 0.5) {
+            // The model says DOWN is more likely than the market thinks
             const confidence = Math.min(
               1.0,
               0.5 + noEdge * 2
@@ -109,7 +119,9 @@ export class ProbabilityEdgeStrategy extends BaseStrategy {
                 confidence,
                 {
                   indicator: "ProbabilityEdge",
-                  ourEstimate: 1 - upProbability,
+                  ourEstimate: fair.no,
+                  estimateInterval: fair.noInterval,
+                  indicatorEstimate: 1 - upProbability,
                   marketPrice: marketNoPrice,
                   edge: noEdge,
                   interval,
@@ -9,7 +9,6 @@ import {
 import { MarketDataService } from "../../services/MarketDataService";
 import { MACD } from "../../indicators/MACD";
 import { RSI } from "../../indicators/RSI";
-import { Token } from "../../models/Token";
 
 export class MACDMomentumStrategy extends BaseStrategy {
   readonly id = "macd-momentum";
@@ -17,7 +16,12 @@ export class MACDMomentumStrategy extends BaseStrategy {
   readonly category = StrategyCategory.SIGNAL;
   readonly tier = StrategyTier.NORMAL;
 
-  private marketData = new MarketDataService();
+  private marketData: MarketDataService;
+
+  constructor(marketData: MarketDataService = new MarketDataService()) {
+    super();
+    this.marketData = marketData;
+  }
 
   async execute(tokens: string[]): Promise<IStrategyResult> {
     return this.wrapExecution(async () => {
@@ -26,14 +30,15 @@ export class MACDMomentumStrategy extends BaseStrategy {
       // Filter to mid-cap tokens ($10M-$50M)
       const mcapMin = this.config.params.mcapMin || 10_000_000;
       const mcapMax = this.config.params.mcapMax || 50_000_000;
-      const midCapTokens = await Token.find({
-        address: { $in: tokens },
-        mcap: { $gte: mcapMin, $lte: mcapMax },
-      }).exec();
+      const midCapTokens = await this.marketData.filterByMcap(
+        tokens,
+        mcapMin,
+        mcapMax
+      );
 
       for (const token of midCapTokens) {
         const candles = await this.marketData.getCandles(
-          token.address,
+          token,
           "1m",
           50
         );
@@ -59,7 +64,7 @@ export class MACDMomentumStrategy extends BaseStrategy {
           );
           signals.push(
             this.createSignal(
-              token.address,
+              token,
               SignalDirection.BUY,
               confidence,
               {
@@ -84,7 +89,7 @@ export class MACDMomentumStrategy extends BaseStrategy {
           );
           signals.push(
             this.createSignal(
-              token.address,
+              token,
               SignalDirection.SELL,
               confidence,
               {
@@ -17,10 +17,15 @@ export class MLTensorPredictorStrategy extends BaseStrategy {
   readonly category = StrategyCategory.SIGNAL;
   readonly tier = StrategyTier.SLOW;
 
-  private marketData = new MarketDataService();
+  private marketData: MarketDataService;
   private onnx: OnnxRuntime | null = null;
   private modelReady = false;
 
+  constructor(marketData: MarketDataService = new MarketDataService()) {
+    super();
+    this.marketData = marketData;
+  }
+
   async initialize(config: IStrategyConfig): Promise<void> {
     await super.initialize(config);
 
@@ -16,7 +16,12 @@ export class MeanReversionBBStrategy extends BaseStrategy {
   readonly category = StrategyCategory.SIGNAL;
   readonly tier = StrategyTier.NORMAL;
 
-  private marketData = new MarketDataService();
+  private marketData: MarketDataService;
+
+  constructor(marketData: MarketDataService = new MarketDataService()) {
+    super();
+    this.marketData = marketData;
+  }
 
   async execute(tokens: string[]): Promise<IStrategyResult> {
     return this.wrapExecution(async () => {
@@ -150,6 +150,7 @@ function buildSnapshot(
     binancePrice,
     binancePriceChange10s: getPriceChange(10_000),
     binancePriceChange30s: getPriceChange(30_000),
+    fairValue: null, // test markets aren't Up/Down windows
     timestamp: now,
   };
 }
@@ -213,8 +214,8 @@ async function main() {
     new OrderbookMicrostructureStrategy(),
   ];
   const riskManager = new HFTRiskManager();
-  const perfTracker = new PerformanceTracker();
-  perfTracker.initialize();
+  const perfTracker = new PerformanceTracker({ persist: false });
+  await perfTracker.initialize();
 
   // State
   const tickHistory: Map<string, ITickSnapshot[]> = new Map();
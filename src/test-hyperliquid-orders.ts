@@ -0,0 +1,215 @@
+/**
+ * HyperliquidClient order flow against a local mock exchange.
+ *
+ * Usage: npx ts-node src/test-hyperliquid-orders.ts
+ *
+ * The mock serves /info (meta, allMids, openOrders, userFills) and
+ * /exchange (order, cancel, cancelByCloid). Every /exchange request has its
+ * EIP-712 signature recovered and checked against the client's wallet, so
+ * a change to the action encoding, nonce layout or typed data shows up as
+ * a rejected request here instead of on mainnet.
+ */
+
+import http from "http";
+import { AddressInfo } from "net";
+import { Wallet, keccak256, concat, getBytes, verifyTypedData, Signature } from "ethers";
+import { HyperliquidClient } from "./exchange/HyperliquidClient";
+import { IHyperliquidOpenOrder, IHyperliquidFill } from "./types/hyperliquid.types";
+import { msgpackEncode } from "./utils/msgpack";
+
+const META = {
+  universe: [
+    { name: "BTC", szDecimals: 5, maxLeverage: 50 },
+    { name: "ETH", szDecimals: 4, maxLeverage: 50 },
+    { name: "SOL", szDecimals: 2, maxLeverage: 20 },
+  ],
+};
+const MIDS: Record<string, string> = { BTC: "97250.5", ETH: "3412.15", SOL: "187.234" };
+
+// ==================== MOCK EXCHANGE ====================
+
+class MockHyperliquid {
+  readonly actions: any[] = [];
+  private server: http.Server;
+  private openOrders: IHyperliquidOpenOrder[] = [];
+  private fills: IHyperliquidFill[] = [];
+  private nextOid = 1000;
+  private lastNonce = 0;
+
+  constructor(private signer: string, private isMainnet: boolean) {
+    this.server = http.createServer((req, res) => {
+      let body = "";
+      req.on("data", (chunk) => (body += chunk));
+      req.on("end", () => {
+        const payload = JSON.parse(body || "{}");
+        const result = req.url === "/info" ? this.info(payload) : this.exchange(payload);
+        res.writeHead(200, { "Content-Type": "application/json" });
+        res.end(JSON.stringify(result));
+      });
+    });
+  }
+
+  async listen(): Promise<string> {
+    await new Promise<void>((resolve) => this.server.listen(0, "127.0.0.1", resolve));
+    return `http://127.0.0.1:${(this.server.address() as AddressInfo).port}`;
+  }
+
+  close(): Promise<void> {
+    return new Promise((resolve) => this.server.close(() => resolve()));
+  }
+
+  private info(payload: any): unknown {
+    switch (payload.type) {
+      case "meta": return META;
+      case "allMids": return MIDS;
+      case "openOrders": return payload.user === this.signer ? this.openOrders : [];
+      case "userFills": return payload.user === this.signer ? this.fills : [];
+      default: return null;
+    }
+  }
+
+  private exchange(payload: any): unknown {
+    const { action, nonce, signature, vaultAddress } = payload;
+    if (nonce <= this.lastNonce) return { status: "err", response: "Invalid nonce" };
+    this.lastNonce = nonce;
+
+    const nonceBytes = Buffer.alloc(8);
+    nonceBytes.writeBigUInt64BE(BigInt(nonce));
+    const vaultBytes = vaultAddress
+      ? concat([new Uint8Array([1]), getBytes(vaultAddress)])
+      : new Uint8Array([0]);
+    const connectionId = keccak256(concat([msgpackEncode(action), nonceBytes, vaultBytes]));
+    const recovered = verifyTypedData(
+      { name: "Exchange", version: "1", chainId: 1337, verifyingContract: "0x0000000000000000000000000000000000000000" },
+      { Agent: [{ name: "source", type: "string" }, { name: "connectionId", type: "bytes32" }] },
+      { source: this.isMainnet ? "a" : "b", connectionId },
+      Signature.from(signature)
+    );
+    if (recovered !== this.signer) {
+      return { status: "err", response: `User or API Wallet ${recovered} does not exist.` };
+    }
+
+    this.actions.push(action);
+    if (action.type === "order") return this.order(action);
+    if (action.type === "cancel" || action.type === "cancelByCloid") return this.cancel(action);
+    return { status: "err", response: `Unknown action ${action.type}` };
+  }
+
+  private order(action: any): unknown {
+    const statuses = action.orders.map((o: any) => {
+      const coin = META.universe[o.a]?.name;
+      if (!coin) return { error: "Invalid asset" };
+      const oid = this.nextOid++;
+      const mid = parseFloat(MIDS[coin]);
+      const px = parseFloat(o.p);
+      const marketable = o.b ? px >= mid : px <= mid;
+
+      if (marketable) {
+        this.fills.push({
+          coin, px: MIDS[coin], sz: o.s, side: o.b ? "B" : "A", time: Date.now(),
+          startPosition: "0", dir: o.b ? "Open Long" : "Open Short", closedPnl: "0",
+          hash: "0x0", oid, crossed: true, fee: "0", tid: oid, cloid: o.c,
+        });
+        return { filled: { totalSz: o.s, avgPx: MIDS[coin], oid, cloid: o.c } };
+      }
+      if (o.t.limit.tif === "Ioc") {
+        return { error: "Order could not immediately match against any resting orders." };
+      }
+      this.openOrders.push({
+        coin, side: o.b ? "B" : "A", limitPx: o.p, sz: o.s, oid,
+        timestamp: Date.now(), origSz: o.s, cloid: o.c,
+      });
+      return { resting: { oid, cloid: o.c } };
+    });
+    return { status: "ok", response: { type: "order", data: { statuses } } };
+  }
+
+  private cancel(action: any): unknown {
+    const statuses = action.cancels.map((c: any) => {
+      const coin = META.universe[c.a ?? c.asset]?.name;
+      const idx = this.openOrders.findIndex((o) =>
+        o.coin === coin && (action.type === "cancel" ? o.oid === c.o : o.cloid === c.cloid)
+      );
+      if (idx < 0) return { error: "Order was never placed, already canceled, or filled." };
+      this.openOrders.splice(idx, 1);
+      return "success";
+    });
+    return { status: "ok", response: { type: action.type, data: { statuses } } };
+  }
+}
+
+// ==================== SCENARIO ====================
+
+let failures = 0;
+function check(label: string, ok: boolean, detail = ""): void {
+  console.log(`  ${ok ? "PASS" : "FAIL"}  ${label}${detail ? ` — ${detail}` : ""}`);
+  if (!ok) failures++;
+}
+
+async function main() {
+  const wallet = Wallet.createRandom();
+  const mock = new MockHyperliquid(wallet.address, false);
+  const baseUrl = await mock.listen();
+  const client = new HyperliquidClient({ privateKey: wallet.privateKey, baseUrl });
+
+  console.log(`\nMock Hyperliquid at ${baseUrl}, signer ${wallet.address}\n`);
+
+  // Resting GTC limit — price rounded to 5 sig figs, size to szDecimals
+  const limit = await client.placeLimitOrder("BTC", "BUY", 90123.456, 0.0012345);
+  const limitWire = mock.actions[0]?.orders?.[0];
+  check("limit order rests", limit.success && !!limit.orderId, JSON.stringify(limit));
+  check("price wire is 5 sig figs", limitWire?.p === "90123", limitWire?.p);
+  check("size wire is szDecimals", limitWire?.s === "0.00123", limitWire?.s);
+  check("GTC tif", limitWire?.t?.limit?.tif === "Gtc");
+
+  // Market = IOC through the mid
+  const market = await client.placeMarketOrder("ETH", "BUY", 0.5);
+  const marketWire = mock.actions[1]?.orders?.[0];
+  check("market order fills", market.success, JSON.stringify(market));
+  check("IOC tif", marketWire?.t?.limit?.tif === "Ioc");
+  check("IOC priced above mid", parseFloat(marketWire?.p) > parseFloat(MIDS.ETH), marketWire?.p);
+
+  // Reduce-only close
+  const close = await client.closePosition("ETH", true, 0.5);
+  const closeWire = mock.actions[2]?.orders?.[0];
+  check("reduce-only close fills", close.success && close.filledSize === 0.5, JSON.stringify(close));
+  check("reduce-only flag set", closeWire?.r === true && closeWire?.b === false);
+
+  // Unmarketable IOC is rejected, not left resting
+  const ioc = await client.placeOrder({ coin: "SOL", isBuy: true, size: 1, price: 150, tif: "Ioc" });
+  check("unmarketable IOC rejected", !ioc.success && !!ioc.error, ioc.error);
+
+  // Cloid order + queries
+  const cloid = HyperliquidClient.newCloid();
+  const tagged = await client.placeOrder({ coin: "SOL", isBuy: false, size: 2.345, price: 210.1234, cloid });
+  check("cloid order rests", tagged.success && tagged.cloid === cloid);
+
+  const open = await client.getOpenOrders();
+  check("open orders listed", open.length === 2, `${open.length} open`);
+  const fills = await client.getUserFills();
+  check("user fills listed", fills.length === 2, `${fills.length} fills`);
+
+  // Cancels by oid and by cloid
+  check("cancel by oid", await client.cancelOrder(limit.orderId!));
+  check("cancel by cloid", await client.cancelOrder(cloid));
+  check("cancel unknown oid fails", !(await client.cancelOrder("999999")));
+  check("no open orders left", (await client.getOpenOrders()).length === 0);
+
+  // Wrong signer is rejected by the exchange
+  const impostor = new HyperliquidClient({ privateKey: Wallet.createRandom().privateKey, baseUrl });
+  const rejected = await impostor.placeLimitOrder("BTC", "BUY", 90000, 0.001);
+  check("foreign signer rejected", !rejected.success, rejected.error);
+
+  // No key → no orders
+  const readOnly = new HyperliquidClient({ baseUrl });
+  check("read-only client cannot trade", !readOnly.canTrade() && !(await readOnly.placeMarketOrder("BTC", "BUY", 0.001)).success);
+
+  await mock.close();
+  console.log(`\n${failures === 0 ? "All checks passed" : `${failures} check(s) failed`}\n`);
+  process.exit(failures === 0 ? 0 : 1);
+}
+
+main().catch((err) => {
+  console.error(err);
+  process.exit(1);
+});
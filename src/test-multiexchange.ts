@@ -40,8 +40,8 @@ async function main() {
   const hyperliquidClient = new HyperliquidClient();
   const hyperliquidData = new HyperliquidMarketData(hyperliquidClient);
   const demoWallet = new DemoWallet(1000); // $1,000 demo wallet
-  const perfTracker = new PerformanceTracker();
-  perfTracker.initialize();
+  const perfTracker = new PerformanceTracker({ persist: false });
+  await perfTracker.initialize();
 
   // Pre-flight checks
   console.log("\n--- Pre-flight Exchange Checks ---\n");
@@ -0,0 +1,304 @@
+/**
+ * PolymarketClient order signing and batching against a local mock CLOB.
+ *
+ * Usage: npx ts-node src/test-polymarket-orders.ts
+ *
+ * The mock serves the market-config endpoints (/tick-size, /neg-risk,
+ * /fee-rate), order placement (/order, /orders), cancellation and order
+ * queries. Every authenticated request has its L2 HMAC recomputed, and
+ * every order has its EIP-712 signature recovered against the exchange
+ * contract its market settles on (regular or neg-risk), so encoding
+ * mistakes show up here instead of as CLOB rejections.
+ */
+
+import http from "http";
+import crypto from "crypto";
+import { AddressInfo } from "net";
+import { Wallet, verifyTypedData } from "ethers";
+import { PolymarketClient } from "./polymarket/PolymarketClient";
+import { IPolymarketSignedOrder } from "./types/polymarket.types";
+
+const API_KEY = "test-api-key";
+const API_SECRET = Buffer.from("mock-clob-secret-0123456789").toString("base64");
+const PASSPHRASE = "test-passphrase";
+
+const MARKETS: Record<string, { tick: string; negRisk: boolean; fee: number }> = {
+  "1001": { tick: "0.01", negRisk: false, fee: 0 },
+  "2002": { tick: "0.001", negRisk: true, fee: 100 },
+};
+const EXCHANGES = {
+  regular: "0x4bFb41d5B3570DeFd03C39a9A4D8dE6Bd8B8982E",
+  negRisk: "0xC5d563A36AE78145C45a50134d48A1215220f80a",
+};
+const ORDER_TYPES = {
+  Order: [
+    { name: "salt", type: "uint256" },
+    { name: "maker", type: "address" },
+    { name: "signer", type: "address" },
+    { name: "taker", type: "address" },
+    { name: "tokenId", type: "uint256" },
+    { name: "makerAmount", type: "uint256" },
+    { name: "takerAmount", type: "uint256" },
+    { name: "expiration", type: "uint256" },
+    { name: "nonce", type: "uint256" },
+    { name: "feeRateBps", type: "uint256" },
+    { name: "side", type: "uint8" },
+    { name: "signatureType", type: "uint8" },
+  ],
+};
+
+// ==================== MOCK CLOB ====================
+
+interface MockOrder {
+  signed: IPolymarketSignedOrder;
+  orderType: string;
+  status: "LIVE" | "CANCELED";
+}
+
+class MockClob {
+  readonly received: { path: string; orders: IPolymarketSignedOrder[] }[] = [];
+  private server: http.Server;
+  private orders: Map<string, MockOrder> = new Map();
+  private nextId = 1;
+
+  constructor(private signer: string) {
+    this.server = http.createServer((req, res) => {
+      let body = "";
+      req.on("data", (chunk) => (body += chunk));
+      req.on("end", () => {
+        const { status, data } = this.route(req, body);
+        res.writeHead(status, { "Content-Type": "application/json" });
+        res.end(JSON.stringify(data));
+      });
+    });
+  }
+
+  async listen(): Promise<string> {
+    await new Promise<void>((resolve) => this.server.listen(0, "127.0.0.1", resolve));
+    return `http://127.0.0.1:${(this.server.address() as AddressInfo).port}`;
+  }
+
+  close(): Promise<void> {
+    return new Promise((resolve) => this.server.close(() => resolve()));
+  }
+
+  private route(req: http.IncomingMessage, body: string): { status: number; data: unknown } {
+    const url = new URL(req.url || "/", "http://localhost");
+    const market = MARKETS[url.searchParams.get("token_id") || ""];
+
+    if (req.method === "GET" && url.pathname === "/tick-size") {
+      return market ? { status: 200, data: { minimum_tick_size: parseFloat(market.tick) } } : notFound();
+    }
+    if (req.method === "GET" && url.pathname === "/neg-risk") {
+      return market ? { status: 200, data: { neg_risk: market.negRisk } } : notFound();
+    }
+    if (req.method === "GET" && url.pathname === "/fee-rate") {
+      return market ? { status: 200, data: { base_fee: market.fee } } : notFound();
+    }
+
+    const authError = this.checkHmac(req, url.pathname, body);
+    if (authError) return { status: 401, data: { error: authError } };
+
+    if (req.method === "POST" && url.pathname === "/order") {
+      const payload = JSON.parse(body);
+      this.received.push({ path: "/order", orders: [payload.order] });
+      return { status: 200, data: this.accept(payload) };
+    }
+    if (req.method === "POST" && url.pathname === "/orders") {
+      const payloads: any[] = JSON.parse(body);
+      if (payloads.length > 15) return { status: 400, data: { error: "Too many orders in batch" } };
+      this.received.push({ path: "/orders", orders: payloads.map((p) => p.order) });
+      return { status: 200, data: payloads.map((p) => this.accept(p)) };
+    }
+    if (req.method === "DELETE" && url.pathname === "/order") {
+      return { status: 200, data: this.cancel([JSON.parse(body).orderID]) };
+    }
+    if (req.method === "DELETE" && url.pathname === "/orders") {
+      return { status: 200, data: this.cancel(JSON.parse(body)) };
+    }
+    if (req.method === "GET" && url.pathname === "/data/orders") {
+      const live = [...this.orders.entries()].filter(([, o]) => o.status === "LIVE");
+      return { status: 200, data: { data: live.map(([id, o]) => this.toRest(id, o)), next_cursor: "LTE=" } };
+    }
+    const single = url.pathname.match(/^\/data\/order\/(.+)$/);
+    if (req.method === "GET" && single) {
+      const order = this.orders.get(single[1]);
+      return order ? { status: 200, data: this.toRest(single[1], order) } : notFound();
+    }
+    return notFound();
+  }
+
+  private checkHmac(req: http.IncomingMessage, path: string, body: string): string | null {
+    const h = req.headers;
+    if (h["poly_api_key"] !== API_KEY || h["poly_passphrase"] !== PASSPHRASE) return "Unknown API key";
+    if (h["poly_address"] !== this.signer) return "Address mismatch";
+    const expected = crypto
+      .createHmac("sha256", Buffer.from(API_SECRET, "base64"))
+      .update(`${h["poly_timestamp"]}${req.method}${path}${body}`)
+      .digest("base64url");
+    const presented = String(h["poly_signature"] || "").replace(/=+$/, "");
+    return presented === expected ? null : "Invalid L2 signature";
+  }
+
+  private accept(payload: any): unknown {
+    const order: IPolymarketSignedOrder = payload.order;
+    const market = MARKETS[order.tokenId];
+    if (!market) return { success: false, errorMsg: "market not found" };
+    if (payload.owner !== API_KEY) return { success: false, errorMsg: "owner mismatch" };
+    if (order.feeRateBps !== String(market.fee)) return { success: false, errorMsg: "invalid fee rate" };
+
+    const recovered = verifyTypedData(
+      {
+        name: "Polymarket CTF Exchange",
+        version: "1",
+        chainId: 137,
+        verifyingContract: market.negRisk ? EXCHANGES.negRisk : EXCHANGES.regular,
+      },
+      ORDER_TYPES,
+      { ...order, side: order.side === "BUY" ? 0 : 1 },
+      order.signature
+    );
+    if (recovered !== this.signer || order.signer !== this.signer) {
+      return { success: false, errorMsg: "invalid signature" };
+    }
+
+    const id = `0x${(this.nextId++).toString(16).padStart(64, "0")}`;
+    this.orders.set(id, { signed: order, orderType: payload.orderType, status: "LIVE" });
+    return { success: true, orderID: id, status: "live", errorMsg: "" };
+  }
+
+  private cancel(ids: string[]): unknown {
+    const canceled: string[] = [];
+    const notCanceled: Record<string, string> = {};
+    for (const id of ids) {
+      const order = this.orders.get(id);
+      if (order && order.status === "LIVE") {
+        order.status = "CANCELED";
+        canceled.push(id);
+      } else {
+        notCanceled[id] = "order not found";
+      }
+    }
+    return { canceled, not_canceled: notCanceled };
+  }
+
+  private toRest(id: string, o: MockOrder): unknown {
+    const shares = o.signed.side === "BUY" ? o.signed.takerAmount : o.signed.makerAmount;
+    const usdc = o.signed.side === "BUY" ? o.signed.makerAmount : o.signed.takerAmount;
+    return {
+      id,
+      status: o.status,
+      asset_id: o.signed.tokenId,
+      side: o.signed.side,
+      original_size: String(Number(shares) / 1e6),
+      size_matched: "0",
+      price: String(Number(usdc) / Number(shares)),
+      order_type: o.orderType,
+    };
+  }
+}
+
+function notFound(): { status: number; data: unknown } {
+  return { status: 404, data: { error: "not found" } };
+}
+
+// ==================== SCENARIO ====================
+
+let failures = 0;
+function check(label: string, ok: boolean, detail = ""): void {
+  console.log(`  ${ok ? "PASS" : "FAIL"}  ${label}${detail ? ` — ${detail}` : ""}`);
+  if (!ok) failures++;
+}
+
+async function main() {
+  const wallet = Wallet.createRandom();
+  const mock = new MockClob(wallet.address);
+  const clobUrl = await mock.listen();
+
+  process.env.POLYMARKET_API_KEY = API_KEY;
+  process.env.POLYMARKET_API_SECRET = API_SECRET;
+  process.env.POLYMARKET_PASSPHRASE = PASSPHRASE;
+  const client = new PolymarketClient({ clobUrl });
+  await client.initialize(wallet.privateKey);
+
+  console.log(`\nMock CLOB at ${clobUrl}, signer ${wallet.address}\n`);
+
+  // Amount rounding per tick size
+  const buy = PolymarketClient.orderAmounts("BUY", 0.523, 10.555, "0.01");
+  check("BUY rounds price to tick and size down", buy.makerAmount === "5486000" && buy.takerAmount === "10550000", JSON.stringify(buy));
+  const sell = PolymarketClient.orderAmounts("SELL", 0.4567, 3, "0.001");
+  check("SELL makerAmount is shares", sell.makerAmount === "3000000" && sell.takerAmount === "1371000", JSON.stringify(sell));
+  let threw = false;
+  try { PolymarketClient.orderAmounts("BUY", 0.995, 10, "0.01"); } catch { threw = true; }
+  check("price beyond 1 - tick rejected", threw);
+
+  // Single GTC limit on a regular market
+  const limit = await client.placeLimitOrder("1001", "BUY", 0.523, 10.555);
+  const limitWire = mock.received[0]?.orders[0];
+  check("limit order accepted", limit.success && !!limit.orderID, JSON.stringify(limit));
+  check("maker and signer are the wallet", limitWire?.maker === wallet.address && limitWire?.signer === wallet.address);
+  check("wire amounts are base units", limitWire?.makerAmount === "5486000" && limitWire?.takerAmount === "10550000");
+
+  // Neg-risk market signs against the neg-risk exchange, with its fee rate
+  const negRisk = await client.placeLimitOrder("2002", "SELL", 0.4567, 3);
+  const negWire = mock.received[1]?.orders[0];
+  check("neg-risk order accepted", negRisk.success, JSON.stringify(negRisk));
+  check("neg-risk fee rate carried", negWire?.feeRateBps === "100", negWire?.feeRateBps);
+
+  // Market order = FOK at the far tick
+  const market = await client.placeMarketOrder("1001", "BUY", 5);
+  const marketWire = mock.received[2]?.orders[0];
+  check("market order accepted", market.success, JSON.stringify(market));
+  check("market BUY priced at 1 - tick", marketWire?.makerAmount === "4950000" && marketWire?.takerAmount === "5000000");
+
+  // Local validation never reaches the CLOB
+  const before = mock.received.length;
+  const bad = await client.placeLimitOrder("1001", "BUY", 1.2, 10);
+  check("out-of-range price fails locally", !bad.success && mock.received.length === before, bad.errorMsg);
+
+  // Batch of 17 (one invalid) → two requests of 15 and 1
+  const batch = Array.from({ length: 17 }, (_, i) => ({
+    tokenId: i % 2 === 0 ? "1001" : "2002",
+    side: "BUY" as const,
+    price: i === 5 ? 0 : 0.3,
+    size: 10 + i,
+    orderType: "GTC" as const,
+  }));
+  const batchBefore = mock.received.length;
+  const results = await client.placeOrders(batch);
+  const requests = mock.received.slice(batchBefore);
+  check("batch split at 15 orders", requests.length === 2 && requests[0].orders.length === 15 && requests[1].orders.length === 1,
+    requests.map((r) => r.orders.length).join("+"));
+  check("invalid order fails alone", !results[5].success && results.filter((r) => r.success).length === 16);
+
+  // Queries
+  const open = await client.getOpenOrders();
+  check("open orders listed", open.length === 19, `${open.length} open`);
+  const single = await client.getOrder(limit.orderID!);
+  check("single order fetched", single?.status === "live" && single.originalSize === 10.55, JSON.stringify(single));
+
+  // Cancels
+  check("cancel one", await client.cancelOrder(limit.orderID!));
+  check("cancel again fails", !(await client.cancelOrder(limit.orderID!)));
+  const ids = results.filter((r) => r.success).map((r) => r.orderID!);
+  const cancelled = await client.cancelOrders([...ids, "0xdead"]);
+  check("batch cancel", cancelled.canceled.length === 16 && !!cancelled.notCanceled["0xdead"],
+    `${cancelled.canceled.length} cancelled`);
+  check("cancelled order status", (await client.getOrder(ids[0]))?.status === "cancelled");
+
+  // Bad L2 secret is rejected
+  process.env.POLYMARKET_API_SECRET = Buffer.from("wrong-secret").toString("base64");
+  const impostor = new PolymarketClient({ clobUrl });
+  await impostor.initialize(wallet.privateKey);
+  const rejected = await impostor.placeLimitOrder("1001", "BUY", 0.5, 10);
+  check("bad L2 HMAC rejected", !rejected.success, rejected.errorMsg);
+
+  await mock.close();
+  console.log(`\n${failures === 0 ? "All checks passed" : `${failures} check(s) failed`}\n`);
+  process.exit(failures === 0 ? 0 : 1);
+}
+
+main().catch((err) => {
+  console.error(err);
+  process.exit(1);
+});
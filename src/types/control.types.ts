@@ -0,0 +1,86 @@
+import { IHFTRiskLimits } from "./hft.types";
+import { IPolymarketRiskLimits } from "./polymarket.types";
+import { ExecutionMode } from "./exchange.types";
+
+// ==================== OPERATOR CONTROL ====================
+
+/** Which loop runs a strategy: cron signal strategies, the HFT tick engine, or the multi-exchange engine */
+export type ControlStrategyEngine = "signal" | "hft" | "multi_exchange";
+
+export interface IControlStrategyState {
+  id: string;
+  engine: ControlStrategyEngine;
+  enabled: boolean;
+}
+
+export interface IControlKillSwitchState {
+  active: boolean;
+  reason?: string;
+  triggeredAt?: number;
+}
+
+export interface IControlStatus {
+  paused: boolean;
+  killSwitch: IControlKillSwitchState;
+  executionMode: ExecutionMode;
+  equity: number;
+  balance: number;
+  openPositions: number;
+  strategies: IControlStrategyState[];
+  timestamp: number;
+}
+
+export interface IControlRiskLimits {
+  hft: IHFTRiskLimits;
+  polymarket: IPolymarketRiskLimits;
+}
+
+export interface IControlRiskLimitsPatch {
+  hft?: Partial<IHFTRiskLimits>;
+  polymarket?: Partial<IPolymarketRiskLimits>;
+}
+
+export interface IControlOpenOrder {
+  venue: string;            // "hft" (tracked by HFTOrderManager) or the exchange id
+  orderId: string;
+  symbol: string;
+  side: "BUY" | "SELL";
+  price: number;
+  size: number;
+  placedAt?: number;
+  strategyId?: string;
+}
+
+export interface IFlattenResult {
+  enginePositionsClosed: number;
+  enginePnl: number;
+  polymarketPositionsClosed: number;
+  ordersCancelled: number;
+}
+
+/**
+ * Operations exposed over the control API. Methods throw on invalid
+ * requests (unknown strategy, bad limit values, resume while killed).
+ */
+export interface IBotControl {
+  getStatus(): IControlStatus;
+  pause(): void;
+  resume(): void;
+  setStrategyEnabled(strategyId: string, enabled: boolean): IControlStrategyState;
+  flatten(reason: string): Promise<IFlattenResult>;
+  triggerKillSwitch(reason: string): Promise<IFlattenResult>;
+  resetKillSwitch(): void;
+  getRiskLimits(): IControlRiskLimits;
+  updateRiskLimits(patch: IControlRiskLimitsPatch): IControlRiskLimits;
+  getOpenOrders(): Promise<IControlOpenOrder[]>;
+}
+
+export interface IControlAuditEntry {
+  timestamp: number;
+  actor: string;
+  action: string;
+  params?: unknown;
+  ok: boolean;
+  detail?: string;
+  ip?: string;
+}
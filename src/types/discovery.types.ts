@@ -0,0 +1,37 @@
+/**
+ * dexscreener: DexScreener public API (boosted and newly profiled tokens)
+ * new_pools:   on-chain Raydium pool initializations (WebSocketService)
+ * helius:      Helius enhanced transactions for launchpad/AMM programs
+ */
+export type TokenSourceId = "dexscreener" | "new_pools" | "helius";
+
+/**
+ * A token candidate as reported by one source. Market fields are
+ * optional: on-chain sources only know the mint and are enriched from
+ * DexScreener before filtering.
+ */
+export interface IDiscoveredToken {
+  address: string;          // mint
+  source: TokenSourceId;
+  discoveredAt: Date;
+  symbol?: string;
+  name?: string;
+  decimals?: number;
+  logoURI?: string;
+  price?: number;           // USD
+  volume24h?: number;       // USD
+  liquidity?: number;       // USD in the deepest pool
+  mcap?: number;            // USD (FDV when market cap is unknown)
+  priceChange1h?: number;   // percent
+  pairCreatedAt?: Date;     // first pool — the token's tradable age
+  poolAddress?: string;
+}
+
+/** Filtering rules for one source; unset fields don't filter */
+export interface ITokenFilterRules {
+  minLiquidity?: number;    // USD
+  minVolume24h?: number;    // USD
+  minMcap?: number;         // USD
+  maxMcap?: number;         // USD
+  maxAgeMs?: number;        // since pairCreatedAt
+}
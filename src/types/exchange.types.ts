@@ -21,6 +21,42 @@ export interface IExchangeClient {
   isConnected(): boolean;
 }
 
+// ==================== STREAMING FEEDS ====================
+
+export type PriceTickCallback = (
+  asset: string,
+  price: number,
+  change10s: number,
+  change30s: number
+) => void;
+
+export type BookUpdateCallback = (tokenId: string, book: IUnifiedOrderbook) => void;
+
+export type TradeTickCallback = (
+  tokenId: string,
+  price: number,
+  size: number,
+  side: string
+) => void;
+
+/** Spot price stream (Binance WS in production, recorded ticks in replay) */
+export interface IPriceTickFeed {
+  connect(): void;
+  disconnect(): void;
+  onPrice(callback: PriceTickCallback): void;
+  isConnected(): boolean;
+}
+
+/** Token orderbook stream (Polymarket WS in production, recorded books in replay) */
+export interface IOrderbookFeed {
+  connect(tokenIds: string[], labels?: Map<string, string>): void;
+  disconnect(): void;
+  addMarkets(tokenIds: string[], labels?: Map<string, string>): void;
+  onBookUpdate(callback: BookUpdateCallback): void;
+  onTrade(callback: TradeTickCallback): void;
+  isConnected(): boolean;
+}
+
 // ==================== UNIFIED ORDERBOOK ====================
 
 export interface IUnifiedBookLevel {
@@ -71,6 +107,80 @@ export interface IDemoWalletState {
   totalRealizedPnl: number;
 }
 
+/** Persisted DemoWallet state — unlike getState(), carries the full equity curve */
+export interface IDemoWalletSnapshot extends IDemoWalletState {
+  takenAt: number;
+  startingBalance: number;
+}
+
+// ==================== EXECUTION VENUES ====================
+
+export type ExecutionMode = "paper" | "live";
+
+/**
+ * Where engine position decisions are executed. Mirrors the DemoWallet
+ * position API so strategies are indifferent to paper vs live: the
+ * DemoWallet stays the position ledger, and a live venue additionally
+ * sends the exchange order in the background, reversing the ledger entry
+ * if the order is rejected.
+ */
+export interface IExecutionVenue {
+  readonly id: string;
+  readonly mode: ExecutionMode;
+  openPosition(
+    exchange: string,
+    symbol: string,
+    side: "LONG" | "SHORT",
+    size: number,
+    entryPrice: number,
+    strategy: string,
+    leverage?: number
+  ): IDemoPosition | null;
+  closePosition(positionId: string, exitPrice: number): number;
+  /** Close at a settlement price without trading (binary market resolution) */
+  settlePosition(positionId: string, settlementPrice: number): number;
+  /** Close the position if its loss reached the liquidation threshold */
+  checkLiquidation(positionId: string, currentPrice: number): boolean;
+  /**
+   * Resolves true once the position's entry order is accepted, false if it
+   * was rejected (the ledger entry is then already reversed). Paper fills
+   * resolve immediately.
+   */
+  whenOpened?(positionId: string): Promise<boolean>;
+}
+
+/**
+ * Venue selection. A strategy entry overrides its exchange's entry;
+ * anything unlisted trades on paper.
+ */
+export interface IExecutionConfig {
+  exchanges: Record<string, ExecutionMode>;
+  strategies: Record<string, ExecutionMode>;
+}
+
+// ==================== PAPER SESSIONS ====================
+
+export interface IPaperSession {
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+  startingBalance: number;
+  forkedFrom?: { session: string; snapshotAt: number };
+}
+
+/**
+ * Storage for named paper sessions. Each session keeps one rolling
+ * "latest" snapshot plus hourly checkpoints to resume or fork from.
+ */
+export interface IPaperSessionStore {
+  getSession(name: string): Promise<IPaperSession | null>;
+  listSessions(): Promise<IPaperSession[]>;
+  createSession(session: IPaperSession): Promise<void>;
+  saveSnapshot(name: string, snapshot: IDemoWalletSnapshot, checkpoint: boolean): Promise<void>;
+  /** Most recent snapshot taken at or before `at` (default: the latest) */
+  getSnapshot(name: string, at?: number): Promise<IDemoWalletSnapshot | null>;
+}
+
 // ==================== DASHBOARD ====================
 
 export interface IDashboardPayload {
@@ -108,3 +218,20 @@ export interface ICrossExchangeOpportunity {
   confidence: number;
   direction: "BUY_A_SELL_B" | "BUY_B_SELL_A";
 }
+
+/**
+ * A Polymarket Up/Down window and a Kalshi contract that settle on the
+ * same event: same asset, same close, strike at the window's start price.
+ */
+export interface ICrossVenueMatch {
+  asset: string;
+  polymarketSlug: string;
+  upTokenId: string;
+  downTokenId: string;
+  kalshiTicker: string;
+  kalshiYesIsUp: boolean;  // "above" contracts pay YES on Up, "below" on Down
+  strike: number;
+  startPrice: number;      // Polymarket window reference price
+  strikeGapPct: number;    // |strike − startPrice| / startPrice
+  closeTs: number;
+}
@@ -1,4 +1,5 @@
 import { PolymarketAsset, PolymarketInterval, PolymarketDirection, IPolymarketBookLevel } from "./polymarket.types";
+import { IBinaryFairValue } from "./pricing.types";
 
 // ==================== TICK ENGINE ====================
 
@@ -27,6 +28,7 @@ export interface ITickSnapshot {
   binancePrice: number;
   binancePriceChange10s: number; // % change over 10s
   binancePriceChange30s: number; // % change over 30s
+  fairValue: IBinaryFairValue | null; // model YES/NO value; null until open price and vol are known
   timestamp: number;
 }
 
@@ -52,6 +54,7 @@ export interface IArbOpportunity {
   expectedProfit: number;
   confidence: number;   // 0-1
   edge: number;         // % edge over fair value
+  fairValue?: IBinaryFairValue; // set by directional strategies; risk-checked against the price
   orderType: "FOK" | "GTC" | "GTD" | "FAK";
   expiration?: number;  // UTC seconds for GTD
   metadata: Record<string, any>;
@@ -108,6 +111,16 @@ export interface IPerformanceWindow {
   metrics: IPerformanceMetrics;
 }
 
+/** Filter for PerformanceTracker.queryTrades — all fields optional, ANDed */
+export interface ITradeQuery {
+  strategyId?: string;
+  exchange?: string;
+  asset?: string;
+  from?: number;   // closedAt >= from (Unix ms)
+  to?: number;     // closedAt <= to (Unix ms)
+  limit?: number;  // most recent N matches
+}
+
 // ==================== RISK ====================
 
 export interface IHFTRiskLimits {
@@ -134,21 +147,44 @@ export interface IHFTRiskCheck {
 
 // ==================== ORDER TRACKING ====================
 
+export type OrderLifecycleStatus = "open" | "partially_filled" | "filled" | "cancelled";
+
 export interface ITrackedOrder {
   orderId: string;
   strategyId: string;
+  strategy: HFTStrategyType;
+  asset: PolymarketAsset;
+  interval: PolymarketInterval;
+  conditionId: string;
+  direction: PolymarketDirection;
   tokenId: string;
   side: "BUY" | "SELL";
   price: number;
-  size: number;
+  size: number;          // USDC
+  shares: number;
+  filledShares: number;
+  expectedProfit: number; // for the full size
   orderType: "FOK" | "GTC" | "GTD" | "FAK";
+  status: OrderLifecycleStatus;
   placedAt: number;
   filled: boolean;
   cancelled: boolean;
-  fillPrice?: number;
+  fillPrice?: number;    // volume-weighted over all fills
   fillLatencyMs?: number;
 }
 
+export type OrderFillSource = "placement" | "websocket" | "poll";
+
+export interface IOrderLifecycleEvent {
+  type: "placed" | "partially_filled" | "filled" | "cancelled";
+  order: ITrackedOrder;
+  fill?: IHFTTrade;      // the increment filled by this event
+  source: OrderFillSource | "cancel";
+  timestamp: number;
+}
+
+export type OrderLifecycleCallback = (event: IOrderLifecycleEvent) => void;
+
 // ==================== INVENTORY ====================
 
 export interface IInventoryState {
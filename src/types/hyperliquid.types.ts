@@ -27,23 +27,105 @@ export interface IHyperliquidMeta {
 
 // ==================== ORDERS ====================
 
+export type HyperliquidTif = "Gtc" | "Ioc" | "Alo";
+
 export interface IHyperliquidOrderRequest {
   coin: string;
   is_buy: boolean;
   sz: string;
   limit_px: string;
-  order_type: { limit: { tif: "Gtc" | "Ioc" | "Alo" } } | { trigger: { triggerPx: string; isMarket: boolean; tpsl: "tp" | "sl" } };
+  order_type: { limit: { tif: HyperliquidTif } } | { trigger: { triggerPx: string; isMarket: boolean; tpsl: "tp" | "sl" } };
   reduce_only: boolean;
 }
 
+/** Order as signed and sent in an "order" action (field order matters for msgpack) */
+export interface IHyperliquidOrderWire {
+  a: number;              // asset index
+  b: boolean;             // is buy
+  p: string;              // limit price
+  s: string;              // size
+  r: boolean;             // reduce only
+  t: { limit: { tif: HyperliquidTif } };
+  c?: string;             // client order id (0x + 32 hex)
+}
+
+export interface IHyperliquidOrderParams {
+  coin: string;
+  isBuy: boolean;
+  size: number;
+  price: number;
+  tif?: HyperliquidTif;   // default Gtc
+  reduceOnly?: boolean;
+  cloid?: string;
+}
+
+export type IHyperliquidOrderStatus =
+  | { resting: { oid: number; cloid?: string } }
+  | { filled: { totalSz: string; avgPx: string; oid: number; cloid?: string } }
+  | { error: string };
+
 export interface IHyperliquidOrderResponse {
   status: "ok" | "err";
   response?: {
     type: "order";
     data: {
-      statuses: Array<{ resting?: { oid: number }; filled?: { totalSz: string; avgPx: string }; error?: string }>;
+      statuses: IHyperliquidOrderStatus[];
     };
-  };
+  } | string;
+}
+
+export interface IHyperliquidCancelResponse {
+  status: "ok" | "err";
+  response?: {
+    type: "cancel" | "cancelByCloid";
+    data: {
+      statuses: Array<"success" | { error: string }>;
+    };
+  } | string;
+}
+
+export interface IHyperliquidOrderResult {
+  success: boolean;
+  orderId?: string;
+  cloid?: string;
+  resting?: boolean;
+  filledSize?: number;
+  avgPrice?: number;
+  error?: string;
+}
+
+export interface IHyperliquidSignature {
+  r: string;
+  s: string;
+  v: number;
+}
+
+export interface IHyperliquidOpenOrder {
+  coin: string;
+  side: "B" | "A";
+  limitPx: string;
+  sz: string;
+  oid: number;
+  timestamp: number;
+  origSz: string;
+  cloid?: string;
+}
+
+export interface IHyperliquidFill {
+  coin: string;
+  px: string;
+  sz: string;
+  side: "B" | "A";
+  time: number;
+  startPosition: string;
+  dir: string;
+  closedPnl: string;
+  hash: string;
+  oid: number;
+  crossed: boolean;
+  fee: string;
+  tid: number;
+  cloid?: string;
 }
 
 // ==================== POSITIONS ====================
@@ -24,6 +24,7 @@ export interface IKalshiMarket {
   status: "open" | "closed" | "settled";
   close_time: string; // ISO datetime
   result: string;
+  strike_type?: string; // "greater" | "less" | "between" | ...
   floor_strike?: number;
   cap_strike?: number;
 }
@@ -44,10 +45,12 @@ export interface IKalshiOrder {
   order_id: string;
   ticker: string;
   side: "yes" | "no";
+  action?: "buy" | "sell";
   type: "market" | "limit";
   yes_price: number;
   no_price: number;
   count: number;
+  remaining_count?: number;
   status: "resting" | "canceled" | "executed" | "pending";
   created_time: string;
 }
@@ -60,9 +63,23 @@ export interface IKalshiPosition {
   total_traded: number;
 }
 
-// Kalshi crypto series identifiers
+// Kalshi crypto series identifiers (price range buckets)
 export const KALSHI_CRYPTO_SERIES: Record<string, string> = {
   BTC: "KXBTC",
   ETH: "KXETH",
   SOL: "KXSOL",
 };
+
+// Above/below strike ladders on the same underlyings
+export const KALSHI_CRYPTO_THRESHOLD_SERIES: Record<string, string> = {
+  BTC: "KXBTCD",
+  ETH: "KXETHD",
+  SOL: "KXSOLD",
+};
+
+// 15-minute up/down contracts: strike is the index at the window start
+export const KALSHI_CRYPTO_UPDOWN_SERIES: Record<string, string> = {
+  BTC: "KXBTC15M",
+  ETH: "KXETH15M",
+  SOL: "KXSOL15M",
+};
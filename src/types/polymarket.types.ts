@@ -3,6 +3,7 @@ export type PolymarketInterval = "5M" | "15M";
 export type PolymarketOutcome = "UP" | "DOWN";
 export type PolymarketDirection = "YES" | "NO";
 export type PolymarketOrderType = "GTC" | "GTD" | "FOK" | "FAK";
+export type PolymarketPositionStatus = "open" | "pending_resolution" | "closed" | "resolved";
 
 export interface IPolymarketMarket {
   conditionId: string;
@@ -34,9 +35,93 @@ export interface IPolymarketOrderResponse {
   success: boolean;
   orderID?: string;
   status?: "live" | "matched" | "delayed" | "unmatched";
+  sizeMatched?: number;   // shares matched on placement, when reported
   errorMsg?: string;
 }
 
+export type PolymarketTickSize = "0.1" | "0.01" | "0.001" | "0.0001";
+
+/** 0 = EOA, 1 = Polymarket proxy (email/Magic), 2 = Gnosis Safe (browser wallet) */
+export type PolymarketSignatureType = 0 | 1 | 2;
+
+/** Per-token trading parameters the CLOB validates orders against */
+export interface IPolymarketMarketConfig {
+  tickSize: PolymarketTickSize;
+  negRisk: boolean;
+  feeRateBps: number;
+}
+
+/** CTF Exchange order struct plus its EIP-712 signature, as posted to /order */
+export interface IPolymarketSignedOrder {
+  salt: number;
+  maker: string;
+  signer: string;
+  taker: string;
+  tokenId: string;
+  makerAmount: string;
+  takerAmount: string;
+  expiration: string;
+  nonce: string;
+  feeRateBps: string;
+  side: "BUY" | "SELL";
+  signatureType: PolymarketSignatureType;
+  signature: string;
+}
+
+export interface IPolymarketCancelResult {
+  canceled: string[];
+  notCanceled: Record<string, string>; // orderId → reason
+}
+
+/**
+ * How a position's market settled. The market's own resolution is what
+ * pays; the underlying price move over the window is only a cross-check.
+ */
+export interface IPolymarketResolution {
+  outcome: PolymarketOutcome;
+  priceOutcome: PolymarketOutcome | null; // null = price feed unavailable or move too small to call
+  startPrice: number | null;
+  endPrice: number | null;
+  mismatch: boolean; // market and price feed disagree
+}
+
+/** Outcome tokens held by the account, from the data API */
+export interface IPolymarketHolding {
+  tokenId: string;
+  conditionId: string;
+  outcome: string;
+  shares: number;
+  avgPrice: number;
+  currentPrice: number;
+  redeemable: boolean; // market resolved, tokens awaiting redemption
+}
+
+/** A match against one of our orders, from the user WebSocket channel */
+export interface IPolymarketUserFill {
+  tradeId: string;
+  orderId: string;
+  tokenId: string;
+  shares: number;
+  price: number;
+  timestamp: number;
+}
+
+/** An order as reported by the CLOB (REST or user channel) */
+export interface IPolymarketOrderStatus {
+  orderId: string;
+  tokenId: string;
+  status: "live" | "matched" | "cancelled";
+  originalSize: number;
+  sizeMatched: number;
+  price: number;
+}
+
+export interface IPolymarketApiCredentials {
+  apiKey: string;
+  secret: string;
+  passphrase: string;
+}
+
 export interface IPolymarketPosition {
   id?: string;
   marketId: string;
@@ -76,6 +161,21 @@ export interface IPolymarketOrderbook {
   timestamp: number;
 }
 
+export interface IPolymarketRiskLimits {
+  maxPositionUSDC: number;
+  maxTotalExposure: number;
+  maxPositionsPerAsset: number;
+  maxConcurrentPositions: number;
+  minLiquidity: number;
+  maxSpread: number;
+  minTimeToResolution: number; // seconds
+  maxTimeToResolution: number; // seconds
+  minConfidenceScore: number;
+  minFairValueEdge: number;    // vs the low end of the model's fair value
+  maxDailyLoss: number;
+  cooldownAfterLossMs: number;
+}
+
 export interface IPolymarketRiskCheck {
   allowed: boolean;
   reason?: string;
@@ -0,0 +1,37 @@
+// ==================== VOLATILITY ====================
+
+/**
+ * realized: equal-weighted over a rolling window
+ * ewma:     exponentially weighted, reacts faster to regime changes
+ * implied:  supplied from outside (e.g. backed out of a quoted price)
+ */
+export type VolatilitySource = "realized" | "ewma" | "implied";
+
+/** Volatility of log returns per √ms, so it scales with any horizon */
+export interface IVolatilityEstimate {
+  perSqrtMs: number;
+  standardError: number; // per √ms; 0 when the estimate is taken as exact
+  source: VolatilitySource;
+  samples: number;       // effective sample count behind the estimate
+}
+
+// ==================== BINARY FAIR VALUE ====================
+
+/**
+ * Fair value of a rolling Up/Down market: YES pays $1 if the underlying
+ * closes at or above the window's open price, NO pays $1 otherwise.
+ */
+export interface IBinaryFairValue {
+  yes: number;                  // P(close ≥ open)
+  no: number;                   // 1 − yes
+  yesInterval: [number, number]; // yes repriced at vol ± z × standard error
+  noInterval: [number, number];
+  delta: number;                // dYES/dSpot, per unit of underlying
+  gamma: number;                // d²YES/dSpot²
+  vega: number;                 // dYES per +1 point (0.01) of annualized vol
+  theta: number;                // dYES per second elapsed
+  openPrice: number;
+  spot: number;
+  timeRemainingMs: number;
+  volatility: IVolatilityEstimate;
+}
@@ -0,0 +1,123 @@
+import { IUnifiedOrderbook } from "./exchange.types";
+
+// ==================== RECORDED MARKET EVENTS ====================
+// One event per line in a replay file (JSONL), sorted by `ts` (Unix ms).
+
+export interface IBinancePriceEvent {
+  type: "binance_price";
+  ts: number;
+  asset: string;
+  price: number;
+}
+
+export interface IPolymarketBookEvent {
+  type: "pm_book";
+  ts: number;
+  tokenId: string;
+  book: IUnifiedOrderbook;
+}
+
+export interface IPolymarketTradeEvent {
+  type: "pm_trade";
+  ts: number;
+  tokenId: string;
+  price: number;
+  size: number;
+  side: string;
+}
+
+/** Gamma API answer for an Up/Down slug, so discovery can be replayed offline */
+export interface IPolymarketMarketEvent {
+  type: "pm_market";
+  ts: number;
+  slug: string;
+  upTokenId: string;
+  downTokenId: string;
+  upPrice: number;
+  downPrice: number;
+}
+
+export interface IHyperliquidBookEvent {
+  type: "hl_book";
+  ts: number;
+  coin: string;
+  book: IUnifiedOrderbook;
+}
+
+export interface IKalshiBookEvent {
+  type: "kalshi_book";
+  ts: number;
+  ticker: string;
+  book: IUnifiedOrderbook;
+}
+
+export type ReplayEvent =
+  | IBinancePriceEvent
+  | IPolymarketBookEvent
+  | IPolymarketTradeEvent
+  | IPolymarketMarketEvent
+  | IHyperliquidBookEvent
+  | IKalshiBookEvent;
+
+// ==================== REPLAY RESULTS ====================
+
+/** A closed demo-wallet trade, stripped of random IDs so runs can be diffed */
+export interface IReplayTrade {
+  strategy: string;
+  exchange: string;
+  symbol: string;
+  side: "LONG" | "SHORT";
+  entryPrice: number;
+  size: number;
+  pnl: number;
+  openedAt: number;
+  closedAt: number;
+}
+
+export interface IReplayResult {
+  eventsProcessed: number;
+  startTs: number;
+  endTs: number;
+  ticks: number;
+  startingBalance: number;
+  finalEquity: number;
+  realizedPnl: number;
+  openPositions: number;
+  trades: IReplayTrade[];
+}
+
+// ==================== RECORDED SEGMENTS ====================
+// Recorder output: one gzip segment per exchange per UTC hour, each made of
+// appended gzip members holding JSONL ReplayEvents, plus an index.json.
+
+export type RecordedExchange = "binance" | "polymarket" | "hyperliquid" | "kalshi";
+
+export interface IRecordingSegment {
+  exchange: RecordedExchange;
+  hour: string;        // UTC hour bucket, e.g. "2026-02-27T07"
+  file: string;        // path relative to the recording directory
+  firstTs: number;
+  lastTs: number;
+  eventCount: number;
+  bytes: number;       // compressed size on disk
+}
+
+export interface IRecordingIndex {
+  version: 1;
+  createdAt: number;
+  updatedAt: number;
+  segments: IRecordingSegment[];
+}
+
+export interface IRecordedBook {
+  ts: number;
+  exchange: RecordedExchange;
+  symbol: string;      // token ID, coin or ticker
+  book: IUnifiedOrderbook;
+}
+
+export interface IRecordedPriceTick {
+  ts: number;
+  asset: string;
+  price: number;
+}
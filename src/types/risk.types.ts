@@ -14,6 +14,29 @@ export interface IContractAnalysis {
   flags: string[];
 }
 
+/**
+ * Result of simulating a small buy followed by selling everything it
+ * received, in one transaction. Percentages compare simulated balance
+ * changes with the quotes; unset when the step didn't run.
+ */
+export interface IRoundTripSimulation {
+  tokenAddress: string;
+  conclusive: boolean;        // false when RPC/quote problems prevented a verdict
+  buySucceeded: boolean;
+  sellSucceeded: boolean;
+  probeUsdc: number;
+  buyTaxPct?: number;         // tokens received short of the buy quote
+  sellTaxPct?: number;        // USDC received short of the sell quote
+  roundTripLossPct?: number;  // USDC lost buying and selling straight back
+  frozenAfterBuy: boolean;    // received token account is frozen
+  transferFeeBps: number;     // Token-2022 transfer fee extension
+  transferHookProgram?: string;
+  transferHookInvoked: boolean;
+  permanentDelegate: boolean;
+  error?: string;             // failing step and program error
+  flags: string[];
+}
+
 export interface ISentimentScore {
   tokenAddress: string;
   symbol: string;
@@ -0,0 +1,65 @@
+/**
+ * jupiter:     Jupiter Swap API (aggregates every major Solana venue)
+ * raydium:     Raydium Trade API (routes across Raydium AMM/CPMM/CLMM pools)
+ * direct_pool: constant-product math on the deepest Raydium AMM v4 pool
+ */
+export type SwapRouteId = "jupiter" | "raydium" | "direct_pool";
+
+/** All amounts are raw integer strings in the mint's smallest unit */
+export interface ISwapQuoteRequest {
+  inputMint: string;
+  outputMint: string;
+  amount: string;
+  taker: string;
+  slippageBps?: number;     // capped by the router's policy; defaults to the cap
+}
+
+/**
+ * One route's offer. outAmount is what the taker receives: pool and
+ * route fees and price impact are already taken out, so quotes from
+ * different routes compare directly.
+ */
+export interface ISwapQuote {
+  route: SwapRouteId;
+  inputMint: string;
+  outputMint: string;
+  inAmount: string;
+  outAmount: string;
+  minOutAmount: string;     // outAmount less slippage — the transaction reverts below it
+  slippageBps: number;
+  priceImpactPct: number;   // percent, excluding fees
+  feeAmount?: string;       // input-mint units, when the route reports it
+  label: string;            // venues/pools, e.g. "Raydium CLMM > Orca"
+  context?: unknown;        // route-specific payload needed to build the transaction
+}
+
+export type SwapQuoteRejection = "no_quote" | "error" | "price_impact" | "slippage" | "build_failed";
+
+export interface ISwapQuoteCandidate {
+  route: SwapRouteId;
+  outAmount?: string;
+  priceImpactPct?: number;
+  rejected?: SwapQuoteRejection;
+}
+
+/** The router's pick plus everything it compared against */
+export interface ISwapRouteDecision {
+  quote: ISwapQuote;
+  transaction: string;      // base64 unsigned VersionedTransaction
+  candidates: ISwapQuoteCandidate[];
+}
+
+/** Persisted on the position for each leg of a trade */
+export interface ISwapRouteRecord {
+  side: "buy" | "sell";
+  route: SwapRouteId;
+  label: string;
+  inAmount: string;
+  outAmount: string;
+  minOutAmount: string;
+  slippageBps: number;
+  priceImpactPct: number;
+  signature: string;
+  candidates: ISwapQuoteCandidate[];
+  timestamp: Date;
+}
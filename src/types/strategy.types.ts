@@ -1,3 +1,5 @@
+import { IRoundTripSimulation } from "./risk.types";
+
 export enum SignalDirection {
   BUY = "BUY",
   SELL = "SELL",
@@ -37,6 +39,7 @@ export interface IAggregatedSignal {
   passedRiskGate: boolean;
   riskScore?: number;
   timestamp: Date;
+  correlationId: string; // tags every log line from risk check to position close
 }
 
 export interface IStrategyResult {
@@ -58,6 +61,16 @@ export interface IStrategyConfig {
   circuitBreakerThreshold: number;
 }
 
+/** A persisted config that differs from the one last applied */
+export interface IStrategyConfigChange {
+  config: IStrategyConfig;
+  previous: IStrategyConfig | null; // null = first time this config is seen
+  enabledChanged: boolean;
+  weightChanged: boolean;
+  tierChanged: boolean;
+  needsReinit: boolean; // params, interval, breaker threshold, name or category changed
+}
+
 export interface IRiskAssessment {
   tokenAddress: string;
   overallScore: number; // 0-100
@@ -67,16 +80,64 @@ export interface IRiskAssessment {
   ownerConcentration: number;
   mintAuthority: boolean;
   freezeAuthority: boolean;
+  simulation?: IRoundTripSimulation; // buy-then-sell simulation, when enabled
   flags: string[];
   timestamp: Date;
 }
 
 export interface IExitStrategy {
-  takeProfitPct: number;
-  stopLossPct: number;
-  trailingStopPct?: number;
-  trailingStopActivatedAt?: number;
+  takeProfitPct: number;            // full exit, unless a trailing stop carries the rest
+  stopLossPct: number;              // below entry
+  trailingStopPct?: number;         // below the high-water price
+  trailingStopActivatedAt?: number; // PnL % that arms the trail (default: first partial, else at once)
   timeoutMinutes?: number;
+  partialTakeProfits?: IPartialTakeProfit[];
+  breakEvenAtPct?: number;          // PnL % that moves the stop up to entry
+}
+
+/** Sell `fraction` of the opening amount once PnL reaches `pnlPct` */
+export interface IPartialTakeProfit {
+  pnlPct: number;
+  fraction: number;
+}
+
+export type ExitReason =
+  | "take_profit"
+  | "stop_loss"
+  | "break_even"
+  | "trailing_stop"
+  | "timeout"
+  | "signal";
+
+/** What the exit engine asks the execution engine to sell */
+export interface IExitOrder {
+  reason: ExitReason;
+  level?: number;   // index into partialTakeProfits
+  final: boolean;   // close the position once it lands
+}
+
+/** One landed sell of a position, partial or final */
+export interface IExitLeg {
+  reason: ExitReason;
+  level?: number;
+  amount: number;   // tokens sold
+  price: number;    // USDC per token received
+  pnlPct: number;
+  signature: string;
+  timestamp: Date;
+}
+
+/** A sell whose outcome was unknown; booked once its signature settles */
+export interface IPendingExit {
+  leg: IExitLeg;    // as it lands, priced from the quote
+  final: boolean;
+}
+
+/** Exit progress that must survive a restart */
+export interface IExitState {
+  highWaterPrice: number;
+  breakEvenArmed: boolean;
+  trailingActive: boolean;
 }
 
 export interface IEntrySignal {
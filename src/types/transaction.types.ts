@@ -0,0 +1,34 @@
+export type TxCommitment = "processed" | "confirmed" | "finalized";
+
+/**
+ * landed:  reached the configured commitment without error
+ * failed:  landed with a program error (e.g. slippage exceeded) — not retried
+ * expired: every attempt's blockhash expired without the transaction landing
+ * unknown: the RPC could not tell in time; nothing was resent, it may still land
+ */
+export type TxOutcomeStatus = "landed" | "failed" | "expired" | "unknown";
+
+/** One submission attempt: a fresh blockhash, fee and signature */
+export interface ITxAttempt {
+  via: "jito" | "rpc";
+  signature: string;
+  lastValidBlockHeight?: number; // of the attempt's blockhash; lets an unknown outcome settle later
+  priorityFeeMicroLamports: number;
+  tipLamports?: number;
+  bundleId?: string;
+  result: TxOutcomeStatus | "dropped"; // dropped: Jito refused or failed the bundle
+  error?: string;
+}
+
+/** Final record of getting one swap on chain, persisted on the position */
+export interface ITxOutcome {
+  side: "buy" | "sell";
+  status: TxOutcomeStatus;
+  signature?: string;       // of the attempt that landed or failed
+  slot?: number;
+  commitment: TxCommitment;
+  attempts: ITxAttempt[];
+  latencyMs: number;        // first send to final status
+  error?: string;
+  timestamp: Date;
+}
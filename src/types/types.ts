@@ -1,3 +1,7 @@
+import { ISwapRouteRecord } from "./routing.types";
+import { IExitLeg, IExitState, IExitStrategy, IPendingExit } from "./strategy.types";
+import { ITxOutcome } from "./transaction.types";
+
 export interface UltraSwapRoutePlan {
   swapInfo: {
     ammKey: string;
@@ -69,7 +73,14 @@ export interface Position {
   avgBuyPrice: number;
   openTimestamp: Date;
   closeTimestamp?: Date;
-  status: "open" | "closed";
+  status: "pending" | "open" | "closed" | "failed";
   realizedPnl?: number;
   lastPrice?: number;
+  correlationId?: string;
+  routes?: ISwapRouteRecord[];
+  txOutcomes?: ITxOutcome[];
+  exitStrategy?: IExitStrategy;
+  exitState?: IExitState;
+  exitLegs?: IExitLeg[];
+  pendingExit?: IPendingExit;
 }
@@ -0,0 +1,18 @@
+/**
+ * Time source used by the engines. Production code runs on the wall clock;
+ * the replay harness swaps in a virtual clock so recorded sessions can be
+ * reproduced tick-for-tick.
+ */
+export type TimerHandle = NodeJS.Timeout | number;
+
+export interface IClock {
+  now(): number;
+  setInterval(callback: () => void, intervalMs: number): TimerHandle;
+  clearInterval(handle: TimerHandle): void;
+}
+
+export const systemClock: IClock = {
+  now: () => Date.now(),
+  setInterval: (callback, intervalMs) => setInterval(callback, intervalMs),
+  clearInterval: (handle) => clearInterval(handle as NodeJS.Timeout),
+};
@@ -0,0 +1,188 @@
+import fs from "fs";
+import path from "path";
+import chalk from "chalk";
+
+export type LogLevel = "debug" | "info" | "success" | "warning" | "error";
+
+/** Ordering for level filters; success is an info-level event */
+export const LOG_LEVEL_RANK: Record<LogLevel, number> = {
+  debug: 10,
+  info: 20,
+  success: 20,
+  warning: 30,
+  error: 40,
+};
+
+/** One log event as every sink receives it */
+export interface ILogRecord {
+  time: string;            // ISO 8601
+  level: LogLevel;
+  msg: string;
+  module?: string;
+  correlationId?: string;  // follows one signal through risk, execution and position
+  fields?: Record<string, unknown>;
+  error?: { message: string; stack?: string };
+}
+
+export interface ILogSink {
+  write(record: ILogRecord): void;
+  close?(): void;
+}
+
+// ==================== CONSOLE (PRETTY) ====================
+
+const PRETTY_STYLE: Record<LogLevel, { icon: string; color: (s: string) => string }> = {
+  debug: { icon: "·", color: chalk.gray },
+  info: { icon: "ℹ", color: chalk.blue },
+  success: { icon: "✔", color: chalk.green },
+  warning: { icon: "⚠", color: chalk.yellow },
+  error: { icon: "✖", color: chalk.red },
+};
+
+/**
+ * Human-readable coloured lines, the default for interactive runs.
+ * Errors go to stderr with the error message on the following line
+ * (stacks are kept in the structured sinks).
+ */
+export class ConsoleSink implements ILogSink {
+  write(record: ILogRecord): void {
+    const { icon, color } = PRETTY_STYLE[record.level];
+    const module = record.module ? `[${record.module}] ` : "";
+    const cid = record.correlationId ? chalk.gray(` (${record.correlationId})`) : "";
+    const line = color(`${icon} ${module}${record.msg}`) + cid;
+
+    if (record.level === "error") {
+      console.error(line);
+      if (record.error) console.error(color(record.error.message));
+    } else {
+      console.log(line);
+    }
+  }
+}
+
+// ==================== STDOUT (JSON) ====================
+
+/** One JSON object per line on stdout, for log shippers */
+export class JsonStdoutSink implements ILogSink {
+  write(record: ILogRecord): void {
+    process.stdout.write(JSON.stringify(record) + "\n");
+  }
+}
+
+// ==================== ROTATING FILE ====================
+
+export interface RotatingFileSinkOptions {
+  maxBytes?: number; // default 10 MB
+  maxFiles?: number; // default 5 — rotated copies kept as file.1 … file.N
+}
+
+/**
+ * JSON lines appended to a file. When a write would take the file past
+ * maxBytes it is renamed to `file.1` (shifting older copies up, dropping
+ * the oldest) and a fresh file is started. Writes are synchronous so the
+ * last lines before a crash are on disk.
+ */
+export class RotatingFileSink implements ILogSink {
+  private filePath: string;
+  private maxBytes: number;
+  private maxFiles: number;
+  private fd: number | null = null;
+  private size = 0;
+
+  constructor(filePath: string, options: RotatingFileSinkOptions = {}) {
+    this.filePath = filePath;
+    this.maxBytes = options.maxBytes ?? 10 * 1024 * 1024;
+    this.maxFiles = Math.max(1, options.maxFiles ?? 5);
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    this.open();
+  }
+
+  write(record: ILogRecord): void {
+    const line = JSON.stringify(record) + "\n";
+    const bytes = Buffer.byteLength(line);
+    if (this.size > 0 && this.size + bytes > this.maxBytes) this.rotate();
+    if (this.fd === null) return;
+
+    try {
+      fs.writeSync(this.fd, line);
+      this.size += bytes;
+    } catch (err: any) {
+      // Never let logging take the process down; report once and stop
+      console.error(`[Logger] Log file write failed (${this.filePath}): ${err.message}`);
+      this.close();
+    }
+  }
+
+  close(): void {
+    if (this.fd === null) return;
+    fs.closeSync(this.fd);
+    this.fd = null;
+  }
+
+  private open(): void {
+    this.fd = fs.openSync(this.filePath, "a");
+    this.size = fs.fstatSync(this.fd).size;
+  }
+
+  private rotate(): void {
+    this.close();
+    for (let i = this.maxFiles - 1; i >= 1; i--) {
+      const from = `${this.filePath}.${i}`;
+      if (fs.existsSync(from)) fs.renameSync(from, `${this.filePath}.${i + 1}`);
+    }
+    fs.renameSync(this.filePath, `${this.filePath}.1`);
+    const overflow = `${this.filePath}.${this.maxFiles + 1}`;
+    if (fs.existsSync(overflow)) fs.unlinkSync(overflow);
+    this.open();
+  }
+}
+
+// ==================== RING BUFFER ====================
+
+/** Filter for RingBufferSink.query — all fields optional, ANDed */
+export interface ILogQuery {
+  level?: LogLevel;        // minimum level
+  module?: string;
+  correlationId?: string;
+  since?: number;          // Unix ms
+  limit?: number;          // most recent N matches (default 200)
+}
+
+/** The last `capacity` records in memory, for the dashboard */
+export class RingBufferSink implements ILogSink {
+  private records: (ILogRecord | undefined)[];
+  private next = 0;
+  private count = 0;
+
+  constructor(private readonly capacity = 1000) {
+    this.records = new Array(capacity);
+  }
+
+  write(record: ILogRecord): void {
+    this.records[this.next] = record;
+    this.next = (this.next + 1) % this.capacity;
+    this.count = Math.min(this.count + 1, this.capacity);
+  }
+
+  /** Matching records, oldest first */
+  query(filter: ILogQuery = {}): ILogRecord[] {
+    const minRank = filter.level ? LOG_LEVEL_RANK[filter.level] : 0;
+    const limit = filter.limit ?? 200;
+    const matches: ILogRecord[] = [];
+
+    // Walk newest → oldest so `limit` keeps the most recent
+    for (let i = 1; i <= this.count && matches.length < limit; i++) {
+      const record = this.records[(this.next - i + this.capacity) % this.capacity]!;
+      if (LOG_LEVEL_RANK[record.level] < minRank) continue;
+      if (filter.module && record.module !== filter.module) continue;
+      if (filter.correlationId && record.correlationId !== filter.correlationId) continue;
+      if (filter.since && Date.parse(record.time) < filter.since) continue;
+      matches.push(record);
+    }
+    return matches.reverse();
+  }
+
+  size(): number {
+    return this.count;
+  }
+}
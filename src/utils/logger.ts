@@ -1,19 +1,133 @@
-import chalk from "chalk";
-
-export const logger = {
-  info: (message: string) => {
-    console.log(chalk.blue(`ℹ ${message}`));
-  },
-  success: (message: string) => {
-    console.log(chalk.green(`✔ ${message}`));
-  },
-  warning: (message: string) => {
-    console.log(chalk.yellow(`⚠ ${message}`));
-  },
-  error: (message: string, error?: any) => {
-    console.error(chalk.red(`✖ ${message}`));
-    if (error) {
-      console.error(chalk.red(error));
-    }
-  },
+import { AsyncLocalStorage } from "async_hooks";
+import crypto from "crypto";
+import { ConsoleSink, ILogRecord, ILogSink, LOG_LEVEL_RANK, LogLevel } from "./logSinks";
+
+/**
+ * Structured logger.
+ *
+ * Every call produces an ILogRecord that is fanned out to the configured
+ * sinks (pretty console by default; JSON stdout, rotating file and an
+ * in-memory ring buffer via configureLogger). `logger.child("Module")`
+ * tags records with the emitting module.
+ *
+ * Correlation IDs: code running inside withCorrelationId(id, fn) — and
+ * everything it awaits — logs with that id, so one signal can be traced
+ * through risk checks, order placement and position resolution without
+ * threading the id through every call.
+ */
+
+interface LoggerConfig {
+  level: LogLevel;
+  sinks: ILogSink[];
+}
+
+const config: LoggerConfig = {
+  level: "info",
+  sinks: [new ConsoleSink()],
 };
+
+const correlation = new AsyncLocalStorage<string>();
+
+export interface LoggerOptions {
+  level?: LogLevel;    // minimum level written (default info)
+  sinks?: ILogSink[];  // replaces the current sinks (default: pretty console)
+}
+
+/** Replace the global level and/or sinks; previous sinks are closed */
+export function configureLogger(options: LoggerOptions): void {
+  if (options.level) config.level = options.level;
+  if (options.sinks) {
+    const previous = config.sinks.filter((s) => !options.sinks!.includes(s));
+    config.sinks = options.sinks;
+    for (const sink of previous) sink.close?.();
+  }
+}
+
+/** Flush and close every sink (shutdown) */
+export function closeLogSinks(): void {
+  for (const sink of config.sinks) sink.close?.();
+}
+
+/** Run `fn` with `id` as the correlation ID of every record it logs */
+export function withCorrelationId<T>(id: string | undefined, fn: () => T): T {
+  return id ? correlation.run(id, fn) : fn();
+}
+
+export function currentCorrelationId(): string | undefined {
+  return correlation.getStore();
+}
+
+/** Short random ID, e.g. "c-3f9a1b2c4d5e" */
+export function newCorrelationId(): string {
+  return `c-${crypto.randomBytes(6).toString("hex")}`;
+}
+
+export class Logger {
+  private module?: string;
+  private fields?: Record<string, unknown>;
+
+  constructor(module?: string, fields?: Record<string, unknown>) {
+    this.module = module;
+    this.fields = fields;
+  }
+
+  /** Logger for a module; `fields` are attached to every record it writes */
+  child(module: string, fields?: Record<string, unknown>): Logger {
+    return new Logger(module, { ...this.fields, ...fields });
+  }
+
+  debug(message: string, fields?: Record<string, unknown>): void {
+    this.write("debug", message, undefined, fields);
+  }
+
+  info(message: string, fields?: Record<string, unknown>): void {
+    this.write("info", message, undefined, fields);
+  }
+
+  success(message: string, fields?: Record<string, unknown>): void {
+    this.write("success", message, undefined, fields);
+  }
+
+  warning(message: string, fields?: Record<string, unknown>): void {
+    this.write("warning", message, undefined, fields);
+  }
+
+  error(message: string, error?: any, fields?: Record<string, unknown>): void {
+    this.write("error", message, error, fields);
+  }
+
+  private write(level: LogLevel, msg: string, error: any, fields?: Record<string, unknown>): void {
+    if (LOG_LEVEL_RANK[level] < LOG_LEVEL_RANK[config.level]) return;
+
+    const merged = this.fields || fields ? { ...this.fields, ...fields } : undefined;
+    const record: ILogRecord = {
+      time: new Date().toISOString(),
+      level,
+      msg,
+      ...(this.module && { module: this.module }),
+      ...(currentCorrelationId() && { correlationId: currentCorrelationId() }),
+      ...(merged && { fields: merged }),
+      ...(error !== undefined && error !== null && { error: describeError(error) }),
+    };
+
+    for (const sink of config.sinks) {
+      try {
+        sink.write(record);
+      } catch {
+        // A failing sink must not break the caller or the other sinks
+      }
+    }
+  }
+}
+
+function describeError(error: any): { message: string; stack?: string } {
+  if (error instanceof Error) return { message: error.message, stack: error.stack };
+  if (typeof error === "string") return { message: error };
+  try {
+    return { message: JSON.stringify(error) };
+  } catch {
+    return { message: String(error) };
+  }
+}
+
+export const logger = new Logger();
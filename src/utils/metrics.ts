@@ -0,0 +1,307 @@
+import { logger } from "./logger";
+
+/**
+ * In-process metrics registry rendered in the Prometheus text exposition
+ * format (served by DashboardServer at /metrics).
+ *
+ * Counters and histograms are updated where things happen; values that
+ * are cheaper to read than to track (equity, exposure) are set by
+ * collectors that run just before each scrape.
+ */
+
+const log = logger.child("Metrics");
+
+type Labels = Record<string, string>;
+
+const DEFAULT_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10];
+
+abstract class Metric {
+  abstract readonly type: "counter" | "gauge" | "histogram";
+
+  constructor(
+    readonly name: string,
+    readonly help: string,
+    readonly labelNames: string[]
+  ) {}
+
+  abstract render(): string[];
+
+  /** Stable key for a label set: values in labelNames order */
+  protected key(labels: Labels = {}): string {
+    return this.labelNames.map((n) => labels[n] ?? "").join("\u0000");
+  }
+
+  protected formatLabels(key: string, extra?: Labels): string {
+    const values = key === "" && this.labelNames.length === 0 ? [] : key.split("\u0000");
+    const pairs = this.labelNames.map((n, i) => `${n}="${escapeLabel(values[i] ?? "")}"`);
+    for (const [n, v] of Object.entries(extra || {})) pairs.push(`${n}="${escapeLabel(v)}"`);
+    return pairs.length > 0 ? `{${pairs.join(",")}}` : "";
+  }
+}
+
+export class Counter extends Metric {
+  readonly type = "counter";
+  private values: Map<string, number> = new Map();
+
+  inc(labels?: Labels, value = 1): void {
+    if (value < 0) return; // counters only go up
+    const key = this.key(labels);
+    this.values.set(key, (this.values.get(key) || 0) + value);
+  }
+
+  get(labels?: Labels): number {
+    return this.values.get(this.key(labels)) || 0;
+  }
+
+  render(): string[] {
+    return [...this.values].map(([key, v]) => `${this.name}${this.formatLabels(key)} ${formatValue(v)}`);
+  }
+}
+
+export class Gauge extends Metric {
+  readonly type = "gauge";
+  private values: Map<string, number> = new Map();
+
+  set(value: number, labels?: Labels): void {
+    this.values.set(this.key(labels), value);
+  }
+
+  inc(labels?: Labels, value = 1): void {
+    const key = this.key(labels);
+    this.values.set(key, (this.values.get(key) || 0) + value);
+  }
+
+  get(labels?: Labels): number {
+    return this.values.get(this.key(labels)) || 0;
+  }
+
+  render(): string[] {
+    return [...this.values].map(([key, v]) => `${this.name}${this.formatLabels(key)} ${formatValue(v)}`);
+  }
+}
+
+interface HistogramSeries {
+  counts: number[]; // per bucket, not cumulative
+  sum: number;
+  count: number;
+}
+
+export class Histogram extends Metric {
+  readonly type = "histogram";
+  private buckets: number[];
+  private series: Map<string, HistogramSeries> = new Map();
+
+  constructor(name: string, help: string, labelNames: string[], buckets: number[]) {
+    super(name, help, labelNames);
+    this.buckets = [...buckets].sort((a, b) => a - b);
+  }
+
+  observe(value: number, labels?: Labels): void {
+    if (!Number.isFinite(value)) return;
+    const key = this.key(labels);
+    let s = this.series.get(key);
+    if (!s) {
+      s = { counts: new Array(this.buckets.length).fill(0), sum: 0, count: 0 };
+      this.series.set(key, s);
+    }
+    const i = this.buckets.findIndex((b) => value <= b);
+    if (i >= 0) s.counts[i]++;
+    s.sum += value;
+    s.count++;
+  }
+
+  /** Start a wall-clock timer; calling the result observes elapsed seconds */
+  startTimer(labels?: Labels): () => number {
+    const start = process.hrtime.bigint();
+    return () => {
+      const seconds = Number(process.hrtime.bigint() - start) / 1e9;
+      this.observe(seconds, labels);
+      return seconds;
+    };
+  }
+
+  render(): string[] {
+    const lines: string[] = [];
+    for (const [key, s] of this.series) {
+      let cumulative = 0;
+      this.buckets.forEach((b, i) => {
+        cumulative += s.counts[i];
+        lines.push(`${this.name}_bucket${this.formatLabels(key, { le: formatValue(b) })} ${cumulative}`);
+      });
+      lines.push(`${this.name}_bucket${this.formatLabels(key, { le: "+Inf" })} ${s.count}`);
+      lines.push(`${this.name}_sum${this.formatLabels(key)} ${formatValue(s.sum)}`);
+      lines.push(`${this.name}_count${this.formatLabels(key)} ${s.count}`);
+    }
+    return lines;
+  }
+}
+
+export class MetricsRegistry {
+  private metrics: Map<string, Metric> = new Map();
+  private collectors: (() => void | Promise<void>)[] = [];
+
+  counter(name: string, help: string, labelNames: string[] = []): Counter {
+    return this.register(name, () => new Counter(name, help, labelNames), Counter);
+  }
+
+  gauge(name: string, help: string, labelNames: string[] = []): Gauge {
+    return this.register(name, () => new Gauge(name, help, labelNames), Gauge);
+  }
+
+  histogram(
+    name: string,
+    help: string,
+    options: { labelNames?: string[]; buckets?: number[] } = {}
+  ): Histogram {
+    return this.register(
+      name,
+      () => new Histogram(name, help, options.labelNames || [], options.buckets || DEFAULT_BUCKETS),
+      Histogram
+    );
+  }
+
+  /** Run `collect` before every scrape, e.g. to set gauges from live state */
+  addCollector(collect: () => void | Promise<void>): void {
+    this.collectors.push(collect);
+  }
+
+  /** Text exposition format; a failing collector leaves its gauges stale */
+  async render(): Promise<string> {
+    for (const collect of this.collectors) {
+      try {
+        await collect();
+      } catch (err) {
+        log.debug(`Collector failed: ${(err as Error).message}`);
+      }
+    }
+
+    const out: string[] = [];
+    for (const metric of this.metrics.values()) {
+      out.push(`# HELP ${metric.name} ${metric.help.replace(/\\/g, "\\\\").replace(/\n/g, "\\n")}`);
+      out.push(`# TYPE ${metric.name} ${metric.type}`);
+      out.push(...metric.render());
+    }
+    return out.join("\n") + "\n";
+  }
+
+  /** Get-or-create, so modules sharing a metric can each declare it */
+  private register<T extends Metric>(name: string, create: () => T, kind: new (...args: any[]) => T): T {
+    const existing = this.metrics.get(name);
+    if (existing) {
+      if (!(existing instanceof kind)) {
+        throw new Error(`Metric ${name} is already registered as a ${existing.type}`);
+      }
+      return existing;
+    }
+    const metric = create();
+    this.metrics.set(name, metric);
+    return metric;
+  }
+}
+
+function escapeLabel(value: string): string {
+  return value.replace(/\\/g, "\\\\").replace(/\n/g, "\\n").replace(/"/g, '\\"');
+}
+
+function formatValue(v: number): string {
+  if (v === Infinity) return "+Inf";
+  if (v === -Infinity) return "-Inf";
+  return String(v);
+}
+
+export const metrics = new MetricsRegistry();
+
+// ==================== TRADING METRICS ====================
+
+export const tickDuration = metrics.histogram(
+  "bot_tick_duration_seconds",
+  "Wall-clock duration of one engine tick",
+  { labelNames: ["engine"], buckets: [0.001, 0.0025, 0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5] }
+);
+
+export const wsReconnects = metrics.counter(
+  "bot_ws_reconnects_total",
+  "WebSocket reconnect attempts",
+  ["feed"]
+);
+
+export const wsConnected = metrics.gauge(
+  "bot_ws_connected",
+  "1 while the feed's WebSocket is open",
+  ["feed"]
+);
+
+export const orderLatency = metrics.histogram(
+  "bot_order_placement_seconds",
+  "Round trip of an order placement request, accepted or not",
+  { labelNames: ["venue"], buckets: [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10] }
+);
+
+export const orderResults = metrics.counter(
+  "bot_orders_total",
+  "Order placement requests by outcome",
+  ["venue", "result"]
+);
+
+export const orderRejections = metrics.counter(
+  "bot_order_rejections_total",
+  "Rejected or failed order placements by reason",
+  ["venue", "reason"]
+);
+
+export const riskDenials = metrics.counter(
+  "bot_risk_denials_total",
+  "Trades blocked by a risk manager, by check",
+  ["manager", "reason"]
+);
+
+export const crossExchangeOpportunities = metrics.counter(
+  "bot_cross_exchange_opportunities_total",
+  "Cross-exchange opportunities detected by the multi-exchange engine",
+  ["type"]
+);
+
+export const swapQuotes = metrics.counter(
+  "bot_swap_quotes_total",
+  "Solana swap quotes by route and outcome (won, lost, or the rejection)",
+  ["route", "result"]
+);
+
+export const exitLegs = metrics.counter(
+  "bot_exit_legs_total",
+  "Landed Solana position sells by exit rule",
+  ["reason"]
+);
+
+export const openExposure = metrics.gauge(
+  "bot_open_exposure_usd",
+  "Capital in open positions",
+  ["book"]
+);
+
+export const equity = metrics.gauge(
+  "bot_equity_usd",
+  "Account equity including unrealized P&L",
+  ["account"]
+);
+
+/**
+ * Reduce a free-form rejection message to a low-cardinality label:
+ * lower-cased, numbers and ids masked, truncated.
+ */
+export function rejectionReason(error?: string): string {
+  if (!error) return "unknown";
+  return error
+    .toLowerCase()
+    .replace(/0x[0-9a-f]+/g, "#")
+    .replace(/\d+(\.\d+)?/g, "#")
+    .replace(/\s+/g, " ")
+    .trim()
+    .slice(0, 60);
+}
+
+/** Record one order placement outcome (latency is timed by the caller) */
+export function recordOrderResult(venue: string, success: boolean, error?: string): void {
+  orderResults.inc({ venue, result: success ? "accepted" : "rejected" });
+  if (!success) orderRejections.inc({ venue, reason: rejectionReason(error) });
+}
@@ -0,0 +1,120 @@
+/**
+ * Minimal MessagePack encoder.
+ *
+ * Covers the value types exchange actions are built from (null, booleans,
+ * integers, floats, strings, arrays, plain objects) and picks the smallest
+ * encoding for each, byte-for-byte like the reference msgpack
+ * implementations — signatures over encoded actions depend on it. Object
+ * keys are written in insertion order; undefined values are skipped.
+ */
+export function msgpackEncode(value: unknown): Uint8Array {
+  const out: number[] = [];
+  write(out, value);
+  return Uint8Array.from(out);
+}
+
+function write(out: number[], value: unknown): void {
+  if (value === null || value === undefined) {
+    out.push(0xc0);
+  } else if (typeof value === "boolean") {
+    out.push(value ? 0xc3 : 0xc2);
+  } else if (typeof value === "number") {
+    if (Number.isInteger(value)) writeInt(out, value);
+    else writeFloat64(out, value);
+  } else if (typeof value === "bigint") {
+    writeBigInt(out, value);
+  } else if (typeof value === "string") {
+    writeString(out, value);
+  } else if (Array.isArray(value)) {
+    writeHeader(out, value.length, 0x90, 16, 0xdc, 0xdd);
+    for (const item of value) write(out, item);
+  } else if (typeof value === "object") {
+    const entries = Object.entries(value as Record<string, unknown>).filter(([, v]) => v !== undefined);
+    writeHeader(out, entries.length, 0x80, 16, 0xde, 0xdf);
+    for (const [k, v] of entries) {
+      writeString(out, k);
+      write(out, v);
+    }
+  } else {
+    throw new Error(`msgpack: unsupported type ${typeof value}`);
+  }
+}
+
+function writeHeader(
+  out: number[],
+  length: number,
+  fixBase: number,
+  fixLimit: number,
+  code16: number,
+  code32: number
+): void {
+  if (length < fixLimit) {
+    out.push(fixBase | length);
+  } else if (length < 0x10000) {
+    out.push(code16, length >> 8, length & 0xff);
+  } else {
+    out.push(code32);
+    pushUint32(out, length);
+  }
+}
+
+function writeString(out: number[], value: string): void {
+  const bytes = Buffer.from(value, "utf8");
+  const len = bytes.length;
+  if (len < 32) {
+    out.push(0xa0 | len);
+  } else if (len < 0x100) {
+    out.push(0xd9, len);
+  } else if (len < 0x10000) {
+    out.push(0xda, len >> 8, len & 0xff);
+  } else {
+    out.push(0xdb);
+    pushUint32(out, len);
+  }
+  for (const b of bytes) out.push(b);
+}
+
+function writeInt(out: number[], value: number): void {
+  if (!Number.isSafeInteger(value)) {
+    writeBigInt(out, BigInt(value));
+  } else if (value >= 0) {
+    if (value < 0x80) out.push(value);
+    else if (value < 0x100) out.push(0xcc, value);
+    else if (value < 0x10000) out.push(0xcd, value >> 8, value & 0xff);
+    else if (value < 0x100000000) {
+      out.push(0xce);
+      pushUint32(out, value);
+    } else writeBigInt(out, BigInt(value));
+  } else {
+    if (value >= -0x20) out.push(value & 0xff);
+    else if (value >= -0x80) out.push(0xd0, value & 0xff);
+    else if (value >= -0x8000) out.push(0xd1, (value >> 8) & 0xff, value & 0xff);
+    else if (value >= -0x80000000) {
+      out.push(0xd2);
+      pushUint32(out, value >>> 0);
+    } else writeBigInt(out, BigInt(value));
+  }
+}
+
+function writeBigInt(out: number[], value: bigint): void {
+  const buf = Buffer.alloc(8);
+  if (value >= BigInt(0)) {
+    out.push(0xcf);
+    buf.writeBigUInt64BE(value);
+  } else {
+    out.push(0xd3);
+    buf.writeBigInt64BE(value);
+  }
+  for (const b of buf) out.push(b);
+}
+
+function writeFloat64(out: number[], value: number): void {
+  const buf = Buffer.alloc(8);
+  buf.writeDoubleBE(value);
+  out.push(0xcb);
+  for (const b of buf) out.push(b);
+}
+
+function pushUint32(out: number[], value: number): void {
+  out.push((value >>> 24) & 0xff, (value >>> 16) & 0xff, (value >>> 8) & 0xff, value & 0xff);
+}